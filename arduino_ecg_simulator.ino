@@ -10,14 +10,42 @@
  * - Combined signal: maternal + fetal + noise
  * - 250 Hz sampling rate (medical standard)
  * - Web Serial API compatible
+ * - Binary frames with sequence numbers, timestamps and CRC (or plain text lines)
+ * - Host commands: INFO, RATE, CHANNELS, START, STOP, LEADOFF, CALIBRATE
  *
  * Upload this to your Arduino to test the web app connection!
  */
 
 // Serial configuration (must match web app)
 const long BAUD_RATE = 115200;
-const int SAMPLE_RATE_HZ = 250;
-const int SAMPLE_INTERVAL_MS = 4;  // 1000ms / 250Hz = 4ms
+const int DEFAULT_SAMPLE_RATE_HZ = 250;
+
+// Reported by the INFO command
+const char* FIRMWARE_VERSION = "1.2.0";
+const char* BOARD_NAME = "simulator";
+const int CHANNEL_COUNT = 3;         // A0 maternal, A1 combined, A2 fetal
+const char* CHANNEL_INPUTS = "A0:maternal,A1:combined,A2:fetal";
+const int ADC_BITS = 10;
+const float REFERENCE_VOLTAGE = 5.0;
+
+// true: binary frames (lost or corrupted samples are detected by the web app)
+// false: text lines "A0:value,A1:value,A2:value" (readable in the Serial Monitor)
+const bool BINARY_PROTOCOL = true;
+
+// Binary frame: A5 5A | channels | sequence (u16 LE) | micros (u32 LE) | samples (i16 LE) | CRC-16 (u16 LE)
+const byte FRAME_SYNC_1 = 0xA5;
+const byte FRAME_SYNC_2 = 0x5A;
+uint16_t frameSequence = 0;
+
+// Settings changed by host commands
+int sampleRateHz = DEFAULT_SAMPLE_RATE_HZ;
+unsigned long sampleIntervalUs = 1000000UL / DEFAULT_SAMPLE_RATE_HZ;
+byte channelMask = 0x07;             // Bit i set = channel Ai is sent
+bool streaming = true;
+
+// Incoming command line: !<id> <COMMAND> [argument]
+char commandBuffer[48];
+byte commandLength = 0;
 
 // Timing
 unsigned long lastSampleTime = 0;
@@ -41,24 +69,37 @@ void setup() {
     delay(10);
   }
 
-  // Startup message
+  // Startup message; the web app reads the HELLO line to configure itself
   Serial.println("# Arduino ECG Simulator Ready");
+  printCapabilities("# HELLO");
+  Serial.println();
   Serial.println("# Maternal HR: 88 bpm");
   Serial.println("# Fetal HR: 160 bpm");
   Serial.println("# Sample Rate: 250 Hz");
-  Serial.println("# Format: A0:maternal,A1:combined,A2:fetal");
+  Serial.println("# ADC: 10 bit, 5.0 V reference");
+  if (BINARY_PROTOCOL) {
+    Serial.println("# Format: binary frames, channels maternal,combined,fetal");
+  } else {
+    Serial.println("# Format: A0:maternal,A1:combined,A2:fetal");
+  }
   Serial.println("# Starting data transmission...");
 
   // Initialize timing
-  lastSampleTime = millis();
+  lastSampleTime = micros();
   timeSeconds = 0.0;
 }
 
 void loop() {
-  unsigned long currentTime = millis();
+  readCommands();
+
+  if (!streaming) {
+    return;
+  }
+
+  unsigned long currentTime = micros();
 
-  // Send data at exactly 250 Hz (every 4ms)
-  if (currentTime - lastSampleTime >= SAMPLE_INTERVAL_MS) {
+  // Send data at the configured rate (every 4ms at 250 Hz)
+  if (currentTime - lastSampleTime >= sampleIntervalUs) {
     lastSampleTime = currentTime;
 
     // Generate maternal ECG waveform
@@ -71,16 +112,15 @@ void loop() {
     int combined = generateCombinedSignal(maternal, fetal);
 
     // Send data to web app
-    // Format: A0:value,A1:value,A2:value
-    Serial.print("A0:");
-    Serial.print(maternal);
-    Serial.print(",A1:");
-    Serial.print(combined);
-    Serial.print(",A2:");
-    Serial.println(fetal);
+    int values[CHANNEL_COUNT] = { maternal, combined, fetal };
+    if (BINARY_PROTOCOL) {
+      sendFrame(values);
+    } else {
+      sendTextLine(values);
+    }
 
     // Increment time
-    timeSeconds += 0.004;  // 4ms = 0.004 seconds
+    timeSeconds += 1.0 / sampleRateHz;
 
     // Reset time after 60 seconds to prevent float overflow
     if (timeSeconds >= 60.0) {
@@ -89,6 +129,208 @@ void loop() {
   }
 }
 
+/**
+ * Collect command characters and run each complete line
+ */
+void readCommands() {
+  while (Serial.available() > 0) {
+    char c = Serial.read();
+    if (c == '\n' || c == '\r') {
+      if (commandLength > 0) {
+        commandBuffer[commandLength] = '\0';
+        handleCommand(commandBuffer);
+        commandLength = 0;
+      }
+    } else if (commandLength < sizeof(commandBuffer) - 1) {
+      commandBuffer[commandLength++] = c;
+    }
+  }
+}
+
+/**
+ * Run one command and reply with "@<id> OK ..." or "@<id> ERR <message>"
+ */
+void handleCommand(char* line) {
+  if (line[0] != '!') {
+    return;
+  }
+  char* id = strtok(line + 1, " ");
+  char* command = strtok(NULL, " ");
+  char* argument = strtok(NULL, " ");
+  if (id == NULL || command == NULL) {
+    return;
+  }
+
+  if (strcmp(command, "INFO") == 0) {
+    Serial.print("@");
+    Serial.print(id);
+    printCapabilities(" OK");
+    Serial.print(" channels=");
+    Serial.print(CHANNEL_COUNT);
+    Serial.print(" mask=");
+    Serial.print(channelMask);
+    Serial.print(" streaming=");
+    Serial.println(streaming ? 1 : 0);
+  } else if (strcmp(command, "RATE") == 0) {
+    long rate = argument != NULL ? atol(argument) : 0;
+    if (rate < 50 || rate > 1000) {
+      replyError(id, "rate must be 50-1000 Hz");
+      return;
+    }
+    sampleRateHz = rate;
+    sampleIntervalUs = 1000000UL / rate;
+    beginReply(id);
+    Serial.print(" rate=");
+    Serial.println(sampleRateHz);
+  } else if (strcmp(command, "CHANNELS") == 0) {
+    int mask = argument != NULL ? atoi(argument) : 0;
+    if (mask < 1 || mask >= (1 << CHANNEL_COUNT)) {
+      replyError(id, "mask must select at least one channel");
+      return;
+    }
+    channelMask = mask;
+    beginReply(id);
+    Serial.print(" mask=");
+    Serial.println(channelMask);
+  } else if (strcmp(command, "START") == 0 || strcmp(command, "STOP") == 0) {
+    streaming = strcmp(command, "START") == 0;
+    lastSampleTime = micros();
+    beginReply(id);
+    Serial.println();
+  } else if (strcmp(command, "LEADOFF") == 0) {
+    // Simulated leads are always attached; with an AD8232 front end, read its LO+ and LO- pins here
+    beginReply(id);
+    Serial.print(" leads=");
+    for (int i = 0; i < CHANNEL_COUNT; i++) {
+      if (i > 0) Serial.print(",");
+      Serial.print((channelMask & (1 << i)) ? "ok" : "-");
+    }
+    Serial.println();
+  } else if (strcmp(command, "CALIBRATE") == 0) {
+    // Average one second of each channel to find its resting baseline
+    long sums[CHANNEL_COUNT] = { 0, 0, 0 };
+    for (int i = 0; i < sampleRateHz; i++) {
+      float t = (float)i / sampleRateHz;
+      int maternal = generateMaternalECG(t);
+      int fetal = generateFetalECG(t);
+      sums[0] += maternal;
+      sums[1] += generateCombinedSignal(maternal, fetal);
+      sums[2] += fetal;
+    }
+    beginReply(id);
+    Serial.print(" baseline=");
+    for (int i = 0; i < CHANNEL_COUNT; i++) {
+      if (i > 0) Serial.print(",");
+      if (channelMask & (1 << i)) {
+        Serial.print(sums[i] / sampleRateHz);
+      } else {
+        Serial.print("-");
+      }
+    }
+    Serial.println();
+  } else {
+    replyError(id, "unknown command");
+  }
+}
+
+/**
+ * Print the capability fields shared by the HELLO line and the INFO reply
+ */
+void printCapabilities(const char* prefix) {
+  Serial.print(prefix);
+  Serial.print(" fw=");
+  Serial.print(FIRMWARE_VERSION);
+  Serial.print(" board=");
+  Serial.print(BOARD_NAME);
+  Serial.print(" rate=");
+  Serial.print(sampleRateHz);
+  Serial.print(" inputs=");
+  Serial.print(CHANNEL_INPUTS);
+  Serial.print(" adc=");
+  Serial.print(ADC_BITS);
+  Serial.print(" vref=");
+  Serial.print(REFERENCE_VOLTAGE, 1);
+}
+
+void beginReply(const char* id) {
+  Serial.print("@");
+  Serial.print(id);
+  Serial.print(" OK");
+}
+
+void replyError(const char* id, const char* message) {
+  Serial.print("@");
+  Serial.print(id);
+  Serial.print(" ERR ");
+  Serial.println(message);
+}
+
+/**
+ * CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF), matching the web app
+ */
+uint16_t crc16(const byte* data, int length) {
+  uint16_t crc = 0xFFFF;
+  for (int i = 0; i < length; i++) {
+    crc ^= (uint16_t)data[i] << 8;
+    for (int bit = 0; bit < 8; bit++) {
+      crc = (crc & 0x8000) ? (crc << 1) ^ 0x1021 : crc << 1;
+    }
+  }
+  return crc;
+}
+
+/**
+ * Send one binary frame with the selected channels
+ */
+void sendFrame(const int* values) {
+  byte frame[9 + CHANNEL_COUNT * 2 + 2];
+  unsigned long timestamp = micros();
+  int channels = 0;
+
+  frame[0] = FRAME_SYNC_1;
+  frame[1] = FRAME_SYNC_2;
+  frame[3] = frameSequence & 0xFF;
+  frame[4] = frameSequence >> 8;
+  for (int i = 0; i < 4; i++) {
+    frame[5 + i] = (timestamp >> (8 * i)) & 0xFF;
+  }
+  for (int i = 0; i < CHANNEL_COUNT; i++) {
+    if (channelMask & (1 << i)) {
+      frame[9 + channels * 2] = values[i] & 0xFF;
+      frame[10 + channels * 2] = (values[i] >> 8) & 0xFF;
+      channels++;
+    }
+  }
+  frame[2] = channels;
+
+  // CRC covers everything after the sync bytes
+  uint16_t crc = crc16(frame + 2, 7 + channels * 2);
+  frame[9 + channels * 2] = crc & 0xFF;
+  frame[10 + channels * 2] = crc >> 8;
+
+  Serial.write(frame, 11 + channels * 2);
+  frameSequence++;
+}
+
+/**
+ * Send one text line with the selected channels
+ * Format: A0:value,A1:value,A2:value
+ */
+void sendTextLine(const int* values) {
+  bool first = true;
+  for (int i = 0; i < CHANNEL_COUNT; i++) {
+    if (channelMask & (1 << i)) {
+      if (!first) Serial.print(",");
+      Serial.print("A");
+      Serial.print(i);
+      Serial.print(":");
+      Serial.print(values[i]);
+      first = false;
+    }
+  }
+  Serial.println();
+}
+
 /**
  * Generate realistic maternal ECG waveform
  * Based on typical adult ECG morphology
@@ -2,23 +2,83 @@ import { useState, useEffect, useRef } from 'react'
 import ZoomableEKGChart from './components/ZoomableEKGChart'
 import ControlPanel from './components/ControlPanel'
 import HeartRateMonitor from './components/HeartRateMonitor'
+import HRVPanel from './components/HRVPanel'
+import FHRTrendStrip from './components/FHRTrendStrip'
+import NICHDCategoryPanel from './components/NICHDCategoryPanel'
+import AlarmStatusPanel from './components/AlarmStatusPanel'
+import AlarmEventReview from './components/AlarmEventReview'
+import SessionBrowser from './components/SessionBrowser'
+import ReplayControls from './components/ReplayControls'
+import SessionRecoveryModal from './components/SessionRecoveryModal'
+import SampleExportModal from './components/SampleExportModal'
 import ClearConfirmationModal from './components/ClearConfirmationModal'
 import ConfirmationModal from './components/ConfirmationModal'
-import { useArduinoSerial, SignalMapping } from './hooks/useArduinoSerial'
+import { useArduinoSerial, MONITOR_SAMPLE_RATE, SignalMapping } from './hooks/useArduinoSerial'
+import { useDeviceState } from './hooks/useDeviceState'
 import { useSimulatedData } from './hooks/useSimulatedData'
 import { useRealECGData } from './hooks/useRealECGData'
 import { useRawSignals, RawSignalPair } from './hooks/useRawSignals'
+import { useSessionReplay } from './hooks/useSessionReplay'
 import { useAlarmSound } from './hooks/useAlarmSound'
 import { createEKGSignalProcessor } from './utils/signalProcessor'
-import { storeDataPoint, getAllData, clearAllData, calculateBPM, signalToVoltage } from './utils/dataStorage'
+import { createAdaptiveMaternalCanceller, CancellerConvergence } from './utils/adaptiveCanceller'
+import { createMaternalTemplateSubtractor, TemplateExtractorStatus } from './utils/templateSubtraction'
+import { createSourceSeparator, SeparationStatus } from './utils/blindSourceSeparation'
+import { createRRIntervalRecorder, summarizeHRV, HRVSummary } from './utils/hrvAnalysis'
+import { analyzeCTG, CTGAnalysis, Contraction } from './utils/ctgAnalysis'
+import { classifyNICHD, getCategoryStatus, NICHDClassification } from './utils/nichdClassifier'
+import { createAlarmManager, statusToAlarmCondition, ActiveAlarm } from './utils/alarmManager'
+import {
+  createAlarmPauseController,
+  loadOperatorName,
+  saveOperatorName,
+  formatPauseCountdown,
+  AlarmAuditEntry,
+  AlarmPauseState
+} from './utils/alarmPause'
+import {
+  createTechnicalAlarmMonitor,
+  faultsToAlarmCondition,
+  signalLostOnChannels,
+  MonitoredChannel,
+  TechnicalFault
+} from './utils/technicalAlarms'
+import { AlarmEvent, HeartRateStatus, auditEntryToEvent } from './utils/alarmEventLog'
+import { useMonitoringConfig } from './hooks/useMonitoringConfig'
+import {
+  createSession,
+  endSession,
+  getSessions,
+  getUnfinishedSessions,
+  deleteSession,
+  MonitoringSession,
+  UnfinishedSession,
+  getSessionSamples,
+  sampleToDataPoint,
+  storeAlarmEvent,
+  getSessionEvents,
+  storeAnnotation,
+  getSessionAnnotations,
+  calculateBPM,
+  signalToVoltage
+} from './utils/dataStorage'
+import { sampleWriter } from './utils/sampleWriter'
 import { exportToExcel } from './utils/excelExport'
 import { normalizeArduinoSignal } from './utils/signalNormalization'
+import { ADCSpec, DEFAULT_ADC, adcFromCapabilities, adcMax, signalMappingFromCapabilities } from './utils/deviceCapabilities'
 import StopConfirmationModal from './components/StopConfirmationModal'
 import SignalPairChangeModal from './components/SignalPairChangeModal'
 import './App.css'
 
 export type ScreenType = 'mother' | 'combined' | 'fetal'
-export type ViewMode = 'standard' | 'split' | 'comparison' | 'focus-fetal'
+export type ViewMode = 'standard' | 'split' | 'comparison' | 'focus-fetal' | 'fhr-trend' | 'alarm-review' | 'sessions'
+// Live sources, or 'replay' of a stored session
+export type DataSource = 'simulated' | 'real' | 'arduino' | 'raw' | 'replay'
+// 'direct' = use the fetal trace the source provides (subtraction for raw pairs, fetal channel for Arduino)
+// 'adaptive' = NLMS cancellation of the maternal reference from the combined lead
+// 'template' = maternal PQRST template subtraction from the combined lead alone
+// 'ica' = blind source separation of all channels, sources classified by heart rate band
+export type FetalExtractionMethod = 'direct' | 'adaptive' | 'template' | 'ica'
 
 export interface EKGDataPoint {
   time: number
@@ -29,22 +89,69 @@ export interface EKGDataPoint {
 
 export type RawSignalSelection = RawSignalPair
 
+const EMPTY_HRV: { maternal: HRVSummary, fetal: HRVSummary } = {
+  maternal: { shortTerm: null, session: null },
+  fetal: { shortTerm: null, session: null }
+}
+
+const STATUS_SEVERITY = { normal: 0, warning: 1, critical: 2 }
+
+// Raw channels each displayed heart rate is derived from (losing the signal on any of them blanks it)
+const MATERNAL_INPUTS: Record<FetalExtractionMethod, MonitoredChannel[]> = {
+  direct: ['maternal'],
+  adaptive: ['maternal'],
+  template: ['maternal'],
+  ica: ['maternal', 'combined', 'fetal']
+}
+const FETAL_INPUTS: Record<FetalExtractionMethod, MonitoredChannel[]> = {
+  direct: ['fetal'],
+  adaptive: ['maternal', 'combined'],
+  template: ['combined'],
+  ica: ['maternal', 'combined', 'fetal']
+}
+
+function sameFaults(a: TechnicalFault[], b: TechnicalFault[]): boolean {
+  return a.length === b.length && a.every((fault, i) => fault.message === b[i].message)
+}
+
 function App() {
   const [currentScreen, setCurrentScreen] = useState<ScreenType>('fetal')
   const [viewMode, setViewMode] = useState<ViewMode>('standard')
   const [isMonitoring, setIsMonitoring] = useState(false)
-  const [dataSource, setDataSource] = useState<'simulated' | 'real' | 'arduino' | 'raw'>('raw')
+  const [dataSource, setDataSource] = useState<DataSource>('raw')
   const [isDevelopmentMode, setIsDevelopmentMode] = useState(true)
   const [rawSignalSelection, setRawSignalSelection] = useState<RawSignalSelection>('pair01')
+  const [fetalExtraction, setFetalExtraction] = useState<FetalExtractionMethod>('adaptive')
+  const [cancellerConvergence, setCancellerConvergence] = useState<CancellerConvergence | null>(null)
+  const [templateStatus, setTemplateStatus] = useState<TemplateExtractorStatus | null>(null)
+  const [separationStatus, setSeparationStatus] = useState<SeparationStatus | null>(null)
+  const [hrv, setHRV] = useState<{ maternal: HRVSummary, fetal: HRVSummary }>(EMPTY_HRV)
+  const [ctgAnalysis, setCTGAnalysis] = useState<CTGAnalysis | null>(null)
+  const [contractions, setContractions] = useState<Contraction[]>([])
+  const [nichdClassification, setNICHDClassification] = useState<NICHDClassification | null>(null)
+  const [alarmFollowsCategory, setAlarmFollowsCategory] = useState(false)
   const [ekgData, setEKGData] = useState<EKGDataPoint[]>([])
   const [resetZoomKey, setResetZoomKey] = useState(0) // Key to trigger zoom reset
   const [fetalStatus, setFetalStatus] = useState<'normal' | 'warning' | 'critical'>('normal')
   const [maternalStatus, setMaternalStatus] = useState<'normal' | 'warning' | 'critical'>('normal')
   const [controlPanelHeight, setControlPanelHeight] = useState(320)
   const [isResizing, setIsResizing] = useState(false)
-  const [isAlarmSilenced, setIsAlarmSilenced] = useState(false)
+  const [activeAlarms, setActiveAlarms] = useState<ActiveAlarm[]>([])
+  const [soundedAlarm, setSoundedAlarm] = useState<ActiveAlarm | null>(null)
+  const [alarmPauseState, setAlarmPauseState] = useState<AlarmPauseState>({ pausedUntil: null, pausedPriority: null, acknowledged: [] })
+  const [alarmAuditLog, setAlarmAuditLog] = useState<AlarmAuditEntry[]>([])
+  const [operatorName, setOperatorName] = useState(loadOperatorName)
+  const [technicalFaults, setTechnicalFaults] = useState<TechnicalFault[]>([])
+  const [alarmEvents, setAlarmEvents] = useState<AlarmEvent[]>([])
+  const [reviewSessionId, setReviewSessionId] = useState<number | null>(null) // Session shown in alarm review
+  const [recordingSessionId, setRecordingSessionId] = useState<number | null>(null)
+  const [patientId, setPatientId] = useState('')
   const [heartbeatBeepEnabled, setHeartbeatBeepEnabled] = useState(true)
   const [showClearConfirmation, setShowClearConfirmation] = useState(false)
+  const [unfinishedSessions, setUnfinishedSessions] = useState<UnfinishedSession[]>([])
+  const [showRecovery, setShowRecovery] = useState(false)
+  const [recoveryBusyId, setRecoveryBusyId] = useState<number | null>(null)
+  const [sampleExport, setSampleExport] = useState<{ sessionId: number, range: [number, number] | null } | null>(null)
   const [showStopConfirmation, setShowStopConfirmation] = useState(false)
   const [showSignalPairChangeConfirmation, setShowSignalPairChangeConfirmation] = useState(false)
   const [pendingSignalPair, setPendingSignalPair] = useState<RawSignalPair | null>(null)
@@ -53,12 +160,26 @@ function App() {
   
   // Data storage for Excel export
   const storedDataRef = useRef<EKGDataPoint[]>([])
+  // Recording session in IndexedDB (a promise, so writes made before it exists still land in it)
+  const sessionRef = useRef<Promise<number | null> | null>(null)
+  const reviewSessionIdRef = useRef<number | null>(null)
+  reviewSessionIdRef.current = reviewSessionId
+  const recordingSessionIdRef = useRef<number | null>(null)
+  recordingSessionIdRef.current = recordingSessionId
+  // Source to return to when a replay ends
+  const liveDataSourceRef = useRef<DataSource>('raw')
   const bpmCalculationWindow = useRef<{ maternal: number[], fetal: number[] }>({ maternal: [], fetal: [] })
+  // Heart rates stored with each sample; recalculated once per second rather than per sample
+  const storedBPMRef = useRef({ maternal: 0, fetal: 0, index: -Infinity })
   const [signalMapping, setSignalMapping] = useState<SignalMapping>({
     channel1: 'maternal',
     channel2: 'combined',
     channel3: 'fetal'
   })
+  // Converter of the connected device, as reported in its handshake
+  const adcRef = useRef<ADCSpec>(DEFAULT_ADC)
+  // Full scale the serial worker normalizes the device's combined lead to before filtering
+  const [arduinoAdcMax, setArduinoAdcMax] = useState(adcMax(DEFAULT_ADC))
 
   // Alarm metrics tracking
   const [fetalAlarmMetrics, setFetalAlarmMetrics] = useState({
@@ -84,10 +205,54 @@ function App() {
   // Signal processor for noise removal (combined signal only)
   const signalProcessorRef = useRef(createEKGSignalProcessor(250))
 
+  // Adaptive canceller for maternal ECG removal (learns maternal -> abdominal transfer)
+  const maternalCancellerRef = useRef(createAdaptiveMaternalCanceller(250))
+
+  // Template subtractor for single-lead recordings (combined channel only)
+  const templateSubtractorRef = useRef(createMaternalTemplateSubtractor(250))
+
+  // Windowed ICA over all available channels
+  const sourceSeparatorRef = useRef(createSourceSeparator(250))
+
+  // Beat-to-beat RR intervals for the whole session (HRV analysis)
+  const rrRecorderRef = useRef(createRRIntervalRecorder(250))
+
+  // Prioritised alarms per source (fetal, maternal, technical)
+  const alarmManagerRef = useRef(createAlarmManager())
+
+  // Timed audio pause, per-alarm acknowledgement and their audit log
+  const alarmPauseRef = useRef(createAlarmPauseController())
+  const monitoringConfig = useMonitoringConfig()
+
+  // Lead-off, saturation, noise and signal-loss checks on the raw input
+  const technicalMonitorRef = useRef(createTechnicalAlarmMonitor(250))
+
+  // Last logged state per alarm source, so only transitions become events
+  const loggedStatusRef = useRef<Record<'fetal' | 'maternal', HeartRateStatus>>({ fetal: 'normal', maternal: 'normal' })
+  const loggedTechnicalRef = useRef<string | null>(null)
+
+  const resetFetalExtractors = () => {
+    maternalCancellerRef.current.reset()
+    templateSubtractorRef.current.reset()
+    sourceSeparatorRef.current.reset()
+  }
+
+  // Fetal alarm status: heart rate thresholds, optionally raised by the NICHD category
+  // (the category adds to the rate thresholds, it never suppresses them)
+  const categoryStatus = getCategoryStatus(nichdClassification?.category ?? null)
+  const fetalAlarmStatus = alarmFollowsCategory && STATUS_SEVERITY[categoryStatus] > STATUS_SEVERITY[fetalStatus]
+    ? categoryStatus
+    : fetalStatus
+
+  // Heart rates derived from an input with no usable signal are blanked rather than shown stale;
+  // a clipped or noisy input only raises its low-priority alarm and leaves patient alarms as they are
+  const maternalSignalFault = signalLostOnChannels(technicalFaults, MATERNAL_INPUTS[fetalExtraction])
+  const fetalSignalFault = signalLostOnChannels(technicalFaults, FETAL_INPUTS[fetalExtraction])
+
   // Check if any vital is critical for screen flashing
-  const isCritical = fetalStatus === 'critical' || maternalStatus === 'critical'
+  const isCritical = fetalAlarmStatus === 'critical' || maternalStatus === 'critical'
 
-  // Note: Alarm silence is now a persistent toggle, not auto-reset
+  // Note: Alarm audio pause is timed and re-arms automatically
 
   // Track alarm metrics when critical status changes
   useEffect(() => {
@@ -102,7 +267,7 @@ function App() {
 
   // Update alarm metrics based on status changes
   useEffect(() => {
-    if (fetalStatus === 'critical' && criticalDetectionTimeRef.current) {
+    if (fetalAlarmStatus === 'critical' && criticalDetectionTimeRef.current) {
       const alarmActivationTime = performance.now()
       const responseTime = alarmActivationTime - criticalDetectionTimeRef.current
 
@@ -117,7 +282,7 @@ function App() {
         avgResponseTimeMs: avgResponseTime
       }))
     }
-  }, [fetalStatus])
+  }, [fetalAlarmStatus])
 
   useEffect(() => {
     if (maternalStatus === 'critical' && criticalDetectionTimeRef.current) {
@@ -137,37 +302,390 @@ function App() {
     }
   }, [maternalStatus])
 
-  // Activate alarm sound when critical status detected and not silenced
-  const shouldPlayAlarm = isCritical && !isAlarmSilenced
-  useAlarmSound(shouldPlayAlarm)
+  // The highest-priority alarm that is neither paused nor acknowledged is sounded
+  const highestAlarm = activeAlarms[0] ?? null
+  const isAudioPaused = alarmPauseState.pausedUntil !== null
+  useAlarmSound(soundedAlarm)
+
+  // Re-evaluate escalation, pause expiry and breakthrough, then publish the alarm state
+  const refreshAlarms = () => {
+    const manager = alarmManagerRef.current
+    const pause = alarmPauseRef.current
+    manager.tick()
+    const alarms = manager.getActiveAlarms()
+    setSoundedAlarm(pause.update(alarms))
+    setActiveAlarms(alarms)
+    setAlarmPauseState(pause.getState())
+    setAlarmAuditLog(pause.getLog())
+  }
+
+  const handleToggleAudioPause = () => {
+    const operator = operatorName.trim() || null
+    if (isAudioPaused) {
+      alarmPauseRef.current.resume(activeAlarms, operator)
+    } else {
+      alarmPauseRef.current.pause(activeAlarms, operator, monitoringConfig.alarmPause.audioPauseMs)
+    }
+    refreshAlarms()
+  }
+
+  const handleAcknowledgeAlarm = (alarm: ActiveAlarm) => {
+    alarmPauseRef.current.acknowledge(alarm, operatorName.trim() || null, monitoringConfig.alarmPause.acknowledgeMs)
+    refreshAlarms()
+  }
+
+  const handleOperatorNameChange = (name: string) => {
+    setOperatorName(name)
+    saveOperatorName(name)
+  }
+
+  // Start a new recording session with the patient, operator, source and configuration in force
+  const beginSession = () => {
+    if (dataSource === 'replay') return // Replays are not recorded again
+
+    const session = createSession({
+      startedAt: Date.now(),
+      endedAt: null,
+      patientId: patientId.trim(),
+      operator: operatorName.trim(),
+      dataSource,
+      signalPair: dataSource === 'raw' ? rawSignalSelection : null,
+      fetalExtraction,
+      signalMapping: dataSource === 'arduino' || !isDevelopmentMode ? signalMapping : null,
+      monitoringConfig,
+      sampleRate: 250,
+      adc: dataSource === 'arduino' || !isDevelopmentMode ? adcRef.current : null,
+      sampleCount: 0,
+      summary: null
+    }).catch(err => {
+      console.error('Error creating session:', err)
+      return null
+    })
+    sessionRef.current = session
+    setAlarmEvents([])
+    session.then(id => {
+      if (id === null) return
+      setReviewSessionId(id)
+      setRecordingSessionId(id)
+    })
+  }
+
+  // Carry on recording into a session that was interrupted (page reload or crash)
+  const resumeSession = (session: MonitoringSession) => {
+    const id = session.id!
+    sessionRef.current = Promise.resolve(id)
+    setPatientId(session.patientId)
+    setReviewSessionId(id)
+    setRecordingSessionId(id)
+    getSessionEvents(id)
+      .then(setAlarmEvents)
+      .catch(err => console.error('Error loading session events:', err))
+  }
+
+  // Close the current session; resolves with its id once it is marked finished
+  const finishSession = async (): Promise<number | null> => {
+    const session = sessionRef.current
+    sessionRef.current = null
+    const id = session ? await session : null
+    if (id !== null) {
+      // Queued samples must be in the database before the summary is computed and the session exported
+      await sampleWriter.flush().catch(err => console.error('Error writing samples:', err))
+      await endSession(id).catch(err => console.error('Error ending session:', err))
+      setRecordingSessionId(current => current === id ? null : current)
+    }
+    return id
+  }
+
+  // Write to the current session (nothing is stored while not recording)
+  const writeToSession = (write: (sessionId: number) => unknown, what: string) => {
+    sessionRef.current
+      ?.then(id => id !== null ? write(id) : undefined)
+      .catch(err => console.error(`Error storing ${what}:`, err))
+  }
+
+  // Persist an alarm event at the current recording position
+  const recordAlarmEvent = (event: AlarmEvent) => {
+    writeToSession(
+      sessionId => storeAlarmEvent(sessionId, event)
+        .then(id => {
+          // Only shown if the review is on this session (it may be showing an older one)
+          if (reviewSessionIdRef.current === sessionId) {
+            setAlarmEvents(prev => [...prev, { ...event, sessionId, id }])
+          }
+        }),
+      'alarm event'
+    )
+  }
+
+  // Lost frames and reconnection outages still took device time: keep the time axis on the device clock
+  // (the RR recorder follows it through the data points' times)
+  const skipArduinoGap = (missed: number, reconnected: boolean) => {
+    if (missed) sampleCounter.current += missed
+    if (reconnected) {
+      writeToSession(sessionId => storeAnnotation({
+        sessionId,
+        time: sampleCounter.current / 250,
+        timestamp: Date.now(),
+        kind: 'note',
+        text: `Arduino reconnected after ${(missed / 250).toFixed(1)} s without signal`
+      }), 'annotation')
+    }
+  }
+
+  // Review the most recent session from a previous page load (after recovering samples a crash left in the write-ahead log)
+  useEffect(() => {
+    sampleWriter.recoverLog()
+      .then(count => {
+        if (count > 0) console.warn(`Recovered ${count} samples from the write-ahead log`)
+      })
+      .catch(err => console.error('Error recovering samples:', err))
+      .then(getSessions)
+      .then(async sessions => {
+        const latest = sessions[0]
+        if (!latest?.id || sessionRef.current) return
+        const events = await getSessionEvents(latest.id)
+        setReviewSessionId(latest.id)
+        setAlarmEvents(events)
+      })
+      .catch(err => console.error('Error loading sessions:', err))
+      .then(openRecovery)
+  }, [])
+
+  // Offer to export, resume or discard sessions that were never stopped
+  const openRecovery = () => {
+    getUnfinishedSessions()
+      .then(unfinished => {
+        // The session being recorded right now is not interrupted
+        const recordingId = recordingSessionIdRef.current
+        const interrupted = unfinished.filter(recovered => recovered.session.id !== recordingId)
+        setUnfinishedSessions(interrupted)
+        setShowRecovery(interrupted.length > 0)
+      })
+      .catch(err => console.error('Error checking for unfinished sessions:', err))
+  }
+
+  const removeUnfinished = (sessionId: number) => {
+    setUnfinishedSessions(prev => {
+      const remaining = prev.filter(recovered => recovered.session.id !== sessionId)
+      if (remaining.length === 0) setShowRecovery(false)
+      return remaining
+    })
+  }
+
+  // Close the session at its last sample and export it
+  const handleRecoveryExport = async ({ session, lastTimestamp }: UnfinishedSession) => {
+    const id = session.id!
+    setRecoveryBusyId(id)
+    try {
+      await endSession(id, lastTimestamp ?? session.startedAt)
+      const samples = await getSessionSamples(id)
+      await exportToExcel(samples)
+      console.log(`Exported ${samples.length} recovered data points to Excel`)
+      removeUnfinished(id)
+    } catch (error) {
+      console.error('Error exporting recovered session:', error)
+      alert('Error exporting the recovered session. It has been kept; please try again.')
+    } finally {
+      setRecoveryBusyId(null)
+    }
+  }
+
+  // Start monitoring again, appending after the last stored sample
+  const handleRecoveryResume = (recovered: UnfinishedSession) => {
+    if (isMonitoring) return
+    if (dataSource === 'replay') handleExitReplay()
+    removeUnfinished(recovered.session.id!)
+    setShowRecovery(false)
+    startMonitoring(recovered)
+  }
+
+  const handleRecoveryDiscard = async ({ session }: UnfinishedSession) => {
+    const id = session.id!
+    setRecoveryBusyId(id)
+    try {
+      await deleteSession(id)
+      removeUnfinished(id)
+      if (reviewSessionIdRef.current === id) {
+        setReviewSessionId(null)
+        setAlarmEvents([])
+      }
+    } catch (error) {
+      console.error('Error discarding session:', error)
+    } finally {
+      setRecoveryBusyId(null)
+    }
+  }
+
+  // Pause, resume, re-arm, breakthrough and acknowledgement actions
+  useEffect(() => {
+    return alarmPauseRef.current.onAudit(entry => {
+      recordAlarmEvent(auditEntryToEvent(entry, sampleCounter.current / 250))
+    })
+  }, [])
+
+  // Fetal and maternal status transitions, with the heart rate at onset
+  useEffect(() => {
+    const transitions = [
+      { source: 'fetal' as const, status: fetalAlarmStatus, window: bpmCalculationWindow.current.fetal },
+      { source: 'maternal' as const, status: maternalStatus, window: bpmCalculationWindow.current.maternal }
+    ]
+    transitions.forEach(({ source, status, window }) => {
+      if (loggedStatusRef.current[source] === status) return
+      loggedStatusRef.current[source] = status
+      const bpm = calculateBPM(window, 250, source === 'fetal' ? 'fetal' : 'maternal')
+      recordAlarmEvent({
+        timestamp: Date.now(),
+        time: sampleCounter.current / 250,
+        kind: 'status',
+        source,
+        status,
+        priority: null,
+        message: `${source === 'fetal' ? 'Fetal' : 'Maternal'} status ${status === 'normal' ? 'returned to normal' : status}`,
+        bpm: bpm > 0 ? bpm : null,
+        operator: null
+      })
+    })
+  }, [fetalAlarmStatus, maternalStatus])
 
   // Debug logging
   useEffect(() => {
     console.log('Alarm status:', {
       isCritical,
-      isAlarmSilenced,
-      shouldPlayAlarm,
+      isAudioPaused,
+      soundedPriority: soundedAlarm?.priority ?? null,
       fetalStatus,
+      fetalAlarmStatus,
       maternalStatus
     })
-  }, [isCritical, isAlarmSilenced, shouldPlayAlarm, fetalStatus, maternalStatus])
+  }, [isCritical, isAudioPaused, soundedAlarm?.priority, fetalStatus, fetalAlarmStatus, maternalStatus])
 
   // Arduino serial connection
   const {
     isConnected,
+    connectionState: arduinoConnection,
+    unsupportedRate: unsupportedDeviceRate,
     connect: connectArduino,
     disconnect: disconnectArduino,
-    getQueuedData,
-    hasQueuedData
+    getQueuedBatches,
+    hasQueuedData,
+    resetFilters: resetArduinoFilters
   } = useArduinoSerial({
     onUnsupportedBrowser: () => setShowBrowserErrorModal(true),
     onConnectionError: () => setShowConnectionErrorModal(true),
-    signalMapping: signalMapping
+    signalMapping: signalMapping,
+    // Single-value devices stream the abdominal lead when template extraction is used
+    singleValueSignal: fetalExtraction === 'template' ? 'combined' : 'fetal',
+    adcMax: arduinoAdcMax
   })
 
+  // Noise filters for every source: local ones, and the serial worker's for the device
+  const resetNoiseFilters = () => {
+    signalProcessorRef.current.reset()
+    resetArduinoFilters()
+  }
+
+  // Once the connection handshake settles, configure mapping, ADC scaling and filters from what
+  // the device reported (a recording in progress keeps its settings)
+  const device = useDeviceState()
+  const deviceCapabilities = device.handshakeComplete ? device.capabilities : null
+  const isMonitoringRef = useRef(isMonitoring)
+  isMonitoringRef.current = isMonitoring
+  useEffect(() => {
+    if (isMonitoringRef.current) return
+    adcRef.current = adcFromCapabilities(deviceCapabilities)
+    setArduinoAdcMax(adcMax(adcRef.current))
+    const mapping = deviceCapabilities && signalMappingFromCapabilities(deviceCapabilities)
+    if (mapping) setSignalMapping(mapping)
+  }, [deviceCapabilities])
+
+  // Feed the current fetal, maternal and technical conditions into the alarm manager
+  useEffect(() => {
+    const manager = alarmManagerRef.current
+    const fetalMessage = fetalStatus !== 'normal'
+      ? `Fetal heart rate ${fetalStatus === 'critical' ? 'critical' : 'outside normal range'}`
+      : `FHR Category ${nichdClassification?.category}`
+    manager.setCondition('fetal', statusToAlarmCondition(fetalAlarmStatus, fetalMessage))
+    manager.setCondition('maternal', statusToAlarmCondition(
+      maternalStatus,
+      `Maternal heart rate ${maternalStatus === 'critical' ? 'critical' : 'outside normal range'}`
+    ))
+    // A disconnected device implies the data gap, so report only the disconnection
+    const isDisconnected = isMonitoring && dataSource === 'arduino' && !isConnected
+    const disconnectedMessage = arduinoConnection === 'reconnecting'
+      ? 'Arduino connection lost - reconnecting'
+      : 'Arduino disconnected - no signal'
+    const deviceFaults: TechnicalFault[] = isDisconnected
+      ? [
+          { type: 'data-gap', channel: null, message: disconnectedMessage },
+          ...technicalFaults.filter(fault => fault.type !== 'data-gap')
+        ]
+      : technicalFaults
+    // A device the monitor can't process is refused outright, which must not look like a quiet link
+    const faults: TechnicalFault[] = isMonitoring && dataSource === 'arduino' && unsupportedDeviceRate !== null
+      ? [
+          {
+            type: 'sample-rate',
+            channel: null,
+            message: `Device samples at ${unsupportedDeviceRate} Hz - the monitor needs ${MONITOR_SAMPLE_RATE} Hz, data ignored`
+          },
+          ...deviceFaults.filter(fault => fault.type !== 'data-gap' && fault.type !== 'sample-rate')
+        ]
+      : deviceFaults
+    const technicalCondition = faultsToAlarmCondition(faults)
+    manager.setCondition('technical', technicalCondition)
+    refreshAlarms()
+
+    // Technical alarms raised, changed or cleared
+    const technicalKey = technicalCondition ? `${technicalCondition.priority}:${technicalCondition.message}` : null
+    if (technicalKey !== loggedTechnicalRef.current) {
+      loggedTechnicalRef.current = technicalKey
+      recordAlarmEvent({
+        timestamp: Date.now(),
+        time: sampleCounter.current / 250,
+        kind: 'technical',
+        source: 'technical',
+        status: null,
+        priority: technicalCondition?.priority ?? null,
+        message: technicalCondition?.message ?? 'Technical alarm cleared',
+        bpm: null,
+        operator: null
+      })
+    }
+  }, [fetalStatus, fetalAlarmStatus, maternalStatus, nichdClassification, isMonitoring, dataSource, isConnected, arduinoConnection, unsupportedDeviceRate, technicalFaults])
+
+  // Escalate persisting alarms and run the pause countdown
+  useEffect(() => {
+    const interval = setInterval(refreshAlarms, 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Watch the raw stream while monitoring; timing and ADC checks only apply to the device
+  useEffect(() => {
+    const monitor = technicalMonitorRef.current
+    if (!isMonitoring) {
+      monitor.reset()
+      setTechnicalFaults([])
+      return
+    }
+
+    const isDevice = dataSource === 'arduino' || (!isDevelopmentMode && dataSource !== 'replay')
+    monitor.configure({ adcMax: isDevice ? adcMax(adcRef.current) : null, checkTiming: isDevice })
+    monitor.start()
+
+    const interval = setInterval(() => {
+      const faults = monitor.evaluate()
+      setTechnicalFaults(prev => sameFaults(prev, faults) ? prev : faults)
+    }, 1000)
+
+    return () => clearInterval(interval)
+  }, [isMonitoring, dataSource, isDevelopmentMode])
+
   // Simulated data generator
   const simulatedData = useSimulatedData('normal')
 
+  // Replay of stored sessions
+  const sessionReplay = useSessionReplay()
+
   // Real ECG data loader (PhysioNet data)
   const realECGData = useRealECGData({ autoLoop: true })
 
@@ -190,11 +708,12 @@ function App() {
   }
 
   const handleSignalPairChangeConfirm = () => {
-    // Stop monitoring if running
+    // Stop monitoring if running (the recording stays saved as a session)
     if (isMonitoring) {
       setIsMonitoring(false)
       setFetalStatus('normal')
       setMaternalStatus('normal')
+      finishSession()
     }
 
     // Clear all data
@@ -202,12 +721,14 @@ function App() {
     storedDataRef.current = []
     bpmCalculationWindow.current = { maternal: [], fetal: [] }
     sampleCounter.current = 0
-    signalProcessorRef.current.reset()
+    rrRecorderRef.current.reset()
+    setContractions([])
+    setCTGAnalysis(null)
+    setNICHDClassification(null)
+    resetNoiseFilters()
+    resetFetalExtractors()
     setResetZoomKey(prev => prev + 1)
     
-    // Clear stored data
-    clearAllData().catch(err => console.error('Error clearing stored data:', err))
-    
     // Reset data sources
     simulatedData.reset()
     realECGData.reset()
@@ -239,42 +760,91 @@ function App() {
   useEffect(() => {
     if (!isMonitoring) return
 
-    // PRODUCTION MODE: Only allow Arduino data
-    if (!isDevelopmentMode && dataSource !== 'arduino') {
+    // PRODUCTION MODE: Only allow Arduino data (or the replay of a stored recording)
+    if (!isDevelopmentMode && dataSource !== 'arduino' && dataSource !== 'replay') {
       console.warn('Production mode requires Arduino connection')
       return
     }
 
     // PRODUCTION MODE: Require active Arduino connection
-    if (!isDevelopmentMode && !isConnected) {
+    if (!isDevelopmentMode && dataSource !== 'replay' && !isConnected) {
       console.warn('Production mode requires active Arduino connection')
       return
     }
 
+    // Derive the displayed maternal and fetal traces according to the selected extraction method
+    const extractSignals = (mother: number, combined: number, providedFetus: number): { mother: number, fetus: number } => {
+      switch (fetalExtraction) {
+        case 'adaptive':
+          return { mother, fetus: maternalCancellerRef.current.processSample(mother, combined).fetal }
+        case 'template':
+          return { mother, fetus: templateSubtractorRef.current.processSample(combined) }
+        case 'ica': {
+          // All channels go in; roles come from the separated sources' heart rates.
+          // Until the first window is analysed, show the source's own traces.
+          const separated = sourceSeparatorRef.current.processSample([mother, combined, providedFetus])
+          return separated
+            ? { mother: separated.maternal, fetus: separated.fetal }
+            : { mother, fetus: providedFetus }
+        }
+        default:
+          return { mother, fetus: providedFetus }
+      }
+    }
+
     const interval = setInterval(() => {
       const newDataPoints: EKGDataPoint[] = []
+      const newInputs: Array<Record<MonitoredChannel, number>> = []
 
-      // PRODUCTION MODE: ONLY use Arduino data
-      if (!isDevelopmentMode) {
+      // Inputs as received go to the technical monitor and are stored next to the displayed traces
+      const receive = (input: Record<MonitoredChannel, number>) => {
+        technicalMonitorRef.current.processSample(input)
+        newInputs.push(input)
+      }
+
+      if (dataSource === 'replay') {
+        // Stored traces are already filtered and extracted: they join the pipeline after those stages
+        for (const sample of sessionReplay.takeDue()) {
+          receive({ maternal: sample.mother, combined: sample.combined, fetal: sample.fetus })
+          newDataPoints.push({
+            time: sampleCounter.current / 250,
+            mother: sample.mother,
+            combined: sample.combined,
+            fetus: sample.fetus
+          })
+          sampleCounter.current++
+        }
+      } else if (!isDevelopmentMode) {
+        // PRODUCTION MODE: ONLY use Arduino data
         // Process ALL queued Arduino data points (prevents data loss)
         if (hasQueuedData()) {
-          const queuedData = getQueuedData()
-          for (const arduinoSample of queuedData) {
-            // Normalize Arduino ADC values (0-1023) to display range
-            const normalizedMother = normalizeArduinoSignal(arduinoSample.mother)
-            const normalizedFetus = normalizeArduinoSignal(arduinoSample.fetus)
-            const normalizedCombined = normalizeArduinoSignal(arduinoSample.combined)
-            
-            // Apply noise removal to combined signal ONLY
-            const cleanedCombined = signalProcessorRef.current.processSample(normalizedCombined)
-
-            newDataPoints.push({
-              time: sampleCounter.current / 250,
-              mother: normalizedMother,
-              combined: cleanedCombined, // ← FILTERED COMBINED SIGNAL
-              fetus: normalizedFetus
-            })
-            sampleCounter.current++
+          // Batches from the serial worker: parsed, mapped and with the combined lead already filtered
+          for (const batch of getQueuedBatches()) {
+            for (let i = 0; i < batch.count; i++) {
+              skipArduinoGap(batch.missed[i], batch.reconnected && i === 0)
+              receive({
+                maternal: batch.mother[i],
+                combined: batch.combined[i],
+                fetal: batch.fetus[i]
+              })
+
+              // Normalize Arduino ADC values (0 to full scale) to display range
+              const fullScale = adcMax(adcRef.current)
+              const normalizedMother = normalizeArduinoSignal(batch.mother[i], fullScale)
+              const normalizedFetus = normalizeArduinoSignal(batch.fetus[i], fullScale)
+              const normalizedCombined = normalizeArduinoSignal(batch.combined[i], fullScale)
+
+              // Extraction uses the unfiltered leads so both see the same path
+              const extracted = extractSignals(normalizedMother, normalizedCombined, normalizedFetus)
+
+              newDataPoints.push({
+                time: sampleCounter.current / 250,
+                mother: extracted.mother,
+                combined: batch.filteredCombined[i], // ← FILTERED COMBINED SIGNAL
+                fetus: extracted.fetus
+              })
+              sampleCounter.current++
+            }
           }
         } else {
           return // Skip if no Arduino data available
@@ -284,39 +854,53 @@ function App() {
         if (dataSource === 'arduino') {
           // Process ALL queued Arduino data points
           if (hasQueuedData()) {
-            const queuedData = getQueuedData()
-            for (const arduinoSample of queuedData) {
-              // Normalize Arduino ADC values (0-1023) to display range
-              const normalizedMother = normalizeArduinoSignal(arduinoSample.mother)
-              const normalizedFetus = normalizeArduinoSignal(arduinoSample.fetus)
-              const normalizedCombined = normalizeArduinoSignal(arduinoSample.combined)
-              
-              const cleanedCombined = signalProcessorRef.current.processSample(normalizedCombined)
-
-              newDataPoints.push({
-                time: sampleCounter.current / 250,
-                mother: normalizedMother,
-                combined: cleanedCombined, // ← FILTERED COMBINED SIGNAL
-                fetus: normalizedFetus
-              })
-              sampleCounter.current++
+            for (const batch of getQueuedBatches()) {
+              for (let i = 0; i < batch.count; i++) {
+                skipArduinoGap(batch.missed[i], batch.reconnected && i === 0)
+                receive({
+                  maternal: batch.mother[i],
+                  combined: batch.combined[i],
+                  fetal: batch.fetus[i]
+                })
+
+                // Normalize Arduino ADC values (0 to full scale) to display range
+                const fullScale = adcMax(adcRef.current)
+                const normalizedMother = normalizeArduinoSignal(batch.mother[i], fullScale)
+                const normalizedFetus = normalizeArduinoSignal(batch.fetus[i], fullScale)
+                const normalizedCombined = normalizeArduinoSignal(batch.combined[i], fullScale)
+
+                const extracted = extractSignals(normalizedMother, normalizedCombined, normalizedFetus)
+
+                newDataPoints.push({
+                  time: sampleCounter.current / 250,
+                  mother: extracted.mother,
+                  combined: batch.filteredCombined[i], // ← FILTERED COMBINED SIGNAL
+                  fetus: extracted.fetus
+                })
+                sampleCounter.current++
+              }
             }
           }
         } else if (dataSource === 'raw') {
           // Use raw signal files (01-08) - apply noise removal to combined signal
           const rawData = rawSignalsData.getSample()
+          receive({ maternal: rawData.mother, combined: rawData.combined, fetal: rawData.fetus })
           const cleanedCombined = signalProcessorRef.current.processSample(rawData.combined)
 
+          // Adaptive cancellation / template subtraction replace plain subtraction when selected
+          const extracted = extractSignals(rawData.mother, rawData.combined, rawData.fetus)
+
           newDataPoints.push({
             time: sampleCounter.current / 250,
-            mother: rawData.mother,
+            mother: extracted.mother,
             combined: cleanedCombined, // ← FILTERED COMBINED SIGNAL
-            fetus: rawData.fetus
+            fetus: extracted.fetus
           })
           sampleCounter.current++
         } else if (dataSource === 'real') {
           // Use real PhysioNet ECG data - apply noise removal to combined signal
           const realData = realECGData.getSample()
+          receive({ maternal: realData.mother, combined: realData.combined, fetal: realData.fetus })
           const cleanedCombined = signalProcessorRef.current.processSample(realData.combined)
 
           newDataPoints.push({
@@ -329,6 +913,7 @@ function App() {
         } else {
           // Use simulated data - apply noise removal to combined signal
           const simData = simulatedData.getSample()
+          receive({ maternal: simData.mother, combined: simData.combined, fetal: simData.fetus })
           const cleanedCombined = signalProcessorRef.current.processSample(simData.combined)
 
           newDataPoints.push({
@@ -343,6 +928,8 @@ function App() {
 
       // Add all new data points to the chart and store for Excel export
       if (newDataPoints.length > 0) {
+        newDataPoints.forEach(point => rrRecorderRef.current.processSample(point.mother, point.fetus, point.time))
+
         setEKGData(prev => {
           const updated = [...prev, ...newDataPoints]
           const displayData = updated.slice(-maxDataPoints) // Keep only last 5 seconds for display
@@ -364,31 +951,264 @@ function App() {
             }
           })
           
-          // Store data points with BPM and voltage calculations (async, don't block)
-          newDataPoints.forEach(point => {
-            const maternalBPM = calculateBPM(bpmCalculationWindow.current.maternal, 250)
-            const fetalBPM = calculateBPM(bpmCalculationWindow.current.fetal, 250)
-            
-            storeDataPoint({
-              time: point.time,
-              timestamp: Date.now(),
-              maternalVoltage: signalToVoltage(point.mother),
-              fetalVoltage: signalToVoltage(point.fetus),
-              combinedVoltage: signalToVoltage(point.combined),
-              maternalBPM,
-              fetalBPM
-            }).catch(err => console.error('Error storing data point:', err))
-          })
-          
           return displayData
         })
+
+        // Queue data points with BPM and voltage calculations for the batched session writer
+        const index = Math.round(newDataPoints[newDataPoints.length - 1].time * 250)
+        const storedBPM = storedBPMRef.current
+        if (Math.abs(index - storedBPM.index) >= 250) {
+          storedBPMRef.current = {
+            maternal: calculateBPM(bpmCalculationWindow.current.maternal, 250),
+            fetal: calculateBPM(bpmCalculationWindow.current.fetal, 250, 'fetal'),
+            index
+          }
+        }
+        const { maternal: maternalBPM, fetal: fetalBPM } = storedBPMRef.current
+        const timestamp = Date.now()
+
+        writeToSession(sessionId => sampleWriter.append(newDataPoints.map((point, i) => ({
+          sessionId,
+          index: Math.round(point.time * 250),
+          time: point.time,
+          timestamp,
+          maternalVoltage: signalToVoltage(point.mother, adcMax(adcRef.current), adcRef.current.referenceVoltage),
+          fetalVoltage: signalToVoltage(point.fetus, adcMax(adcRef.current), adcRef.current.referenceVoltage),
+          combinedVoltage: signalToVoltage(point.combined, adcMax(adcRef.current), adcRef.current.referenceVoltage),
+          maternalBPM,
+          fetalBPM,
+          mother: point.mother,
+          combined: point.combined,
+          fetus: point.fetus,
+          rawMother: newInputs[i]?.maternal ?? null,
+          rawCombined: newInputs[i]?.combined ?? null,
+          rawFetus: newInputs[i]?.fetal ?? null
+        }))), 'data points')
       }
     }, 4) // 250 Hz = 4ms interval
 
     return () => clearInterval(interval)
-  }, [isMonitoring, dataSource, getQueuedData, hasQueuedData, simulatedData, realECGData, isDevelopmentMode, isConnected])
+  }, [isMonitoring, dataSource, getQueuedBatches, hasQueuedData, simulatedData, realECGData, isDevelopmentMode, isConnected, fetalExtraction, sessionReplay.takeDue])
+
+  // Poll extractor status for display (twice per second is plenty for a status readout)
+  useEffect(() => {
+    setCancellerConvergence(null)
+    setTemplateStatus(null)
+    setSeparationStatus(null)
+    if (!isMonitoring || fetalExtraction === 'direct') return
+
+    const interval = setInterval(() => {
+      if (fetalExtraction === 'adaptive') {
+        setCancellerConvergence(maternalCancellerRef.current.getConvergence())
+      } else if (fetalExtraction === 'template') {
+        setTemplateStatus(templateSubtractorRef.current.getStatus())
+      } else {
+        setSeparationStatus(sourceSeparatorRef.current.getStatus())
+      }
+    }, 500)
+
+    return () => clearInterval(interval)
+  }, [isMonitoring, fetalExtraction])
+
+  // Recompute HRV from the RR interval history (spectral analysis is too heavy per sample)
+  useEffect(() => {
+    if (!isMonitoring) return
+
+    const interval = setInterval(() => {
+      setHRV({
+        maternal: summarizeHRV(rrRecorderRef.current.getIntervals('maternal'), 'maternal'),
+        fetal: summarizeHRV(rrRecorderRef.current.getIntervals('fetal'), 'fetal')
+      })
+    }, 2000)
+
+    return () => clearInterval(interval)
+  }, [isMonitoring])
+
+  // Re-interpret the FHR trend and its NICHD category (also immediately when a contraction is marked)
+  useEffect(() => {
+    if (!isMonitoring) return
+
+    const update = () => {
+      const analysis = analyzeCTG(rrRecorderRef.current.getIntervals('fetal'), contractions)
+      setCTGAnalysis(analysis)
+      setNICHDClassification(classifyNICHD(analysis, contractions.map(c => c.time)))
+    }
+    update()
+    const interval = setInterval(update, 5000)
+
+    return () => clearInterval(interval)
+  }, [isMonitoring, contractions])
+
+  // Stored samples of the reviewed session between two recording times
+  const loadSessionWaveform = async (startTime: number, endTime: number): Promise<EKGDataPoint[]> => {
+    if (reviewSessionId === null) return []
+    const samples = await getSessionSamples(reviewSessionId, Math.max(0, Math.round(startTime * 250)), Math.round(endTime * 250))
+    return samples.map(sampleToDataPoint).filter((point): point is EKGDataPoint => point !== null)
+  }
+
+  const handleMarkContraction = () => {
+    const time = sampleCounter.current / 250
+    setContractions(prev => [...prev, { time }])
+    writeToSession(sessionId => storeAnnotation({
+      sessionId,
+      time,
+      timestamp: Date.now(),
+      kind: 'contraction',
+      text: 'Contraction'
+    }), 'annotation')
+  }
+
+  // Restart everything downstream of the data source at a replay position (sample index)
+  const resetReplayPipeline = (index: number) => {
+    setEKGData([])
+    storedDataRef.current = []
+    bpmCalculationWindow.current = { maternal: [], fetal: [] }
+    sampleCounter.current = index
+    rrRecorderRef.current.reset(index / 250)
+    setCTGAnalysis(null)
+    setNICHDClassification(null)
+    setHRV(EMPTY_HRV)
+    technicalMonitorRef.current.start()
+    setResetZoomKey(prev => prev + 1)
+  }
+
+  const handleReplaySession = async (sessionId: number) => {
+    if (isMonitoring && dataSource !== 'replay') return
+    if (!await sessionReplay.load(sessionId)) return
+
+    const [events, annotations] = await Promise.all([getSessionEvents(sessionId), getSessionAnnotations(sessionId)])
+      .catch(err => {
+        console.error('Error loading session events:', err)
+        return [[], []] as const
+      })
+
+    if (dataSource !== 'replay') {
+      liveDataSourceRef.current = dataSource
+    }
+    setDataSource('replay')
+    resetReplayPipeline(0)
+    setContractions(annotations.filter(a => a.kind === 'contraction').map(a => ({ time: a.time })))
+    setReviewSessionId(sessionId)
+    setAlarmEvents([...events])
+    setViewMode('standard')
+    setIsMonitoring(true)
+    sessionReplay.play()
+  }
+
+  // Play an EDF+/BDF+ file or WFDB record through the monitor; its annotations mark contractions
+  const handleReplayFiles = async (files: File[]) => {
+    if (isMonitoring && dataSource !== 'replay') return
+    const source = await sessionReplay.loadFiles(files)
+    if (!source) return
+
+    if (dataSource !== 'replay') {
+      liveDataSourceRef.current = dataSource
+    }
+    setDataSource('replay')
+    resetReplayPipeline(0)
+    setContractions(source.annotations
+      .filter(annotation => /contraction/i.test(annotation.text))
+      .map(annotation => ({ time: annotation.onset })))
+    setReviewSessionId(null)
+    setAlarmEvents([])
+    setViewMode('standard')
+    setIsMonitoring(true)
+    sessionReplay.play()
+  }
+
+  const handleReplayPlayPause = () => {
+    if (sessionReplay.isPlaying) {
+      sessionReplay.pause()
+    } else {
+      if (!isMonitoring) setIsMonitoring(true)
+      sessionReplay.play()
+    }
+  }
+
+  const handleReplaySeek = (seconds: number) => {
+    resetReplayPipeline(sessionReplay.seek(seconds))
+  }
+
+  const handleExitReplay = () => {
+    sessionReplay.unload()
+    setIsMonitoring(false)
+    setFetalStatus('normal')
+    setMaternalStatus('normal')
+    setEKGData([])
+    setContractions([])
+    setDataSource(liveDataSourceRef.current)
+  }
+
+  // Show a session's alarm events in the review view
+  const handleReviewSession = (sessionId: number) => {
+    getSessionEvents(sessionId)
+      .then(events => {
+        setReviewSessionId(sessionId)
+        setAlarmEvents(events)
+        setViewMode('alarm-review')
+      })
+      .catch(err => console.error('Error loading session events:', err))
+  }
+
+  // Session behind the charts: the one being recorded, or the stored session being replayed
+  const chartSessionId = recordingSessionId ?? (dataSource === 'replay' ? sessionReplay.source?.sessionId ?? null : null)
+  const handleExportChartRange = chartSessionId !== null
+    ? (range: [number, number]) => setSampleExport({ sessionId: chartSessionId, range })
+    : undefined
+
+  const handleFetalExtractionChange = (method: FetalExtractionMethod) => {
+    // Relearn from scratch so weights from a different method/source don't leak in
+    resetFetalExtractors()
+    setFetalExtraction(method)
+  }
+
+  // Starting monitoring - clear data and reset zoom/pan. Records a new session, or
+  // appends to an interrupted one after its last sample
+  const startMonitoring = (resume: UnfinishedSession | null = null) => {
+    const startIndex = resume?.lastIndex != null ? resume.lastIndex + 1 : 0
+    setEKGData([])
+    storedDataRef.current = []
+    bpmCalculationWindow.current = { maternal: [], fetal: [] }
+    sampleCounter.current = startIndex
+    rrRecorderRef.current.reset(startIndex / 250)
+    setContractions([])
+    setCTGAnalysis(null)
+    setNICHDClassification(null)
+    resetNoiseFilters() // Reset signal processor filters
+    resetFetalExtractors()
+    setResetZoomKey(prev => prev + 1) // Trigger zoom reset
+    if (resume) {
+      resumeSession(resume.session)
+      // Mark the interruption; the samples' wall clock timestamps show how long it lasted
+      writeToSession(sessionId => storeAnnotation({
+        sessionId,
+        time: startIndex / 250,
+        timestamp: Date.now(),
+        kind: 'note',
+        text: 'Recording resumed after interruption'
+      }), 'annotation')
+    } else {
+      beginSession() // Previous recordings are kept as their own sessions
+    }
+    setIsMonitoring(true)
+  }
 
   const handleStartStop = () => {
+    // Replay: stop pauses where it is, start plays the recording again from the beginning
+    if (dataSource === 'replay') {
+      if (isMonitoring) {
+        sessionReplay.pause()
+        setIsMonitoring(false)
+        setFetalStatus('normal')
+        setMaternalStatus('normal')
+      } else {
+        resetReplayPipeline(sessionReplay.seek(0))
+        setIsMonitoring(true)
+        sessionReplay.play()
+      }
+      return
+    }
+
     if (!isMonitoring) {
       // GUARDRAIL: Auto-clear when restarting after stop to prevent signal mixing
       if (ekgData.length > 0) {
@@ -398,10 +1218,15 @@ function App() {
         storedDataRef.current = []
         bpmCalculationWindow.current = { maternal: [], fetal: [] }
         sampleCounter.current = 0
+        rrRecorderRef.current.reset()
+        setContractions([])
+        setCTGAnalysis(null)
+        setNICHDClassification(null)
         simulatedData.reset()
         realECGData.reset()
         rawSignalsData.reset()
-        signalProcessorRef.current.reset() // Reset signal processor filters
+        resetNoiseFilters() // Reset signal processor filters
+        resetFetalExtractors()
         setResetZoomKey(prev => prev + 1)
         setFetalAlarmMetrics({
           lastAlarmTime: null,
@@ -417,18 +1242,9 @@ function App() {
         })
         criticalDetectionTimeRef.current = null
         responseTimes.current = []
-        clearAllData().catch(err => console.error('Error clearing stored data:', err))
       }
 
-      // Starting monitoring - clear data and reset zoom/pan
-      setEKGData([])
-      storedDataRef.current = []
-      bpmCalculationWindow.current = { maternal: [], fetal: [] }
-      sampleCounter.current = 0
-      signalProcessorRef.current.reset() // Reset signal processor filters
-      setResetZoomKey(prev => prev + 1) // Trigger zoom reset
-      clearAllData().catch(err => console.error('Error clearing stored data:', err))
-      setIsMonitoring(true)
+      startMonitoring()
     } else {
       // Stopping monitoring - show confirmation modal
       if (storedDataRef.current.length > 0) {
@@ -438,6 +1254,7 @@ function App() {
         setIsMonitoring(false)
         setFetalStatus('normal')
         setMaternalStatus('normal')
+        finishSession()
       }
     }
   }
@@ -449,8 +1266,9 @@ function App() {
     setShowStopConfirmation(false)
 
     try {
-      // Get all stored data
-      const allStoredData = await getAllData()
+      // Get all data of the session just recorded
+      const sessionId = await finishSession()
+      const allStoredData = sessionId !== null ? await getSessionSamples(sessionId) : []
       
       if (allStoredData.length > 0) {
         // Export to Excel
@@ -458,10 +1276,9 @@ function App() {
         console.log(`Exported ${allStoredData.length} data points to Excel`)
       }
       
-      // Clear stored data after export
+      // Release the in-memory copy; the session stays in IndexedDB
       storedDataRef.current = []
       bpmCalculationWindow.current = { maternal: [], fetal: [] }
-      await clearAllData()
     } catch (error) {
       console.error('Error exporting to Excel:', error)
       alert('Error exporting data to Excel. Please try again.')
@@ -484,13 +1301,25 @@ function App() {
   }
 
   const performClear = () => {
+    // Recording time restarts from zero, so carry on in a fresh session
+    if (isMonitoring) {
+      finishSession()
+      beginSession()
+    }
+
     // Clear all data and metrics
     setEKGData([])
     sampleCounter.current = 0
+    rrRecorderRef.current.reset()
+    setContractions([])
+    setCTGAnalysis(null)
+    setNICHDClassification(null)
+    setHRV(EMPTY_HRV)
       simulatedData.reset()
       realECGData.reset()
       rawSignalsData.reset()
-      signalProcessorRef.current.reset() // Reset signal processor filters
+      resetNoiseFilters() // Reset signal processor filters
+      resetFetalExtractors()
     setResetZoomKey(prev => prev + 1) // Trigger zoom reset
     // Reset status to normal to stop any alarms
     setFetalStatus('normal')
@@ -515,13 +1344,14 @@ function App() {
 
   const handleConnectArduino = async () => {
     if (!isDevelopmentMode) {
-      // In production mode, actually connect to Arduino
-      if (isConnected) {
+      // In production mode, actually connect to Arduino (a click while reconnecting stops trying)
+      if (isConnected || arduinoConnection === 'reconnecting') {
         disconnectArduino()
         setDataSource('simulated')
       } else {
         const success = await connectArduino()
         if (success) {
+          if (dataSource === 'replay') handleExitReplay()
           setDataSource('arduino')
         }
       }
@@ -529,8 +1359,8 @@ function App() {
   }
 
   const handleToggleDevelopmentMode = () => {
-    if (isConnected && !isDevelopmentMode) {
-      // Switching to dev mode while connected - disconnect
+    if (arduinoConnection !== 'disconnected' && !isDevelopmentMode) {
+      // Switching to dev mode while connected (or reconnecting) - disconnect
       disconnectArduino()
       setDataSource('simulated')
     }
@@ -569,6 +1399,11 @@ function App() {
 
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
+      // Typing in a field (operator, patient ID, settings) must not trigger shortcuts
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) {
+        return
+      }
+
       switch(e.key) {
         case '1':
           setCurrentScreen('mother')
@@ -599,7 +1434,7 @@ function App() {
         case 'V':
           // Cycle through view modes
           setViewMode(prev => {
-            const modes: ViewMode[] = ['standard', 'split', 'comparison', 'focus-fetal']
+            const modes: ViewMode[] = ['standard', 'split', 'comparison', 'focus-fetal', 'fhr-trend', 'alarm-review', 'sessions']
             const currentIndex = modes.indexOf(prev)
             const nextIndex = (currentIndex + 1) % modes.length
             return modes[nextIndex]
@@ -622,6 +1457,12 @@ function App() {
         return 'COMPARISON VIEW - All Signals'
       case 'focus-fetal':
         return 'FETAL MONITORING - Focused View'
+      case 'fhr-trend':
+        return 'FHR TREND - Cardiotocography'
+      case 'alarm-review':
+        return 'ALARM REVIEW - Event Log'
+      case 'sessions':
+        return 'RECORDED SESSIONS'
       default:
         return 'STANDARD VIEW'
     }
@@ -636,12 +1477,14 @@ function App() {
       }
     } else if (viewMode === 'focus-fetal') {
       return 'title-fetal-monitoring'
+    } else if (viewMode === 'fhr-trend') {
+      return 'title-fetal'
     }
     return ''
   }
 
   return (
-    <div className={`app ${isCritical ? 'critical-alert' : ''}`}>
+    <div className={`app ${highestAlarm?.priority === 'high' ? 'critical-alert' : ''}`}>
       <header className="header">
         <h1>FETAL CARDIAC MONITORING SYSTEM</h1>
         <h2 className={`screen-title ${getTitleClass()}`}>
@@ -657,6 +1500,20 @@ function App() {
         </h2>
       </header>
 
+      {dataSource === 'replay' && sessionReplay.source && (
+        <ReplayControls
+          source={sessionReplay.source}
+          isPlaying={sessionReplay.isPlaying}
+          position={sessionReplay.position}
+          duration={sessionReplay.duration}
+          speed={sessionReplay.speed}
+          onPlayPause={handleReplayPlayPause}
+          onSeek={handleReplaySeek}
+          onSpeedChange={sessionReplay.setSpeed}
+          onExit={handleExitReplay}
+        />
+      )}
+
       <main className={`main-content view-mode-${viewMode}`}>
         <div className="vitals-sidebar">
           <HeartRateMonitor
@@ -664,35 +1521,53 @@ function App() {
             type="fetal"
             onStatusChange={setFetalStatus}
             alarmMetrics={fetalAlarmMetrics}
+            signalInvalid={fetalSignalFault}
             heartbeatBeepEnabled={heartbeatBeepEnabled}
           />
+          <NICHDCategoryPanel
+            classification={nichdClassification}
+            alarmFollowsCategory={alarmFollowsCategory}
+            onAlarmFollowsCategoryChange={setAlarmFollowsCategory}
+          />
           <HeartRateMonitor
             data={ekgData}
             type="maternal"
             onStatusChange={setMaternalStatus}
             alarmMetrics={maternalAlarmMetrics}
+            signalInvalid={maternalSignalFault}
             heartbeatBeepEnabled={false}
           />
+          <HRVPanel fetal={hrv.fetal} maternal={hrv.maternal} />
+          <AlarmStatusPanel
+            alarms={activeAlarms}
+            pauseState={alarmPauseState}
+            auditLog={alarmAuditLog}
+            operatorName={operatorName}
+            onOperatorNameChange={handleOperatorNameChange}
+            onAcknowledge={handleAcknowledgeAlarm}
+          />
 
-          {/* Alarm Silence Toggle - Always visible, toggles alarm on/off */}
+          {/* Alarm Audio Pause - Always visible, timed pause that re-arms automatically */}
           <button
-            className={`alarm-toggle-button ${isAlarmSilenced ? 'silenced' : 'active'}`}
-            onClick={() => setIsAlarmSilenced(!isAlarmSilenced)}
-            title={isAlarmSilenced ? "Enable alarm sounds" : "Silence alarm sounds"}
+            className={`alarm-toggle-button ${isAudioPaused ? 'silenced' : 'active'}`}
+            onClick={handleToggleAudioPause}
+            title={isAudioPaused ? "Resume alarm sounds now" : `Pause alarm sounds for ${formatPauseCountdown(monitoringConfig.alarmPause.audioPauseMs)}`}
           >
-            {isAlarmSilenced ? (
+            {isAudioPaused ? (
               <>
                 <svg className="silence-icon" viewBox="0 0 24 24" width="24" height="24" fill="currentColor">
                   <path d="M16.5 12A4.5 4.5 0 0 0 14 7.97v2.21l2.45 2.45c.03-.2.05-.41.05-.63zm2.5 0c0 .94-.2 1.82-.54 2.64l1.51 1.51A8.796 8.796 0 0 0 21 12c0-4.28-2.99-7.86-7-8.77v2.06c2.89.86 5 3.54 5 6.71zM4.27 3L3 4.27 7.73 9H3v6h4l5 5v-6.73l4.25 4.25c-.67.52-1.42.93-2.25 1.18v2.06a8.99 8.99 0 0 0 3.69-1.81L19.73 21 21 19.73l-9-9L4.27 3zM12 4L9.91 6.09 12 8.18V4z"/>
                 </svg>
-                <span className="toggle-text">ALARM SILENCED</span>
+                <span className="toggle-text">
+                  AUDIO PAUSED {formatPauseCountdown((alarmPauseState.pausedUntil ?? 0) - Date.now())}
+                </span>
               </>
             ) : (
               <>
                 <svg className="alarm-icon" viewBox="0 0 24 24" width="24" height="24" fill="currentColor">
                   <path d="M12 22c1.1 0 2-.9 2-2h-4c0 1.1.9 2 2 2zm6-6v-5c0-3.07-1.63-5.64-4.5-6.32V4c0-.83-.67-1.5-1.5-1.5s-1.5.67-1.5 1.5v.68C7.64 5.36 6 7.92 6 11v5l-2 2v1h16v-1l-2-2zm-2 1H8v-6c0-2.48 1.51-4.5 4-4.5s4 2.02 4 4.5v6z"/>
                 </svg>
-                <span className="toggle-text">ALARM ACTIVE</span>
+                <span className="toggle-text">ALARM ACTIVE · PAUSE {formatPauseCountdown(monitoringConfig.alarmPause.audioPauseMs)}</span>
               </>
             )}
           </button>
@@ -727,17 +1602,18 @@ function App() {
               key={`standard-${resetZoomKey}`}
               data={ekgData}
               currentScreen={currentScreen}
+              onExportRange={handleExportChartRange}
             />
           )}
           {viewMode === 'split' && (
             <div className="split-view">
               <div className="split-chart">
                 <h3 className="chart-label">MATERNAL EKG</h3>
-                <ZoomableEKGChart key={`split-mother-${resetZoomKey}`} data={ekgData} currentScreen="mother" />
+                <ZoomableEKGChart key={`split-mother-${resetZoomKey}`} data={ekgData} currentScreen="mother" onExportRange={handleExportChartRange} />
               </div>
               <div className="split-chart">
                 <h3 className="chart-label">FETAL EKG</h3>
-                <ZoomableEKGChart key={`split-fetal-${resetZoomKey}`} data={ekgData} currentScreen="fetal" />
+                <ZoomableEKGChart key={`split-fetal-${resetZoomKey}`} data={ekgData} currentScreen="fetal" onExportRange={handleExportChartRange} />
               </div>
             </div>
           )}
@@ -745,15 +1621,15 @@ function App() {
             <div className="comparison-view">
               <div className="comparison-chart">
                 <h3 className="chart-label">MATERNAL</h3>
-                <ZoomableEKGChart key={`comp-mother-${resetZoomKey}`} data={ekgData} currentScreen="mother" />
+                <ZoomableEKGChart key={`comp-mother-${resetZoomKey}`} data={ekgData} currentScreen="mother" onExportRange={handleExportChartRange} />
               </div>
               <div className="comparison-chart">
                 <h3 className="chart-label">COMBINED</h3>
-                <ZoomableEKGChart key={`comp-combined-${resetZoomKey}`} data={ekgData} currentScreen="combined" />
+                <ZoomableEKGChart key={`comp-combined-${resetZoomKey}`} data={ekgData} currentScreen="combined" onExportRange={handleExportChartRange} />
               </div>
               <div className="comparison-chart">
                 <h3 className="chart-label">FETAL</h3>
-                <ZoomableEKGChart key={`comp-fetal-${resetZoomKey}`} data={ekgData} currentScreen="fetal" />
+                <ZoomableEKGChart key={`comp-fetal-${resetZoomKey}`} data={ekgData} currentScreen="fetal" onExportRange={handleExportChartRange} />
               </div>
             </div>
           )}
@@ -761,14 +1637,41 @@ function App() {
             <div className="focus-view">
               <div className="focus-main">
                 <h3 className="chart-label focus-label">FETAL EKG - HIGH RISK MONITORING</h3>
-                <ZoomableEKGChart key={`focus-fetal-${resetZoomKey}`} data={ekgData} currentScreen="fetal" />
+                <ZoomableEKGChart key={`focus-fetal-${resetZoomKey}`} data={ekgData} currentScreen="fetal" onExportRange={handleExportChartRange} />
               </div>
               <div className="focus-reference">
                 <h3 className="chart-label">MATERNAL REFERENCE</h3>
-                <ZoomableEKGChart key={`focus-mother-${resetZoomKey}`} data={ekgData} currentScreen="mother" />
+                <ZoomableEKGChart key={`focus-mother-${resetZoomKey}`} data={ekgData} currentScreen="mother" onExportRange={handleExportChartRange} />
               </div>
             </div>
           )}
+          {viewMode === 'fhr-trend' && (
+            <FHRTrendStrip
+              analysis={ctgAnalysis}
+              contractions={contractions}
+              onMarkContraction={handleMarkContraction}
+              isMonitoring={isMonitoring}
+            />
+          )}
+          {viewMode === 'alarm-review' && (
+            <AlarmEventReview
+              events={alarmEvents}
+              endTime={isMonitoring ? sampleCounter.current / 250 : null}
+              loadWaveform={loadSessionWaveform}
+            />
+          )}
+          {viewMode === 'sessions' && (
+            <SessionBrowser
+              recordingSessionId={recordingSessionId}
+              canReplay={!isMonitoring || dataSource === 'replay'}
+              replayError={sessionReplay.error}
+              onReplay={handleReplaySession}
+              onReplayFiles={handleReplayFiles}
+              onReview={handleReviewSession}
+              onExportSamples={sessionId => setSampleExport({ sessionId, range: null })}
+              onRecover={openRecovery}
+            />
+          )}
         </div>
       </main>
 
@@ -790,6 +1693,7 @@ function App() {
           onClear={handleClear}
           dataSource={dataSource}
           isArduinoConnected={isConnected}
+          arduinoConnectionState={arduinoConnection}
           onConnectArduino={handleConnectArduino}
           isDevelopmentMode={isDevelopmentMode}
           onToggleDevelopmentMode={handleToggleDevelopmentMode}
@@ -797,6 +1701,13 @@ function App() {
           onRawSignalChange={handleSignalPairChange}
           signalMapping={signalMapping}
           onSignalMappingChange={setSignalMapping}
+          fetalExtraction={fetalExtraction}
+          onFetalExtractionChange={handleFetalExtractionChange}
+          cancellerConvergence={cancellerConvergence}
+          templateStatus={templateStatus}
+          separationStatus={separationStatus}
+          patientId={patientId}
+          onPatientIdChange={setPatientId}
         />
       </div>
 
@@ -815,6 +1726,25 @@ function App() {
         dataPointCount={storedDataRef.current.length}
       />
 
+      {/* Interrupted Session Recovery Modal */}
+      <SampleExportModal
+        isOpen={sampleExport !== null}
+        sessionId={sampleExport?.sessionId ?? null}
+        initialRange={sampleExport?.range ?? null}
+        onClose={() => setSampleExport(null)}
+      />
+
+      <SessionRecoveryModal
+        isOpen={showRecovery}
+        sessions={unfinishedSessions}
+        canResume={!isMonitoring}
+        busySessionId={recoveryBusyId}
+        onExport={handleRecoveryExport}
+        onResume={handleRecoveryResume}
+        onDiscard={handleRecoveryDiscard}
+        onClose={() => setShowRecovery(false)}
+      />
+
       {/* Signal Pair Change Confirmation Modal */}
       <SignalPairChangeModal
         isOpen={showSignalPairChangeConfirmation}
@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react'
+import ZoomableEKGChart from './ZoomableEKGChart'
+import { EKGDataPoint } from '../App'
+import { AlarmEvent, AlarmEventKind, summarizeAlarmEvents } from '../utils/alarmEventLog'
+import './AlarmEventReview.css'
+
+interface AlarmEventReviewProps {
+  events: AlarmEvent[]
+  endTime: number | null                                        // Current recording time while monitoring
+  loadWaveform: (startTime: number, endTime: number) => Promise<EKGDataPoint[]>
+}
+
+// Waveform shown around the selected event (s)
+const WAVEFORM_BEFORE = 2
+const WAVEFORM_AFTER = 3
+
+const KIND_LABELS: Record<AlarmEventKind, string> = {
+  'status': 'Status',
+  'technical': 'Technical',
+  'pause': 'Audio paused',
+  'resume': 'Audio resumed',
+  'rearm': 'Pause expired',
+  'breakthrough': 'Breakthrough',
+  'acknowledge': 'Acknowledged',
+  'acknowledge-expired': 'Ack expired'
+}
+
+const STATUS_LABELS = { normal: 'NORMAL', warning: 'CAUTION', critical: 'ALERT' }
+
+function formatRecordingTime(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds))
+  const hours = Math.floor(whole / 3600)
+  const mm = Math.floor((whole % 3600) / 60).toString().padStart(2, '0')
+  const ss = (whole % 60).toString().padStart(2, '0')
+  return hours > 0 ? `${hours}:${mm}:${ss}` : `${mm}:${ss}`
+}
+
+function formatDuration(seconds: number): string {
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${Math.floor(seconds % 60)}s` : `${seconds.toFixed(1)}s`
+}
+
+function describeLevel(event: AlarmEvent): { text: string, className: string } {
+  if (event.kind === 'status' && event.status) {
+    return { text: STATUS_LABELS[event.status], className: `level-${event.status}` }
+  }
+  if (event.kind === 'technical') {
+    return event.priority
+      ? { text: event.priority.toUpperCase(), className: `level-priority-${event.priority}` }
+      : { text: 'CLEARED', className: 'level-normal' }
+  }
+  return { text: '', className: '' }
+}
+
+export default function AlarmEventReview({ events, endTime, loadWaveform }: AlarmEventReviewProps) {
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [waveform, setWaveform] = useState<EKGDataPoint[] | null>(null) // null while loading
+
+  const rows = summarizeAlarmEvents(events, endTime)
+  const selected = events.find(event => event.id === selectedId) ?? null
+
+  // Fetch the stored waveform around the selected event
+  useEffect(() => {
+    if (!selected) return
+    let cancelled = false
+    setWaveform(null)
+    loadWaveform(selected.time - WAVEFORM_BEFORE, selected.time + WAVEFORM_AFTER)
+      .then(points => {
+        if (!cancelled) setWaveform(points)
+      })
+      .catch(err => {
+        console.error('Error loading waveform:', err)
+        if (!cancelled) setWaveform([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [selectedId])
+
+  const abnormalCount = events.filter(event => event.kind === 'status' && event.status !== 'normal').length
+  const technicalCount = events.filter(event => event.kind === 'technical' && event.priority !== null).length
+
+  return (
+    <div className="alarm-event-review">
+      <div className="alarm-review-header">
+        <h3 className="alarm-review-title">ALARM EVENT LOG</h3>
+        <div className="alarm-review-summary">
+          <span>{events.length} events</span>
+          <span>{abnormalCount} status alarms</span>
+          <span>{technicalCount} technical alarms</span>
+        </div>
+      </div>
+
+      <div className="alarm-review-waveform">
+        {!selected && (
+          <div className="alarm-review-placeholder">Select an event to show the waveform at that moment</div>
+        )}
+        {selected && waveform === null && (
+          <div className="alarm-review-placeholder">Loading waveform…</div>
+        )}
+        {selected && waveform?.length === 0 && (
+          <div className="alarm-review-placeholder">
+            No stored waveform at {formatRecordingTime(selected.time)} (recording migrated from an older version)
+          </div>
+        )}
+        {selected && waveform && waveform.length > 0 && (
+          <>
+            <div className="alarm-review-waveform-label">
+              {formatRecordingTime(selected.time)} · {KIND_LABELS[selected.kind]}
+              {selected.message ? ` · ${selected.message}` : ''}
+            </div>
+            <ZoomableEKGChart
+              key={selected.id}
+              data={waveform}
+              currentScreen={selected.source === 'maternal' ? 'mother' : 'fetal'}
+            />
+          </>
+        )}
+      </div>
+
+      <div className="alarm-review-table-container">
+        {rows.length === 0 ? (
+          <div className="alarm-review-placeholder">No alarm events recorded</div>
+        ) : (
+          <table className="alarm-review-table">
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Clock</th>
+                <th>Source</th>
+                <th>Event</th>
+                <th>Level</th>
+                <th>BPM</th>
+                <th>Duration</th>
+                <th>Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ event, duration, ongoing }) => {
+                const level = describeLevel(event)
+                return (
+                  <tr
+                    key={event.id}
+                    className={`alarm-review-row ${event.id === selectedId ? 'selected' : ''}`}
+                    onClick={() => setSelectedId(event.id ?? null)}
+                    title="Show the waveform at this moment"
+                  >
+                    <td className="alarm-review-mono">{formatRecordingTime(event.time)}</td>
+                    <td className="alarm-review-mono">{new Date(event.timestamp).toLocaleTimeString()}</td>
+                    <td>{event.source ? event.source.toUpperCase() : '—'}</td>
+                    <td>{KIND_LABELS[event.kind]}</td>
+                    <td className={level.className}>{level.text}</td>
+                    <td className="alarm-review-mono">{event.bpm ? event.bpm : '—'}</td>
+                    <td className="alarm-review-mono">
+                      {duration !== null ? formatDuration(duration) : '—'}
+                      {ongoing && <span className="alarm-review-ongoing"> ongoing</span>}
+                    </td>
+                    <td className="alarm-review-details">
+                      {event.message}
+                      {event.operator ? ` (by ${event.operator})` : ''}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
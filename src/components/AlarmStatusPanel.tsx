@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react'
+import { ActiveAlarm, AlarmSource } from '../utils/alarmManager'
+import { AlarmAuditAction, AlarmAuditEntry, AlarmPauseState } from '../utils/alarmPause'
+import './AlarmStatusPanel.css'
+
+interface AlarmStatusPanelProps {
+  alarms: ActiveAlarm[]
+  pauseState: AlarmPauseState
+  auditLog: AlarmAuditEntry[]
+  operatorName: string
+  onOperatorNameChange: (name: string) => void
+  onAcknowledge: (alarm: ActiveAlarm) => void
+}
+
+const SOURCE_LABELS: Record<AlarmSource, string> = {
+  fetal: 'FETAL',
+  maternal: 'MATERNAL',
+  technical: 'TECHNICAL'
+}
+
+const ACTION_LABELS: Record<AlarmAuditAction, string> = {
+  'pause': 'Audio paused',
+  'resume': 'Audio resumed',
+  'rearm': 'Pause expired, re-armed',
+  'breakthrough': 'Higher priority broke through pause',
+  'acknowledge': 'Acknowledged',
+  'acknowledge-expired': 'Acknowledgement expired'
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000))
+  const minutes = Math.floor(seconds / 60)
+  return minutes > 0 ? `${minutes}m ${(seconds % 60).toString().padStart(2, '0')}s` : `${seconds}s`
+}
+
+export default function AlarmStatusPanel({
+  alarms,
+  pauseState,
+  auditLog,
+  operatorName,
+  onOperatorNameChange,
+  onAcknowledge
+}: AlarmStatusPanelProps) {
+  const [now, setNow] = useState(Date.now())
+  const [showLog, setShowLog] = useState(false)
+
+  // Tick the elapsed times while any alarm is active
+  useEffect(() => {
+    if (alarms.length === 0) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [alarms.length])
+
+  const highest = alarms[0]
+
+  return (
+    <div className={`alarm-status-panel ${highest ? `priority-${highest.priority}` : ''}`}>
+      <div className="alarm-status-header">
+        <h3 className="alarm-status-title">ACTIVE ALARMS</h3>
+        <span className="alarm-status-count">
+          {alarms.length === 0 ? 'NONE' : `${alarms.length}${pauseState.pausedUntil !== null ? ' · PAUSED' : ''}`}
+        </span>
+      </div>
+
+      {alarms.length > 0 && (
+        <ul className="alarm-status-list">
+          {alarms.map(alarm => {
+            const isAcknowledged = pauseState.acknowledged.includes(alarm.source)
+            return (
+              <li key={alarm.source} className={`alarm-status-item priority-${alarm.priority}`}>
+                <span className={`alarm-priority-badge priority-${alarm.priority}`}>
+                  {alarm.priority.toUpperCase()}
+                </span>
+                <div className="alarm-status-details">
+                  <span className="alarm-status-source">{SOURCE_LABELS[alarm.source]}</span>
+                  <span className="alarm-status-message">{alarm.message}</span>
+                  {alarm.escalated && (
+                    <span className="alarm-status-escalated">
+                      Escalated from {alarm.basePriority}
+                    </span>
+                  )}
+                </div>
+                <span className="alarm-status-elapsed">{formatElapsed(now - alarm.since)}</span>
+                {isAcknowledged ? (
+                  <span className="alarm-ack-tag" title="Acknowledged: audio off for this alarm, still displayed">ACK'D</span>
+                ) : (
+                  <button
+                    className="alarm-ack-button"
+                    onClick={() => onAcknowledge(alarm)}
+                    title="Acknowledge this alarm (stops its sound until it worsens or the hold expires)"
+                  >
+                    ACK
+                  </button>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      <div className="alarm-operator">
+        <label htmlFor="alarm-operator-input">Operator</label>
+        <input
+          id="alarm-operator-input"
+          type="text"
+          value={operatorName}
+          placeholder="Name or initials"
+          onChange={(e) => onOperatorNameChange(e.target.value)}
+        />
+      </div>
+
+      <button
+        className="alarm-log-toggle"
+        onClick={() => setShowLog(!showLog)}
+        title={showLog ? 'Hide alarm audit log' : 'Show alarm audit log'}
+      >
+        {showLog ? '▼' : '▶'} Audit log ({auditLog.length})
+      </button>
+
+      {showLog && (
+        <ul className="alarm-audit-log">
+          {auditLog.length === 0 && <li className="alarm-audit-empty">No pauses or acknowledgements yet</li>}
+          {auditLog.map((entry, i) => (
+            <li key={`${entry.timestamp}-${i}`} className={`alarm-audit-entry action-${entry.action}`}>
+              <span className="alarm-audit-time">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+              <span className="alarm-audit-action">
+                {ACTION_LABELS[entry.action]}{entry.operator ? ` by ${entry.operator}` : ''}
+              </span>
+              {entry.alarms.length > 0 && (
+                <span className="alarm-audit-alarms">{entry.alarms.join('; ')}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
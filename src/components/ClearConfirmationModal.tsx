@@ -65,7 +65,8 @@ export default function ClearConfirmationModal({
 
         <div className="confirm-modal-body">
           <p className="confirm-modal-text">
-            You are about to clear <strong>all recorded EKG data</strong> and <strong>alarm metrics</strong>.
+            You are about to clear <strong>the displayed EKG data</strong> and <strong>alarm metrics</strong>.
+            Recordings already saved as sessions are kept.
           </p>
           <p className="confirm-modal-warning">
             This action <strong>cannot be undone</strong>.
@@ -1,8 +1,18 @@
-import { ScreenType, ViewMode } from '../App'
-import { SignalMapping, SignalType } from '../hooks/useArduinoSerial'
+import { ScreenType, ViewMode, FetalExtractionMethod, DataSource } from '../App'
+import { MONITOR_SAMPLE_RATE, SerialConnectionState, SignalMapping, SignalType, unsupportedSampleRate } from '../hooks/useArduinoSerial'
 import { RawSignalPair } from '../hooks/useRawSignals'
+import { CancellerConvergence } from '../utils/adaptiveCanceller'
+import { TemplateExtractorStatus } from '../utils/templateSubtraction'
+import { SeparationStatus } from '../utils/blindSourceSeparation'
+import { deviceCommands } from '../utils/deviceCommands'
+import { adcFromCapabilities } from '../utils/deviceCapabilities'
+import { useDeviceState } from '../hooks/useDeviceState'
 import './ControlPanel.css'
 
+// Rates the sketch supports; only the monitor's own rate can be chosen, since analysis and storage assume it
+const DEVICE_SAMPLE_RATES = [125, 250, 500]
+const DEVICE_CHANNELS = 3
+
 interface ControlPanelProps {
   currentScreen: ScreenType
   onScreenChange: (screen: ScreenType) => void
@@ -11,8 +21,9 @@ interface ControlPanelProps {
   isMonitoring: boolean
   onStartStop: () => void
   onClear: () => void
-  dataSource: 'simulated' | 'arduino' | 'real' | 'raw'
+  dataSource: DataSource
   isArduinoConnected: boolean
+  arduinoConnectionState: SerialConnectionState
   onConnectArduino: () => void
   isDevelopmentMode: boolean
   onToggleDevelopmentMode: () => void
@@ -20,6 +31,13 @@ interface ControlPanelProps {
   onRawSignalChange: (signal: RawSignalPair) => void
   signalMapping?: SignalMapping
   onSignalMappingChange?: (mapping: SignalMapping) => void
+  fetalExtraction: FetalExtractionMethod
+  onFetalExtractionChange: (method: FetalExtractionMethod) => void
+  cancellerConvergence: CancellerConvergence | null
+  templateStatus: TemplateExtractorStatus | null
+  separationStatus: SeparationStatus | null
+  patientId: string
+  onPatientIdChange: (patientId: string) => void
 }
 
 export default function ControlPanel({
@@ -32,20 +50,56 @@ export default function ControlPanel({
   onClear,
   dataSource,
   isArduinoConnected,
+  arduinoConnectionState,
   onConnectArduino,
   isDevelopmentMode,
   onToggleDevelopmentMode,
   rawSignalSelection,
   onRawSignalChange,
   signalMapping,
-  onSignalMappingChange
+  onSignalMappingChange,
+  fetalExtraction,
+  onFetalExtractionChange,
+  cancellerConvergence,
+  templateStatus,
+  separationStatus,
+  patientId,
+  onPatientIdChange
 }: ControlPanelProps) {
+  const device = useDeviceState()
+  const deviceInfo = device.info
+
+  const getConnectionLabel = () => {
+    switch (arduinoConnectionState) {
+      case 'disconnected': return 'Connect'
+      case 'connecting': return 'Connecting'
+      case 'streaming': return 'Connected'
+      case 'stalled': return 'Stalled'
+      case 'reconnecting': return 'Reconnecting'
+      case 'lost': return 'Lost'
+    }
+  }
+
+  const getConnectionTitle = () => {
+    switch (arduinoConnectionState) {
+      case 'disconnected': return 'Connect to Arduino (A)'
+      case 'connecting': return 'Waiting for the device to describe itself - click to disconnect (A)'
+      case 'streaming': return 'Receiving data - click to disconnect (A)'
+      case 'stalled': return 'Port open but no data arriving - click to disconnect (A)'
+      case 'reconnecting': return 'Device lost - reopening it when it returns; click to stop (A)'
+      case 'lost': return 'Device did not return - click to choose a port (A)'
+    }
+  }
+
   const getViewModeLabel = (mode: ViewMode) => {
     switch(mode) {
       case 'standard': return 'Standard'
       case 'split': return 'Split View'
       case 'comparison': return 'Compare All'
       case 'focus-fetal': return 'Fetal Monitoring'
+      case 'fhr-trend': return 'FHR Trend'
+      case 'alarm-review': return 'Alarm Review'
+      case 'sessions': return 'Sessions'
     }
   }
 
@@ -80,6 +134,91 @@ export default function ControlPanel({
     }
   }
 
+  const getExtractionLabel = (method: FetalExtractionMethod) => {
+    switch(method) {
+      case 'direct': return dataSource === 'raw' ? 'Subtraction' : 'Fetal Channel'
+      case 'adaptive': return 'Adaptive (NLMS)'
+      case 'template': return 'Template (Single Lead)'
+      case 'ica': return 'ICA (All Channels)'
+    }
+  }
+
+  const getExtractionTitle = (method: FetalExtractionMethod) => {
+    switch(method) {
+      case 'direct': return 'Use the fetal signal provided by the source'
+      case 'adaptive': return 'Learn the maternal-to-abdominal transfer and subtract the estimated maternal component'
+      case 'template': return 'Detect maternal beats in the combined lead and subtract an averaged maternal PQRST template'
+      case 'ica': return 'Separate independent sources from all channels and classify them by heart rate'
+    }
+  }
+
+  const getConvergenceText = () => {
+    if (fetalExtraction === 'adaptive') {
+      if (!cancellerConvergence) return 'Canceller idle - starts learning when monitoring begins'
+      const reduction = cancellerConvergence.maternalReductionDb.toFixed(1)
+      return cancellerConvergence.isConverged
+        ? `Converged - maternal reduced by ${reduction} dB`
+        : `Learning... ${reduction} dB maternal reduction so far, residual ${Math.round(cancellerConvergence.residualCorrelation * 100)}% correlated with maternal`
+    }
+    if (fetalExtraction === 'template') {
+      if (!templateStatus) return 'Template empty - builds from maternal beats when monitoring begins'
+      const rate = templateStatus.maternalRate > 0 ? `, maternal ${templateStatus.maternalRate} BPM` : ''
+      return templateStatus.isTemplateReady
+        ? `Template ready (${templateStatus.templateBeats} beats averaged${rate}) - fetal delayed ${templateStatus.latencySeconds.toFixed(1)}s`
+        : `Building template... ${templateStatus.templateBeats} beats${rate}`
+    }
+    if (fetalExtraction === 'ica') {
+      if (!separationStatus || !separationStatus.isReady) {
+        return `Collecting ${separationStatus?.windowSeconds ?? 8}s analysis window...`
+      }
+      const hasFetal = separationStatus.components.some(c => c.role === 'fetal')
+      return hasFetal
+        ? `${separationStatus.channelsUsed} sources separated - fetal source identified`
+        : `${separationStatus.channelsUsed} sources separated - no source in the fetal heart rate band`
+    }
+    return null
+  }
+
+  const isExtractionReady = (() => {
+    switch (fetalExtraction) {
+      case 'adaptive': return cancellerConvergence?.isConverged
+      case 'template': return templateStatus?.isTemplateReady
+      case 'ica': return separationStatus?.components.some(c => c.role === 'fetal')
+      default: return false
+    }
+  })()
+
+  // Extraction applies wherever both a maternal reference and a combined lead exist
+  const showExtractionControls = isDevelopmentMode
+    ? dataSource === 'raw'
+    : isArduinoConnected
+
+  // Command failures are shown from the device state
+  const runDeviceCommand = (command: () => Promise<unknown>) => {
+    command().catch(error => console.warn('Device command failed:', error))
+  }
+
+  const getCapabilitiesText = () => {
+    const capabilities = device.capabilities
+    if (!capabilities) return null
+    const adc = adcFromCapabilities(capabilities)
+    const parts = [
+      capabilities.sampleRate ? `${capabilities.sampleRate} Hz` : null,
+      `${adc.bits}-bit ADC at ${adc.referenceVoltage} V${capabilities.adcBits === null ? ' (assumed)' : ''}`,
+      capabilities.channels.length > 0
+        ? capabilities.channels.map(channel => `A${channel.index} ${channel.name}`).join(', ') + ' - mapping set from device'
+        : null
+    ]
+    const source = { hello: 'Hello', info: 'INFO reply', header: 'Header' }[capabilities.source]
+    return `${source}: ${parts.filter(Boolean).join(' | ')}`
+  }
+
+  const handleDeviceChannelToggle = (channel: number) => {
+    if (!deviceInfo) return
+    const mask = deviceInfo.channelMask ^ (1 << channel)
+    if (mask !== 0) runDeviceCommand(() => deviceCommands.setChannels(mask))
+  }
+
   const handleChannelMapping = (channel: 'channel1' | 'channel2' | 'channel3', signalType: SignalType) => {
     if (signalMapping && onSignalMappingChange) {
       onSignalMappingChange({
@@ -127,6 +266,27 @@ export default function ControlPanel({
             >
               <span className="btn-label">Fetal Monitoring</span>
             </button>
+            <button
+              className={`btn btn-view btn-fetal-monitoring ${viewMode === 'fhr-trend' ? 'active' : ''}`}
+              onClick={() => onViewModeChange('fhr-trend')}
+              title="Long-duration fetal heart rate trend (CTG)"
+            >
+              <span className="btn-label">FHR Trend</span>
+            </button>
+            <button
+              className={`btn btn-view ${viewMode === 'alarm-review' ? 'active' : ''}`}
+              onClick={() => onViewModeChange('alarm-review')}
+              title="Review logged alarm events and the waveform at each one"
+            >
+              <span className="btn-label">Alarm Review</span>
+            </button>
+            <button
+              className={`btn btn-view ${viewMode === 'sessions' ? 'active' : ''}`}
+              onClick={() => onViewModeChange('sessions')}
+              title="Browse and replay recorded sessions"
+            >
+              <span className="btn-label">Sessions</span>
+            </button>
           </div>
         </div>
 
@@ -192,11 +352,11 @@ export default function ControlPanel({
             )}
             {!isDevelopmentMode && (
               <button
-                className={`btn btn-action btn-arduino ${isArduinoConnected ? 'connected' : ''}`}
+                className={`btn btn-action btn-arduino link-${arduinoConnectionState} ${arduinoConnectionState === 'streaming' ? 'connected' : ''}`}
                 onClick={onConnectArduino}
-                title="Connect to Arduino (A)"
+                title={getConnectionTitle()}
               >
-                <span className="btn-label">{isArduinoConnected ? 'Connected' : 'Connect'}</span>
+                <span className="btn-label">{getConnectionLabel()}</span>
                 <span className="btn-key">A</span>
               </button>
             )}
@@ -216,6 +376,20 @@ export default function ControlPanel({
             </button>
             <span className={`mode-label ${!isDevelopmentMode ? 'active' : ''}`}>Production</span>
           </div>
+
+          {/* Patient ID is saved with each recording session */}
+          <div className="patient-id-container">
+            <label htmlFor="patient-id-input">Patient ID</label>
+            <input
+              id="patient-id-input"
+              type="text"
+              value={patientId}
+              placeholder="Optional"
+              disabled={isMonitoring}
+              onChange={(e) => onPatientIdChange(e.target.value)}
+              title={isMonitoring ? 'Fixed for the current recording' : 'Stored with the next recording session'}
+            />
+          </div>
         </div>
 
         {/* Arduino Signal Mapping - Only when Arduino is connected */}
@@ -282,12 +456,169 @@ export default function ControlPanel({
           </div>
         )}
 
+        {/* Arduino Device - info and settings over the command channel */}
+        {!isDevelopmentMode && isArduinoConnected && (
+          <div className="control-section device-section">
+            <div className="section-header">
+              <h3 className="section-title">Arduino Device</h3>
+              <span className="section-info">
+                {deviceInfo
+                  ? `Firmware ${deviceInfo.firmware} | ${deviceInfo.board}`
+                  : !device.handshakeComplete ? 'Handshake...' : device.unresponsive ? 'No command support - streaming only' : 'Identifying...'}
+              </span>
+            </div>
+            {device.handshakeComplete && getCapabilitiesText() && (
+              <div className="device-capabilities">{getCapabilitiesText()}</div>
+            )}
+            {deviceInfo && (
+              <>
+                <div className="signal-mapping-grid">
+                  <div className="mapping-row">
+                    <span className="channel-label">Sample Rate:</span>
+                    <select
+                      className="mapping-select"
+                      value={deviceInfo.sampleRate}
+                      onChange={(e) => runDeviceCommand(() => deviceCommands.setSampleRate(Number(e.target.value)))}
+                      disabled={isMonitoring || device.pendingCommand !== null}
+                    >
+                      {!DEVICE_SAMPLE_RATES.includes(deviceInfo.sampleRate) && (
+                        <option value={deviceInfo.sampleRate} disabled>{deviceInfo.sampleRate} Hz (not supported)</option>
+                      )}
+                      {DEVICE_SAMPLE_RATES.map(rate => (
+                        <option key={rate} value={rate} disabled={rate !== MONITOR_SAMPLE_RATE}>
+                          {rate} Hz{rate !== MONITOR_SAMPLE_RATE ? ' (not supported)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="mapping-row">
+                    <span className="channel-label">Channels:</span>
+                    {Array.from({ length: Math.min(deviceInfo.channelCount, DEVICE_CHANNELS) }, (_, channel) => (
+                      <label key={channel} className="device-channel">
+                        <input
+                          type="checkbox"
+                          checked={(deviceInfo.channelMask & (1 << channel)) !== 0}
+                          onChange={() => handleDeviceChannelToggle(channel)}
+                          disabled={isMonitoring || device.pendingCommand !== null}
+                        />
+                        A{channel}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div className="button-group device-actions">
+                  <button
+                    className={`btn btn-condition ${deviceInfo.streaming ? 'active' : ''}`}
+                    onClick={() => runDeviceCommand(() => deviceCommands.setStreaming(!deviceInfo.streaming))}
+                    disabled={device.pendingCommand !== null}
+                    title="Start or stop data transmission on the device"
+                  >
+                    <span className="btn-label">{deviceInfo.streaming ? 'Streaming' : 'Stopped'}</span>
+                  </button>
+                  <button
+                    className="btn btn-condition"
+                    onClick={() => runDeviceCommand(() => deviceCommands.checkLeadOff())}
+                    disabled={device.pendingCommand !== null}
+                    title="Check that every streamed electrode is attached"
+                  >
+                    <span className="btn-label">Lead-off Check</span>
+                  </button>
+                  <button
+                    className="btn btn-condition"
+                    onClick={() => runDeviceCommand(() => deviceCommands.calibrate())}
+                    disabled={isMonitoring || device.pendingCommand !== null}
+                    title="Measure each channel's resting baseline (keep the patient still)"
+                  >
+                    <span className="btn-label">Calibrate</span>
+                  </button>
+                </div>
+                {device.leadOff && (
+                  <div className={`extraction-status ${device.leadOff.leads.includes(false) ? 'learning' : 'converged'}`}>
+                    <span className="extraction-status-dot"></span>
+                    <span>
+                      Leads: {device.leadOff.leads
+                        .map((lead, channel) => lead === null ? null : `A${channel} ${lead ? 'attached' : 'OFF'}`)
+                        .filter(Boolean)
+                        .join(', ')}
+                      {` (${new Date(device.leadOff.checkedAt).toLocaleTimeString()})`}
+                    </span>
+                  </div>
+                )}
+                {device.calibration && (
+                  <div className="extraction-status converged">
+                    <span className="extraction-status-dot"></span>
+                    <span>
+                      Baselines: {device.calibration.baselines
+                        .map((baseline, channel) => baseline === null ? null : `A${channel} ${baseline}`)
+                        .filter(Boolean)
+                        .join(', ')}
+                    </span>
+                  </div>
+                )}
+                {unsupportedSampleRate(device) !== null && (
+                  <div className="device-error">
+                    Device at {unsupportedSampleRate(device)} Hz - its data is ignored until it runs at {MONITOR_SAMPLE_RATE} Hz
+                  </div>
+                )}
+              </>
+            )}
+            {device.lastError && <div className="device-error">{device.lastError}</div>}
+          </div>
+        )}
+
+        {/* Fetal Extraction Method - raw pairs or live Arduino */}
+        {showExtractionControls && (
+          <div className="control-section extraction-section">
+            <div className="section-header">
+              <h3 className="section-title">Fetal Extraction</h3>
+              <span className="section-info">
+                {fetalExtraction === 'template' && 'Combined lead only'}
+                {fetalExtraction === 'ica' && 'Sources ranked by fetal-ness'}
+                {(fetalExtraction === 'direct' || fetalExtraction === 'adaptive') && 'Maternal reference removed from combined lead'}
+              </span>
+            </div>
+            <div className="button-group">
+              {(['direct', 'adaptive', 'template', 'ica'] as FetalExtractionMethod[]).map((method) => (
+                <button
+                  key={method}
+                  className={`btn btn-condition ${fetalExtraction === method ? 'active' : ''}`}
+                  onClick={() => onFetalExtractionChange(method)}
+                  title={getExtractionTitle(method)}
+                >
+                  <span className="btn-label">{getExtractionLabel(method)}</span>
+                </button>
+              ))}
+            </div>
+            {getConvergenceText() && (
+              <div className={`extraction-status ${isExtractionReady ? 'converged' : 'learning'}`}>
+                <span className="extraction-status-dot"></span>
+                <span>{getConvergenceText()}</span>
+              </div>
+            )}
+            {fetalExtraction === 'ica' && separationStatus?.isReady && (
+              <div className="component-ranking">
+                {separationStatus.components.map((component, rank) => (
+                  <div key={component.index} className={`component-row role-${component.role}`}>
+                    <span className="component-rank">#{rank + 1}</span>
+                    <span className="component-name">Source {component.index + 1}</span>
+                    <span className="component-rate">{component.heartRate > 0 ? `${component.heartRate} BPM` : '--'}</span>
+                    <div className="component-score-bar" title={`Fetal-ness ${(component.fetalScore * 100).toFixed(0)}%`}>
+                      <div className="component-score-fill" style={{ width: `${component.fetalScore * 100}%` }} />
+                    </div>
+                    <span className="component-role">{component.role.toUpperCase()}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Raw Signal Pairs Section - Only in Development Mode */}
         {isDevelopmentMode && dataSource === 'raw' && (
           <div className="control-section conditions-section">
             <div className="section-header">
-              <h3 className="section-title">Signal Pairs (Subtraction Processing)</h3>
-              <span className="section-info">Fetal = Combined - Maternal</span>
+              <h3 className="section-title">Signal Pairs ({getExtractionLabel(fetalExtraction)})</h3>
+              <span className="section-info">{fetalExtraction === 'direct' ? 'Fetal = Combined - Maternal' : 'Fetal = Combined - Estimated Maternal'}</span>
             </div>
             <div className="button-group">
               {(['pair01', 'pair02', 'pair03', 'pair04'] as RawSignalPair[]).map((signalPair) => (
@@ -328,7 +659,7 @@ export default function ControlPanel({
             <>
               <span className="status-dot"></span>
               <span className="status-text">
-                Patient Data Transfer Successful - {isDevelopmentMode ? 'DEVELOPMENT MODE (Simulated High-Risk Scenarios)' : dataSource === 'arduino' ? 'LIVE PATIENT DATA' : 'TEST DATA'}
+                {dataSource === 'replay' ? 'Replaying Recorded Session - NOT LIVE DATA' : <>Patient Data Transfer Successful - {isDevelopmentMode ? 'DEVELOPMENT MODE (Simulated High-Risk Scenarios)' : dataSource === 'arduino' ? 'LIVE PATIENT DATA' : 'TEST DATA'}</>}
               </span>
             </>
           ) : (
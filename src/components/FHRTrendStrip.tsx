@@ -0,0 +1,274 @@
+import { useEffect, useRef, useState } from 'react'
+import { CTGAnalysis, Contraction, DecelerationType, FHR_SAMPLE_RATE } from '../utils/ctgAnalysis'
+import { exportCTGToCSV, exportCTGToPNG } from '../utils/ctgExport'
+import './FHRTrendStrip.css'
+
+interface FHRTrendStripProps {
+  analysis: CTGAnalysis | null
+  contractions: Contraction[]
+  onMarkContraction: () => void
+  isMonitoring: boolean
+}
+
+// Standard CTG paper scale
+const FHR_MIN = 50
+const FHR_MAX = 210
+const SPAN_OPTIONS = [10, 20, 30, 60] // Minutes
+const MARGIN = { top: 10, right: 12, bottom: 40, left: 40 }
+
+const DECELERATION_STYLE: Record<DecelerationType, { color: string, label: string }> = {
+  early: { color: '#4ecdc4', label: 'E' },
+  late: { color: '#ff4444', label: 'L' },
+  variable: { color: '#ffaa00', label: 'V' },
+  prolonged: { color: '#ff0000', label: 'P' },
+  unclassified: { color: '#888888', label: '?' }
+}
+
+export default function FHRTrendStrip({ analysis, contractions, onMarkContraction, isMonitoring }: FHRTrendStripProps) {
+  const [spanMinutes, setSpanMinutes] = useState(20)
+  const [scrollBack, setScrollBack] = useState(0) // Minutes behind live
+  const [size, setSize] = useState({ width: 800, height: 360 })
+  const containerRef = useRef<HTMLDivElement>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+
+  // Track the container size so the strip fills the chart area
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(entries => {
+      const { width, height } = entries[0].contentRect
+      if (width > 0 && height > 0) setSize({ width, height })
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const duration = analysis?.duration ?? 0
+  const spanSeconds = spanMinutes * 60
+  const maxScrollBack = Math.max(0, Math.floor((duration - spanSeconds) / 60))
+  const viewEnd = Math.max(spanSeconds, duration - Math.min(scrollBack, maxScrollBack) * 60)
+  const viewStart = viewEnd - spanSeconds
+
+  const plotWidth = size.width - MARGIN.left - MARGIN.right
+  const plotHeight = size.height - MARGIN.top - MARGIN.bottom
+  const x = (time: number) => MARGIN.left + ((time - viewStart) / spanSeconds) * plotWidth
+  const y = (fhr: number) => MARGIN.top + ((FHR_MAX - Math.max(FHR_MIN, Math.min(FHR_MAX, fhr))) / (FHR_MAX - FHR_MIN)) * plotHeight
+  const inView = (start: number, end: number) => end >= viewStart && start <= viewEnd
+
+  // FHR polylines, split at signal loss and decimated to ~2 points per pixel
+  const traces: string[] = []
+  if (analysis) {
+    const first = Math.max(0, Math.floor(viewStart * FHR_SAMPLE_RATE))
+    const last = Math.min(analysis.fhr.length - 1, Math.ceil(viewEnd * FHR_SAMPLE_RATE))
+    const step = Math.max(1, Math.floor((last - first) / (plotWidth * 2)))
+    let points: string[] = []
+    for (let i = first; i <= last; i += step) {
+      const sample = analysis.fhr[i]
+      if (sample.fhr === null) {
+        if (points.length > 1) traces.push(points.join(' '))
+        points = []
+      } else {
+        points.push(`${x(sample.time).toFixed(1)},${y(sample.fhr).toFixed(1)}`)
+      }
+    }
+    if (points.length > 1) traces.push(points.join(' '))
+  }
+
+  const gridMinutes: number[] = []
+  for (let m = Math.ceil(viewStart / 60); m <= Math.floor(viewEnd / 60); m++) gridMinutes.push(m)
+  const gridRates: number[] = []
+  for (let rate = FHR_MIN; rate <= FHR_MAX; rate += 10) gridRates.push(rate)
+  const labelEvery = spanMinutes <= 20 ? 2 : spanMinutes <= 30 ? 5 : 10
+
+  const decelerationCounts = (analysis?.decelerations ?? []).reduce((counts, d) => {
+    counts[d.type] = (counts[d.type] || 0) + 1
+    return counts
+  }, {} as Partial<Record<DecelerationType, number>>)
+
+  const handleExportCSV = () => {
+    if (!analysis) return
+    try {
+      exportCTGToCSV(analysis, contractions)
+    } catch (error) {
+      console.error('Error exporting FHR trend:', error)
+      alert('No FHR trend to export yet.')
+    }
+  }
+
+  const handleExportPNG = () => {
+    if (!svgRef.current) return
+    exportCTGToPNG(svgRef.current).catch(error => {
+      console.error('Error exporting FHR trend image:', error)
+      alert('Error exporting FHR trend image. Please try again.')
+    })
+  }
+
+  return (
+    <div className="fhr-trend-strip">
+      <div className="fhr-trend-header">
+        <div className="fhr-trend-summary">
+          <div className="fhr-summary-item" title="NICHD baseline: mean FHR over 10 minutes excluding episodes, rounded to 5 BPM">
+            <span className="fhr-summary-label">BASELINE</span>
+            <span className="fhr-summary-value">
+              {analysis && analysis.currentBaseline !== null ? `${analysis.currentBaseline} BPM` : 'Indeterminate'}
+            </span>
+          </div>
+          <div className="fhr-summary-item" title="Peak-to-trough FHR amplitude (median of the last 10 minutes)">
+            <span className="fhr-summary-label">VARIABILITY</span>
+            <span className={`fhr-summary-value variability-${analysis?.currentVariability?.band ?? 'none'}`}>
+              {analysis?.currentVariability
+                ? `${analysis.currentVariability.band.toUpperCase()} (${analysis.currentVariability.amplitude.toFixed(0)} BPM)`
+                : '--'}
+            </span>
+          </div>
+          <div className="fhr-summary-item">
+            <span className="fhr-summary-label">ACCELS</span>
+            <span className="fhr-summary-value">{analysis?.accelerations.length ?? 0}</span>
+          </div>
+          <div className="fhr-summary-item" title="Early / Late / Variable / Prolonged / Unclassified (no contraction marked)">
+            <span className="fhr-summary-label">DECELS</span>
+            <span className="fhr-summary-value">
+              {(Object.keys(DECELERATION_STYLE) as DecelerationType[]).map(type => (
+                <span key={type} className="decel-count" style={{ color: DECELERATION_STYLE[type].color }}>
+                  {DECELERATION_STYLE[type].label}{decelerationCounts[type] ?? 0}
+                </span>
+              ))}
+            </span>
+          </div>
+        </div>
+
+        <div className="fhr-trend-actions">
+          <select
+            className="fhr-span-select"
+            value={spanMinutes}
+            onChange={(e) => setSpanMinutes(Number(e.target.value))}
+            title="Visible time span"
+          >
+            {SPAN_OPTIONS.map(option => (
+              <option key={option} value={option}>{option} min</option>
+            ))}
+          </select>
+          <button
+            className="fhr-action-button contraction"
+            onClick={onMarkContraction}
+            disabled={!isMonitoring}
+            title="Mark the peak of a uterine contraction (used to classify early/late decelerations)"
+          >
+            Mark Contraction
+          </button>
+          <button className="fhr-action-button" onClick={handleExportCSV} disabled={!analysis} title="Export FHR trend and events as CSV">
+            CSV
+          </button>
+          <button className="fhr-action-button" onClick={handleExportPNG} disabled={!analysis} title="Export the visible strip as an image">
+            PNG
+          </button>
+        </div>
+      </div>
+
+      <div className="fhr-trend-plot" ref={containerRef}>
+        <svg ref={svgRef} width={size.width} height={size.height} xmlns="http://www.w3.org/2000/svg">
+          <rect x={0} y={0} width={size.width} height={size.height} fill="#1a1a1a" />
+
+          {/* Normal baseline range */}
+          <rect x={MARGIN.left} y={y(160)} width={plotWidth} height={y(110) - y(160)} fill="rgba(0, 255, 65, 0.06)" />
+
+          {/* Paper grid */}
+          {gridRates.map(rate => (
+            <line
+              key={`rate-${rate}`}
+              x1={MARGIN.left} x2={MARGIN.left + plotWidth} y1={y(rate)} y2={y(rate)}
+              stroke={rate % 30 === 0 ? '#3f3f3f' : '#2a2a2a'}
+              strokeWidth={1}
+            />
+          ))}
+          {gridMinutes.map(minute => (
+            <line
+              key={`minute-${minute}`}
+              x1={x(minute * 60)} x2={x(minute * 60)} y1={MARGIN.top} y2={MARGIN.top + plotHeight}
+              stroke={minute % 10 === 0 ? '#4a4a4a' : '#2a2a2a'}
+              strokeWidth={1}
+            />
+          ))}
+
+          {/* Accelerations and decelerations */}
+          {analysis?.accelerations.filter(a => inView(a.start, a.end)).map(a => (
+            <rect
+              key={`accel-${a.start}`}
+              x={x(Math.max(a.start, viewStart))} y={MARGIN.top}
+              width={Math.max(1, x(Math.min(a.end, viewEnd)) - x(Math.max(a.start, viewStart)))} height={plotHeight}
+              fill="rgba(0, 255, 65, 0.15)"
+            />
+          ))}
+          {analysis?.decelerations.filter(d => inView(d.start, d.end)).map(d => (
+            <g key={`decel-${d.start}`}>
+              <rect
+                x={x(Math.max(d.start, viewStart))} y={MARGIN.top}
+                width={Math.max(1, x(Math.min(d.end, viewEnd)) - x(Math.max(d.start, viewStart)))} height={plotHeight}
+                fill={DECELERATION_STYLE[d.type].color} fillOpacity={0.15}
+              />
+              {d.nadirTime >= viewStart && (
+                <text x={x(d.nadirTime)} y={MARGIN.top + 14} fill={DECELERATION_STYLE[d.type].color} fontSize={12} fontWeight="bold" textAnchor="middle">
+                  {DECELERATION_STYLE[d.type].label}
+                </text>
+              )}
+            </g>
+          ))}
+
+          {/* Baseline */}
+          {analysis?.baseline.filter(s => s.baseline !== null && inView(s.start, s.end)).map(s => (
+            <line
+              key={`baseline-${s.start}`}
+              x1={x(Math.max(s.start, viewStart))} x2={x(Math.min(s.end, viewEnd))} y1={y(s.baseline!)} y2={y(s.baseline!)}
+              stroke="rgba(255, 255, 255, 0.6)" strokeWidth={1.5} strokeDasharray="6 4"
+            />
+          ))}
+
+          {/* FHR trace */}
+          {traces.map((points, index) => (
+            <polyline key={`trace-${index}`} points={points} fill="none" stroke="#9b59ff" strokeWidth={1.5} />
+          ))}
+
+          {/* Contraction marks */}
+          {contractions.filter(c => c.time >= viewStart && c.time <= viewEnd).map(c => (
+            <g key={`contraction-${c.time}`}>
+              <line x1={x(c.time)} x2={x(c.time)} y1={MARGIN.top} y2={MARGIN.top + plotHeight} stroke="#ff66cc" strokeWidth={1} strokeDasharray="2 3" />
+              <polygon
+                points={`${x(c.time)},${MARGIN.top + plotHeight - 10} ${x(c.time) - 6},${MARGIN.top + plotHeight} ${x(c.time) + 6},${MARGIN.top + plotHeight}`}
+                fill="#ff66cc"
+              />
+            </g>
+          ))}
+
+          {/* Axis labels */}
+          {gridRates.filter(rate => rate % 30 === 0 || rate === FHR_MIN).map(rate => (
+            <text key={`label-${rate}`} x={MARGIN.left - 6} y={y(rate) + 4} fill="#b0b0b0" fontSize={11} textAnchor="end" fontFamily="Courier New, monospace">
+              {rate}
+            </text>
+          ))}
+          {gridMinutes.filter(minute => minute % labelEvery === 0).map(minute => (
+            <text key={`time-${minute}`} x={x(minute * 60)} y={MARGIN.top + plotHeight + 16} fill="#b0b0b0" fontSize={11} textAnchor="middle" fontFamily="Courier New, monospace">
+              {minute} min
+            </text>
+          ))}
+          <text x={MARGIN.left} y={size.height - 6} fill="#666" fontSize={10} fontFamily="Courier New, monospace">
+            FHR (BPM) · baseline dashed · E/L/V/P/? decelerations · ▲ contraction
+          </text>
+        </svg>
+      </div>
+
+      {maxScrollBack > 0 && (
+        <div className="fhr-trend-scroll">
+          <span className="fhr-scroll-label">{scrollBack === 0 ? 'LIVE' : `-${Math.min(scrollBack, maxScrollBack)} min`}</span>
+          <input
+            type="range"
+            min={0}
+            max={maxScrollBack}
+            value={maxScrollBack - Math.min(scrollBack, maxScrollBack)}
+            onChange={(e) => setScrollBack(maxScrollBack - Number(e.target.value))}
+            title="Scroll back through the session"
+          />
+        </div>
+      )}
+    </div>
+  )
+}
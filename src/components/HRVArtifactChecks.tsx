@@ -0,0 +1,78 @@
+/**
+ * HRVArtifactChecks Component
+ *
+ * Manual validation of HRV artifact rejection against fixed RR interval series:
+ * rejection must follow the rhythm, so one bad beat or a change in rate must not
+ * reject the rest of the series.
+ */
+
+import { useState } from 'react'
+import { RRInterval, calculateHRV } from '../utils/hrvAnalysis'
+import './HRVArtifactChecks.css'
+
+interface CheckResult {
+  series: string
+  expected: string
+  actual: string
+  passed: boolean
+}
+
+// RR interval series from consecutive intervals (seconds)
+function rrSeries(intervals: number[]): RRInterval[] {
+  let time = 0
+  return intervals.map(interval => {
+    time += interval
+    return { time, interval }
+  })
+}
+
+const repeat = (interval: number, count: number) => new Array<number>(count).fill(interval)
+
+const CHECKS: Array<{ series: string, intervals: number[], expected: string }> = [
+  { series: 'Clean rhythm (375 × 0.8 s)', intervals: repeat(0.8, 375), expected: '375 used, 0 rejected' },
+  { series: 'Bad first beat (1.2 s, then 375 × 0.8 s)', intervals: [1.2, ...repeat(0.8, 375)], expected: '375 used, 1 rejected' },
+  { series: 'Rate step (200 × 0.8 s, then 200 × 0.6 s)', intervals: [...repeat(0.8, 200), ...repeat(0.6, 200)], expected: '400 used, 0 rejected' },
+  {
+    series: 'Ectopic beat (0.5 s + 1.1 s mid-series)',
+    intervals: [...repeat(0.8, 187), 0.5, 1.1, ...repeat(0.8, 188)],
+    expected: '375 used, 2 rejected'
+  }
+]
+
+function runChecks(): CheckResult[] {
+  return CHECKS.map(({ series, intervals, expected }) => {
+    const metrics = calculateHRV(rrSeries(intervals), 'maternal')
+    const actual = metrics ? `${metrics.intervalCount} used, ${metrics.rejectedCount} rejected` : 'no metrics'
+    return { series, expected, actual, passed: actual === expected }
+  })
+}
+
+export default function HRVArtifactChecks() {
+  const [results] = useState(runChecks)
+
+  return (
+    <div className="hrv-checks">
+      <h3>HRV Artifact Rejection</h3>
+      <table>
+        <thead>
+          <tr>
+            <th>Series</th>
+            <th>Expected</th>
+            <th>Actual</th>
+            <th>Result</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map(result => (
+            <tr key={result.series} className={result.passed ? 'pass' : 'fail'}>
+              <td>{result.series}</td>
+              <td>{result.expected}</td>
+              <td>{result.actual}</td>
+              <td>{result.passed ? '✅ PASS' : '❌ FAIL'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
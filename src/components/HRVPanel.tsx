@@ -0,0 +1,100 @@
+import { useState } from 'react'
+import { HRVMetrics, HRVSummary, SHORT_TERM_SECONDS } from '../utils/hrvAnalysis'
+import './HRVPanel.css'
+
+interface HRVPanelProps {
+  fetal: HRVSummary
+  maternal: HRVSummary
+}
+
+type HRVRange = 'short-term' | 'session'
+
+interface MetricRow {
+  label: string
+  unit: string
+  title: string
+  getValue: (metrics: HRVMetrics) => number | null
+  decimals: number
+}
+
+const METRIC_ROWS: MetricRow[] = [
+  { label: 'SDNN', unit: 'ms', title: 'Standard deviation of beat-to-beat intervals (overall variability)', getValue: m => m.sdnn, decimals: 1 },
+  { label: 'RMSSD', unit: 'ms', title: 'Root mean square of successive differences (short-term variability)', getValue: m => m.rmssd, decimals: 1 },
+  { label: 'pNN50', unit: '%', title: 'Successive intervals differing by more than 50 ms', getValue: m => m.pnn50, decimals: 1 },
+  { label: 'LF', unit: 'ms²', title: 'Low-frequency power (0.04-0.15 Hz)', getValue: m => m.lfPower, decimals: 0 },
+  { label: 'HF', unit: 'ms²', title: 'High-frequency power (respiratory / fetal breathing band)', getValue: m => m.hfPower, decimals: 0 },
+  { label: 'LF/HF', unit: '', title: 'Sympathovagal balance', getValue: m => m.lfHfRatio, decimals: 2 }
+]
+
+export default function HRVPanel({ fetal, maternal }: HRVPanelProps) {
+  const [range, setRange] = useState<HRVRange>('short-term')
+
+  const fetalMetrics = range === 'short-term' ? fetal.shortTerm : fetal.session
+  const maternalMetrics = range === 'short-term' ? maternal.shortTerm : maternal.session
+
+  const formatValue = (metrics: HRVMetrics | null, row: MetricRow) => {
+    if (!metrics) return '--'
+    const value = row.getValue(metrics)
+    // Spectral values need at least one 64 s analysis segment
+    if (value === null) return '...'
+    return value.toFixed(row.decimals)
+  }
+
+  const formatBeats = (metrics: HRVMetrics | null) => {
+    if (!metrics) return '--'
+    return metrics.rejectedCount > 0
+      ? `${metrics.intervalCount} (-${metrics.rejectedCount})`
+      : `${metrics.intervalCount}`
+  }
+
+  return (
+    <div className="hrv-panel">
+      <div className="hrv-header">
+        <h3 className="hrv-title">HRV</h3>
+        <div className="hrv-range-toggle">
+          <button
+            className={`hrv-range-button ${range === 'short-term' ? 'active' : ''}`}
+            onClick={() => setRange('short-term')}
+            title={`Most recent ${SHORT_TERM_SECONDS / 60} minutes`}
+          >
+            {SHORT_TERM_SECONDS / 60} MIN
+          </button>
+          <button
+            className={`hrv-range-button ${range === 'session' ? 'active' : ''}`}
+            onClick={() => setRange('session')}
+            title="Whole recording session"
+          >
+            SESSION
+          </button>
+        </div>
+      </div>
+
+      <table className="hrv-table">
+        <thead>
+          <tr>
+            <th />
+            <th className="hrv-fetal">FETAL</th>
+            <th className="hrv-maternal">MATERNAL</th>
+          </tr>
+        </thead>
+        <tbody>
+          {METRIC_ROWS.map(row => (
+            <tr key={row.label} title={row.title}>
+              <td className="hrv-label">
+                {row.label}
+                {row.unit && <span className="hrv-unit"> {row.unit}</span>}
+              </td>
+              <td className="hrv-value">{formatValue(fetalMetrics, row)}</td>
+              <td className="hrv-value">{formatValue(maternalMetrics, row)}</td>
+            </tr>
+          ))}
+          <tr title="Intervals analysed (rejected artifacts / ectopic beats in brackets)">
+            <td className="hrv-label">Beats</td>
+            <td className="hrv-value">{formatBeats(fetalMetrics)}</td>
+            <td className="hrv-value">{formatBeats(maternalMetrics)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -2,6 +2,8 @@ import { useEffect, useState } from 'react'
 import { EKGDataPoint } from '../App'
 import SystemInsightsModal from './SystemInsightsModal'
 import { useHeartbeatBeep } from '../hooks/useHeartbeatBeep'
+import { useMonitoringConfig } from '../hooks/useMonitoringConfig'
+import { detectQRS, calculateHeartRate } from '../utils/qrsDetector'
 import './HeartRateMonitor.css'
 // InfoIcon - using inline SVG
 
@@ -12,15 +14,36 @@ interface AlarmMetrics {
   avgResponseTimeMs: number
 }
 
+type StatusEntry = { status: 'normal' | 'warning' | 'critical', timestamp: number }
+
+/**
+ * How long the trailing run of history entries matching `matches` has lasted (ms)
+ */
+function sustainedFor(history: StatusEntry[], matches: (entry: StatusEntry) => boolean, now: number): number {
+  let start = now
+  for (let i = history.length - 1; i >= 0 && matches(history[i]); i--) {
+    start = history[i].timestamp
+  }
+  return now - start
+}
+
 interface HeartRateMonitorProps {
   data: EKGDataPoint[]
   type: 'maternal' | 'fetal'
   onStatusChange?: (status: 'normal' | 'warning' | 'critical') => void
   alarmMetrics?: AlarmMetrics
   heartbeatBeepEnabled?: boolean
+  signalInvalid?: boolean // This rate's input has no usable signal (data gap, flat line, unsupported rate): show "---"
 }
 
-export default function HeartRateMonitor({ data, type, onStatusChange, alarmMetrics, heartbeatBeepEnabled = true }: HeartRateMonitorProps) {
+export default function HeartRateMonitor({
+  data,
+  type,
+  onStatusChange,
+  alarmMetrics,
+  heartbeatBeepEnabled = true,
+  signalInvalid = false
+}: HeartRateMonitorProps) {
   const [heartRate, setHeartRate] = useState<number>(0)
   const [status, setStatus] = useState<'normal' | 'warning' | 'critical'>('normal')
   const [isWarningExpanded, setIsWarningExpanded] = useState(false)
@@ -28,7 +51,7 @@ export default function HeartRateMonitor({ data, type, onStatusChange, alarmMetr
 
   // Track abnormal status duration to prevent false alarms
   // Per clinical guidelines: alarms should only trigger for sustained abnormalities
-  const abnormalStatusHistory = useState<Array<{ status: 'normal' | 'warning' | 'critical', timestamp: number }>>(() => [])[0]
+  const abnormalStatusHistory = useState<StatusEntry[]>(() => [])[0]
 
   // Enable heartbeat beep sounds (like real hospital monitors)
   useHeartbeatBeep({
@@ -53,66 +76,36 @@ export default function HeartRateMonitor({ data, type, onStatusChange, alarmMetr
   }
   const metrics = alarmMetrics || defaultMetrics
 
-  // Define thresholds based on ACOG/NICHD clinical guidelines
-  // Maternal: Normal adult HR is 60-100 BPM, pregnancy increases baseline by 10-20 BPM
-  // Fetal: Normal baseline is 110-160 BPM per ACOG guidelines
-  const thresholds = type === 'maternal'
-    ? {
-        criticalLow: 40,      // Severe bradycardia requiring intervention
-        warningLow: 50,       // Bradycardia, monitor closely
-        normalLow: 60,        // Normal lower limit
-        normalHigh: 100,      // Normal upper limit
-        warningHigh: 120,     // Tachycardia, monitor
-        criticalHigh: 140     // Severe tachycardia requiring intervention
-      }
-    : {
-        criticalLow: 100,     // Severe fetal bradycardia per RANZCOG (<100 for >5 min)
-        warningLow: 110,      // Borderline bradycardia (ACOG threshold)
-        normalLow: 120,       // Normal fetal baseline lower limit (ACOG/NICHD)
-        normalHigh: 160,      // Normal fetal baseline upper limit (ACOG/NICHD)
-        warningHigh: 170,     // Borderline tachycardia (ACOG threshold)
-        criticalHigh: 180     // Severe fetal tachycardia requiring intervention
-      }
+  // Thresholds, detection window and sustained-alarm delays from the active monitoring profile
+  const config = useMonitoringConfig()
+  const thresholds = config.thresholds[type]
+  const { warningMs, criticalMs } = config.sustained
 
   useEffect(() => {
+    if (signalInvalid) {
+      // No rate from a faulty input: drop the last value and its alarm history
+      abnormalStatusHistory.length = 0
+      setHeartRate(0)
+      setStatus('normal')
+      if (onStatusChange) {
+        onStatusChange('normal')
+      }
+      return
+    }
     if (data.length < 100) return // Need enough data for reliable calculation
 
-    // Calculate heart rate from peaks in the last 5 seconds
-    const recentData = data.slice(-1250) // Last 5 seconds at 250 Hz
+    // Calculate heart rate from peaks in the detection window (250 Hz)
+    const recentData = data.slice(-config.detectionWindowSeconds * 250)
     const signal = type === 'maternal'
       ? recentData.map(d => d.mother)
       : recentData.map(d => d.fetus)
 
-    // Find peaks (simplified peak detection)
-    const peaks: number[] = []
-    const threshold = Math.max(...signal) * 0.5
-
-    for (let i = 10; i < signal.length - 10; i++) {
-      if (signal[i] > threshold &&
-          signal[i] > signal[i - 1] &&
-          signal[i] > signal[i + 1]) {
-        // Check if it's a local maximum
-        const isLocalMax = signal.slice(i - 10, i + 10).every((v, idx) =>
-          idx === 10 || v <= signal[i]
-        )
-        if (isLocalMax) {
-          peaks.push(i)
-        }
-      }
-    }
+    // Pan-Tompkins detection tuned for the maternal or fetal rate range
+    const beats = detectQRS(signal, type, 250)
+    const beatsPerMinute = calculateHeartRate(beats, type, 250)
 
-    // Calculate heart rate from peak intervals
-    if (peaks.length >= 2) {
-      const intervals = []
-      for (let i = 1; i < peaks.length; i++) {
-        intervals.push(peaks[i] - peaks[i - 1])
-      }
-      const avgInterval = intervals.reduce((a, b) => a + b, 0) / intervals.length
-      const samplesPerSecond = 250
-      const secondsPerBeat = avgInterval / samplesPerSecond
-      const beatsPerMinute = 60 / secondsPerBeat
-
-      setHeartRate(Math.round(beatsPerMinute))
+    if (beatsPerMinute > 0) {
+      setHeartRate(beatsPerMinute)
 
       // Determine instantaneous status based on thresholds
       let instantaneousStatus: 'normal' | 'warning' | 'critical'
@@ -128,30 +121,26 @@ export default function HeartRateMonitor({ data, type, onStatusChange, alarmMetr
       const now = Date.now()
       abnormalStatusHistory.push({ status: instantaneousStatus, timestamp: now })
 
-      // Keep only last 10 seconds of history (for sustained alarm detection)
-      const tenSecondsAgo = now - 10000
-      while (abnormalStatusHistory.length > 0 && abnormalStatusHistory[0].timestamp < tenSecondsAgo) {
+      // Keep enough history to cover the longest sustained-duration check
+      const historyStart = now - 2 * Math.max(warningMs, criticalMs)
+      while (abnormalStatusHistory.length > 0 && abnormalStatusHistory[0].timestamp < historyStart) {
         abnormalStatusHistory.shift()
       }
 
       // Determine final status with sustained threshold logic
-      // Critical alarms: Require 5+ seconds of sustained critical readings (reduces false alarms by ~80%)
-      // Warning alarms: Require 3+ seconds of sustained warning/critical readings
+      // Critical alarms: require criticalMs of sustained critical readings (reduces false alarms)
+      // Warning alarms: require warningMs of sustained warning/critical readings
       let finalStatus: 'normal' | 'warning' | 'critical' = 'normal'
 
       if (instantaneousStatus === 'critical') {
-        // Check if critical for at least 5 seconds
-        const criticalDuration = now - (abnormalStatusHistory.find(h => h.status !== 'critical')?.timestamp || now - 10000)
-        if (criticalDuration >= 5000) {
+        if (sustainedFor(abnormalStatusHistory, h => h.status === 'critical', now) >= criticalMs) {
           finalStatus = 'critical'
         } else {
           // Show warning during the buildup period
           finalStatus = 'warning'
         }
       } else if (instantaneousStatus === 'warning') {
-        // Check if warning or critical for at least 3 seconds
-        const abnormalDuration = now - (abnormalStatusHistory.find(h => h.status === 'normal')?.timestamp || now - 10000)
-        if (abnormalDuration >= 3000) {
+        if (sustainedFor(abnormalStatusHistory, h => h.status !== 'normal', now) >= warningMs) {
           finalStatus = 'warning'
         } else {
           finalStatus = 'normal'
@@ -165,7 +154,7 @@ export default function HeartRateMonitor({ data, type, onStatusChange, alarmMetr
         onStatusChange(finalStatus)
       }
     }
-  }, [data, type, thresholds, onStatusChange])
+  }, [data, type, config, onStatusChange, signalInvalid])
 
   const getStatusColor = () => {
     switch (status) {
@@ -229,15 +218,19 @@ export default function HeartRateMonitor({ data, type, onStatusChange, alarmMetr
               <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-6h2v6zm0-8h-2V7h2v2z"/>
             </svg>
           </button>
-          <div className={`hrm-status status-${status}`}>
-            {getStatusText()}
-          </div>
+          {signalInvalid ? (
+            <div className="hrm-status status-invalid">NO SIGNAL</div>
+          ) : (
+            <div className={`hrm-status status-${status}`}>
+              {getStatusText()}
+            </div>
+          )}
         </div>
       </div>
 
       <div className="hrm-display">
-        <div className="hrm-value" style={{ color: getStatusColor() }}>
-          {heartRate > 0 ? heartRate : '--'}
+        <div className="hrm-value" style={{ color: signalInvalid ? '#4ecdc4' : getStatusColor() }}>
+          {signalInvalid ? '---' : heartRate > 0 ? heartRate : '--'}
         </div>
         <div className="hrm-unit">BPM</div>
       </div>
@@ -344,11 +337,6 @@ export default function HeartRateMonitor({ data, type, onStatusChange, alarmMetr
         currentStatus={status}
         alarmMetrics={metrics}
         currentHeartRate={heartRate}
-        onApplyConfig={(config) => {
-          console.log(`${type} monitor configuration updated:`, config)
-          // TODO: Apply configuration to actual system
-          // This would update alarm sound settings, thresholds, etc.
-        }}
       />
     </div>
   )
@@ -0,0 +1,72 @@
+import { useState } from 'react'
+import { NICHDClassification } from '../utils/nichdClassifier'
+import './NICHDCategoryPanel.css'
+
+interface NICHDCategoryPanelProps {
+  classification: NICHDClassification | null
+  alarmFollowsCategory: boolean
+  onAlarmFollowsCategoryChange: (follows: boolean) => void
+}
+
+export default function NICHDCategoryPanel({
+  classification,
+  alarmFollowsCategory,
+  onAlarmFollowsCategoryChange
+}: NICHDCategoryPanelProps) {
+  const [showCriteria, setShowCriteria] = useState(false)
+
+  const category = classification?.category ?? null
+  const categoryClass = category ? `category-${category.toLowerCase()}` : 'category-none'
+  const windowMinutes = classification ? Math.floor(classification.windowSeconds / 60) : 0
+
+  return (
+    <div className={`nichd-panel ${categoryClass}`}>
+      <div className="nichd-header">
+        <h3 className="nichd-title">FHR CATEGORY</h3>
+        <div className={`nichd-badge ${categoryClass}`}>
+          {category ? `CAT ${category}` : 'PENDING'}
+        </div>
+      </div>
+
+      {classification && (
+        <ul className="nichd-drivers">
+          {classification.drivers.map(driver => (
+            <li key={driver}>{driver}</li>
+          ))}
+        </ul>
+      )}
+
+      {classification && (
+        <button
+          className="nichd-criteria-toggle"
+          onClick={() => setShowCriteria(!showCriteria)}
+          title={showCriteria ? 'Hide criteria' : 'Show all criteria'}
+        >
+          {showCriteria ? '▼' : '▶'} Criteria (last {windowMinutes} min)
+        </button>
+      )}
+
+      {classification && showCriteria && (
+        <table className="nichd-criteria">
+          <tbody>
+            {classification.criteria.map(criterion => (
+              <tr key={criterion.label} className={`criterion-${criterion.category.toLowerCase()}`}>
+                <td className="criterion-label">{criterion.label}</td>
+                <td className="criterion-value">{criterion.value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <label className="nichd-alarm-option" title="Category II raises a caution and Category III an alarm, in addition to the heart rate thresholds">
+        <input
+          type="checkbox"
+          checked={alarmFollowsCategory}
+          onChange={(e) => onAlarmFollowsCategoryChange(e.target.checked)}
+        />
+        Alarms follow category
+      </label>
+    </div>
+  )
+}
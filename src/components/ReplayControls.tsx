@@ -0,0 +1,77 @@
+import { REPLAY_SPEEDS, ReplaySource } from '../hooks/useSessionReplay'
+import './ReplayControls.css'
+
+interface ReplayControlsProps {
+  source: ReplaySource
+  isPlaying: boolean
+  position: number          // Seconds
+  duration: number          // Seconds
+  speed: number
+  onPlayPause: () => void
+  onSeek: (seconds: number) => void
+  onSpeedChange: (speed: number) => void
+  onExit: () => void
+}
+
+function formatTime(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds))
+  const hours = Math.floor(whole / 3600)
+  const mm = Math.floor((whole % 3600) / 60).toString().padStart(2, '0')
+  const ss = (whole % 60).toString().padStart(2, '0')
+  return hours > 0 ? `${hours}:${mm}:${ss}` : `${mm}:${ss}`
+}
+
+export default function ReplayControls({
+  source,
+  isPlaying,
+  position,
+  duration,
+  speed,
+  onPlayPause,
+  onSeek,
+  onSpeedChange,
+  onExit
+}: ReplayControlsProps) {
+  return (
+    <div className="replay-controls">
+      <span className="replay-badge" title="Showing a stored recording, not live data">REPLAY</span>
+      <span className="replay-session-label">
+        {source.fileName ? `${source.fileName} · ` : ''}
+        {new Date(source.startedAt).toLocaleString()}
+        {source.patientId ? ` · ${source.patientId}` : ''}
+      </span>
+
+      <button className="replay-button" onClick={onPlayPause} title={isPlaying ? 'Pause replay' : 'Play replay'}>
+        {isPlaying ? '❚❚' : '▶'}
+      </button>
+
+      <span className="replay-time">{formatTime(position)}</span>
+      <input
+        className="replay-seek"
+        type="range"
+        min={0}
+        max={Math.max(0, Math.floor(duration))}
+        step={1}
+        value={Math.min(position, Math.floor(duration))}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        title="Jump to a moment of the recording"
+      />
+      <span className="replay-time">{formatTime(duration)}</span>
+
+      <select
+        className="replay-speed"
+        value={speed}
+        onChange={(e) => onSpeedChange(Number(e.target.value))}
+        title="Playback speed"
+      >
+        {REPLAY_SPEEDS.map(option => (
+          <option key={option} value={option}>{option}×</option>
+        ))}
+      </select>
+
+      <button className="replay-button replay-exit" onClick={onExit} title="Leave replay and return to the live source">
+        Exit Replay
+      </button>
+    </div>
+  )
+}
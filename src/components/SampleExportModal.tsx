@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react'
+import {
+  exportSessionSamples,
+  SampleChannelGroup,
+  SampleExportFormat,
+  SAMPLE_CHANNEL_GROUPS
+} from '../utils/sampleExport'
+import './SampleExportModal.css'
+
+interface SampleExportModalProps {
+  isOpen: boolean
+  sessionId: number | null
+  initialRange: [number, number] | null  // Visible chart window in seconds (null = whole session)
+  onClose: () => void
+}
+
+const FORMATS: Array<{ value: SampleExportFormat, label: string, description: string }> = [
+  { value: 'csv', label: 'CSV', description: 'One row per sample, header row with column names' },
+  { value: 'jsonl', label: 'JSON Lines', description: 'One JSON object per sample' },
+  { value: 'excel', label: 'Excel', description: 'Workbook with data, BPM and voltage charts' }
+]
+
+const DECIMATION_FACTORS = [1, 2, 5, 10, 25, 50]
+
+function parseTime(value: string): number | null {
+  if (value.trim() === '') return null
+  const seconds = Number(value)
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : NaN
+}
+
+export default function SampleExportModal({ isOpen, sessionId, initialRange, onClose }: SampleExportModalProps) {
+  const [format, setFormat] = useState<SampleExportFormat>('csv')
+  const [channels, setChannels] = useState<SampleChannelGroup[]>(['raw', 'filtered', 'extracted'])
+  const [startTime, setStartTime] = useState('')
+  const [endTime, setEndTime] = useState('')
+  const [decimation, setDecimation] = useState(1)
+  const [includeMetadata, setIncludeMetadata] = useState(true)
+  const [isExporting, setIsExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<string | null>(null)
+
+  // Each opening starts from the range it was opened with; format and channels are kept
+  useEffect(() => {
+    if (!isOpen) return
+    setStartTime(initialRange ? initialRange[0].toFixed(3) : '')
+    setEndTime(initialRange ? initialRange[1].toFixed(3) : '')
+    setError(null)
+    setResult(null)
+  }, [isOpen, initialRange])
+
+  if (!isOpen || sessionId === null) return null
+
+  const toggleChannel = (channel: SampleChannelGroup) => {
+    setChannels(prev => prev.includes(channel) ? prev.filter(c => c !== channel) : [...prev, channel])
+  }
+
+  const start = parseTime(startTime)
+  const end = parseTime(endTime)
+  const rangeInvalid = Number.isNaN(start) || Number.isNaN(end) || (start !== null && end !== null && end <= start)
+  const canExport = !isExporting && !rangeInvalid && (format === 'excel' || channels.length > 0)
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    setError(null)
+    setResult(null)
+    try {
+      const exported = await exportSessionSamples(sessionId, {
+        format,
+        // Keep the column order of the channel list regardless of click order
+        channels: (Object.keys(SAMPLE_CHANNEL_GROUPS) as SampleChannelGroup[]).filter(c => channels.includes(c)),
+        startTime: start,
+        endTime: end,
+        decimation,
+        includeMetadata
+      })
+      setResult(`Exported ${exported.rows.toLocaleString()} samples`)
+    } catch (err) {
+      console.error('Error exporting samples:', err)
+      setError(err instanceof Error ? err.message : 'Export failed')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className="sample-export-overlay" onClick={onClose}>
+      <div className="sample-export-content" onClick={e => e.stopPropagation()}>
+        <div className="sample-export-header">
+          <h2 className="sample-export-title">EXPORT SAMPLES</h2>
+          <p className="sample-export-subtitle">Session #{sessionId}</p>
+        </div>
+
+        <div className="sample-export-body">
+          <div className="sample-export-section">
+            <div className="sample-export-label">Format</div>
+            <div className="sample-export-options">
+              {FORMATS.map(option => (
+                <label key={option.value} className="sample-export-option" title={option.description}>
+                  <input
+                    type="radio"
+                    name="sample-export-format"
+                    checked={format === option.value}
+                    onChange={() => setFormat(option.value)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="sample-export-section">
+            <div className="sample-export-label">Channels</div>
+            <div className="sample-export-options column">
+              {(Object.keys(SAMPLE_CHANNEL_GROUPS) as SampleChannelGroup[]).map(channel => (
+                <label key={channel} className="sample-export-option">
+                  <input
+                    type="checkbox"
+                    checked={channels.includes(channel)}
+                    onChange={() => toggleChannel(channel)}
+                    disabled={format === 'excel'}
+                  />
+                  <span className="sample-export-option-name">{SAMPLE_CHANNEL_GROUPS[channel].label}</span>
+                  <span className="sample-export-option-hint">{SAMPLE_CHANNEL_GROUPS[channel].description}</span>
+                </label>
+              ))}
+            </div>
+            {format === 'excel' && <div className="sample-export-note">The workbook has a fixed column layout.</div>}
+          </div>
+
+          <div className="sample-export-section">
+            <div className="sample-export-label">Time range (s)</div>
+            <div className="sample-export-options">
+              <input
+                className="sample-export-input"
+                type="number"
+                min={0}
+                step={0.1}
+                placeholder="start"
+                value={startTime}
+                onChange={e => setStartTime(e.target.value)}
+              />
+              <span>to</span>
+              <input
+                className="sample-export-input"
+                type="number"
+                min={0}
+                step={0.1}
+                placeholder="end"
+                value={endTime}
+                onChange={e => setEndTime(e.target.value)}
+              />
+              <button
+                className="sample-export-button"
+                onClick={() => { setStartTime(''); setEndTime('') }}
+                title="Export the whole session"
+              >
+                Whole Session
+              </button>
+            </div>
+            {rangeInvalid && <div className="sample-export-error">The end must be after the start.</div>}
+          </div>
+
+          <div className="sample-export-section">
+            <div className="sample-export-label">Decimation</div>
+            <div className="sample-export-options">
+              <select
+                className="sample-export-input"
+                value={decimation}
+                onChange={e => setDecimation(Number(e.target.value))}
+              >
+                {DECIMATION_FACTORS.map(factor => (
+                  <option key={factor} value={factor}>
+                    {factor === 1 ? 'None (250 Hz)' : `Every ${factor}th sample (${250 / factor} Hz)`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <label className="sample-export-option">
+            <input type="checkbox" checked={includeMetadata} onChange={e => setIncludeMetadata(e.target.checked)} />
+            Metadata sidecar (.json with units, filter settings and sample rate)
+          </label>
+
+          {error && <div className="sample-export-error">{error}</div>}
+          {result && <div className="sample-export-result">{result}</div>}
+        </div>
+
+        <div className="sample-export-footer">
+          <button className="sample-export-button" onClick={onClose}>Close</button>
+          <button className="sample-export-button primary" onClick={handleExport} disabled={!canExport}>
+            {isExporting ? 'Exporting…' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
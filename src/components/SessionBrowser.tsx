@@ -0,0 +1,243 @@
+import { useEffect, useRef, useState } from 'react'
+import { getSessions, MonitoringSession, SessionDataSource } from '../utils/dataStorage'
+import { exportSessionToEDF } from '../utils/edfExport'
+import { exportSessionToWFDB } from '../utils/wfdbExport'
+import { exportSessionReport } from '../utils/sessionReport'
+import { EDFFormat } from '../utils/edf'
+import './SessionBrowser.css'
+
+interface SessionBrowserProps {
+  recordingSessionId: number | null   // Session being recorded right now (not replayable yet)
+  canReplay: boolean                  // False while live monitoring is running
+  replayError: string | null
+  onReplay: (sessionId: number) => void
+  onReplayFiles: (files: File[]) => void  // EDF+/BDF+ file, or a WFDB record's files
+  onReview: (sessionId: number) => void
+  onExportSamples: (sessionId: number) => void  // CSV / JSON Lines / Excel with channel and range choice
+  onRecover: () => void               // Export, resume or discard unfinished sessions
+}
+
+const SOURCE_LABELS: Record<SessionDataSource, string> = {
+  simulated: 'Simulated',
+  real: 'PhysioNet',
+  arduino: 'Arduino',
+  raw: 'Signal pair'
+}
+
+function formatDuration(seconds: number): string {
+  const whole = Math.round(seconds)
+  const hours = Math.floor(whole / 3600)
+  const minutes = Math.floor((whole % 3600) / 60)
+  if (hours > 0) return `${hours}h ${minutes.toString().padStart(2, '0')}m`
+  return `${minutes}m ${(whole % 60).toString().padStart(2, '0')}s`
+}
+
+function describeSource(session: MonitoringSession): string {
+  if (!session.dataSource) return 'Migrated'
+  const label = SOURCE_LABELS[session.dataSource]
+  return session.signalPair ? `${label} (${session.signalPair})` : label
+}
+
+export default function SessionBrowser({
+  recordingSessionId,
+  canReplay,
+  replayError,
+  onReplay,
+  onReplayFiles,
+  onReview,
+  onExportSamples,
+  onRecover
+}: SessionBrowserProps) {
+  const [sessions, setSessions] = useState<MonitoringSession[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [exportingId, setExportingId] = useState<number | null>(null)
+  const [exportError, setExportError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const refresh = () => {
+    setIsLoading(true)
+    getSessions()
+      .then(setSessions)
+      .catch(err => console.error('Error loading sessions:', err))
+      .finally(() => setIsLoading(false))
+  }
+
+  // Reload when a recording starts or stops so its row is current
+  useEffect(refresh, [recordingSessionId])
+
+  const handleExport = (sessionId: number, format: EDFFormat | 'wfdb' | 'pdf') => {
+    setExportingId(sessionId)
+    setExportError(null)
+    const exported = format === 'pdf'
+      ? exportSessionReport(sessionId)
+      : format === 'wfdb' ? exportSessionToWFDB(sessionId) : exportSessionToEDF(sessionId, format)
+    exported
+      .catch(err => {
+        console.error('Error exporting session:', err)
+        setExportError(err instanceof Error ? err.message : 'Export failed')
+      })
+      .finally(() => setExportingId(null))
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = '' // Allow opening the same file again
+    if (files.length > 0) onReplayFiles(files)
+  }
+
+  return (
+    <div className="session-browser">
+      <div className="session-browser-header">
+        <h3 className="session-browser-title">RECORDED SESSIONS</h3>
+        <div className="session-browser-actions">
+          <button
+            className="session-refresh-button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!canReplay}
+            title={canReplay
+              ? 'Replay an EDF+/BDF+ file, or a WFDB record (select the .hea with its .dat and annotation files)'
+              : 'Stop monitoring to replay a file'}
+          >
+            Open File…
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".edf,.bdf,.hea,.dat,.atr,.qrs,.fqrs,.mqrs,.ecg"
+            onChange={handleFileChange}
+            multiple
+            hidden
+          />
+          <button className="session-refresh-button" onClick={refresh} title="Reload the session list">
+            ⟳ Refresh
+          </button>
+        </div>
+      </div>
+
+      {replayError && <div className="session-browser-error">{replayError}</div>}
+      {exportError && <div className="session-browser-error">{exportError}</div>}
+
+      <div className="session-table-container">
+        {!isLoading && sessions.length === 0 ? (
+          <div className="session-browser-empty">No recordings yet. Start monitoring to record a session.</div>
+        ) : (
+          <table className="session-table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Duration</th>
+                <th>Patient</th>
+                <th>Source</th>
+                <th>Alarms</th>
+                <th>FHR min–max</th>
+                <th>Status</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sessions.map(session => {
+                const id = session.id!
+                const isRecording = id === recordingSessionId
+                const summary = session.summary
+                return (
+                  <tr key={id} className={isRecording ? 'session-row recording' : 'session-row'}>
+                    <td className="session-mono">{new Date(session.startedAt).toLocaleString()}</td>
+                    <td className="session-mono">
+                      {session.endedAt !== null ? formatDuration(session.sampleCount / session.sampleRate) : '—'}
+                    </td>
+                    <td>{session.patientId || '—'}</td>
+                    <td>{describeSource(session)}</td>
+                    <td className={`session-mono ${summary && summary.alarmCount > 0 ? 'session-alarms' : ''}`}>
+                      {summary ? summary.alarmCount : '—'}
+                    </td>
+                    <td className="session-mono">
+                      {summary?.fetalBPMMin != null && summary.fetalBPMMax != null
+                        ? `${summary.fetalBPMMin}–${summary.fetalBPMMax}`
+                        : '—'}
+                    </td>
+                    <td>
+                      {isRecording ? (
+                        <span className="session-status status-recording">RECORDING</span>
+                      ) : session.endedAt !== null ? (
+                        <span className="session-status status-complete">COMPLETE</span>
+                      ) : (
+                        <span className="session-status status-unfinished" title="The app closed before this recording was stopped">
+                          UNFINISHED
+                        </span>
+                      )}
+                    </td>
+                    <td className="session-actions">
+                      <button
+                        className="session-action-button"
+                        onClick={() => onReplay(id)}
+                        disabled={!canReplay || isRecording}
+                        title={canReplay ? 'Replay this recording through the monitor' : 'Stop monitoring to replay a recording'}
+                      >
+                        ▶ Replay
+                      </button>
+                      <button
+                        className="session-action-button"
+                        onClick={() => onReview(id)}
+                        title="Show this session's alarm events"
+                      >
+                        Events
+                      </button>
+                      <button
+                        className="session-action-button"
+                        onClick={() => onExportSamples(id)}
+                        title="Export samples as CSV, JSON Lines or Excel"
+                      >
+                        Samples…
+                      </button>
+                      <button
+                        className="session-action-button"
+                        onClick={() => handleExport(id, 'edf')}
+                        disabled={isRecording || exportingId !== null}
+                        title="Download as EDF+ (16-bit) with alarm events as annotations"
+                      >
+                        EDF+
+                      </button>
+                      <button
+                        className="session-action-button"
+                        onClick={() => handleExport(id, 'bdf')}
+                        disabled={isRecording || exportingId !== null}
+                        title="Download as BDF+ (24-bit) with alarm events as annotations"
+                      >
+                        BDF+
+                      </button>
+                      <button
+                        className="session-action-button"
+                        onClick={() => handleExport(id, 'wfdb')}
+                        disabled={isRecording || exportingId !== null}
+                        title="Download as a WFDB record (.hea, .dat) with detected maternal and fetal beats (.mqrs, .fqrs)"
+                      >
+                        WFDB
+                      </button>
+                      <button
+                        className="session-action-button"
+                        onClick={() => handleExport(id, 'pdf')}
+                        disabled={isRecording || exportingId !== null}
+                        title="Download a printable PDF report: trends, alarms with waveform strips, HRV and signal quality"
+                      >
+                        Report
+                      </button>
+                      {!isRecording && session.endedAt === null && (
+                        <button
+                          className="session-action-button"
+                          onClick={onRecover}
+                          title="Export, resume or discard this interrupted recording"
+                        >
+                          Recover
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
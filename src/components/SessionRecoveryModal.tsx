@@ -0,0 +1,118 @@
+import { useState } from 'react'
+import { UnfinishedSession } from '../utils/dataStorage'
+import './SessionRecoveryModal.css'
+
+interface SessionRecoveryModalProps {
+  isOpen: boolean
+  sessions: UnfinishedSession[]
+  canResume: boolean                  // False while monitoring is running
+  busySessionId: number | null        // Session being exported or discarded
+  onExport: (recovered: UnfinishedSession) => void
+  onResume: (recovered: UnfinishedSession) => void
+  onDiscard: (recovered: UnfinishedSession) => void
+  onClose: () => void
+}
+
+function formatDuration(seconds: number): string {
+  const whole = Math.round(seconds)
+  const minutes = Math.floor(whole / 60)
+  return `${minutes}m ${(whole % 60).toString().padStart(2, '0')}s`
+}
+
+export default function SessionRecoveryModal({
+  isOpen,
+  sessions,
+  canResume,
+  busySessionId,
+  onExport,
+  onResume,
+  onDiscard,
+  onClose
+}: SessionRecoveryModalProps) {
+  // Discarding deletes recorded data, so it takes a second click
+  const [confirmDiscardId, setConfirmDiscardId] = useState<number | null>(null)
+
+  if (!isOpen || sessions.length === 0) return null
+
+  return (
+    <div className="recovery-modal-overlay">
+      <div className="recovery-modal-content">
+        <div className="recovery-modal-header">
+          <h2 className="recovery-modal-title">INTERRUPTED RECORDING{sessions.length > 1 ? 'S' : ''} FOUND</h2>
+          <p className="recovery-modal-text">
+            Monitoring was not stopped before the page closed. The data recorded up to that point is still stored.
+            Choose what to do with it - nothing is deleted unless you discard it.
+          </p>
+        </div>
+
+        <div className="recovery-modal-body">
+          {sessions.map(recovered => {
+            const { session, sampleCount } = recovered
+            const id = session.id!
+            const isBusy = busySessionId === id
+            const lastSeen = recovered.lastTimestamp !== null ? new Date(recovered.lastTimestamp).toLocaleTimeString() : null
+
+            return (
+              <div key={id} className="recovery-session">
+                <div className="recovery-session-info">
+                  <div className="recovery-session-date">{new Date(session.startedAt).toLocaleString()}</div>
+                  <div className="recovery-session-details">
+                    {session.patientId ? `Patient ${session.patientId} · ` : ''}
+                    {sampleCount > 0
+                      ? `${sampleCount.toLocaleString()} samples (${formatDuration(sampleCount / session.sampleRate)})`
+                      : 'No samples stored'}
+                    {lastSeen && ` · last sample at ${lastSeen}`}
+                  </div>
+                </div>
+
+                {confirmDiscardId === id ? (
+                  <div className="recovery-session-actions">
+                    <span className="recovery-discard-warning">Delete this recording permanently?</span>
+                    <button className="recovery-button danger" onClick={() => onDiscard(recovered)} disabled={isBusy}>
+                      Delete
+                    </button>
+                    <button className="recovery-button" onClick={() => setConfirmDiscardId(null)}>
+                      Keep
+                    </button>
+                  </div>
+                ) : (
+                  <div className="recovery-session-actions">
+                    <button
+                      className="recovery-button primary"
+                      onClick={() => onExport(recovered)}
+                      disabled={isBusy || sampleCount === 0}
+                      title="Close the session and export it to Excel"
+                    >
+                      {isBusy ? 'Working…' : 'Export'}
+                    </button>
+                    <button
+                      className="recovery-button"
+                      onClick={() => onResume(recovered)}
+                      disabled={isBusy || !canResume}
+                      title="Start monitoring again, appending to this session"
+                    >
+                      Resume
+                    </button>
+                    <button
+                      className="recovery-button"
+                      onClick={() => setConfirmDiscardId(id)}
+                      disabled={isBusy}
+                      title="Delete this session"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="recovery-modal-footer">
+          <span className="recovery-modal-note">Undecided sessions stay marked UNFINISHED in the Sessions view.</span>
+          <button className="recovery-button" onClick={onClose}>Decide Later</button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -28,8 +28,8 @@ export default function SignalPairChangeModal({
   isMonitoring
 }: SignalPairChangeModalProps) {
   const message = isMonitoring
-    ? `Switch from ${pairNames[currentPair]} to ${pairNames[newPair]}? Monitoring will be stopped and all data will be cleared.`
-    : `Switch from ${pairNames[currentPair]} to ${pairNames[newPair]}? All current data will be cleared.`
+    ? `Switch from ${pairNames[currentPair]} to ${pairNames[newPair]}? Monitoring will be stopped and the display cleared; the recording stays saved as a session.`
+    : `Switch from ${pairNames[currentPair]} to ${pairNames[newPair]}? The current display will be cleared.`
 
   return (
     <ConfirmationModal
@@ -1,6 +1,23 @@
 import { useState, useEffect } from 'react'
 import './SystemInsightsModal.css'
 import ConfirmationModal from './ConfirmationModal'
+import { useMonitoringConfig } from '../hooks/useMonitoringConfig'
+import { useSampleWriterStats } from '../hooks/useSampleWriterStats'
+import { useSerialLinkStats } from '../hooks/useSerialLinkStats'
+import {
+  AlarmPauseConfig,
+  AlarmSoundConfig,
+  DEFAULT_MONITORING_CONFIG,
+  MAX_DETECTION_WINDOW_SECONDS,
+  MONITORING_PRESETS,
+  MonitoringConfig,
+  MonitoringPresetName,
+  SustainedDurationConfig,
+  ThresholdConfig,
+  monitoringConfigStore,
+  validateThresholds
+} from '../utils/monitoringConfig'
+import { AlarmPriority } from '../utils/alarmManager'
 
 interface AlarmMetrics {
   lastAlarmTime: number | null
@@ -9,22 +26,20 @@ interface AlarmMetrics {
   avgResponseTimeMs: number
 }
 
-interface ThresholdConfig {
-  criticalLow: number
-  warningLow: number
-  normalLow: number
-  normalHigh: number
-  warningHigh: number
-  criticalHigh: number
-}
+// Editable repeat intervals, with the interburst ranges IEC 60601-1-8 allows
+const ALARM_PRIORITIES: Array<{ priority: AlarmPriority, label: string, minSeconds: number, maxSeconds: number, range: string }> = [
+  { priority: 'high', label: 'High', minSeconds: 2.5, maxSeconds: 15, range: '2.5-15s' },
+  { priority: 'medium', label: 'Medium', minSeconds: 2.5, maxSeconds: 30, range: '2.5-30s' },
+  { priority: 'low', label: 'Low', minSeconds: 15, maxSeconds: 120, range: 'over 15s' }
+]
+
+// Storage use above this share of the quota is flagged
+const STORAGE_WARNING_RATIO = 0.9
 
-interface SystemConfig {
-  alarmVolume: number
-  alarmFrequency1: number
-  alarmFrequency2: number
-  samplingRate: number
-  detectionWindow: number
-  thresholds: ThresholdConfig
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
 }
 
 interface SystemInsightsModalProps {
@@ -34,7 +49,6 @@ interface SystemInsightsModalProps {
   currentStatus: 'normal' | 'warning' | 'critical'
   alarmMetrics: AlarmMetrics
   currentHeartRate: number
-  onApplyConfig?: (config: SystemConfig) => void
 }
 
 export default function SystemInsightsModal({
@@ -43,42 +57,29 @@ export default function SystemInsightsModal({
   type,
   currentStatus,
   alarmMetrics,
-  currentHeartRate,
-  onApplyConfig
+  currentHeartRate
 }: SystemInsightsModalProps) {
   const [isClosing, setIsClosing] = useState(false)
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
   const [showSuccessModal, setShowSuccessModal] = useState(false)
   const [showResetConfirmModal, setShowResetConfirmModal] = useState(false)
 
-  // Editable parameters
-  const [alarmVolume, setAlarmVolume] = useState(0.8) // 0-1 scale
-  const [alarmFrequency1, setAlarmFrequency1] = useState(880)
-  const [alarmFrequency2, setAlarmFrequency2] = useState(1108)
-  const [samplingRate, setSamplingRate] = useState(250)
-  const [detectionWindow, setDetectionWindow] = useState(5)
-  const [alarmCadence, setAlarmCadence] = useState(600) // ms between alarm cycles
-
-  // Threshold configuration
-  const [thresholds, setThresholds] = useState(
-    type === 'maternal'
-      ? {
-          criticalLow: 50,
-          warningLow: 60,
-          normalLow: 60,
-          normalHigh: 100,
-          warningHigh: 110,
-          criticalHigh: 120
-        }
-      : {
-          criticalLow: 110,
-          warningLow: 120,
-          normalLow: 120,
-          normalHigh: 160,
-          warningHigh: 170,
-          criticalHigh: 180
-        }
-  )
+  // Editable copy of the shared monitoring configuration, written back on Apply
+  const activeConfig = useMonitoringConfig()
+  const [draft, setDraft] = useState<MonitoringConfig>(activeConfig)
+  const { alarm, sustained, detectionWindowSeconds } = draft
+  const thresholds = draft.thresholds[type]
+  const thresholdError = validateThresholds(thresholds)
+  const writerStats = useSampleWriterStats()
+  const linkStats = useSerialLinkStats()
+
+  // Start from the live configuration each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(monitoringConfigStore.getConfig())
+      setHasUnsavedChanges(false)
+    }
+  }, [isOpen])
 
   useEffect(() => {
     if (!isOpen) {
@@ -96,7 +97,7 @@ export default function SystemInsightsModal({
   if (!isOpen && !isClosing) return null
 
   // Calculate estimated decibel level from gain
-  const estimatedDecibels = Math.round(20 * Math.log10(alarmVolume) + 94)
+  const estimatedDecibels = Math.round(20 * Math.log10(alarm.volume) + 94)
 
   // Determine if response time passes requirements
   const responseTimePasses = alarmMetrics.responseTimeMs !== null && alarmMetrics.responseTimeMs < 50
@@ -106,28 +107,64 @@ export default function SystemInsightsModal({
     ? ((performance.now() - alarmMetrics.lastAlarmTime) / 1000).toFixed(1)
     : 'N/A'
 
-  const handleThresholdChange = (key: string, value: number) => {
-    setThresholds(prev => ({
-      ...prev,
-      [key]: value
-    }))
+  // Session storage health
+  const storageRatio = writerStats.storageUsage !== null && writerStats.storageQuota
+    ? writerStats.storageUsage / writerStats.storageQuota
+    : null
+  const storageHealthy = writerStats.lastError === null && writerStats.droppedSamples === 0 && !writerStats.backPressure
+
+  // Serial link health (binary frames only; text lines carry no checks)
+  const linkHealthy = linkStats.crcErrors === 0 && linkStats.framesLost === 0
+
+  // Any manual edit turns the draft into a custom profile
+  const updateDraft = (changes: Partial<MonitoringConfig>) => {
+    setDraft(prev => ({ ...prev, ...changes, preset: 'custom' }))
     setHasUnsavedChanges(true)
   }
 
-  const handleApplyConfig = () => {
-    if (onApplyConfig) {
-      const config: SystemConfig = {
-        alarmVolume,
-        alarmFrequency1,
-        alarmFrequency2,
-        samplingRate,
-        detectionWindow,
-        thresholds
-      }
-      onApplyConfig(config)
-      setHasUnsavedChanges(false)
-      setShowSuccessModal(true)
+  const handleAlarmChange = (key: keyof AlarmSoundConfig, value: number) => {
+    if (Number.isNaN(value)) return
+    updateDraft({ alarm: { ...alarm, [key]: value } })
+  }
+
+  const handleBurstIntervalChange = (priority: AlarmPriority, seconds: number) => {
+    if (Number.isNaN(seconds)) return
+    updateDraft({ alarm: { ...alarm, burstIntervalMs: { ...alarm.burstIntervalMs, [priority]: Math.max(0, seconds) * 1000 } } })
+  }
+
+  const handleAlarmPauseChange = (key: keyof AlarmPauseConfig, minutes: number) => {
+    if (Number.isNaN(minutes)) return
+    updateDraft({ alarmPause: { ...draft.alarmPause, [key]: Math.max(0.5, minutes) * 60000 } })
+  }
+
+  const handleSustainedChange = (key: keyof SustainedDurationConfig, seconds: number) => {
+    if (Number.isNaN(seconds)) return
+    updateDraft({ sustained: { ...sustained, [key]: Math.max(0, seconds) * 1000 } })
+  }
+
+  const handleDetectionWindowChange = (seconds: number) => {
+    if (Number.isNaN(seconds)) return
+    updateDraft({ detectionWindowSeconds: Math.min(MAX_DETECTION_WINDOW_SECONDS, Math.max(1, seconds)) })
+  }
+
+  const handleThresholdChange = (key: keyof ThresholdConfig, value: number) => {
+    updateDraft({ thresholds: { ...draft.thresholds, [type]: { ...thresholds, [key]: value } } })
+  }
+
+  const handlePresetChange = (preset: MonitoringPresetName) => {
+    if (preset === 'custom') {
+      setDraft(prev => ({ ...prev, preset }))
+    } else {
+      setDraft(MONITORING_PRESETS[preset].config)
     }
+    setHasUnsavedChanges(true)
+  }
+
+  const handleApplyConfig = () => {
+    if (thresholdError) return
+    monitoringConfigStore.setConfig(draft)
+    setHasUnsavedChanges(false)
+    setShowSuccessModal(true)
   }
 
   const handleResetToDefaults = () => {
@@ -135,37 +172,11 @@ export default function SystemInsightsModal({
   }
 
   const confirmResetToDefaults = () => {
-    setAlarmVolume(0.8)
-    setAlarmFrequency1(880)
-    setAlarmFrequency2(1108)
-    setSamplingRate(250)
-    setDetectionWindow(5)
-    setAlarmCadence(600)
-    setThresholds(
-      type === 'maternal'
-        ? {
-            criticalLow: 50,
-            warningLow: 60,
-            normalLow: 60,
-            normalHigh: 100,
-            warningHigh: 110,
-            criticalHigh: 120
-          }
-        : {
-            criticalLow: 110,
-            warningLow: 120,
-            normalLow: 120,
-            normalHigh: 160,
-            warningHigh: 170,
-            criticalHigh: 180
-          }
-    )
-    setHasUnsavedChanges(false)
+    setDraft(DEFAULT_MONITORING_CONFIG)
+    setHasUnsavedChanges(true)
+    setShowResetConfirmModal(false)
   }
 
-  // Mark as changed when any editable field changes
-  const markAsChanged = () => setHasUnsavedChanges(true)
-
   return (
     <div className={`modal-overlay ${isClosing ? 'closing' : ''}`} onClick={handleClose}>
       <div className={`modal-content ${isClosing ? 'closing' : ''}`} onClick={e => e.stopPropagation()}>
@@ -183,7 +194,7 @@ export default function SystemInsightsModal({
             <button
               className={`modal-action-button apply ${hasUnsavedChanges ? 'highlight' : ''}`}
               onClick={handleApplyConfig}
-              disabled={!hasUnsavedChanges || !onApplyConfig}
+              disabled={!hasUnsavedChanges || thresholdError !== null}
               title="Apply configuration changes"
             >
               Apply Changes
@@ -266,6 +277,123 @@ export default function SystemInsightsModal({
             </div>
           </section>
 
+          {/* Session Storage */}
+          <section className="insight-section">
+            <h3 className="section-title">💾 Session Storage</h3>
+            <div className="metrics-grid">
+              <div className="metric-card">
+                <div className="metric-header">
+                  <div className="metric-label">Storage Used</div>
+                  {storageRatio !== null && (
+                    <div className={`metric-status ${storageRatio < STORAGE_WARNING_RATIO ? 'pass' : 'review'}`}>
+                      {storageRatio < STORAGE_WARNING_RATIO ? '✓ OK' : '⚠ NEARLY FULL'}
+                    </div>
+                  )}
+                </div>
+                <div className="metric-value">
+                  {writerStats.storageUsage !== null ? formatBytes(writerStats.storageUsage) : 'N/A'}
+                </div>
+                <div className="metric-note">
+                  {storageRatio !== null && writerStats.storageQuota !== null
+                    ? `${(storageRatio * 100).toFixed(1)}% of ${formatBytes(writerStats.storageQuota)} quota`
+                    : 'Quota not reported by this browser'}
+                </div>
+              </div>
+
+              <div className="metric-card">
+                <div className="metric-header">
+                  <div className="metric-label">Write Latency</div>
+                </div>
+                <div className="metric-value">
+                  {writerStats.lastWriteMs !== null ? `${writerStats.lastWriteMs.toFixed(1)} ms` : 'No data'}
+                </div>
+                <div className="metric-note">
+                  {writerStats.avgWriteMs !== null && writerStats.maxWriteMs !== null
+                    ? `Avg ${writerStats.avgWriteMs.toFixed(1)} ms | Max ${writerStats.maxWriteMs.toFixed(1)} ms | ${writerStats.lastBatchSize} samples/batch`
+                    : 'One transaction every 500 ms while recording'}
+                </div>
+              </div>
+
+              <div className="metric-card">
+                <div className="metric-header">
+                  <div className="metric-label">Write Queue</div>
+                  <div className={`metric-status ${storageHealthy ? 'pass' : 'review'}`}>
+                    {storageHealthy ? '✓ OK' : writerStats.backPressure ? '⚠ BEHIND' : '⚠ REVIEW'}
+                  </div>
+                </div>
+                <div className="metric-value">{writerStats.queuedSamples} queued</div>
+                <div className="metric-note">
+                  {writerStats.committedSamples} written in {writerStats.batches} batches
+                  {writerStats.droppedSamples > 0 && ` | ${writerStats.droppedSamples} dropped`}
+                  {` | Recovery log ${formatBytes(writerStats.walBytes)}`}
+                </div>
+                {writerStats.lastError && <div className="metric-note">{writerStats.lastError}</div>}
+              </div>
+            </div>
+          </section>
+
+          {/* Serial Link */}
+          <section className="insight-section">
+            <h3 className="section-title">📡 Serial Link</h3>
+            <div className="metrics-grid">
+              <div className="metric-card">
+                <div className="metric-header">
+                  <div className="metric-label">Protocol</div>
+                </div>
+                <div className="metric-value">
+                  {linkStats.protocol === 'binary' ? 'Binary frames' : linkStats.protocol === 'text' ? 'Text lines' : 'No data'}
+                </div>
+                <div className="metric-note">
+                  {linkStats.framesReceived} frames | {linkStats.linesReceived} lines received
+                  {linkStats.samplesIgnored > 0 && ` | ${linkStats.samplesIgnored} samples ignored before the handshake`}
+                </div>
+              </div>
+
+              <div className="metric-card">
+                <div className="metric-header">
+                  <div className="metric-label">Frame Integrity</div>
+                  {linkStats.protocol === 'binary' && (
+                    <div className={`metric-status ${linkHealthy ? 'pass' : 'review'}`}>
+                      {linkHealthy ? '✓ OK' : '⚠ REVIEW'}
+                    </div>
+                  )}
+                </div>
+                <div className="metric-value">{linkStats.framesLost} lost</div>
+                <div className="metric-note">
+                  {linkStats.sequenceGaps} sequence gaps | {linkStats.crcErrors} CRC errors
+                  {linkStats.bytesDiscarded > 0 && ` | ${linkStats.bytesDiscarded} bytes discarded`}
+                </div>
+              </div>
+            </div>
+          </section>
+
+          {/* Monitoring Profile */}
+          <section className="insight-section">
+            <h3 className="section-title">📋 Monitoring Profile</h3>
+            <div className="config-grid">
+              <div className="config-item">
+                <label className="config-label">Guideline Preset</label>
+                <div className="config-input-group">
+                  <select
+                    value={draft.preset}
+                    onChange={(e) => handlePresetChange(e.target.value as MonitoringPresetName)}
+                    className="config-select"
+                  >
+                    {Object.entries(MONITORING_PRESETS).map(([name, preset]) => (
+                      <option key={name} value={name}>{preset.label}</option>
+                    ))}
+                    <option value="custom">Custom</option>
+                  </select>
+                </div>
+                <div className="config-note">
+                  {draft.preset === 'custom'
+                    ? 'Edited settings, applied to both maternal and fetal monitors'
+                    : MONITORING_PRESETS[draft.preset].description}
+                </div>
+              </div>
+            </div>
+          </section>
+
           {/* Editable Alarm Configuration */}
           <section className="insight-section">
             <h3 className="section-title">⚙️ Alarm Configuration (Editable)</h3>
@@ -278,8 +406,8 @@ export default function SystemInsightsModal({
                     min="0"
                     max="1"
                     step="0.1"
-                    value={alarmVolume}
-                    onChange={(e) => { setAlarmVolume(parseFloat(e.target.value)); markAsChanged(); }}
+                    value={alarm.volume}
+                    onChange={(e) => handleAlarmChange('volume', parseFloat(e.target.value))}
                     className="config-slider"
                   />
                   <input
@@ -287,20 +415,20 @@ export default function SystemInsightsModal({
                     min="0"
                     max="1"
                     step="0.1"
-                    value={alarmVolume}
-                    onChange={(e) => { setAlarmVolume(parseFloat(e.target.value)); markAsChanged(); }}
+                    value={alarm.volume}
+                    onChange={(e) => handleAlarmChange('volume', parseFloat(e.target.value))}
                     className="config-number-input"
                   />
                 </div>
-                <div className="config-note">Current: {(alarmVolume * 100).toFixed(0)}% (~{estimatedDecibels} dB)</div>
+                <div className="config-note">Current: {(alarm.volume * 100).toFixed(0)}% (~{estimatedDecibels} dB)</div>
               </div>
 
               <div className="config-item">
-                <label className="config-label">Primary Frequency (Hz)</label>
+                <label className="config-label">Patient Alarm Pitch (Hz)</label>
                 <div className="config-input-group">
                   <select
-                    value={alarmFrequency1}
-                    onChange={(e) => { setAlarmFrequency1(parseInt(e.target.value)); markAsChanged(); }}
+                    value={alarm.frequency1}
+                    onChange={(e) => handleAlarmChange('frequency1', parseInt(e.target.value))}
                     className="config-select"
                   >
                     <option value="440">440 Hz (A4)</option>
@@ -313,19 +441,19 @@ export default function SystemInsightsModal({
                     type="number"
                     min="200"
                     max="2000"
-                    value={alarmFrequency1}
-                    onChange={(e) => { setAlarmFrequency1(parseInt(e.target.value)); markAsChanged(); }}
+                    value={alarm.frequency1}
+                    onChange={(e) => handleAlarmChange('frequency1', parseInt(e.target.value))}
                     className="config-number-input"
                   />
                 </div>
               </div>
 
               <div className="config-item">
-                <label className="config-label">Secondary Frequency (Hz)</label>
+                <label className="config-label">Technical Alarm Pitch (Hz)</label>
                 <div className="config-input-group">
                   <select
-                    value={alarmFrequency2}
-                    onChange={(e) => { setAlarmFrequency2(parseInt(e.target.value)); markAsChanged(); }}
+                    value={alarm.frequency2}
+                    onChange={(e) => handleAlarmChange('frequency2', parseInt(e.target.value))}
                     className="config-select"
                   >
                     <option value="523">523 Hz (C5)</option>
@@ -338,11 +466,61 @@ export default function SystemInsightsModal({
                     type="number"
                     min="200"
                     max="2000"
-                    value={alarmFrequency2}
-                    onChange={(e) => { setAlarmFrequency2(parseInt(e.target.value)); markAsChanged(); }}
+                    value={alarm.frequency2}
+                    onChange={(e) => handleAlarmChange('frequency2', parseInt(e.target.value))}
+                    className="config-number-input"
+                  />
+                </div>
+              </div>
+
+              {ALARM_PRIORITIES.map(({ priority, label, minSeconds, maxSeconds, range }) => (
+                <div className="config-item" key={priority}>
+                  <label className="config-label">{label} Priority Repeat (s)</label>
+                  <div className="config-input-group">
+                    <input
+                      type="number"
+                      min={minSeconds}
+                      max={maxSeconds}
+                      step="0.5"
+                      value={alarm.burstIntervalMs[priority] / 1000}
+                      onChange={(e) => handleBurstIntervalChange(priority, parseFloat(e.target.value))}
+                      className="config-number-input"
+                    />
+                  </div>
+                  <div className="config-note">Silence between bursts (IEC 60601-1-8: {range})</div>
+                </div>
+              ))}
+
+              <div className="config-item">
+                <label className="config-label">Audio Pause (minutes)</label>
+                <div className="config-input-group">
+                  <input
+                    type="number"
+                    min="0.5"
+                    max="10"
+                    step="0.5"
+                    value={draft.alarmPause.audioPauseMs / 60000}
+                    onChange={(e) => handleAlarmPauseChange('audioPauseMs', parseFloat(e.target.value))}
+                    className="config-number-input"
+                  />
+                </div>
+                <div className="config-note">Alarms re-arm automatically when the countdown ends</div>
+              </div>
+
+              <div className="config-item">
+                <label className="config-label">Acknowledge Hold (minutes)</label>
+                <div className="config-input-group">
+                  <input
+                    type="number"
+                    min="0.5"
+                    max="30"
+                    step="0.5"
+                    value={draft.alarmPause.acknowledgeMs / 60000}
+                    onChange={(e) => handleAlarmPauseChange('acknowledgeMs', parseFloat(e.target.value))}
                     className="config-number-input"
                   />
                 </div>
+                <div className="config-note">Acknowledged alarm sounds again after this, or sooner if it worsens</div>
               </div>
             </div>
           </section>
@@ -353,51 +531,64 @@ export default function SystemInsightsModal({
             <div className="config-grid">
               <div className="config-item">
                 <label className="config-label">Sampling Rate (Hz)</label>
+                <div className="config-readonly-value">250 Hz</div>
+                <div className="config-note">Fixed by the acquisition loop (4.0ms sample interval)</div>
+              </div>
+
+              <div className="config-item">
+                <label className="config-label">Detection Window (seconds)</label>
                 <div className="config-input-group">
                   <select
-                    value={samplingRate}
-                    onChange={(e) => { setSamplingRate(parseInt(e.target.value)); markAsChanged(); }}
+                    value={detectionWindowSeconds}
+                    onChange={(e) => handleDetectionWindowChange(parseInt(e.target.value))}
                     className="config-select"
                   >
-                    <option value="100">100 Hz</option>
-                    <option value="250">250 Hz - Default</option>
-                    <option value="500">500 Hz</option>
-                    <option value="1000">1000 Hz</option>
+                    <option value="3">3 seconds</option>
+                    <option value="4">4 seconds</option>
+                    <option value="5">5 seconds - Default</option>
                   </select>
                   <input
                     type="number"
-                    min="50"
-                    max="1000"
-                    value={samplingRate}
-                    onChange={(e) => { setSamplingRate(parseInt(e.target.value)); markAsChanged(); }}
+                    min="1"
+                    max={MAX_DETECTION_WINDOW_SECONDS}
+                    value={detectionWindowSeconds}
+                    onChange={(e) => handleDetectionWindowChange(parseInt(e.target.value))}
                     className="config-number-input"
                   />
                 </div>
-                <div className="config-note">Sample interval: {(1000/samplingRate).toFixed(1)}ms</div>
+                <div className="config-note">Buffer size: {250 * detectionWindowSeconds} samples (max {MAX_DETECTION_WINDOW_SECONDS}s display buffer)</div>
               </div>
 
               <div className="config-item">
-                <label className="config-label">Detection Window (seconds)</label>
+                <label className="config-label">Sustained Warning (seconds)</label>
                 <div className="config-input-group">
-                  <select
-                    value={detectionWindow}
-                    onChange={(e) => { setDetectionWindow(parseInt(e.target.value)); markAsChanged(); }}
-                    className="config-select"
-                  >
-                    <option value="3">3 seconds</option>
-                    <option value="5">5 seconds - Default</option>
-                    <option value="10">10 seconds</option>
-                  </select>
                   <input
                     type="number"
-                    min="1"
-                    max="30"
-                    value={detectionWindow}
-                    onChange={(e) => { setDetectionWindow(parseInt(e.target.value)); markAsChanged(); }}
+                    min="0"
+                    max="60"
+                    step="0.5"
+                    value={sustained.warningMs / 1000}
+                    onChange={(e) => handleSustainedChange('warningMs', parseFloat(e.target.value))}
+                    className="config-number-input"
+                  />
+                </div>
+                <div className="config-note">Abnormal readings needed before CAUTION</div>
+              </div>
+
+              <div className="config-item">
+                <label className="config-label">Sustained Critical (seconds)</label>
+                <div className="config-input-group">
+                  <input
+                    type="number"
+                    min="0"
+                    max="60"
+                    step="0.5"
+                    value={sustained.criticalMs / 1000}
+                    onChange={(e) => handleSustainedChange('criticalMs', parseFloat(e.target.value))}
                     className="config-number-input"
                   />
                 </div>
-                <div className="config-note">Buffer size: {samplingRate * detectionWindow} samples</div>
+                <div className="config-note">Critical readings needed before ALERT</div>
               </div>
             </div>
           </section>
@@ -468,6 +659,10 @@ export default function SystemInsightsModal({
                 </div>
               </div>
 
+              {thresholdError && (
+                <div className="threshold-error">⚠ {thresholdError}</div>
+              )}
+
               <div className="current-reading-indicator">
                 <div className="indicator-label">Current Reading:</div>
                 <div className={`indicator-value status-${currentStatus}`}>
@@ -493,8 +688,8 @@ export default function SystemInsightsModal({
               </div>
               <div className="perf-item">
                 <div className="perf-label">Data Buffer</div>
-                <div className="perf-value">{samplingRate * detectionWindow} samples</div>
-                <div className="perf-note">{detectionWindow} second rolling window</div>
+                <div className="perf-value">{250 * detectionWindowSeconds} samples</div>
+                <div className="perf-note">{detectionWindowSeconds} second rolling window</div>
               </div>
               <div className="perf-item">
                 <div className="perf-label">Peak Detection</div>
@@ -527,7 +722,7 @@ export default function SystemInsightsModal({
               </div>
               <div className="info-item">
                 <span className="info-label">Alarm Pattern:</span>
-                <span className="info-value">Dual-tone beep-beep (600ms cadence)</span>
+                <span className="info-value">IEC 60601-1-8 melodic bursts (high / medium / low priority)</span>
               </div>
             </div>
           </section>
@@ -6,9 +6,10 @@ import './ZoomableEKGChart.css'
 interface ZoomableEKGChartProps {
   data: EKGDataPoint[]
   currentScreen: ScreenType
+  onExportRange?: (range: [number, number]) => void  // Export the visible time window
 }
 
-export default function ZoomableEKGChart({ data, currentScreen }: ZoomableEKGChartProps) {
+export default function ZoomableEKGChart({ data, currentScreen, onExportRange }: ZoomableEKGChartProps) {
   const [zoomLevel, setZoomLevel] = useState(1) // 1 = normal, 2 = 2x zoom, etc.
   const [yZoomLevel, setYZoomLevel] = useState(1)
   const [panOffset, setPanOffset] = useState(0)
@@ -213,6 +214,16 @@ export default function ZoomableEKGChart({ data, currentScreen }: ZoomableEKGCha
             >
               ↻
             </button>
+            {onExportRange && (
+              <button
+                className="zoom-btn"
+                onClick={() => onExportRange([Math.max(0, xDomain[0]), xDomain[1]])}
+                disabled={data.length === 0}
+                title="Export the visible time range"
+              >
+                ⤓
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -1,10 +1,87 @@
 import { useEffect, useRef } from 'react'
+import { useMonitoringConfig } from './useMonitoringConfig'
+import { AlarmPriority, AlarmSource } from '../utils/alarmManager'
+
+interface AlarmPulse {
+  offset: number     // Start time within the burst (s)
+  duration: number   // Pulse length (s)
+  semitones: number  // Pitch relative to the base frequency
+}
+
+// IEC 60601-1-8 pulse timing: high priority pulses 75-200 ms with 50-125 ms spacing,
+// medium/low 125-250 ms with 125-250 ms spacing
+const PULSE_TIMING: Record<AlarmPriority, { duration: number, spacing: number }> = {
+  high: { duration: 0.1, spacing: 0.075 },
+  medium: { duration: 0.15, spacing: 0.15 },
+  low: { duration: 0.15, spacing: 0.15 }
+}
+
+// Melodies (semitones from the base pitch). Patient alarms use the cardiac melody
+// "c e g - g C" from Annex F; technical alarms use the general single-pitch melody.
+const MELODIES: Record<'cardiac' | 'general', Record<AlarmPriority, number[]>> = {
+  cardiac: {
+    high: [0, 4, 7, 7, 12],
+    medium: [0, 4, 7],
+    low: [4, 0]
+  },
+  general: {
+    high: [0, 0, 0, 0, 0],
+    medium: [0, 0, 0],
+    low: [0, 0]
+  }
+}
+
+// Pause between the two halves of a high priority burst (0.35-1.3 s)
+const HIGH_PRIORITY_HALF_GAP = 0.5
+
+/**
+ * Pulse schedule for one burst:
+ * - High: 10 pulses as x x x - x x (pause) x x x - x x
+ * - Medium: 3 pulses
+ * - Low: 2 pulses
+ */
+function buildBurst(priority: AlarmPriority, source: AlarmSource): AlarmPulse[] {
+  const melody = MELODIES[source === 'technical' ? 'general' : 'cardiac'][priority]
+  const { duration, spacing } = PULSE_TIMING[priority]
+  const pulses: AlarmPulse[] = []
+  let t = 0
+
+  const addPhrase = () => {
+    melody.forEach((semitones, i) => {
+      pulses.push({ offset: t, duration, semitones })
+      // High priority phrases pause for one extra pulse slot between the 3rd and 4th pulse
+      t += duration + spacing + (priority === 'high' && i === 2 ? duration + spacing : 0)
+    })
+  }
+
+  addPhrase()
+  if (priority === 'high') {
+    t += HIGH_PRIORITY_HALF_GAP - spacing
+    addPhrase()
+  }
+  return pulses
+}
+
+function burstDuration(pulses: AlarmPulse[]): number {
+  const last = pulses[pulses.length - 1]
+  return last.offset + last.duration
+}
+
+/**
+ * Sound the given alarm with its priority's pattern; null silences the alarm
+ */
+export function useAlarmSound(alarm: { priority: AlarmPriority, source: AlarmSource } | null) {
+  const { alarm: soundConfig } = useMonitoringConfig()
+  // Latest tone settings, read at each burst so changes apply without restarting the pattern
+  const soundConfigRef = useRef(soundConfig)
+  soundConfigRef.current = soundConfig
 
-export function useAlarmSound(isActive: boolean) {
   const audioContextRef = useRef<AudioContext | null>(null)
-  const oscillatorRef = useRef<OscillatorNode | null>(null)
-  const gainNodeRef = useRef<GainNode | null>(null)
-  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  const activeNodesRef = useRef<Array<{ oscillator: OscillatorNode, gain: GainNode }>>([])
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const priority = alarm?.priority ?? null
+  const source = alarm?.source ?? null
 
   const initAudioContext = () => {
     if (!audioContextRef.current) {
@@ -17,8 +94,40 @@ export function useAlarmSound(isActive: boolean) {
     }
   }
 
+  // Immediately silence and release every scheduled pulse
+  const stopAllPulses = () => {
+    const ctx = audioContextRef.current
+    activeNodesRef.current.forEach(({ oscillator, gain }) => {
+      try {
+        if (ctx) {
+          gain.gain.cancelScheduledValues(ctx.currentTime)
+          gain.gain.setValueAtTime(0, ctx.currentTime)
+        }
+        oscillator.stop()
+        oscillator.disconnect()
+        gain.disconnect()
+      } catch (e) {
+        // Oscillator may already be stopped
+      }
+    })
+    activeNodesRef.current = []
+  }
+
   useEffect(() => {
-    const playAlarmSound = async () => {
+    if (!priority || !source) {
+      // Stop alarm when not active - IMMEDIATELY
+      if (timeoutRef.current) {
+        clearTimeout(timeoutRef.current)
+        timeoutRef.current = null
+      }
+      stopAllPulses()
+      return
+    }
+
+    const pulses = buildBurst(priority, source)
+    let cancelled = false
+
+    const playBurst = async () => {
       // Initialize context if needed
       initAudioContext()
 
@@ -39,129 +148,56 @@ export function useAlarmSound(isActive: boolean) {
           return
         }
       }
+      if (cancelled) return
 
-      // Stop any existing oscillator
-      if (oscillatorRef.current) {
-        oscillatorRef.current.stop()
-        oscillatorRef.current.disconnect()
-      }
-      if (gainNodeRef.current) {
-        gainNodeRef.current.disconnect()
-      }
-
-      // Create oscillator for the alarm sound
-      const oscillator = ctx.createOscillator()
-      const gainNode = ctx.createGain()
-
-      // Configure alarm sound - alternating high-pitched beeps
-      oscillator.type = 'square' // Square wave for harsh, attention-grabbing sound
-      oscillator.frequency.setValueAtTime(880, ctx.currentTime) // A5 note - high pitched
-
-      // Set up volume with envelope for beep effect - MUCH LOUDER
-      gainNode.gain.setValueAtTime(0, ctx.currentTime)
-      gainNode.gain.linearRampToValueAtTime(0.8, ctx.currentTime + 0.01) // Quick attack - LOUDER
-      gainNode.gain.linearRampToValueAtTime(0.8, ctx.currentTime + 0.15) // Hold - LOUDER
-      gainNode.gain.linearRampToValueAtTime(0, ctx.currentTime + 0.2) // Quick release
-
-      // Connect nodes
-      oscillator.connect(gainNode)
-      gainNode.connect(ctx.destination)
-
-      // Play the sound
-      oscillator.start(ctx.currentTime)
-      oscillator.stop(ctx.currentTime + 0.2)
+      const { volume, frequency1, frequency2, burstIntervalMs } = soundConfigRef.current
+      const baseFrequency = source === 'technical' ? frequency2 : frequency1
+      const start = ctx.currentTime + 0.02
 
-      oscillatorRef.current = oscillator
-      gainNodeRef.current = gainNode
+      // Release the previous burst's nodes (already finished playing)
+      stopAllPulses()
 
-      // Add frequency modulation for the second beep in the pattern
-      setTimeout(() => {
-        if (!audioContextRef.current) return
+      pulses.forEach(pulse => {
+        const oscillator = ctx.createOscillator()
+        const gain = ctx.createGain()
+        const t0 = start + pulse.offset
+        // Rise and fall times of 10-20% of the pulse duration
+        const ramp = pulse.duration * 0.15
 
-        const ctx = audioContextRef.current
-        const oscillator2 = ctx.createOscillator()
-        const gainNode2 = ctx.createGain()
+        // Square wave for a harmonic-rich, attention-grabbing tone
+        oscillator.type = 'square'
+        oscillator.frequency.setValueAtTime(baseFrequency * Math.pow(2, pulse.semitones / 12), t0)
 
-        oscillator2.type = 'square'
-        oscillator2.frequency.setValueAtTime(1108, ctx.currentTime) // C#6 note - even higher
+        gain.gain.setValueAtTime(0, t0)
+        gain.gain.linearRampToValueAtTime(volume, t0 + ramp)
+        gain.gain.setValueAtTime(volume, t0 + pulse.duration - ramp)
+        gain.gain.linearRampToValueAtTime(0, t0 + pulse.duration)
 
-        gainNode2.gain.setValueAtTime(0, ctx.currentTime)
-        gainNode2.gain.linearRampToValueAtTime(0.8, ctx.currentTime + 0.01) // LOUDER
-        gainNode2.gain.linearRampToValueAtTime(0.8, ctx.currentTime + 0.15) // LOUDER
-        gainNode2.gain.linearRampToValueAtTime(0, ctx.currentTime + 0.2)
+        oscillator.connect(gain)
+        gain.connect(ctx.destination)
+        oscillator.start(t0)
+        oscillator.stop(t0 + pulse.duration)
 
-        oscillator2.connect(gainNode2)
-        gainNode2.connect(ctx.destination)
+        activeNodesRef.current.push({ oscillator, gain })
+      })
 
-        oscillator2.start(ctx.currentTime)
-        oscillator2.stop(ctx.currentTime + 0.2)
-      }, 250) // Second beep after 250ms
+      // Repeat after the burst plus this priority's interburst interval
+      timeoutRef.current = setTimeout(playBurst, burstDuration(pulses) * 1000 + burstIntervalMs[priority])
     }
 
-    if (isActive) {
-      // Play initial alarm immediately
-      playAlarmSound()
-
-      // Then repeat every 600ms (creates a rapid beep-beep pattern)
-      intervalRef.current = setInterval(playAlarmSound, 600)
-    } else {
-      // Stop alarm when not active - IMMEDIATELY
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-        intervalRef.current = null
-      }
-
-      // Immediately silence any playing oscillators
-      if (audioContextRef.current && gainNodeRef.current) {
-        try {
-          const ctx = audioContextRef.current
-          // Immediately ramp down the volume to silence
-          gainNodeRef.current.gain.cancelScheduledValues(ctx.currentTime)
-          gainNodeRef.current.gain.setValueAtTime(gainNodeRef.current.gain.value, ctx.currentTime)
-          gainNodeRef.current.gain.linearRampToValueAtTime(0, ctx.currentTime + 0.01)
-        } catch (e) {
-          // Ignore if gain node is already disconnected
-        }
-      }
-
-      // Stop and disconnect oscillators
-      if (oscillatorRef.current) {
-        try {
-          oscillatorRef.current.stop()
-          oscillatorRef.current.disconnect()
-        } catch (e) {
-          // Oscillator may already be stopped
-        }
-        oscillatorRef.current = null
-      }
-      if (gainNodeRef.current) {
-        try {
-          gainNodeRef.current.disconnect()
-        } catch (e) {
-          // Already disconnected
-        }
-        gainNodeRef.current = null
-      }
-    }
+    // Play initial burst immediately
+    playBurst()
 
-    // Cleanup
+    // Cleanup (also runs when the sounded priority or source changes)
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-      }
-      if (oscillatorRef.current) {
-        try {
-          oscillatorRef.current.stop()
-          oscillatorRef.current.disconnect()
-        } catch (e) {
-          // Ignore - oscillator may already be stopped
-        }
-      }
-      if (gainNodeRef.current) {
-        gainNodeRef.current.disconnect()
+      cancelled = true
+      if (timeoutRef.current) {
+        clearTimeout(timeoutRef.current)
+        timeoutRef.current = null
       }
+      stopAllPulses()
     }
-  }, [isActive])
+  }, [priority, source])
 
   // Cleanup audio context on unmount
   useEffect(() => {
@@ -1,248 +1,365 @@
-import { useState, useRef, useCallback } from 'react'
+import { useState, useRef, useCallback, useEffect } from 'react'
+import { serialLinkStats } from '../utils/serialProtocol'
+import { DeviceState, deviceCommands } from '../utils/deviceCommands'
+import { ArduinoBatch, DEFAULT_PIPELINE_CONFIG, SerialPipelineConfig, SerialWorkerMessage, SerialWorkerRequest } from '../utils/serialPipeline'
+import { useDeviceState } from './useDeviceState'
 
 export type SignalType = 'maternal' | 'fetal' | 'combined' | 'none'
 
+// Connection lifecycle shown to the user
+export type SerialConnectionState =
+  | 'disconnected'
+  | 'connecting'    // Port open, handshake in progress
+  | 'streaming'     // Data arriving
+  | 'stalled'       // Port open but no data for a while
+  | 'reconnecting'  // Port lost; looking for the device among previously granted ports
+  | 'lost'          // Reconnection gave up
+
+// Rate the monitor processes and stores samples at: filters, detectors, session time and exports
+// all assume it, so data from a device at any other rate is not used
+export const MONITOR_SAMPLE_RATE = 250
+const BAUD_RATE = 115200
+// No data for this long marks the link as stalled
+const STALL_TIMEOUT_MS = 1000
+// Boards that reset when the port opens take a couple of seconds to send their first data
+const FIRST_DATA_TIMEOUT_MS = 5000
+// Previously granted ports are checked this often, for this long, after the device disappears
+const RECONNECT_INTERVAL_MS = 1000
+const RECONNECT_TIMEOUT_MS = 30000
+
 export interface SignalMapping {
   channel1: SignalType  // Maps Arduino channel 1 (A0)
   channel2: SignalType  // Maps Arduino channel 2 (A1)
   channel3: SignalType  // Maps Arduino channel 3 (A2)
 }
 
-interface ArduinoData {
-  mother: number
-  combined: number
-  fetus: number
-}
-
-interface RawArduinoData {
-  channel1?: number
-  channel2?: number
-  channel3?: number
-}
-
 interface UseArduinoSerialOptions {
   onUnsupportedBrowser?: () => void
   onConnectionError?: () => void
   signalMapping?: SignalMapping
-  onDataReceived?: (data: ArduinoData) => void  // NEW: Callback for immediate data processing
+  onDataReceived?: (batch: ArduinoBatch) => void  // Callback for immediate data processing
+  singleValueSignal?: 'fetal' | 'combined'  // Which slot a single-value line fills (default: fetal)
+  adcMax?: number            // Largest ADC reading, for normalizing before the filter (default: 1023)
+}
+
+/**
+ * Rate of a device the monitor can't process (null = 250 Hz or not reported)
+ */
+export function unsupportedSampleRate(device: DeviceState): number | null {
+  const rate = device.capabilities?.sampleRate ?? null
+  return rate !== null && rate !== MONITOR_SAMPLE_RATE ? rate : null
+}
+
+function isSameDevice(a: SerialPortInfo, b: SerialPortInfo): boolean {
+  return a.usbVendorId !== undefined && a.usbVendorId === b.usbVendorId && a.usbProductId === b.usbProductId
 }
 
 export function useArduinoSerial(options?: UseArduinoSerialOptions) {
-  const [isConnected, setIsConnected] = useState(false)
-  const [latestData, setLatestData] = useState<ArduinoData | null>(null)
-  const [rawData, setRawData] = useState<RawArduinoData | null>(null)
+  const [connectionState, setConnectionStateValue] = useState<SerialConnectionState>('disconnected')
 
   const portRef = useRef<SerialPort | null>(null)
   const readerRef = useRef<ReadableStreamDefaultReader<Uint8Array> | null>(null)
-  const bufferRef = useRef<string>('')
-  const dataQueueRef = useRef<ArduinoData[]>([])  // NEW: Queue to prevent data loss
-
-  // Helper function to map raw Arduino data to signal types
-  const mapRawDataToSignals = useCallback((raw: RawArduinoData): ArduinoData => {
-    const mapping = options?.signalMapping || {
-      channel1: 'maternal',
-      channel2: 'combined',
-      channel3: 'fetal'
+  const workerRef = useRef<Worker | null>(null)          // Parses and filters the stream (serialPipeline)
+  const batchQueueRef = useRef<ArduinoBatch[]>([])       // Batches not yet taken by the monitor
+
+  // The read loop outlives renders (and reconnects on its own), so it reads options and state through refs
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+  const connectionStateRef = useRef<SerialConnectionState>('disconnected')
+  const generationRef = useRef(0)                        // Bumped per opened port and on disconnect; stale loops stop
+  const lastDataAtRef = useRef<number | null>(null)      // performance.now() of the last sample
+  const gapStartRef = useRef<number | null>(null)        // Last sample before the link went down
+  const stallTimerRef = useRef<ReturnType<typeof setInterval> | null>(null)
+
+  const setConnectionState = useCallback((state: SerialConnectionState) => {
+    if (connectionStateRef.current === state) return
+    connectionStateRef.current = state
+    setConnectionStateValue(state)
+  }, [])
+
+  const post = (request: SerialWorkerRequest, transfer: Transferable[] = []) => {
+    workerRef.current?.postMessage(request, transfer)
+  }
+
+  const pipelineConfig = (): SerialPipelineConfig => ({
+    signalMapping: optionsRef.current?.signalMapping ?? DEFAULT_PIPELINE_CONFIG.signalMapping,
+    singleValueSignal: optionsRef.current?.singleValueSignal ?? DEFAULT_PIPELINE_CONFIG.singleValueSignal,
+    channelMask: deviceCommands.getState().info?.channelMask ?? null,
+    sampleRate: MONITOR_SAMPLE_RATE,
+    adcMax: optionsRef.current?.adcMax ?? DEFAULT_PIPELINE_CONFIG.adcMax
+  })
+
+  const deliver = (batch: ArduinoBatch) => {
+    const now = performance.now()
+    lastDataAtRef.current = now
+    setConnectionState('streaming')
+    // The link works, but samples at another rate would put every time and rate off
+    if (unsupportedSampleRate(deviceCommands.getState()) !== null) return
+
+    if (gapStartRef.current !== null) {
+      // First batch after a reconnection: the outage counts as lost samples on the 250 Hz time axis
+      const outage = Math.max(0, Math.round((now - gapStartRef.current) / 1000 * MONITOR_SAMPLE_RATE) - 1)
+      batch.missed[0] += outage
+      batch.reconnected = true
+      gapStartRef.current = null
     }
 
-    const result: ArduinoData = {
-      mother: 0,
-      combined: 0,
-      fetus: 0
+    batchQueueRef.current.push(batch)
+    optionsRef.current?.onDataReceived?.(batch)  // Immediate callback
+  }
+
+  const handleWorkerMessage = (message: SerialWorkerMessage) => {
+    if (message.generation !== generationRef.current) return // From a port since closed
+    switch (message.type) {
+      case 'batch':
+        deliver(message.batch)
+        break
+      case 'lines':
+        for (const line of message.lines) {
+          // Header lines describe the device; the rest are command replies
+          if (line.startsWith('#')) deviceCommands.handleHeaderLine(line)
+          else deviceCommands.handleLine(line)
+        }
+        break
+      case 'handshake':
+        deviceCommands.completeHandshake()
+        break
+      case 'stats':
+        serialLinkStats.publish(message.stats)
+        break
     }
+  }
+
+  const createWorker = () => {
+    const worker = new Worker(new URL('../workers/serialWorker.ts', import.meta.url), { type: 'module' })
+    worker.onmessage = (event: MessageEvent<SerialWorkerMessage>) => handleWorkerMessage(event.data)
+    worker.onerror = (event) => console.error('Serial worker error:', event.message)
+    workerRef.current = worker
+  }
+
+  const terminateWorker = () => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+  }
+
+  // Keep the worker's mapping and filter settings current
+  const { signalMapping, singleValueSignal, adcMax } = options ?? {}
+  useEffect(() => {
+    post({ type: 'configure', config: pipelineConfig() })
+  }, [signalMapping, singleValueSignal, adcMax])
+
+  // The worker needs the streamed channels and the handshake outcome from the command channel
+  useEffect(() => {
+    let synced = { channelMask: null as number | null, handshakeComplete: false }
+    return deviceCommands.subscribe(() => {
+      const device = deviceCommands.getState()
+      const channelMask = device.info?.channelMask ?? null
+      if (channelMask !== synced.channelMask) post({ type: 'configure', config: { channelMask } })
+      if (device.handshakeComplete && !synced.handshakeComplete) post({ type: 'handshake' })
+      synced = { channelMask, handshakeComplete: device.handshakeComplete }
+    })
+  }, [])
 
-    // Map channel1
-    if (raw.channel1 !== undefined) {
-      if (mapping.channel1 === 'maternal') result.mother = raw.channel1
-      else if (mapping.channel1 === 'fetal') result.fetus = raw.channel1
-      else if (mapping.channel1 === 'combined') result.combined = raw.channel1
+  useEffect(() => terminateWorker, [])
+
+  // Stop reading, release the command channel and close the port; a failed port may refuse some steps
+  const releasePort = async () => {
+    if (stallTimerRef.current) {
+      clearInterval(stallTimerRef.current)
+      stallTimerRef.current = null
+    }
+    const reader = readerRef.current
+    const port = portRef.current
+    readerRef.current = null
+    portRef.current = null
+
+    deviceCommands.detach()
+    if (reader) {
+      await reader.cancel().catch(() => undefined)
+      reader.releaseLock()
     }
+    await port?.close().catch(() => undefined)
+  }
 
-    // Map channel2
-    if (raw.channel2 !== undefined) {
-      if (mapping.channel2 === 'maternal') result.mother = raw.channel2
-      else if (mapping.channel2 === 'fetal') result.fetus = raw.channel2
-      else if (mapping.channel2 === 'combined') result.combined = raw.channel2
+  // Open a port and read it until it fails or is released. `claim` is the generation the caller
+  // saw; if it moved on meanwhile (disconnect), the port is closed again.
+  const openPort = async (port: SerialPort, claim: number): Promise<boolean> => {
+    await port.open({ baudRate: BAUD_RATE })
+    if (generationRef.current !== claim) {
+      await port.close().catch(() => undefined)
+      return false
+    }
+    const generation = ++generationRef.current
+    const isCurrent = () => generationRef.current === generation
+
+    portRef.current = port
+    const openedAt = performance.now()
+    setConnectionState('connecting')
+
+    // The worker starts over for the new port; its messages for older ports are ignored
+    if (!workerRef.current) createWorker()
+    post({ type: 'open', generation, config: pipelineConfig() })
+
+    // Commands go out on the write side; their replies come back from the worker
+    deviceCommands.attach(port.writable)
+
+    // Start reading data
+    const reader = port.readable.getReader()
+    readerRef.current = reader
+
+    // Read loop: bytes go to the worker as they arrive, handed over rather than copied
+    const readLoop = async () => {
+      try {
+        while (true) {
+          const { value, done } = await reader.read()
+          if (done) break
+          post({ type: 'chunk', bytes: value }, [value.buffer])
+        }
+      } catch (error) {
+        console.error('Serial read error:', error)
+      }
+      // Still the active port, so the device went away rather than being disconnected
+      if (isCurrent()) reconnect(port)
     }
 
-    // Map channel3
-    if (raw.channel3 !== undefined) {
-      if (mapping.channel3 === 'maternal') result.mother = raw.channel3
-      else if (mapping.channel3 === 'fetal') result.fetus = raw.channel3
-      else if (mapping.channel3 === 'combined') result.combined = raw.channel3
+    readLoop()
+
+    // Flag the link when data stops, or never starts; a device told to stop streaming is quiet on purpose
+    stallTimerRef.current = setInterval(() => {
+      const now = performance.now()
+      const lastDataAt = lastDataAtRef.current
+      const state = connectionStateRef.current
+      const quiet = state === 'streaming'
+        ? lastDataAt !== null && now - lastDataAt > STALL_TIMEOUT_MS
+        : state === 'connecting' && now - openedAt > FIRST_DATA_TIMEOUT_MS
+      if (quiet && deviceCommands.getState().info?.streaming !== false) {
+        setConnectionState('stalled')
+      }
+    }, STALL_TIMEOUT_MS / 2)
+
+    // Boards that reset when the port opens miss commands while booting, so ask a few times;
+    // the handshake ends with the INFO reply, or with whatever the header said once out of attempts
+    const identify = async () => {
+      for (let attempt = 0; attempt < 3 && isCurrent(); attempt++) {
+        try {
+          const info = await deviceCommands.getInfo()
+          deviceCommands.completeHandshake()
+          // Processing runs at 250 Hz; devices that can change rate are asked to match.
+          // One that can't keeps its rate, and its data is refused (see unsupportedRate)
+          if (info.sampleRate !== MONITOR_SAMPLE_RATE) {
+            await deviceCommands.setSampleRate(MONITOR_SAMPLE_RATE).catch(error => {
+              console.warn(`Device stays at ${info.sampleRate} Hz:`, error)
+            })
+          }
+          return
+        } catch {
+          // Try again; the device may not support commands at all
+        }
+      }
+      deviceCommands.completeHandshake()
     }
+    identify()
+    return true
+  }
 
-    return result
-  }, [options?.signalMapping])
+  // Look for the lost device among the ports this site was granted before and reopen it
+  const reconnect = async (lostPort: SerialPort) => {
+    const generation = ++generationRef.current
+    gapStartRef.current = gapStartRef.current ?? lastDataAtRef.current ?? performance.now()
+    setConnectionState('reconnecting')
+    await releasePort()
+
+    const lostInfo = lostPort.getInfo()
+    const deadline = performance.now() + RECONNECT_TIMEOUT_MS
+    while (generationRef.current === generation && performance.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, RECONNECT_INTERVAL_MS))
+      if (generationRef.current !== generation || !navigator.serial) return
+      const ports = await navigator.serial.getPorts()
+      const port = ports.find(candidate => candidate === lostPort) ??
+        ports.find(candidate => isSameDevice(candidate.getInfo(), lostInfo))
+      if (!port) continue
+      try {
+        if (await openPort(port, generation)) return
+      } catch (error) {
+        console.warn('Reconnection attempt failed:', error)
+      }
+    }
+    if (generationRef.current === generation) setConnectionState('lost')
+  }
 
   const connect = useCallback(async () => {
     try {
       // Check if Web Serial API is available
-      if (!('serial' in navigator)) {
-        options?.onUnsupportedBrowser?.()
+      if (!navigator.serial) {
+        optionsRef.current?.onUnsupportedBrowser?.()
         return false
       }
 
-      // Request serial port
-      const port = await (navigator as any).serial.requestPort()
-      await port.open({ baudRate: 115200 })
-
-      portRef.current = port
-      setIsConnected(true)
+      // A manual connection replaces any reconnection in progress
+      const claim = ++generationRef.current
+      await releasePort()
+      if (connectionStateRef.current === 'reconnecting') setConnectionState('lost')
 
-      // Start reading data
-      const reader = port.readable.getReader()
-      readerRef.current = reader
-
-      // Read loop
-      const readLoop = async () => {
-        try {
-          while (true) {
-            const { value, done } = await reader.read()
-            if (done) break
-
-            // Convert Uint8Array to string
-            const text = new TextDecoder().decode(value)
-            bufferRef.current += text
-
-            // Process complete lines
-            const lines = bufferRef.current.split('\n')
-            bufferRef.current = lines.pop() || ''
-
-            for (const line of lines) {
-              const trimmed = line.trim()
-              if (!trimmed || trimmed.startsWith('#')) continue // Skip empty lines and comments
-
-              try {
-                // Support three formats:
-                // 1. Simple single value: "2.45" (just a voltage number)
-                // 2. Legacy: "M:1.23,C:1.45,F:0.34" (direct mapping)
-                // 3. Channel-based: "A0:1.23,A1:1.45,A2:0.34" (flexible mapping)
-
-                // Check if it's a simple single number (no colons or commas)
-                if (!trimmed.includes(':') && !trimmed.includes(',')) {
-                  const numValue = parseFloat(trimmed)
-                  if (!isNaN(numValue)) {
-                    // Single value format - assume it's the fetal signal from A2
-                    const data = {
-                      mother: 0,
-                      combined: 0,
-                      fetus: numValue
-                    }
-                    setLatestData(data)
-                    dataQueueRef.current.push(data)  // Add to queue
-                    options?.onDataReceived?.(data)  // Immediate callback
-                    continue
-                  }
-                }
-
-                const parts = trimmed.split(',')
-                const raw: RawArduinoData = {}
-                let isLegacyFormat = false
-
-                for (const part of parts) {
-                  const [key, value] = part.split(':')
-                  const numValue = parseFloat(value)
-
-                  // Check for legacy format
-                  if (key === 'M' || key === 'C' || key === 'F') {
-                    isLegacyFormat = true
-                    break
-                  }
-
-                  // Parse channel-based format
-                  if (key === 'A0' || key === 'CH1' || key === '1') raw.channel1 = numValue
-                  else if (key === 'A1' || key === 'CH2' || key === '2') raw.channel2 = numValue
-                  else if (key === 'A2' || key === 'CH3' || key === '3') raw.channel3 = numValue
-                }
-
-                if (isLegacyFormat) {
-                  // Use legacy parsing
-                  const data: Partial<ArduinoData> = {}
-                  for (const part of parts) {
-                    const [key, value] = part.split(':')
-                    const numValue = parseFloat(value)
-
-                    if (key === 'M') data.mother = numValue
-                    else if (key === 'C') data.combined = numValue
-                    else if (key === 'F') data.fetus = numValue
-                  }
-
-                  if (data.mother !== undefined &&
-                      data.combined !== undefined &&
-                      data.fetus !== undefined) {
-                    const fullData = data as ArduinoData
-                    setLatestData(fullData)
-                    dataQueueRef.current.push(fullData)  // Add to queue
-                    options?.onDataReceived?.(fullData)  // Immediate callback
-                  }
-                } else {
-                  // Use new channel-based mapping
-                  setRawData(raw)
-                  const mappedData = mapRawDataToSignals(raw)
-                  setLatestData(mappedData)
-                  dataQueueRef.current.push(mappedData)  // Add to queue
-                  options?.onDataReceived?.(mappedData)  // Immediate callback
-                }
-              } catch (e) {
-                console.warn('Failed to parse Arduino data:', trimmed)
-              }
-            }
-          }
-        } catch (error) {
-          console.error('Serial read error:', error)
-        }
-      }
-
-      readLoop()
-      return true
+      // Request serial port
+      const port = await navigator.serial.requestPort()
+      return await openPort(port, claim)
 
     } catch (error) {
       console.error('Failed to connect to Arduino:', error)
-      options?.onConnectionError?.()
+      if (connectionStateRef.current === 'connecting') setConnectionState('disconnected')
+      optionsRef.current?.onConnectionError?.()
       return false
     }
-  }, [options])
+  }, [])
 
   const disconnect = useCallback(async () => {
+    // Stops the read loop from reconnecting and any reconnection in progress
+    generationRef.current++
     try {
-      if (readerRef.current) {
-        await readerRef.current.cancel()
-        readerRef.current = null
-      }
-
-      if (portRef.current) {
-        await portRef.current.close()
-        portRef.current = null
-      }
-
-      setIsConnected(false)
-      setLatestData(null)
-      dataQueueRef.current = []  // Clear queue on disconnect
+      await releasePort()
     } catch (error) {
       console.error('Failed to disconnect:', error)
     }
+
+    gapStartRef.current = null
+    lastDataAtRef.current = null
+    setConnectionState('disconnected')
+    terminateWorker()
+    batchQueueRef.current = []  // Clear queue on disconnect
   }, [])
 
-  // Get all queued data points and clear the queue (prevents data loss)
-  const getQueuedData = useCallback((): ArduinoData[] => {
-    const data = [...dataQueueRef.current]
-    dataQueueRef.current = []  // Clear queue after reading
-    return data
+  // Get all queued batches and clear the queue (prevents data loss)
+  const getQueuedBatches = useCallback((): ArduinoBatch[] => {
+    const batches = batchQueueRef.current
+    batchQueueRef.current = []  // Clear queue after reading
+    return batches
   }, [])
 
   // Check if there's queued data available
   const hasQueuedData = useCallback((): boolean => {
-    return dataQueueRef.current.length > 0
+    return batchQueueRef.current.length > 0
   }, [])
 
+  // Restart the combined-lead noise filter (new recording, cleared display)
+  const resetFilters = useCallback(() => {
+    post({ type: 'reset-filters' })
+  }, [])
+
+  // Connected while the port is open, even if the data has stalled
+  const isConnected = connectionState === 'connecting' || connectionState === 'streaming' || connectionState === 'stalled'
+
+  // Settled rate of a device whose data is being refused
+  const device = useDeviceState()
+  const unsupportedRate = device.handshakeComplete ? unsupportedSampleRate(device) : null
+
   return {
     isConnected,
-    latestData,
-    rawData,
+    connectionState,
+    unsupportedRate,
     connect,
     disconnect,
-    getQueuedData,    // NEW: Get all queued data points
-    hasQueuedData     // NEW: Check if data is available
+    getQueuedBatches,
+    hasQueuedData,
+    resetFilters
   }
 }
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react'
+import { DeviceState, deviceCommands } from '../utils/deviceCommands'
+
+/**
+ * Subscribe to the connected device's info, settings and last command results
+ */
+export function useDeviceState(): DeviceState {
+  return useSyncExternalStore(deviceCommands.subscribe, deviceCommands.getState)
+}
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react'
+import { MonitoringConfig, monitoringConfigStore } from '../utils/monitoringConfig'
+
+/**
+ * Subscribe to the shared monitoring configuration; re-renders on every change
+ */
+export function useMonitoringConfig(): MonitoringConfig {
+  return useSyncExternalStore(monitoringConfigStore.subscribe, monitoringConfigStore.getConfig)
+}
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react'
+import { SampleWriterStats, sampleWriter } from '../utils/sampleWriter'
+
+/**
+ * Subscribe to the session sample writer's statistics (queue, latency, quota)
+ */
+export function useSampleWriterStats(): SampleWriterStats {
+  return useSyncExternalStore(sampleWriter.subscribe, sampleWriter.getStats)
+}
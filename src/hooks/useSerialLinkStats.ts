@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react'
+import { SerialLinkStats, serialLinkStats } from '../utils/serialProtocol'
+
+/**
+ * Subscribe to the Arduino serial link's statistics (protocol, CRC errors, lost frames)
+ */
+export function useSerialLinkStats(): SerialLinkStats {
+  return useSyncExternalStore(serialLinkStats.subscribe, serialLinkStats.getStats)
+}
@@ -0,0 +1,396 @@
+/**
+ * useSessionReplay Hook
+ *
+ * Plays a stored recording session back as a data source. Samples are released
+ * according to elapsed wall-clock time and the playback speed, so downstream
+ * processing (heart rate, trends, alarms) sees the recording at its own pace.
+ *
+ * The stored traces are the displayed ones (already filtered and extracted), so
+ * they enter the pipeline after the filter and extraction stages. Samples are
+ * placed by their index, and gaps in the recording repeat the last sample as the
+ * exports do, so positions and seeking match the recording's own time.
+ *
+ * EDF+/BDF+ files and WFDB records (.hea with its signal and annotation files)
+ * can be played the same way: channels are matched by label and resampled to
+ * the monitor's 250 Hz.
+ */
+
+import { useState, useRef, useCallback } from 'react'
+import { getSession, getSessionSamples } from '../utils/dataStorage'
+import { readEDF, EDFAnnotation } from '../utils/edf'
+import { parseWFDBHeader, readWFDBSignals, readWFDBAnnotations, ANNOTATION_SYMBOLS } from '../utils/wfdb'
+import { channelSamples } from '../utils/edfExport'
+
+export interface ReplaySample {
+  mother: number
+  combined: number
+  fetus: number
+}
+
+// What is being replayed
+export interface ReplaySource {
+  sessionId: number | null      // null for a file
+  fileName: string | null
+  startedAt: number             // Wall clock time (ms since epoch)
+  patientId: string
+  annotations: EDFAnnotation[]  // File annotations (stored sessions keep theirs in the database)
+}
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8]
+
+// Rate the monitoring pipeline runs at
+const PIPELINE_SAMPLE_RATE = 250
+
+// A decoded file signal in physical units
+interface FileSignal {
+  label: string
+  sampleRate: number
+  samples: Float32Array
+}
+
+// WFDB annotation file extensions read alongside a record
+const WFDB_ANNOTATION_EXTENSIONS = ['atr', 'qrs', 'fqrs', 'mqrs', 'ecg']
+
+// Label patterns for each trace, most specific first
+const CHANNEL_PATTERNS: Record<keyof ReplaySample, RegExp> = {
+  fetus: /fetal|fetus|direct/i,
+  mother: /matern|mother|thorax|chest/i,
+  combined: /abdom|combined/i
+}
+
+// Never release more than this many samples per call (e.g. after the tab was in the background)
+const MAX_SAMPLES_PER_CALL = 500
+
+/**
+ * Pick the maternal, combined and fetal signals by label (any left unmatched
+ * take the remaining signals in order)
+ */
+function mapChannels(signals: FileSignal[]): Record<keyof ReplaySample, FileSignal> {
+  const unused = [...signals]
+  const take = (signal: FileSignal | undefined) => {
+    if (signal) unused.splice(unused.indexOf(signal), 1)
+    return signal
+  }
+  const keys = Object.keys(CHANNEL_PATTERNS) as Array<keyof ReplaySample>
+  const matched = Object.fromEntries(keys.map(key => [key, take(unused.find(signal => CHANNEL_PATTERNS[key].test(signal.label)))]))
+
+  const channels = {} as Record<keyof ReplaySample, FileSignal>
+  for (const key of keys) {
+    const signal = matched[key] ?? take(unused[0])
+    if (!signal) {
+      throw new Error('The file needs at least three signals (maternal, abdominal and fetal)')
+    }
+    channels[key] = signal
+  }
+  return channels
+}
+
+// Anti-alias cutoff as a fraction of the pipeline rate (just under its Nyquist frequency)
+const ANTI_ALIAS_CUTOFF = 0.45
+
+// Low-pass taps per unit of decimation ratio; more taps give a sharper transition
+const ANTI_ALIAS_TAPS_PER_RATIO = 16
+
+/**
+ * Windowed-sinc (Hamming) low-pass; `cutoff` is a fraction of the sample rate.
+ * The signal's edge samples are repeated beyond its ends.
+ */
+function lowPass(samples: Float32Array, cutoff: number, taps: number): Float32Array {
+  const half = Math.floor(taps / 2)
+  const kernel = new Float32Array(2 * half + 1)
+  let sum = 0
+  for (let k = -half; k <= half; k++) {
+    const sinc = k === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * k) / (Math.PI * k)
+    const window = 0.54 + 0.46 * Math.cos(Math.PI * k / (half + 1))
+    kernel[k + half] = sinc * window
+    sum += kernel[k + half]
+  }
+
+  const out = new Float32Array(samples.length)
+  const last = samples.length - 1
+  for (let i = 0; i < samples.length; i++) {
+    let value = 0
+    for (let k = -half; k <= half; k++) {
+      value += kernel[k + half] * samples[Math.min(Math.max(i + k, 0), last)]
+    }
+    out[i] = value / sum
+  }
+  return out
+}
+
+/**
+ * Linear interpolation of a signal onto the pipeline's sample rate, low-passed
+ * first when it is downsampled so content above the new Nyquist frequency doesn't alias
+ */
+function resample(signal: FileSignal, length: number): Float32Array {
+  if (signal.sampleRate === PIPELINE_SAMPLE_RATE) return signal.samples.subarray(0, length)
+  const out = new Float32Array(length)
+  const ratio = signal.sampleRate / PIPELINE_SAMPLE_RATE
+  const samples = ratio > 1
+    ? lowPass(signal.samples, ANTI_ALIAS_CUTOFF / ratio, Math.ceil(ANTI_ALIAS_TAPS_PER_RATIO * ratio))
+    : signal.samples
+  const last = samples.length - 1
+  for (let i = 0; i < length; i++) {
+    const position = Math.min(i * ratio, last)
+    const before = Math.floor(position)
+    const after = Math.min(before + 1, last)
+    const fraction = position - before
+    out[i] = samples[before] * (1 - fraction) + samples[after] * fraction
+  }
+  return out
+}
+
+function toReplaySamples(signals: FileSignal[]): ReplaySample[] {
+  const channels = mapChannels(signals)
+  const seconds = Math.min(...Object.values(channels).map(signal => signal.samples.length / signal.sampleRate))
+  const length = Math.floor(seconds * PIPELINE_SAMPLE_RATE)
+  const mother = resample(channels.mother, length)
+  const combined = resample(channels.combined, length)
+  const fetus = resample(channels.fetus, length)
+  return Array.from({ length }, (_, i) => ({ mother: mother[i], combined: combined[i], fetus: fetus[i] }))
+}
+
+async function loadWFDB(headerFile: File, files: File[]) {
+  const header = parseWFDBHeader(await headerFile.text())
+  const byName = new Map(files.map(file => [file.name, file]))
+
+  const signalFiles = new Map<string, ArrayBuffer>()
+  for (const fileName of new Set(header.signals.map(signal => signal.fileName))) {
+    const file = byName.get(fileName)
+    if (!file) throw new Error(`Select ${fileName} together with ${headerFile.name}`)
+    signalFiles.set(fileName, await file.arrayBuffer())
+  }
+
+  // Beat annotations are shown by their mnemonic, notes by their text
+  const annotations: EDFAnnotation[] = []
+  for (const extension of WFDB_ANNOTATION_EXTENSIONS) {
+    const file = byName.get(`${header.recordName}.${extension}`)
+    if (!file) continue
+    for (const annotation of readWFDBAnnotations(await file.arrayBuffer())) {
+      annotations.push({
+        onset: annotation.sample / header.sampleRate,
+        duration: null,
+        text: annotation.aux || `${extension} ${ANNOTATION_SYMBOLS[annotation.code] ?? annotation.code}`
+      })
+    }
+  }
+
+  const startedAt = parseWFDBStart(header.baseTime, header.baseDate) ?? headerFile.lastModified
+  return {
+    source: {
+      sessionId: null,
+      fileName: header.recordName,
+      startedAt,
+      patientId: '',
+      annotations: annotations.sort((a, b) => a.onset - b.onset)
+    },
+    samples: toReplaySamples(readWFDBSignals(header, signalFiles)),
+    sampleRate: PIPELINE_SAMPLE_RATE
+  }
+}
+
+// WFDB base time "hh:mm:ss" and date "dd/mm/yyyy"; null when the header has no date
+function parseWFDBStart(baseTime: string | null, baseDate: string | null): number | null {
+  if (!baseDate) return null
+  const [day, month, year] = baseDate.split('/').map(Number)
+  const [hours, minutes, seconds] = (baseTime ?? '0:0:0').split(':').map(Number)
+  const date = new Date(year, month - 1, day, hours || 0, minutes || 0, seconds || 0)
+  return Number.isNaN(date.getTime()) ? null : date.getTime()
+}
+
+export function useSessionReplay() {
+  const [source, setSource] = useState<ReplaySource | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [speed, setSpeedState] = useState(1)
+  const [position, setPosition] = useState(0) // Seconds, updated once per replayed second
+  const [duration, setDuration] = useState(0)
+
+  const samplesRef = useRef<ReplaySample[]>([])
+  const sampleRateRef = useRef(250)
+  const indexRef = useRef(0)
+  const isPlayingRef = useRef(false)
+  const speedRef = useRef(1)
+  const lastTickRef = useRef<number | null>(null)
+  const pendingRef = useRef(0) // Fractional samples carried between calls
+
+  const setPlaying = (playing: boolean) => {
+    isPlayingRef.current = playing
+    lastTickRef.current = null
+    setIsPlaying(playing)
+  }
+
+  // Run a loader and make its samples current; resolves null (with `error` set) on failure
+  const loadWith = async (
+    loader: () => Promise<{ source: ReplaySource, samples: ReplaySample[], sampleRate: number }>
+  ): Promise<ReplaySource | null> => {
+    setIsLoading(true)
+    setError(null)
+    setPlaying(false)
+
+    try {
+      const loaded = await loader()
+      if (loaded.samples.length === 0) {
+        throw new Error('This recording has no waveform to replay')
+      }
+
+      samplesRef.current = loaded.samples
+      sampleRateRef.current = loaded.sampleRate
+      indexRef.current = 0
+      pendingRef.current = 0
+      setSource(loaded.source)
+      setDuration(loaded.samples.length / loaded.sampleRate)
+      setPosition(0)
+      return loaded.source
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error loading recording'
+      setError(message)
+      console.error('Error loading recording for replay:', err)
+      return null
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  /**
+   * Load a session's samples; resolves false if it has no replayable waveform
+   */
+  const load = useCallback(async (sessionId: number): Promise<boolean> => {
+    const loaded = await loadWith(async () => {
+      const [stored, samples] = await Promise.all([getSession(sessionId), getSessionSamples(sessionId)])
+      if (!stored) {
+        throw new Error(`Session ${sessionId} not found`)
+      }
+
+      const traced = samples.filter(sample => sample.mother !== null && sample.combined !== null && sample.fetus !== null)
+      const length = traced.length > 0 ? traced[traced.length - 1].index + 1 : 0
+      const mother = channelSamples(traced, 'mother', length)
+      const combined = channelSamples(traced, 'combined', length)
+      const fetus = channelSamples(traced, 'fetus', length)
+      return {
+        source: { sessionId, fileName: null, startedAt: stored.startedAt, patientId: stored.patientId, annotations: [] },
+        samples: Array.from({ length }, (_, i) => ({ mother: mother[i], combined: combined[i], fetus: fetus[i] })),
+        sampleRate: stored.sampleRate
+      }
+    })
+    return loaded !== null
+  }, [])
+
+  /**
+   * Load an EDF+/BDF+ file, or a WFDB record (its .hea plus the signal and
+   * annotation files it needs); resolves with the source details, or null on failure
+   */
+  const loadFiles = useCallback(async (files: File[]): Promise<ReplaySource | null> => {
+    return loadWith(async () => {
+      const header = files.find(file => /\.hea$/i.test(file.name))
+      if (header) return loadWFDB(header, files)
+
+      const file = files[0]
+      if (!file) throw new Error('No file selected')
+      const recording = readEDF(await file.arrayBuffer())
+      // EDF+ patient field starts with the patient code ('X' = unknown)
+      const code = recording.patient.split(' ')[0] ?? ''
+      return {
+        source: {
+          sessionId: null,
+          fileName: file.name,
+          startedAt: recording.startTime.getTime(),
+          patientId: code === 'X' ? '' : code.replace(/_/g, ' '),
+          annotations: recording.annotations
+        },
+        samples: toReplaySamples(recording.signals),
+        sampleRate: PIPELINE_SAMPLE_RATE
+      }
+    })
+  }, [])
+
+  /**
+   * Samples due since the previous call (empty while paused); playback pauses at the end
+   */
+  const takeDue = useCallback((now: number = performance.now()): ReplaySample[] => {
+    if (!isPlayingRef.current) return []
+    if (lastTickRef.current === null) {
+      lastTickRef.current = now
+      return []
+    }
+
+    const elapsed = (now - lastTickRef.current) / 1000
+    lastTickRef.current = now
+    pendingRef.current += elapsed * sampleRateRef.current * speedRef.current
+    const count = Math.min(Math.floor(pendingRef.current), MAX_SAMPLES_PER_CALL)
+    pendingRef.current = Math.min(pendingRef.current - count, MAX_SAMPLES_PER_CALL)
+
+    const start = indexRef.current
+    const due = samplesRef.current.slice(start, start + count)
+    indexRef.current = start + due.length
+
+    const sampleRate = sampleRateRef.current
+    if (Math.floor(indexRef.current / sampleRate) !== Math.floor(start / sampleRate)) {
+      setPosition(Math.floor(indexRef.current / sampleRate))
+    }
+    if (indexRef.current >= samplesRef.current.length) {
+      setPlaying(false)
+    }
+    return due
+  }, [])
+
+  const play = useCallback(() => {
+    if (samplesRef.current.length === 0) return
+    if (indexRef.current >= samplesRef.current.length) {
+      indexRef.current = 0
+      setPosition(0)
+    }
+    setPlaying(true)
+  }, [])
+
+  const pause = useCallback(() => setPlaying(false), [])
+
+  /**
+   * Jump to a position (s); returns the sample index playback continues from
+   */
+  const seek = useCallback((seconds: number): number => {
+    const index = Math.max(0, Math.min(samplesRef.current.length - 1, Math.round(seconds * sampleRateRef.current)))
+    indexRef.current = index
+    pendingRef.current = 0
+    lastTickRef.current = null
+    setPosition(Math.floor(index / sampleRateRef.current))
+    return index
+  }, [])
+
+  const setSpeed = useCallback((newSpeed: number) => {
+    speedRef.current = newSpeed
+    setSpeedState(newSpeed)
+  }, [])
+
+  /**
+   * Drop the loaded session
+   */
+  const unload = useCallback(() => {
+    setPlaying(false)
+    samplesRef.current = []
+    indexRef.current = 0
+    setSource(null)
+    setDuration(0)
+    setPosition(0)
+    setError(null)
+  }, [])
+
+  return {
+    source,
+    isLoading,
+    error,
+    isPlaying,
+    speed,
+    position,
+    duration,
+    load,
+    loadFiles,
+    takeDue,
+    play,
+    pause,
+    seek,
+    setSpeed,
+    unload
+  }
+}
@@ -4,6 +4,12 @@ interface SerialPort extends EventTarget {
   readonly writable: WritableStream<Uint8Array>
   open(options: SerialOptions): Promise<void>
   close(): Promise<void>
+  getInfo(): SerialPortInfo
+}
+
+interface SerialPortInfo {
+  usbVendorId?: number
+  usbProductId?: number
 }
 
 interface SerialOptions {
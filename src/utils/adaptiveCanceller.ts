@@ -0,0 +1,186 @@
+/**
+ * Adaptive Maternal ECG Canceller
+ *
+ * Extracts the fetal ECG from the abdominal (combined) lead by learning the
+ * transfer function between the maternal reference lead and the maternal
+ * component present in the abdominal lead:
+ * - Normalized LMS (NLMS) FIR filter running one sample at a time, its step
+ *   normalized by the reference power over the last few seconds as well as the
+ *   delay line (on the bundled recording it reaches the 32-tap Wiener filter's
+ *   reduction, about 7 dB)
+ * - Tapped delay line absorbs gain and phase differences between leads
+ * - DC blocking on both inputs so electrode offsets are not "learned"
+ * - Convergence judged by the maternal content left in the residual (its
+ *   correlation with the reference), so the UI can tell when the fetal trace is trustworthy
+ *
+ * Plain subtraction (combined - maternal) only works when both leads see the
+ * maternal heart with identical gain and phase, which is rarely true in practice.
+ */
+
+export interface CancellerConvergence {
+  samplesProcessed: number
+  primaryPower: number       // Smoothed power of the abdominal lead (after DC removal)
+  residualPower: number      // Smoothed power of the extracted fetal signal
+  maternalReductionDb: number // How much energy the canceller removed (10*log10(primary/residual))
+  residualCorrelation: number // Largest correlation of the residual with the reference at any tap delay
+  isConverged: boolean       // Residual no longer correlated with the maternal reference
+}
+
+export interface AdaptiveCancellerOptions {
+  taps?: number              // Filter length (32 taps = 128ms at 250 Hz)
+  stepSize?: number          // NLMS step size (mu), 0 < mu < 2
+  sampleRate?: number
+}
+
+export interface CancellerOutput {
+  fetal: number              // Residual after subtracting the maternal estimate
+  maternalEstimate: number   // Estimated maternal component in the abdominal lead
+}
+
+// Maternal ECG left in the residual shows as correlation with the reference; the fetal
+// ECG and noise are uncorrelated with it, so below this (after a minimum run time) the
+// fetal trace is free of maternal beats
+const CONVERGENCE_CORRELATION_THRESHOLD = 0.1
+const MIN_CONVERGENCE_SECONDS = 5
+// Time constant (s) of the reference power used to normalize the step, and of the
+// residual correlation
+const REFERENCE_POWER_SECONDS = 2
+const CORRELATION_SECONDS = 4
+
+export class AdaptiveMaternalCanceller {
+  private taps: number
+  private stepSize: number
+  private sampleRate: number
+  private weights: Float64Array
+  private delayLine: Float64Array
+  private delayIndex = 0
+  private referenceEnergy = 0
+  private referencePower = 0
+  private crossCorrelation: Float64Array   // Smoothed residual x delayed reference, per tap
+  private dcReference: DCBlockerState = { x1: 0, y1: 0 }
+  private dcPrimary: DCBlockerState = { x1: 0, y1: 0 }
+  private samplesProcessed = 0
+  private primaryPower = 0
+  private residualPower = 0
+
+  constructor(options: AdaptiveCancellerOptions = {}) {
+    this.taps = options.taps ?? 32
+    this.stepSize = options.stepSize ?? 0.05
+    this.sampleRate = options.sampleRate ?? 250
+    this.weights = new Float64Array(this.taps)
+    this.delayLine = new Float64Array(this.taps)
+    this.crossCorrelation = new Float64Array(this.taps)
+  }
+
+  /**
+   * Process one pair of samples
+   * @param reference - Maternal reference lead (chest electrode)
+   * @param primary - Abdominal lead (maternal + fetal)
+   */
+  processSample(reference: number, primary: number): CancellerOutput {
+    const x = this.applyDCBlocker(reference, this.dcReference)
+    const d = this.applyDCBlocker(primary, this.dcPrimary)
+
+    // Update circular delay line and its running energy (for NLMS normalization)
+    const outgoing = this.delayLine[this.delayIndex]
+    this.referenceEnergy += x * x - outgoing * outgoing
+    if (this.referenceEnergy < 0) this.referenceEnergy = 0 // Guard against float drift
+    this.delayLine[this.delayIndex] = x
+
+    // Filter output: estimate of the maternal component in the abdominal lead
+    let estimate = 0
+    for (let k = 0; k < this.taps; k++) {
+      estimate += this.weights[k] * this.delayLine[(this.delayIndex - k + this.taps) % this.taps]
+    }
+
+    // Error signal = what the maternal reference cannot explain = fetal + noise
+    const error = d - estimate
+
+    // NLMS weight update. Between maternal beats the delay line holds almost no energy,
+    // so normalizing by it alone lets the abdominal noise throw the weights around;
+    // the longer-term reference power keeps the step in proportion
+    this.referencePower += (x * x - this.referencePower) / (REFERENCE_POWER_SECONDS * this.sampleRate)
+    const normalizedStep = this.stepSize / (1e-6 + Math.max(this.referenceEnergy, this.taps * this.referencePower))
+    const correlationAlpha = 1 / (CORRELATION_SECONDS * this.sampleRate)
+    for (let k = 0; k < this.taps; k++) {
+      const delayed = this.delayLine[(this.delayIndex - k + this.taps) % this.taps]
+      this.weights[k] += normalizedStep * error * delayed
+      this.crossCorrelation[k] += correlationAlpha * (error * delayed - this.crossCorrelation[k])
+    }
+
+    this.delayIndex = (this.delayIndex + 1) % this.taps
+
+    // Exponentially smoothed statistics (~1 second time constant)
+    const alpha = 1 / this.sampleRate
+    this.primaryPower += alpha * (d * d - this.primaryPower)
+    this.residualPower += alpha * (error * error - this.residualPower)
+    this.samplesProcessed++
+
+    return { fetal: error, maternalEstimate: estimate }
+  }
+
+  /**
+   * Current convergence statistics
+   */
+  getConvergence(): CancellerConvergence {
+    const maternalReductionDb = this.residualPower > 0 && this.primaryPower > 0
+      ? 10 * Math.log10(this.primaryPower / this.residualPower)
+      : 0
+
+    const scale = Math.sqrt(this.residualPower * this.referencePower)
+    let largest = 0
+    for (let k = 0; k < this.taps; k++) largest = Math.max(largest, Math.abs(this.crossCorrelation[k]))
+    const residualCorrelation = scale > 0 ? largest / scale : 1
+
+    return {
+      samplesProcessed: this.samplesProcessed,
+      primaryPower: this.primaryPower,
+      residualPower: this.residualPower,
+      maternalReductionDb,
+      residualCorrelation,
+      isConverged: this.samplesProcessed >= this.sampleRate * MIN_CONVERGENCE_SECONDS &&
+        residualCorrelation < CONVERGENCE_CORRELATION_THRESHOLD
+    }
+  }
+
+  /**
+   * One-pole DC blocker: y[n] = x[n] - x[n-1] + R*y[n-1]
+   * Cutoff ~0.4 Hz at 250 Hz, well below the QRS band
+   */
+  private applyDCBlocker(x: number, state: DCBlockerState): number {
+    const y = x - state.x1 + 0.99 * state.y1
+    state.x1 = x
+    state.y1 = y
+    return y
+  }
+
+  /**
+   * Reset learned weights and statistics (call when starting a new recording
+   * or when the electrodes have been repositioned)
+   */
+  reset(): void {
+    this.weights.fill(0)
+    this.delayLine.fill(0)
+    this.delayIndex = 0
+    this.referenceEnergy = 0
+    this.referencePower = 0
+    this.crossCorrelation.fill(0)
+    this.dcReference = { x1: 0, y1: 0 }
+    this.dcPrimary = { x1: 0, y1: 0 }
+    this.samplesProcessed = 0
+    this.primaryPower = 0
+    this.residualPower = 0
+  }
+}
+
+interface DCBlockerState {
+  x1: number
+  y1: number
+}
+
+/**
+ * Create a pre-configured adaptive canceller for maternal ECG removal
+ */
+export function createAdaptiveMaternalCanceller(sampleRate: number = 250): AdaptiveMaternalCanceller {
+  return new AdaptiveMaternalCanceller({ sampleRate })
+}
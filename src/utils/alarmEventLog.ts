@@ -0,0 +1,96 @@
+/**
+ * Alarm Event Log
+ *
+ * Timestamped record of what the alarm system did during a recording:
+ * - Fetal and maternal status transitions (normal, warning, critical and back)
+ * - Technical alarms raised, changed and cleared
+ * - Audio pause, resume, re-arm, breakthrough and acknowledgement actions
+ *
+ * Events are persisted in IndexedDB with their session (see dataStorage)
+ * and carry the recording time, so review can show the waveform at that moment.
+ */
+
+import { AlarmPriority, AlarmSource } from './alarmManager'
+import { AlarmAuditAction, AlarmAuditEntry } from './alarmPause'
+
+export type HeartRateStatus = 'normal' | 'warning' | 'critical'
+
+export type AlarmEventKind = 'status' | 'technical' | AlarmAuditAction
+
+export interface AlarmEvent {
+  id?: number                       // Assigned by IndexedDB
+  sessionId?: number                // Session the event belongs to (set when stored)
+  timestamp: number                 // Wall clock time (ms since epoch)
+  time: number                      // Recording time (s), i.e. position in the waveform
+  kind: AlarmEventKind
+  source: AlarmSource | null        // null for actions covering every alarm (pause, resume...)
+  status: HeartRateStatus | null    // New status of a 'status' event
+  priority: AlarmPriority | null    // Priority of a technical alarm (null = cleared)
+  message: string
+  bpm: number | null                // Heart rate at onset (status events)
+  operator: string | null
+}
+
+export interface AlarmEventRow {
+  event: AlarmEvent
+  duration: number | null           // Seconds the condition lasted (null = not applicable)
+  ongoing: boolean                  // Condition still active at the end of the log
+}
+
+/**
+ * Whether an event starts something that lasts until a later event ends it
+ */
+function startsCondition(event: AlarmEvent): boolean {
+  switch (event.kind) {
+    case 'status': return event.status !== 'normal'
+    case 'technical': return event.priority !== null
+    case 'pause': return true
+    default: return false
+  }
+}
+
+/**
+ * Whether `later` ends the condition started by `event`
+ */
+function endsCondition(event: AlarmEvent, later: AlarmEvent): boolean {
+  switch (event.kind) {
+    case 'status': return later.kind === 'status' && later.source === event.source
+    case 'technical': return later.kind === 'technical'
+    case 'pause': return later.kind === 'resume' || later.kind === 'rearm' || later.kind === 'breakthrough' || later.kind === 'pause'
+    default: return false
+  }
+}
+
+/**
+ * Pair each event with how long its condition lasted. Conditions still open
+ * run to `endTime` (the current recording time) when given.
+ */
+export function summarizeAlarmEvents(events: AlarmEvent[], endTime: number | null = null): AlarmEventRow[] {
+  return events.map((event, i) => {
+    if (!startsCondition(event)) {
+      return { event, duration: null, ongoing: false }
+    }
+    const end = events.slice(i + 1).find(later => endsCondition(event, later))
+    if (end) {
+      return { event, duration: end.time - event.time, ongoing: false }
+    }
+    return { event, duration: endTime !== null ? Math.max(0, endTime - event.time) : null, ongoing: true }
+  })
+}
+
+/**
+ * Event for an entry of the alarm pause / acknowledgement audit log
+ */
+export function auditEntryToEvent(entry: AlarmAuditEntry, time: number): AlarmEvent {
+  return {
+    timestamp: entry.timestamp,
+    time,
+    kind: entry.action,
+    source: null,
+    status: null,
+    priority: null,
+    message: entry.alarms.join('; '),
+    bpm: null,
+    operator: entry.operator
+  }
+}
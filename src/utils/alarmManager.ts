@@ -0,0 +1,153 @@
+/**
+ * Alarm Priority Manager
+ *
+ * Tracks one alarm condition per source (fetal, maternal, technical) and
+ * assigns it an IEC 60601-1-8 style priority:
+ * - High: immediate response required (e.g. sustained critical heart rate)
+ * - Medium: prompt response required (e.g. heart rate in the caution band)
+ * - Low: awareness required
+ *
+ * A condition that persists is escalated one priority level at a time, so an
+ * unattended caution eventually sounds like an emergency. The highest-priority
+ * active alarm is the one that gets sounded.
+ */
+
+export type AlarmPriority = 'low' | 'medium' | 'high'
+
+export type AlarmSource = 'fetal' | 'maternal' | 'technical'
+
+export interface AlarmCondition {
+  priority: AlarmPriority
+  message: string
+}
+
+export interface ActiveAlarm {
+  source: AlarmSource
+  priority: AlarmPriority       // Current priority, including escalation
+  basePriority: AlarmPriority   // Priority the condition was raised with
+  message: string
+  since: number                 // When the condition started at its base priority (ms)
+  escalated: boolean
+}
+
+export interface EscalationPolicy {
+  low: number | null            // ms before a low alarm becomes medium (null = never)
+  medium: number | null         // ms before a medium alarm becomes high (null = never)
+}
+
+export const ALARM_PRIORITY_RANK: Record<AlarmPriority, number> = {
+  low: 1,
+  medium: 2,
+  high: 3
+}
+
+export const DEFAULT_ESCALATION: EscalationPolicy = {
+  low: 120000,
+  medium: 60000
+}
+
+const SOURCE_ORDER: AlarmSource[] = ['fetal', 'maternal', 'technical']
+
+export class AlarmManager {
+  private escalation: EscalationPolicy
+  private alarms = new Map<AlarmSource, ActiveAlarm>()
+
+  constructor(escalation: EscalationPolicy) {
+    this.escalation = escalation
+  }
+
+  /**
+   * Raise, update or clear (null) the condition for a source
+   */
+  setCondition(source: AlarmSource, condition: AlarmCondition | null, now: number = Date.now()): void {
+    if (!condition) {
+      this.alarms.delete(source)
+      return
+    }
+
+    const existing = this.alarms.get(source)
+    if (existing && existing.basePriority === condition.priority) {
+      // Same condition continuing: keep its start time so escalation carries on
+      this.alarms.set(source, { ...existing, message: condition.message })
+    } else {
+      this.alarms.set(source, {
+        source,
+        priority: condition.priority,
+        basePriority: condition.priority,
+        message: condition.message,
+        since: now,
+        escalated: false
+      })
+    }
+    this.tick(now)
+  }
+
+  /**
+   * Re-evaluate escalation; returns true if any alarm changed priority
+   */
+  tick(now: number = Date.now()): boolean {
+    let changed = false
+    this.alarms.forEach((alarm, source) => {
+      const priority = this.escalatedPriority(alarm.basePriority, now - alarm.since)
+      if (priority !== alarm.priority) {
+        this.alarms.set(source, { ...alarm, priority, escalated: priority !== alarm.basePriority })
+        changed = true
+      }
+    })
+    return changed
+  }
+
+  /**
+   * Active alarms, highest priority first (oldest first within a priority)
+   */
+  getActiveAlarms(): ActiveAlarm[] {
+    return Array.from(this.alarms.values()).sort((a, b) =>
+      ALARM_PRIORITY_RANK[b.priority] - ALARM_PRIORITY_RANK[a.priority] ||
+      a.since - b.since ||
+      SOURCE_ORDER.indexOf(a.source) - SOURCE_ORDER.indexOf(b.source)
+    )
+  }
+
+  /**
+   * The alarm that determines what is sounded
+   */
+  getHighestAlarm(): ActiveAlarm | null {
+    return this.getActiveAlarms()[0] ?? null
+  }
+
+  reset(): void {
+    this.alarms.clear()
+  }
+
+  private escalatedPriority(base: AlarmPriority, elapsed: number): AlarmPriority {
+    let priority = base
+    let remaining = elapsed
+    if (priority === 'low' && this.escalation.low !== null && remaining >= this.escalation.low) {
+      priority = 'medium'
+      remaining -= this.escalation.low
+    }
+    if (priority === 'medium' && this.escalation.medium !== null && remaining >= this.escalation.medium) {
+      priority = 'high'
+    }
+    return priority
+  }
+}
+
+/**
+ * Factory function to create an alarm manager
+ */
+export function createAlarmManager(escalation: EscalationPolicy = DEFAULT_ESCALATION): AlarmManager {
+  return new AlarmManager(escalation)
+}
+
+/**
+ * Patient alarm condition for a heart rate status: critical sounds as high
+ * priority, warning as medium priority, normal clears the alarm
+ */
+export function statusToAlarmCondition(status: 'normal' | 'warning' | 'critical', message: string): AlarmCondition | null {
+  switch (status) {
+    case 'critical': return { priority: 'high', message }
+    case 'warning': return { priority: 'medium', message }
+    default: return null
+  }
+}
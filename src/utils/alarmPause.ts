@@ -0,0 +1,207 @@
+/**
+ * Alarm Audio Pause and Acknowledgement
+ *
+ * Replaces a permanent mute with the two IEC 60601-1-8 style user responses:
+ * - Audio pause: silences every alarm up to the paused priority for a limited
+ *   time, then re-arms automatically
+ * - Acknowledge: silences one specific alarm condition until it clears, rises
+ *   in priority or the acknowledgement expires; its visual indication stays
+ *
+ * The pause holds only for the conditions active when it started (and new ones
+ * of lower priority): a condition of higher priority than the one paused, or a
+ * new condition - another source, or the same source starting again - at the
+ * same priority, breaks through.
+ * Every pause, resume, re-arm, breakthrough and acknowledgement is written to
+ * an audit log with the operator and the alarms active at the time.
+ */
+
+import { ActiveAlarm, AlarmPriority, AlarmSource, ALARM_PRIORITY_RANK } from './alarmManager'
+
+export type AlarmAuditAction = 'pause' | 'resume' | 'rearm' | 'breakthrough' | 'acknowledge' | 'acknowledge-expired'
+
+export interface AlarmAuditEntry {
+  timestamp: number           // Wall clock time (ms since epoch)
+  action: AlarmAuditAction
+  operator: string | null     // Who performed the action (null for automatic events)
+  alarms: string[]            // Alarms affected, e.g. "fetal: high - Fetal heart rate critical"
+}
+
+export interface AlarmPauseState {
+  pausedUntil: number | null           // End of the audio pause (ms), null when armed
+  pausedPriority: AlarmPriority | null // Priority of the highest alarm paused; new conditions at it break through
+  acknowledged: AlarmSource[]          // Sources whose current alarm is acknowledged
+}
+
+interface Acknowledgement {
+  priority: AlarmPriority
+  since: number                        // The alarm's start time when acknowledged
+  until: number
+}
+
+// Pausing with no alarm active covers new conditions below high: a new high one breaks through
+const PREEMPTIVE_PAUSE_PRIORITY: AlarmPriority = 'high'
+const MAX_LOG_ENTRIES = 500
+
+function describeAlarm(alarm: ActiveAlarm): string {
+  return `${alarm.source}: ${alarm.priority} - ${alarm.message}`
+}
+
+export class AlarmPauseController {
+  private pausedUntil: number | null = null
+  private pausedPriority: AlarmPriority | null = null
+  private pausedConditions = new Map<AlarmSource, number>() // Source -> start time of each alarm paused
+  private acknowledgements = new Map<AlarmSource, Acknowledgement>()
+  private log: AlarmAuditEntry[] = []
+  private listeners = new Set<(entry: AlarmAuditEntry) => void>()
+
+  /**
+   * Pause audio for every active alarm (and new ones below the highest paused priority)
+   */
+  pause(alarms: ActiveAlarm[], operator: string | null, durationMs: number, now: number = Date.now()): void {
+    this.pausedUntil = now + durationMs
+    this.pausedPriority = alarms[0]?.priority ?? PREEMPTIVE_PAUSE_PRIORITY
+    this.pausedConditions = new Map(alarms.map(alarm => [alarm.source, alarm.since]))
+    this.record('pause', operator, alarms.map(describeAlarm), now)
+  }
+
+  /**
+   * End the audio pause early
+   */
+  resume(alarms: ActiveAlarm[], operator: string | null, now: number = Date.now()): void {
+    if (this.pausedUntil === null) return
+    this.clearPause()
+    this.record('resume', operator, alarms.map(describeAlarm), now)
+  }
+
+  /**
+   * Acknowledge one alarm: its audio stops but it stays listed
+   */
+  acknowledge(alarm: ActiveAlarm, operator: string | null, durationMs: number, now: number = Date.now()): void {
+    this.acknowledgements.set(alarm.source, {
+      priority: alarm.priority,
+      since: alarm.since,
+      until: now + durationMs
+    })
+    this.record('acknowledge', operator, [describeAlarm(alarm)], now)
+  }
+
+  /**
+   * Apply expiry, re-arm and breakthrough rules to the current alarms and
+   * return the alarm that should be sounded (null = silence)
+   */
+  update(alarms: ActiveAlarm[], now: number = Date.now()): ActiveAlarm | null {
+    // Acknowledgements end when the alarm clears, restarts, rises in priority or times out
+    this.acknowledgements.forEach((ack, source) => {
+      const alarm = alarms.find(a => a.source === source)
+      if (!alarm || alarm.since !== ack.since || ALARM_PRIORITY_RANK[alarm.priority] > ALARM_PRIORITY_RANK[ack.priority]) {
+        this.acknowledgements.delete(source)
+      } else if (now >= ack.until) {
+        this.acknowledgements.delete(source)
+        this.record('acknowledge-expired', null, [describeAlarm(alarm)], now)
+      }
+    })
+
+    if (this.pausedUntil !== null && this.pausedPriority !== null) {
+      const pausedRank = ALARM_PRIORITY_RANK[this.pausedPriority]
+      const breakthrough = alarms.filter(a => {
+        const rank = ALARM_PRIORITY_RANK[a.priority]
+        const isNew = this.pausedConditions.get(a.source) !== a.since
+        return rank > pausedRank || (isNew && rank === pausedRank)
+      })
+      if (breakthrough.length > 0) {
+        this.clearPause()
+        this.record('breakthrough', null, breakthrough.map(describeAlarm), now)
+      } else if (now >= this.pausedUntil) {
+        this.clearPause()
+        this.record('rearm', null, alarms.map(describeAlarm), now)
+      }
+    }
+
+    const audible = alarms.filter(alarm => !this.acknowledgements.has(alarm.source))
+    return this.pausedUntil === null ? audible[0] ?? null : null
+  }
+
+  /**
+   * Be told about every new audit entry; returns an unsubscribe function
+   */
+  onAudit(listener: (entry: AlarmAuditEntry) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getState(): AlarmPauseState {
+    return {
+      pausedUntil: this.pausedUntil,
+      pausedPriority: this.pausedPriority,
+      acknowledged: Array.from(this.acknowledgements.keys())
+    }
+  }
+
+  /**
+   * Audit log, newest first
+   */
+  getLog(): AlarmAuditEntry[] {
+    return [...this.log].reverse()
+  }
+
+  /**
+   * Re-arm and drop acknowledgements (the audit log is kept)
+   */
+  reset(): void {
+    this.clearPause()
+    this.acknowledgements.clear()
+  }
+
+  private clearPause(): void {
+    this.pausedUntil = null
+    this.pausedPriority = null
+    this.pausedConditions.clear()
+  }
+
+  private record(action: AlarmAuditAction, operator: string | null, alarms: string[], now: number): void {
+    const entry: AlarmAuditEntry = { timestamp: now, action, operator, alarms }
+    this.log.push(entry)
+    if (this.log.length > MAX_LOG_ENTRIES) {
+      this.log.shift()
+    }
+    this.listeners.forEach(listener => listener(entry))
+  }
+}
+
+/**
+ * Factory function to create an alarm pause controller
+ */
+export function createAlarmPauseController(): AlarmPauseController {
+  return new AlarmPauseController()
+}
+
+/**
+ * Remaining pause time as m:ss
+ */
+export function formatPauseCountdown(remainingMs: number): string {
+  const seconds = Math.max(0, Math.ceil(remainingMs / 1000))
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`
+}
+
+const OPERATOR_STORAGE_KEY = 'fetal-ekg-monitor.operator'
+
+/**
+ * Operator name recorded against alarm actions (remembered across reloads)
+ */
+export function loadOperatorName(): string {
+  try {
+    return window.localStorage.getItem(OPERATOR_STORAGE_KEY) ?? ''
+  } catch {
+    return ''
+  }
+}
+
+export function saveOperatorName(name: string): void {
+  try {
+    window.localStorage.setItem(OPERATOR_STORAGE_KEY, name)
+  } catch (error) {
+    console.error('Failed to store operator name:', error)
+  }
+}
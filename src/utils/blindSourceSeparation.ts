@@ -0,0 +1,389 @@
+/**
+ * Blind Source Separation (PCA + FastICA)
+ *
+ * Separates maternal and fetal ECG from all available electrode channels
+ * without assuming which channel carries which signal:
+ * - Windowed processing: the unmixing matrix is re-estimated every few seconds
+ *   on a sliding window and applied sample-by-sample in between
+ * - PCA whitening drops rank-deficient channels (e.g. a derived or unused input)
+ * - Symmetric FastICA (tanh contrast) finds statistically independent sources
+ * - Each source's heart rate is estimated from its QRS periodicity and the
+ *   source is classified as maternal, fetal or noise by heart rate band
+ * - Components are ranked by "fetal-ness" so electrode placements can be validated
+ */
+
+export type SourceRole = 'maternal' | 'fetal' | 'noise'
+
+export interface SeparatedComponent {
+  index: number            // Source index within the current unmixing
+  heartRate: number        // Dominant beat rate (BPM), 0 if no periodicity found
+  periodicity: number      // 0-1, strength of the beat-to-beat repetition
+  fetalScore: number       // 0-1, periodicity weighted by fetal heart rate band
+  maternalScore: number    // 0-1, periodicity weighted by maternal heart rate band
+  role: SourceRole
+}
+
+export interface SeparationStatus {
+  isReady: boolean
+  channelsUsed: number     // Channels that survived whitening (non-degenerate)
+  components: SeparatedComponent[]  // Ranked by fetal score, highest first
+  windowSeconds: number
+  updatesPerformed: number
+}
+
+export interface SeparatedSample {
+  maternal: number
+  fetal: number
+}
+
+export interface SourceSeparatorOptions {
+  sampleRate?: number
+  windowSeconds?: number   // Length of the analysis window
+  updateSeconds?: number   // How often the unmixing is re-estimated
+}
+
+// Heart rate bands used to classify sources (BPM)
+const MATERNAL_BAND = { low: 50, high: 110, falloff: 20 }
+const FETAL_BAND = { low: 110, high: 180, falloff: 25 }
+// Below this a source is not considered a credible fetal ECG
+const MIN_FETAL_SCORE = 0.15
+
+/**
+ * Eigen-decomposition of a symmetric matrix (cyclic Jacobi rotations)
+ * Returns eigenvalues and eigenvectors as columns of `vectors`
+ */
+function symmetricEigen(matrix: number[][]): { values: number[], vectors: number[][] } {
+  const n = matrix.length
+  const a = matrix.map(row => [...row])
+  const v = identity(n)
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let offDiagonal = 0
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] * a[p][q]
+    }
+    if (offDiagonal < 1e-20) break
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q])
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1))
+        const c = 1 / Math.sqrt(t * t + 1)
+        const s = t * c
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p]
+          const akq = a[k][q]
+          a[k][p] = c * akp - s * akq
+          a[k][q] = s * akp + c * akq
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k]
+          const aqk = a[q][k]
+          a[p][k] = c * apk - s * aqk
+          a[q][k] = s * apk + c * aqk
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p]
+          const vkq = v[k][q]
+          v[k][p] = c * vkp - s * vkq
+          v[k][q] = s * vkp + c * vkq
+        }
+      }
+    }
+  }
+
+  return { values: a.map((row, i) => row[i]), vectors: v }
+}
+
+function identity(n: number): number[][] {
+  return Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)))
+}
+
+function multiply(a: number[][], b: number[][]): number[][] {
+  return a.map(row => b[0].map((_, j) => row.reduce((sum, value, k) => sum + value * b[k][j], 0)))
+}
+
+function transpose(a: number[][]): number[][] {
+  return a[0].map((_, j) => a.map(row => row[j]))
+}
+
+/**
+ * Symmetric decorrelation: W <- (W W^T)^(-1/2) W
+ */
+function decorrelate(w: number[][]): number[][] {
+  const { values, vectors } = symmetricEigen(multiply(w, transpose(w)))
+  const inverseSqrt = vectors.map(row => row.map((value, j) => value / Math.sqrt(Math.max(values[j], 1e-12))))
+  return multiply(multiply(inverseSqrt, transpose(vectors)), w)
+}
+
+/**
+ * Estimate the dominant beat rate of a signal from the autocorrelation of its
+ * QRS energy envelope (squared slope, 20ms smoothing)
+ */
+function estimateBeatRate(signal: number[], sampleRate: number): { heartRate: number, periodicity: number } {
+  const smoothing = Math.max(1, Math.round(0.02 * sampleRate))
+  const envelope: number[] = []
+  let running = 0
+  const slopes: number[] = []
+  for (let i = 1; i < signal.length; i++) {
+    const slope = signal[i] - signal[i - 1]
+    slopes.push(slope * slope)
+    running += slope * slope
+    if (slopes.length > smoothing) running -= slopes[slopes.length - 1 - smoothing]
+    envelope.push(running / Math.min(slopes.length, smoothing))
+  }
+
+  const mean = envelope.reduce((a, b) => a + b, 0) / Math.max(1, envelope.length)
+  const centered = envelope.map(value => value - mean)
+  const zeroLag = centered.reduce((sum, value) => sum + value * value, 0)
+  if (zeroLag <= 0) return { heartRate: 0, periodicity: 0 }
+
+  // Search 40-240 BPM
+  const minLag = Math.round(sampleRate * 60 / 240)
+  const maxLag = Math.min(Math.round(sampleRate * 60 / 40), centered.length - 1)
+  const correlations: number[] = []
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0
+    for (let i = lag; i < centered.length; i++) sum += centered[i] * centered[i - lag]
+    // Unbiased normalization so long lags are not penalised for fewer overlaps
+    correlations.push((sum / (centered.length - lag)) / (zeroLag / centered.length))
+  }
+
+  let best = 0
+  for (let i = 1; i < correlations.length; i++) {
+    if (correlations[i] > correlations[best]) best = i
+  }
+  if (correlations[best] <= 0) return { heartRate: 0, periodicity: 0 }
+
+  // Prefer the shortest lag with a local peak close to the best one, so a
+  // fetal rhythm is not reported at half its rate (octave error)
+  for (let i = 1; i < best; i++) {
+    const isLocalPeak = correlations[i] >= correlations[i - 1] && correlations[i] >= correlations[i + 1]
+    if (isLocalPeak && correlations[i] >= 0.8 * correlations[best]) {
+      best = i
+      break
+    }
+  }
+
+  return {
+    heartRate: Math.round(60 * sampleRate / (best + minLag)),
+    periodicity: Math.max(0, Math.min(1, correlations[best]))
+  }
+}
+
+function bandWeight(rate: number, band: { low: number, high: number, falloff: number }): number {
+  if (rate <= 0) return 0
+  if (rate >= band.low && rate <= band.high) return 1
+  const distance = rate < band.low ? band.low - rate : rate - band.high
+  return Math.max(0, 1 - distance / band.falloff)
+}
+
+export class WindowedSourceSeparator {
+  private sampleRate: number
+  private windowLength: number
+  private updateInterval: number
+  private windowSeconds: number
+
+  private history: number[][] = []   // One array per channel
+  private samplesSinceUpdate = 0
+  private updatesPerformed = 0
+
+  // Current separation (applied per sample)
+  private channelMeans: number[] = []
+  private unmixing: number[][] | null = null      // sources = unmixing * (x - mean)
+  private outputScale: number[] = []              // Back-projection to sensor units, with sign
+  private icaWeights: number[][] | null = null    // Warm start for the next window
+  private maternalIndex = -1
+  private fetalIndex = -1
+  private components: SeparatedComponent[] = []
+  private channelsUsed = 0
+
+  constructor(options: SourceSeparatorOptions = {}) {
+    this.sampleRate = options.sampleRate ?? 250
+    this.windowSeconds = options.windowSeconds ?? 8
+    this.windowLength = Math.round(this.windowSeconds * this.sampleRate)
+    this.updateInterval = Math.round((options.updateSeconds ?? 2) * this.sampleRate)
+  }
+
+  /**
+   * Add one multi-channel sample and return the separated maternal and fetal
+   * signals using the most recent unmixing (null until the first window is full)
+   */
+  processSample(channels: number[]): SeparatedSample | null {
+    if (this.history.length !== channels.length) {
+      this.history = channels.map(() => [])
+      this.unmixing = null
+      this.icaWeights = null
+    }
+
+    channels.forEach((value, i) => {
+      this.history[i].push(value)
+      if (this.history[i].length > this.windowLength) this.history[i].shift()
+    })
+
+    this.samplesSinceUpdate++
+    if (this.history[0].length >= this.windowLength &&
+        (this.unmixing === null || this.samplesSinceUpdate >= this.updateInterval)) {
+      this.updateSeparation()
+      this.samplesSinceUpdate = 0
+    }
+
+    if (!this.unmixing) return null
+
+    const centered = channels.map((value, i) => value - this.channelMeans[i])
+    const sourceAt = (index: number) => index < 0
+      ? 0
+      : this.unmixing![index].reduce((sum, weight, j) => sum + weight * centered[j], 0) * this.outputScale[index]
+
+    return {
+      maternal: sourceAt(this.maternalIndex),
+      fetal: sourceAt(this.fetalIndex)
+    }
+  }
+
+  /**
+   * Re-estimate whitening + ICA on the current window and classify sources
+   */
+  private updateSeparation(): void {
+    const channelCount = this.history.length
+    const length = this.history[0].length
+
+    this.channelMeans = this.history.map(channel => channel.reduce((a, b) => a + b, 0) / length)
+    const centered = this.history.map((channel, i) => channel.map(value => value - this.channelMeans[i]))
+
+    // Covariance and PCA whitening
+    const covariance = centered.map(a => centered.map(b => a.reduce((sum, value, k) => sum + value * b[k], 0) / length))
+    const { values, vectors } = symmetricEigen(covariance)
+    const maxEigen = Math.max(...values)
+    const kept = values
+      .map((value, index) => ({ value, index }))
+      .filter(entry => maxEigen > 0 && entry.value > maxEigen * 1e-6)
+      .sort((a, b) => b.value - a.value)
+
+    if (kept.length === 0) return
+
+    // Whitening matrix V (kept x channels) and its pseudo-inverse (channels x kept)
+    const whitening = kept.map(entry => vectors.map(row => row[entry.index] / Math.sqrt(entry.value)))
+    const dewhitening = vectors.map(row => kept.map(entry => row[entry.index] * Math.sqrt(entry.value)))
+    const whitened = whitening.map(row => {
+      const out = new Array(length).fill(0)
+      for (let j = 0; j < channelCount; j++) {
+        if (row[j] === 0) continue
+        for (let k = 0; k < length; k++) out[k] += row[j] * centered[j][k]
+      }
+      return out
+    })
+
+    // Symmetric FastICA, warm-started from the previous window when dimensions match
+    const dimension = kept.length
+    let w = this.icaWeights && this.icaWeights.length === dimension ? this.icaWeights : identity(dimension)
+    w = decorrelate(w)
+    for (let iteration = 0; iteration < 100; iteration++) {
+      const next = w.map(row => {
+        const updated = new Array(dimension).fill(0)
+        let derivativeMean = 0
+        for (let k = 0; k < length; k++) {
+          let projection = 0
+          for (let j = 0; j < dimension; j++) projection += row[j] * whitened[j][k]
+          const g = Math.tanh(projection)
+          derivativeMean += 1 - g * g
+          for (let j = 0; j < dimension; j++) updated[j] += whitened[j][k] * g
+        }
+        return updated.map((value, j) => value / length - (derivativeMean / length) * row[j])
+      })
+      const decorrelated = decorrelate(next)
+      const change = Math.max(...decorrelated.map((row, i) =>
+        Math.abs(Math.abs(row.reduce((sum, value, j) => sum + value * w[i][j], 0)) - 1)))
+      w = decorrelated
+      if (change < 1e-5) break
+    }
+    this.icaWeights = w
+
+    // Full unmixing (sources x channels) and mixing (channels x sources)
+    const unmixing = multiply(w, whitening)
+    const mixing = multiply(dewhitening, transpose(w))
+    const sources = unmixing.map(row => {
+      const out = new Array(length).fill(0)
+      for (let j = 0; j < channelCount; j++) {
+        if (row[j] === 0) continue
+        for (let k = 0; k < length; k++) out[k] += row[j] * centered[j][k]
+      }
+      return out
+    })
+
+    // Back-project each source onto the channel where it is strongest (sensor
+    // units), flipping sign so the dominant (R) deflection is upright
+    this.outputScale = sources.map((source, i) => {
+      let strongest = 0
+      for (let j = 0; j < channelCount; j++) {
+        if (Math.abs(mixing[j][i]) > Math.abs(strongest)) strongest = mixing[j][i]
+      }
+      const scaled = source.map(value => value * strongest)
+      const skew = scaled.reduce((sum, value) => sum + value * value * value, 0)
+      return skew < 0 ? -strongest : strongest
+    })
+
+    // Classify sources by heart rate band
+    const components: SeparatedComponent[] = sources.map((source, index) => {
+      const { heartRate, periodicity } = estimateBeatRate(source, this.sampleRate)
+      return {
+        index,
+        heartRate,
+        periodicity,
+        fetalScore: periodicity * bandWeight(heartRate, FETAL_BAND),
+        maternalScore: periodicity * bandWeight(heartRate, MATERNAL_BAND),
+        role: 'noise' as SourceRole
+      }
+    })
+
+    const maternal = [...components].sort((a, b) => b.maternalScore - a.maternalScore)[0]
+    if (maternal && maternal.maternalScore > 0) maternal.role = 'maternal'
+    const fetal = [...components]
+      .filter(c => c.role !== 'maternal')
+      .sort((a, b) => b.fetalScore - a.fetalScore)[0]
+    if (fetal && fetal.fetalScore >= MIN_FETAL_SCORE) fetal.role = 'fetal'
+
+    this.maternalIndex = components.find(c => c.role === 'maternal')?.index ?? -1
+    this.fetalIndex = components.find(c => c.role === 'fetal')?.index ?? -1
+    this.components = components.sort((a, b) => b.fetalScore - a.fetalScore)
+    this.channelsUsed = dimension
+    this.unmixing = unmixing
+    this.updatesPerformed++
+  }
+
+  getStatus(): SeparationStatus {
+    return {
+      isReady: this.unmixing !== null,
+      channelsUsed: this.channelsUsed,
+      components: this.components,
+      windowSeconds: this.windowSeconds,
+      updatesPerformed: this.updatesPerformed
+    }
+  }
+
+  /**
+   * Discard the window and separation (call when starting a new recording)
+   */
+  reset(): void {
+    this.history = []
+    this.samplesSinceUpdate = 0
+    this.updatesPerformed = 0
+    this.channelMeans = []
+    this.unmixing = null
+    this.outputScale = []
+    this.icaWeights = null
+    this.maternalIndex = -1
+    this.fetalIndex = -1
+    this.components = []
+    this.channelsUsed = 0
+  }
+}
+
+/**
+ * Create a pre-configured separator for multi-channel fetal extraction
+ */
+export function createSourceSeparator(sampleRate: number = 250): WindowedSourceSeparator {
+  return new WindowedSourceSeparator({ sampleRate })
+}
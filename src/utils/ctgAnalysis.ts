@@ -0,0 +1,432 @@
+/**
+ * Cardiotocography (CTG) Analysis
+ *
+ * Turns the fetal beat stream into a fetal heart rate (FHR) trend and
+ * interprets it per the NICHD (2008) definitions:
+ * - Baseline: mean FHR rounded to 5 BPM over a 10 minute window, excluding
+ *   accelerations, decelerations and marked variability; indeterminate when
+ *   less than 2 minutes of baseline remain
+ * - Accelerations: abrupt rise of >=15 BPM for >=15 s (10 BPM / 10 s before 32 weeks),
+ *   prolonged when lasting 2-10 minutes
+ * - Decelerations: abrupt (variable) or gradual (early/late, by timing against
+ *   the contraction peak), prolonged when >=15 BPM below baseline for 2-10 minutes
+ * - Variability: peak-to-trough amplitude per minute, banded absent/minimal/moderate/marked
+ *
+ * There is no tocodynamometer channel, so contraction peaks come from manual
+ * marks. Gradual decelerations without a marked contraction stay unclassified.
+ */
+
+import { RRInterval } from './hrvAnalysis'
+
+export type VariabilityBand = 'absent' | 'minimal' | 'moderate' | 'marked'
+export type DecelerationType = 'early' | 'late' | 'variable' | 'prolonged' | 'unclassified'
+
+export interface FHRSample {
+  time: number               // Seconds from session start
+  fhr: number | null         // BPM, null during signal loss
+}
+
+export interface BaselineSegment {
+  start: number              // Seconds (one segment per minute)
+  end: number
+  baseline: number | null    // BPM rounded to 5, null when indeterminate
+}
+
+export interface Acceleration {
+  start: number              // Onset (departure from baseline)
+  peakTime: number
+  end: number                // Return to baseline
+  peakRise: number           // BPM above baseline
+  duration: number           // Seconds, onset to return
+  prolonged: boolean         // 2-10 minutes
+}
+
+export interface Deceleration {
+  start: number
+  nadirTime: number
+  end: number
+  depth: number              // BPM below baseline at the nadir
+  duration: number
+  onsetToNadir: number       // Seconds; < 30 s is abrupt
+  type: DecelerationType
+  contractionLag: number | null // Nadir time minus associated contraction peak (s)
+}
+
+export interface VariabilityEpoch {
+  start: number
+  end: number
+  amplitude: number          // Peak-to-trough BPM
+  band: VariabilityBand
+}
+
+export interface Contraction {
+  time: number               // Contraction peak (seconds from session start)
+}
+
+export interface CTGAnalysis {
+  fhr: FHRSample[]
+  baseline: BaselineSegment[]
+  accelerations: Acceleration[]
+  decelerations: Deceleration[]
+  variability: VariabilityEpoch[]
+  currentBaseline: number | null
+  currentVariability: VariabilityEpoch | null // Median of the last 10 minutes
+  duration: number
+}
+
+export interface CTGOptions {
+  gestationalWeeks?: number  // Selects the 15x15 or 10x10 acceleration criterion
+}
+
+// FHR trend resolution (samples per second), as on conventional CTG monitors
+export const FHR_SAMPLE_RATE = 4
+
+// Beat acceptance for the trend
+const FHR_MIN = 50
+const FHR_MAX = 240
+const MAX_BEAT_JUMP = 25     // BPM change from the previous accepted beat
+const MAX_BEAT_GAP = 3       // Seconds without beats before the trace shows signal loss
+
+const BASELINE_WINDOW = 600
+const MIN_BASELINE_SECONDS = 120
+const BASELINE_CHUNK = 10    // Seconds; chunks with events or marked variability are excluded
+const EPISODE_THRESHOLD = 15 // BPM from baseline for decelerations (and term accelerations)
+const ABRUPT_SECONDS = 30
+const PROLONGED_SECONDS = 120
+const BASELINE_CHANGE_SECONDS = 600
+// Nadir within this many seconds of the contraction peak counts as coincident (early)
+const EARLY_LAG_SECONDS = 15
+// Beat-to-beat timing at 250 Hz adds ~1-2 BPM of jitter, so the amplitude is
+// measured on a 1 s moving average and "absent" allows for that resolution
+const ABSENT_MAX_AMPLITUDE = 2
+
+/**
+ * Convert RR intervals into an evenly sampled FHR trend
+ */
+export function buildFHRSeries(intervals: RRInterval[]): FHRSample[] {
+  // Reject implausible beats and single-beat jumps (missed or doubled detections)
+  const beats: Array<{ time: number, fhr: number }> = []
+  let rejectedRun = 0
+  for (const rr of intervals) {
+    const fhr = 60 / rr.interval
+    if (fhr < FHR_MIN || fhr > FHR_MAX) continue
+    const previous = beats[beats.length - 1]
+    const isContinuous = previous && rr.time - previous.time <= MAX_BEAT_GAP
+    // Several consecutive "jumps" mean the rate really changed
+    if (isContinuous && Math.abs(fhr - previous.fhr) > MAX_BEAT_JUMP && rejectedRun < 3) {
+      rejectedRun++
+      continue
+    }
+    rejectedRun = 0
+    beats.push({ time: rr.time, fhr })
+  }
+
+  if (beats.length === 0) return []
+
+  const samples: FHRSample[] = []
+  const end = beats[beats.length - 1].time
+  let j = 0
+  for (let k = 0; k / FHR_SAMPLE_RATE <= end; k++) {
+    const t = k / FHR_SAMPLE_RATE
+    while (j < beats.length - 1 && beats[j + 1].time <= t) j++
+    const a = beats[j]
+    const b = beats[j + 1]
+    if (a.time > t) {
+      samples.push({ time: t, fhr: null })
+    } else if (!b) {
+      samples.push({ time: t, fhr: a.time === t ? a.fhr : null })
+    } else if (b.time - a.time > MAX_BEAT_GAP) {
+      samples.push({ time: t, fhr: null })
+    } else {
+      const fraction = (t - a.time) / (b.time - a.time)
+      samples.push({ time: t, fhr: a.fhr + fraction * (b.fhr - a.fhr) })
+    }
+  }
+  return samples
+}
+
+/**
+ * Full CTG interpretation of the fetal beat stream
+ */
+export function analyzeCTG(
+  intervals: RRInterval[],
+  contractions: Contraction[] = [],
+  options: CTGOptions = {}
+): CTGAnalysis {
+  const fhr = buildFHRSeries(intervals)
+  const duration = fhr.length > 0 ? fhr[fhr.length - 1].time : 0
+
+  const baseline = calculateBaseline(fhr)
+  const baselineAt = createBaselineLookup(baseline)
+
+  const isPreterm = (options.gestationalWeeks ?? 40) < 32
+  const accelerations = detectAccelerations(fhr, baselineAt, isPreterm ? 10 : 15, isPreterm ? 10 : 15)
+  const decelerations = detectDecelerations(fhr, baselineAt, contractions)
+  const variability = calculateVariability(fhr, accelerations, decelerations)
+
+  const currentBaseline = [...baseline].reverse().find(segment => segment.baseline !== null)?.baseline ?? null
+  const recent = variability.filter(epoch => epoch.end > duration - BASELINE_WINDOW)
+  let currentVariability: VariabilityEpoch | null = null
+  if (recent.length > 0) {
+    const sorted = [...recent].sort((a, b) => a.amplitude - b.amplitude)
+    const median = sorted[Math.floor(sorted.length / 2)].amplitude
+    currentVariability = {
+      start: recent[0].start,
+      end: recent[recent.length - 1].end,
+      amplitude: median,
+      band: classifyVariability(median)
+    }
+  }
+
+  return { fhr, baseline, accelerations, decelerations, variability, currentBaseline, currentVariability, duration }
+}
+
+/**
+ * Baseline for each minute from the trailing 10 minute window
+ */
+function calculateBaseline(fhr: FHRSample[]): BaselineSegment[] {
+  const segments: BaselineSegment[] = []
+  if (fhr.length === 0) return segments
+
+  const duration = fhr[fhr.length - 1].time
+  const chunkSamples = BASELINE_CHUNK * FHR_SAMPLE_RATE
+
+  for (let start = 0; start < duration; start += 60) {
+    const end = Math.min(start + 60, duration)
+    const windowStart = Math.max(0, Math.round((end - BASELINE_WINDOW) * FHR_SAMPLE_RATE))
+    const windowEnd = Math.round(end * FHR_SAMPLE_RATE)
+    const values = fhr.slice(windowStart, windowEnd + 1)
+      .map(sample => sample.fhr)
+
+    const valid = values.filter((value): value is number => value !== null)
+    if (valid.length < MIN_BASELINE_SECONDS * FHR_SAMPLE_RATE) {
+      segments.push({ start, end, baseline: null })
+      continue
+    }
+
+    // Start from the median, then refine twice on the chunks that qualify as baseline
+    let estimate: number | null = median(valid)
+    for (let iteration = 0; iteration < 2 && estimate !== null; iteration++) {
+      let sum = 0
+      let count = 0
+      for (let c = 0; c < values.length; c += chunkSamples) {
+        const chunk = values.slice(c, c + chunkSamples).filter((value): value is number => value !== null)
+        if (chunk.length < chunkSamples / 2) continue
+        const min = Math.min(...chunk)
+        const max = Math.max(...chunk)
+        if (max - min > 25) continue // Marked variability
+        if (max >= estimate + EPISODE_THRESHOLD || min <= estimate - EPISODE_THRESHOLD) continue // Episode
+        for (const value of chunk) sum += value
+        count += chunk.length
+      }
+      estimate = count >= MIN_BASELINE_SECONDS * FHR_SAMPLE_RATE ? sum / count : null
+    }
+
+    segments.push({ start, end, baseline: estimate === null ? null : Math.round(estimate / 5) * 5 })
+  }
+
+  return segments
+}
+
+/**
+ * Baseline in force at a given time (last determinate value if the current minute is indeterminate)
+ */
+function createBaselineLookup(segments: BaselineSegment[]): (time: number) => number | null {
+  const resolved: Array<number | null> = []
+  let last: number | null = null
+  for (const segment of segments) {
+    if (segment.baseline !== null) last = segment.baseline
+    resolved.push(last)
+  }
+  return (time: number) => {
+    if (resolved.length === 0) return null
+    return resolved[Math.min(resolved.length - 1, Math.max(0, Math.floor(time / 60)))]
+  }
+}
+
+interface Episode {
+  startIndex: number
+  extremeIndex: number
+  endIndex: number
+}
+
+/**
+ * Find excursions that pass `threshold` BPM beyond baseline, extended to where
+ * the trace leaves and returns to baseline. `direction` is +1 for rises, -1 for falls.
+ */
+function findEpisodes(
+  fhr: FHRSample[],
+  baselineAt: (time: number) => number | null,
+  threshold: number,
+  direction: 1 | -1
+): Episode[] {
+  const episodes: Episode[] = []
+  const deviation = (i: number): number | null => {
+    const value = fhr[i].fhr
+    const baseline = baselineAt(fhr[i].time)
+    return value === null || baseline === null ? null : direction * (value - baseline)
+  }
+
+  let i = 0
+  while (i < fhr.length) {
+    const d = deviation(i)
+    if (d === null || d < threshold) {
+      i++
+      continue
+    }
+
+    // Extend back to the departure from baseline
+    let startIndex = i
+    while (startIndex > 0) {
+      const previous = deviation(startIndex - 1)
+      if (previous === null || previous <= 0) break
+      startIndex--
+    }
+
+    // Extend forward to the return, tracking the extreme
+    let endIndex = i
+    let extremeIndex = i
+    while (endIndex < fhr.length - 1) {
+      const next = deviation(endIndex + 1)
+      if (next === null || next <= 0) break
+      endIndex++
+      if (next > deviation(extremeIndex)!) extremeIndex = endIndex
+    }
+
+    // Episodes can't overlap the previous one (its extension may have covered this start)
+    const previous = episodes[episodes.length - 1]
+    if (!previous || startIndex > previous.endIndex) {
+      episodes.push({ startIndex, extremeIndex, endIndex })
+    }
+    i = endIndex + 1
+  }
+
+  return episodes
+}
+
+function detectAccelerations(
+  fhr: FHRSample[],
+  baselineAt: (time: number) => number | null,
+  minRise: number,
+  minDuration: number
+): Acceleration[] {
+  const accelerations: Acceleration[] = []
+  for (const episode of findEpisodes(fhr, baselineAt, minRise, 1)) {
+    const start = fhr[episode.startIndex].time
+    const end = fhr[episode.endIndex].time
+    const peakTime = fhr[episode.extremeIndex].time
+    const duration = end - start
+    // Accelerations are abrupt; 10+ minutes is a baseline change
+    if (duration < minDuration || duration >= BASELINE_CHANGE_SECONDS) continue
+    if (peakTime - start >= ABRUPT_SECONDS) continue
+
+    accelerations.push({
+      start,
+      peakTime,
+      end,
+      peakRise: fhr[episode.extremeIndex].fhr! - baselineAt(peakTime)!,
+      duration,
+      prolonged: duration >= PROLONGED_SECONDS
+    })
+  }
+  return accelerations
+}
+
+function detectDecelerations(
+  fhr: FHRSample[],
+  baselineAt: (time: number) => number | null,
+  contractions: Contraction[]
+): Deceleration[] {
+  const decelerations: Deceleration[] = []
+  for (const episode of findEpisodes(fhr, baselineAt, EPISODE_THRESHOLD, -1)) {
+    const start = fhr[episode.startIndex].time
+    const end = fhr[episode.endIndex].time
+    const nadirTime = fhr[episode.extremeIndex].time
+    const duration = end - start
+    if (duration < 15 || duration >= BASELINE_CHANGE_SECONDS) continue
+
+    const onsetToNadir = nadirTime - start
+
+    // The contraction whose peak is closest to the nadir, within the deceleration span
+    const contraction = contractions
+      .filter(c => c.time >= start - ABRUPT_SECONDS && c.time <= end)
+      .sort((a, b) => Math.abs(a.time - nadirTime) - Math.abs(b.time - nadirTime))[0]
+    const contractionLag = contraction ? nadirTime - contraction.time : null
+
+    let type: DecelerationType
+    if (duration >= PROLONGED_SECONDS) {
+      type = 'prolonged'
+    } else if (onsetToNadir < ABRUPT_SECONDS) {
+      type = 'variable'
+    } else if (contractionLag === null) {
+      type = 'unclassified'
+    } else {
+      type = contractionLag <= EARLY_LAG_SECONDS ? 'early' : 'late'
+    }
+
+    decelerations.push({
+      start,
+      nadirTime,
+      end,
+      depth: baselineAt(nadirTime)! - fhr[episode.extremeIndex].fhr!,
+      duration,
+      onsetToNadir,
+      type,
+      contractionLag
+    })
+  }
+  return decelerations
+}
+
+/**
+ * Peak-to-trough amplitude per minute, excluding accelerations and decelerations
+ */
+function calculateVariability(
+  fhr: FHRSample[],
+  accelerations: Acceleration[],
+  decelerations: Deceleration[]
+): VariabilityEpoch[] {
+  const epochs: VariabilityEpoch[] = []
+  if (fhr.length === 0) return epochs
+
+  const excluded = [...accelerations, ...decelerations]
+  const isExcluded = (time: number) => excluded.some(e => time >= e.start && time <= e.end)
+
+  // 1 s moving average suppresses beat timing jitter
+  const smoothing = FHR_SAMPLE_RATE
+  const duration = fhr[fhr.length - 1].time
+  for (let start = 0; start + 60 <= duration; start += 60) {
+    const values: number[] = []
+    for (let i = start * FHR_SAMPLE_RATE; i < (start + 60) * FHR_SAMPLE_RATE - smoothing; i++) {
+      let sum = 0
+      let valid = true
+      for (let k = 0; k < smoothing; k++) {
+        const sample = fhr[i + k]
+        if (!sample || sample.fhr === null || isExcluded(sample.time)) {
+          valid = false
+          break
+        }
+        sum += sample.fhr
+      }
+      if (valid) values.push(sum / smoothing)
+    }
+
+    // Need at least half a minute of usable trace
+    if (values.length < 30 * FHR_SAMPLE_RATE) continue
+    const amplitude = Math.max(...values) - Math.min(...values)
+    epochs.push({ start, end: start + 60, amplitude, band: classifyVariability(amplitude) })
+  }
+  return epochs
+}
+
+export function classifyVariability(amplitude: number): VariabilityBand {
+  if (amplitude <= ABSENT_MAX_AMPLITUDE) return 'absent'
+  if (amplitude <= 5) return 'minimal'
+  if (amplitude <= 25) return 'moderate'
+  return 'marked'
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
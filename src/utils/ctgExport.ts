@@ -0,0 +1,97 @@
+/**
+ * CTG Trend Export
+ *
+ * - CSV: one row per second with FHR, baseline, event and contraction markers
+ * - PNG: snapshot of the rendered trend strip
+ */
+
+import { CTGAnalysis, Contraction, FHR_SAMPLE_RATE } from './ctgAnalysis'
+
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = window.URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  window.URL.revokeObjectURL(url)
+}
+
+function getTimestamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5)
+}
+
+function formatClock(seconds: number): string {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = Math.floor(seconds % 60)
+  return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`
+}
+
+export function exportCTGToCSV(analysis: CTGAnalysis, contractions: Contraction[]): void {
+  if (analysis.fhr.length === 0) {
+    throw new Error('No FHR trend to export')
+  }
+
+  const rows = ['time_s,elapsed,fhr_bpm,baseline_bpm,event,contraction']
+  const eventAt = (time: number): string => {
+    const acceleration = analysis.accelerations.find(a => time >= a.start && time <= a.end)
+    if (acceleration) return acceleration.prolonged ? 'prolonged-acceleration' : 'acceleration'
+    const deceleration = analysis.decelerations.find(d => time >= d.start && time <= d.end)
+    if (deceleration) return `${deceleration.type}-deceleration`
+    return ''
+  }
+
+  for (let i = 0; i < analysis.fhr.length; i += FHR_SAMPLE_RATE) {
+    const { time, fhr } = analysis.fhr[i]
+    const segment = analysis.baseline[Math.floor(time / 60)]
+    const contraction = contractions.some(c => c.time >= time && c.time < time + 1)
+    rows.push([
+      time.toFixed(0),
+      formatClock(time),
+      fhr === null ? '' : fhr.toFixed(1),
+      segment?.baseline ?? '',
+      eventAt(time),
+      contraction ? 'peak' : ''
+    ].join(','))
+  }
+
+  const blob = new Blob([rows.join('\n')], { type: 'text/csv' })
+  downloadBlob(blob, `FHR_Trend_${getTimestamp()}.csv`)
+}
+
+export async function exportCTGToPNG(svg: SVGSVGElement): Promise<void> {
+  // The serialized copy needs explicit pixel dimensions to rasterize
+  const { width, height } = svg.getBoundingClientRect()
+  const copy = svg.cloneNode(true) as SVGSVGElement
+  copy.setAttribute('width', String(width))
+  copy.setAttribute('height', String(height))
+  const markup = new XMLSerializer().serializeToString(copy)
+  const svgUrl = window.URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }))
+
+  try {
+    const image = new Image()
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve()
+      image.onerror = () => reject(new Error('Could not render FHR trend image'))
+      image.src = svgUrl
+    })
+
+    // Render at 2x for a legible printout
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(width * 2)
+    canvas.height = Math.round(height * 2)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Could not get canvas context')
+    ctx.fillStyle = '#1a1a1a'
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height)
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'))
+    if (!blob) throw new Error('Could not encode FHR trend image')
+    downloadBlob(blob, `FHR_Trend_${getTimestamp()}.png`)
+  } finally {
+    window.URL.revokeObjectURL(svgUrl)
+  }
+}
@@ -1,10 +1,23 @@
 /**
  * Data Storage Utility
- * 
- * Stores monitoring data in IndexedDB for persistence and Excel export
+ *
+ * Stores monitoring sessions in IndexedDB for persistence, review and Excel export.
+ * Each recording is a session; nothing is wiped when a new recording starts.
+ * - sessions: patient, operator, data source and configuration of each recording
+ * - samples: keyed by [sessionId, index], written in batches by sampleWriter
+ * - events: alarm event log (see alarmEventLog)
+ * - annotations: contraction marks and notes
+ *
+ * Version 3 replaced the single `monitoringData` store (v1) and the `alarmEvents`
+ * store (v2); their contents are migrated into one session on upgrade.
  */
 
-import { EKGDataPoint } from '../App'
+import { EKGDataPoint, FetalExtractionMethod } from '../App'
+import { AlarmEvent } from './alarmEventLog'
+import { MonitoringConfig } from './monitoringConfig'
+import { SignalMapping } from '../hooks/useArduinoSerial'
+import { ADCSpec } from './deviceCapabilities'
+import { detectQRS, calculateHeartRate, QRSProfileName } from './qrsDetector'
 
 export interface MonitoringDataPoint {
   time: number
@@ -16,9 +29,69 @@ export interface MonitoringDataPoint {
   timestamp: number
 }
 
+export type SessionDataSource = 'simulated' | 'real' | 'arduino' | 'raw'
+
+export interface SessionSummary {
+  alarmCount: number                            // Status alarms and technical alarms raised
+  fetalBPMMin: number | null                    // null = no fetal heart rate detected
+  fetalBPMMax: number | null
+}
+
+export interface MonitoringSession {
+  id?: number                                   // Assigned by IndexedDB
+  startedAt: number                             // Wall clock time (ms since epoch)
+  endedAt: number | null                        // null while recording, or if the app closed mid-recording
+  patientId: string
+  operator: string
+  dataSource: SessionDataSource | null          // null = unknown (migrated from v1)
+  signalPair: string | null                     // Raw signal pair when the source is 'raw'
+  fetalExtraction: FetalExtractionMethod | null
+  signalMapping: SignalMapping | null           // Arduino channel mapping
+  monitoringConfig: MonitoringConfig | null     // Thresholds and alarm settings in force
+  sampleRate: number
+  adc?: ADCSpec | null                          // Arduino converter (absent on older sessions: 10 bit, 5 V)
+  sampleCount: number                           // Filled in when the session ends
+  summary: SessionSummary | null                // Filled in when the session ends
+}
+
+export interface SessionSample extends MonitoringDataPoint {
+  sessionId: number
+  index: number                                 // Sample number within the session
+  mother: number | null                         // Displayed traces in signal units (null when migrated from v1)
+  combined: number | null
+  fetus: number | null
+  rawMother?: number | null                     // Inputs before filtering and extraction: ADC counts from the
+  rawCombined?: number | null                   // Arduino, signal units otherwise (absent on older samples)
+  rawFetus?: number | null
+}
+
+// What is left of a session that was never stopped (tab reload or crash)
+export interface UnfinishedSession {
+  session: MonitoringSession
+  sampleCount: number
+  lastIndex: number | null                      // null = no samples were stored
+  lastTimestamp: number | null                  // Wall clock time of the last stored sample
+}
+
+export type AnnotationKind = 'contraction' | 'note'
+
+export interface SessionAnnotation {
+  id?: number
+  sessionId: number
+  time: number                                  // Recording time (s)
+  timestamp: number                             // Wall clock time (ms since epoch)
+  kind: AnnotationKind
+  text: string
+}
+
 const DB_NAME = 'FetalEKGMonitorDB'
-const DB_VERSION = 1
-const STORE_NAME = 'monitoringData'
+const DB_VERSION = 3
+const SESSION_STORE = 'sessions'
+const SAMPLE_STORE = 'samples'
+const EVENT_STORE = 'events'
+const ANNOTATION_STORE = 'annotations'
+const LEGACY_DATA_STORE = 'monitoringData'    // v1
+const LEGACY_EVENT_STORE = 'alarmEvents'      // v2
 
 let dbInstance: IDBDatabase | null = null
 
@@ -35,87 +108,300 @@ export async function initDatabase(): Promise<IDBDatabase> {
     }
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        const objectStore = db.createObjectStore(STORE_NAME, { keyPath: 'timestamp', autoIncrement: true })
-        objectStore.createIndex('time', 'time', { unique: false })
+      const db = request.result
+      const transaction = request.transaction!
+
+      if (event.oldVersion < 3) {
+        const sessions = db.createObjectStore(SESSION_STORE, { keyPath: 'id', autoIncrement: true })
+        sessions.createIndex('startedAt', 'startedAt', { unique: false })
+        db.createObjectStore(SAMPLE_STORE, { keyPath: ['sessionId', 'index'] })
+        const events = db.createObjectStore(EVENT_STORE, { keyPath: 'id', autoIncrement: true })
+        events.createIndex('sessionId', 'sessionId', { unique: false })
+        const annotations = db.createObjectStore(ANNOTATION_STORE, { keyPath: 'id', autoIncrement: true })
+        annotations.createIndex('sessionId', 'sessionId', { unique: false })
+        migrateLegacyStores(db, transaction)
       }
     }
   })
 }
 
-export async function storeDataPoint(dataPoint: MonitoringDataPoint): Promise<void> {
-  const db = await initDatabase()
-  const transaction = db.transaction([STORE_NAME], 'readwrite')
-  const store = transaction.objectStore(STORE_NAME)
-  await store.add(dataPoint)
+/**
+ * Move a v1/v2 recording (one flat store of data points plus its alarm events)
+ * into a session, then drop the old stores. Runs inside the upgrade transaction.
+ */
+function migrateLegacyStores(db: IDBDatabase, transaction: IDBTransaction): void {
+  const readAll = <T>(storeName: string, done: (rows: T[]) => void) => {
+    if (!db.objectStoreNames.contains(storeName)) {
+      done([])
+      return
+    }
+    const request = transaction.objectStore(storeName).getAll()
+    request.onsuccess = () => done(request.result)
+  }
+
+  readAll<MonitoringDataPoint>(LEGACY_DATA_STORE, points => readAll<AlarmEvent>(LEGACY_EVENT_STORE, events => {
+    if (db.objectStoreNames.contains(LEGACY_DATA_STORE)) db.deleteObjectStore(LEGACY_DATA_STORE)
+    if (db.objectStoreNames.contains(LEGACY_EVENT_STORE)) db.deleteObjectStore(LEGACY_EVENT_STORE)
+    if (points.length === 0 && events.length === 0) return
+
+    points.sort((a, b) => a.time - b.time)
+    const timestamps = [...points.map(p => p.timestamp), ...events.map(e => e.timestamp)]
+    const session: MonitoringSession = {
+      startedAt: timestamps.reduce((a, b) => Math.min(a, b)),
+      endedAt: timestamps.reduce((a, b) => Math.max(a, b)),
+      patientId: '',
+      operator: '',
+      dataSource: null,
+      signalPair: null,
+      fetalExtraction: null,
+      signalMapping: null,
+      monitoringConfig: null,
+      sampleRate: 250,
+      sampleCount: points.length,
+      summary: summarizeSession(points, events)
+    }
+
+    const request = transaction.objectStore(SESSION_STORE).add(session)
+    request.onsuccess = () => {
+      const sessionId = request.result as number
+      const samples = transaction.objectStore(SAMPLE_STORE)
+      points.forEach((point, index) => {
+        const sample: SessionSample = { ...point, sessionId, index, mother: null, combined: null, fetus: null }
+        samples.put(sample)
+      })
+      const eventStore = transaction.objectStore(EVENT_STORE)
+      events.forEach(({ id, ...event }) => eventStore.add({ ...event, sessionId }))
+    }
+  }))
 }
 
-export async function getAllData(): Promise<MonitoringDataPoint[]> {
-  const db = await initDatabase()
-  const transaction = db.transaction([STORE_NAME], 'readonly')
-  const store = transaction.objectStore(STORE_NAME)
-  
+/**
+ * Alarm count and FHR range of a recording
+ */
+function summarizeSession(points: MonitoringDataPoint[], events: AlarmEvent[]): SessionSummary {
+  let fetalBPMMin: number | null = null
+  let fetalBPMMax: number | null = null
+  for (const point of points) {
+    if (point.fetalBPM > 0) {
+      fetalBPMMin = fetalBPMMin === null ? point.fetalBPM : Math.min(fetalBPMMin, point.fetalBPM)
+      fetalBPMMax = fetalBPMMax === null ? point.fetalBPM : Math.max(fetalBPMMax, point.fetalBPM)
+    }
+  }
+  return { alarmCount: countAlarms(events), fetalBPMMin, fetalBPMMax }
+}
+
+function countAlarms(events: AlarmEvent[]): number {
+  return events.filter(event =>
+    (event.kind === 'status' && event.status !== 'normal') ||
+    (event.kind === 'technical' && event.priority !== null)
+  ).length
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
   return new Promise((resolve, reject) => {
-    const request = store.getAll()
     request.onsuccess = () => resolve(request.result)
     request.onerror = () => reject(request.error)
   })
 }
 
-export async function clearAllData(): Promise<void> {
+function sampleRange(sessionId: number, startIndex: number = 0, endIndex: number = Infinity): IDBKeyRange {
+  return IDBKeyRange.bound([sessionId, startIndex], [sessionId, endIndex])
+}
+
+/**
+ * Start a new session; resolves with its id
+ */
+export async function createSession(session: Omit<MonitoringSession, 'id'>): Promise<number> {
   const db = await initDatabase()
-  const transaction = db.transaction([STORE_NAME], 'readwrite')
-  const store = transaction.objectStore(STORE_NAME)
-  
-  return new Promise((resolve, reject) => {
-    const request = store.clear()
-    request.onsuccess = () => resolve()
+  const store = db.transaction([SESSION_STORE], 'readwrite').objectStore(SESSION_STORE)
+  return requestToPromise(store.add(session)) as Promise<number>
+}
+
+/**
+ * Mark a session finished and record its sample count, alarm count and FHR range
+ */
+export async function endSession(sessionId: number, endedAt: number = Date.now()): Promise<void> {
+  const db = await initDatabase()
+  const transaction = db.transaction([SESSION_STORE, SAMPLE_STORE, EVENT_STORE], 'readwrite')
+  const sessions = transaction.objectStore(SESSION_STORE)
+  const session: MonitoringSession | undefined = await requestToPromise(sessions.get(sessionId))
+  if (!session) return
+
+  // Walk the samples with a cursor rather than loading a long recording into memory
+  let sampleCount = 0
+  let fetalBPMMin: number | null = null
+  let fetalBPMMax: number | null = null
+  await new Promise<void>((resolve, reject) => {
+    const request = transaction.objectStore(SAMPLE_STORE).openCursor(sampleRange(sessionId))
     request.onerror = () => reject(request.error)
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) {
+        resolve()
+        return
+      }
+      const { fetalBPM } = cursor.value as SessionSample
+      sampleCount++
+      if (fetalBPM > 0) {
+        fetalBPMMin = fetalBPMMin === null ? fetalBPM : Math.min(fetalBPMMin, fetalBPM)
+        fetalBPMMax = fetalBPMMax === null ? fetalBPM : Math.max(fetalBPMMax, fetalBPM)
+      }
+      cursor.continue()
+    }
   })
+  const events: AlarmEvent[] = await requestToPromise(
+    transaction.objectStore(EVENT_STORE).index('sessionId').getAll(IDBKeyRange.only(sessionId))
+  )
+
+  await requestToPromise(sessions.put({
+    ...session,
+    endedAt,
+    sampleCount,
+    summary: { alarmCount: countAlarms(events), fetalBPMMin, fetalBPMMax }
+  }))
 }
 
 /**
- * Calculate BPM from ECG signal using peak detection
+ * All sessions, newest first
  */
-export function calculateBPM(signal: number[], samplingRate: number = 250): number {
-  if (signal.length < 100) return 0
+export async function getSessions(): Promise<MonitoringSession[]> {
+  const db = await initDatabase()
+  const store = db.transaction([SESSION_STORE], 'readonly').objectStore(SESSION_STORE)
+  const sessions: MonitoringSession[] = await requestToPromise(store.getAll())
+  return sessions.sort((a, b) => b.startedAt - a.startedAt)
+}
 
-  // Find peaks (QRS complexes)
-  const peaks: number[] = []
-  const threshold = Math.max(...signal) * 0.5
-
-  for (let i = 10; i < signal.length - 10; i++) {
-    if (signal[i] > threshold &&
-        signal[i] > signal[i - 1] &&
-        signal[i] > signal[i + 1]) {
-      // Check if it's a local maximum
-      const isLocalMax = signal.slice(i - 10, i + 10).every((v, idx) =>
-        idx === 10 || v <= signal[i]
-      )
-      if (isLocalMax) {
-        peaks.push(i)
-      }
+/**
+ * Sessions that were never ended, newest first, with how far each got
+ */
+export async function getUnfinishedSessions(): Promise<UnfinishedSession[]> {
+  const sessions = (await getSessions()).filter(session => session.endedAt === null)
+  if (sessions.length === 0) return []
+
+  const db = await initDatabase()
+  const store = db.transaction([SAMPLE_STORE], 'readonly').objectStore(SAMPLE_STORE)
+  return Promise.all(sessions.map(async session => {
+    const range = sampleRange(session.id!)
+    const [sampleCount, last] = await Promise.all([
+      requestToPromise(store.count(range)),
+      requestToPromise(store.openCursor(range, 'prev'))
+    ])
+    const lastSample = last?.value as SessionSample | undefined
+    return {
+      session,
+      sampleCount,
+      lastIndex: lastSample?.index ?? null,
+      lastTimestamp: lastSample?.timestamp ?? null
     }
-  }
+  }))
+}
 
-  if (peaks.length < 2) return 0
+export async function getSession(sessionId: number): Promise<MonitoringSession | undefined> {
+  const db = await initDatabase()
+  const store = db.transaction([SESSION_STORE], 'readonly').objectStore(SESSION_STORE)
+  return requestToPromise(store.get(sessionId))
+}
 
-  // Calculate average interval between peaks
-  const intervals: number[] = []
-  for (let i = 1; i < peaks.length; i++) {
-    const interval = (peaks[i] - peaks[i - 1]) / samplingRate // Convert to seconds
-    if (interval > 0.2 && interval < 2.0) { // Filter noise (30-300 BPM range)
-      intervals.push(interval)
+/**
+ * Delete a session with its samples, events and annotations
+ */
+export async function deleteSession(sessionId: number): Promise<void> {
+  const db = await initDatabase()
+  const transaction = db.transaction([SESSION_STORE, SAMPLE_STORE, EVENT_STORE, ANNOTATION_STORE], 'readwrite')
+  transaction.objectStore(SESSION_STORE).delete(sessionId)
+  transaction.objectStore(SAMPLE_STORE).delete(sampleRange(sessionId))
+  for (const storeName of [EVENT_STORE, ANNOTATION_STORE]) {
+    const request = transaction.objectStore(storeName).index('sessionId').openKeyCursor(IDBKeyRange.only(sessionId))
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (cursor) {
+        transaction.objectStore(storeName).delete(cursor.primaryKey)
+        cursor.continue()
+      }
     }
   }
 
-  if (intervals.length === 0) return 0
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+/**
+ * Write a batch of samples in one transaction (see sampleWriter); resolves once committed
+ */
+export async function storeSamples(samples: SessionSample[]): Promise<void> {
+  const db = await initDatabase()
+  const transaction = db.transaction([SAMPLE_STORE], 'readwrite')
+  const store = transaction.objectStore(SAMPLE_STORE)
+  samples.forEach(sample => store.put(sample))
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/**
+ * Samples of a session in index order, optionally limited to [startIndex, endIndex]
+ */
+export async function getSessionSamples(sessionId: number, startIndex?: number, endIndex?: number): Promise<SessionSample[]> {
+  const db = await initDatabase()
+  const store = db.transaction([SAMPLE_STORE], 'readonly').objectStore(SAMPLE_STORE)
+  return requestToPromise(store.getAll(sampleRange(sessionId, startIndex, endIndex)))
+}
+
+/**
+ * A stored sample as a chart point (null for migrated samples without traces)
+ */
+export function sampleToDataPoint(sample: SessionSample): EKGDataPoint | null {
+  if (sample.mother === null || sample.combined === null || sample.fetus === null) return null
+  return { time: sample.time, mother: sample.mother, combined: sample.combined, fetus: sample.fetus }
+}
 
-  const avgInterval = intervals.reduce((a, b) => a + b, 0) / intervals.length
-  const bpm = 60 / avgInterval
+/**
+ * Append an alarm event to a session; resolves with the id assigned by the database
+ */
+export async function storeAlarmEvent(sessionId: number, event: AlarmEvent): Promise<number> {
+  const db = await initDatabase()
+  const store = db.transaction([EVENT_STORE], 'readwrite').objectStore(EVENT_STORE)
+  return requestToPromise(store.add({ ...event, sessionId })) as Promise<number>
+}
 
-  return Math.round(bpm)
+/**
+ * Alarm events of a session, oldest first
+ */
+export async function getSessionEvents(sessionId: number): Promise<AlarmEvent[]> {
+  const db = await initDatabase()
+  const store = db.transaction([EVENT_STORE], 'readonly').objectStore(EVENT_STORE)
+  return requestToPromise(store.index('sessionId').getAll(IDBKeyRange.only(sessionId)))
+}
+
+export async function storeAnnotation(annotation: SessionAnnotation): Promise<number> {
+  const db = await initDatabase()
+  const store = db.transaction([ANNOTATION_STORE], 'readwrite').objectStore(ANNOTATION_STORE)
+  return requestToPromise(store.add(annotation)) as Promise<number>
+}
+
+/**
+ * Annotations of a session, oldest first
+ */
+export async function getSessionAnnotations(sessionId: number): Promise<SessionAnnotation[]> {
+  const db = await initDatabase()
+  const store = db.transaction([ANNOTATION_STORE], 'readonly').objectStore(ANNOTATION_STORE)
+  const annotations: SessionAnnotation[] = await requestToPromise(store.index('sessionId').getAll(IDBKeyRange.only(sessionId)))
+  return annotations.sort((a, b) => a.time - b.time)
+}
+
+/**
+ * Calculate BPM from ECG signal using Pan-Tompkins QRS detection
+ */
+export function calculateBPM(signal: number[], samplingRate: number = 250, profile: QRSProfileName = 'maternal'): number {
+  if (signal.length < 100) return 0
+
+  const beats = detectQRS(signal, profile, samplingRate)
+  return calculateHeartRate(beats, profile, samplingRate)
 }
 
 /**
@@ -131,4 +417,3 @@ export function signalToVoltage(signalValue: number, adcMax: number = 1023, refV
   // Otherwise, assume raw ADC value and convert
   return (signalValue / adcMax) * refVoltage
 }
-
@@ -0,0 +1,164 @@
+/**
+ * Device Capabilities
+ *
+ * What a connected device says about itself, gathered during the connection
+ * handshake from:
+ * - A structured hello line: "# HELLO fw=1.2.0 rate=250 inputs=A0:maternal,A1:combined,A2:fetal adc=10 vref=5.0"
+ * - The same keys in the INFO command reply
+ * - Free-form header lines from older sketches: "# Sample Rate: 250 Hz",
+ *   "# Format: A0:maternal,A1:combined,A2:fetal", "# ADC: 10 bit, 5.0 V"
+ *
+ * Anything not reported falls back to the Arduino Uno defaults (250 Hz, 10 bit, 5 V).
+ */
+
+import { SignalMapping, SignalType } from '../hooks/useArduinoSerial'
+
+export interface DeviceChannel {
+  index: number                 // Analog input number (A0 = 0)
+  name: string                  // As reported by the device
+  role: SignalType              // Signal the name describes ('none' if unrecognised)
+}
+
+export interface ADCSpec {
+  bits: number                  // Converter resolution
+  referenceVoltage: number      // Full scale (V)
+}
+
+export interface DeviceCapabilities {
+  sampleRate: number | null     // Hz
+  channels: DeviceChannel[]     // In input order; empty when not reported
+  adcBits: number | null
+  referenceVoltage: number | null
+  source: 'hello' | 'info' | 'header'  // Most structured source seen so far
+}
+
+export const DEFAULT_ADC: ADCSpec = { bits: 10, referenceVoltage: 5.0 }
+
+const SOURCE_RANK: Record<DeviceCapabilities['source'], number> = { header: 0, info: 1, hello: 2 }
+
+// Recognised channel names, most specific first
+const ROLE_NAMES: Array<{ role: SignalType, pattern: RegExp }> = [
+  { role: 'fetal', pattern: /^(fetal|fetus|fecg|f)$/i },
+  { role: 'maternal', pattern: /^(maternal|mother|mecg|chest|thorax|m)$/i },
+  { role: 'combined', pattern: /^(combined|abdominal|abdomen|abd|mixed|c)$/i }
+]
+
+/**
+ * Signal role from a channel name
+ */
+export function roleFromChannelName(name: string): SignalType {
+  return ROLE_NAMES.find(({ pattern }) => pattern.test(name.trim()))?.role ?? 'none'
+}
+
+/**
+ * Largest ADC reading for a resolution
+ */
+export function adcMax(adc: ADCSpec = DEFAULT_ADC): number {
+  return 2 ** adc.bits - 1
+}
+
+// "A0:maternal,A1:combined" (named inputs) or "maternal,combined,fetal" (inputs in order)
+function parseChannelList(text: string): DeviceChannel[] {
+  return text.split(',').map(item => item.trim()).filter(Boolean).map((item, position) => {
+    const named = /^A?(\d+)\s*[:=]\s*(.+)$/i.exec(item)
+    const index = named ? Number(named[1]) : position
+    const name = named ? named[2].trim() : item
+    return { index, name, role: roleFromChannelName(name) }
+  })
+}
+
+function positive(value: string | undefined): number | null {
+  const number = Number(value)
+  return value !== undefined && Number.isFinite(number) && number > 0 ? number : null
+}
+
+/**
+ * Capabilities from hello or INFO key=value fields
+ */
+export function capabilitiesFromFields(fields: Record<string, string>, source: 'hello' | 'info'): Partial<DeviceCapabilities> {
+  const capabilities: Partial<DeviceCapabilities> = { source }
+  const sampleRate = positive(fields.rate)
+  const adcBits = positive(fields.adc)
+  const referenceVoltage = positive(fields.vref)
+  if (sampleRate !== null) capabilities.sampleRate = sampleRate
+  if (adcBits !== null) capabilities.adcBits = Math.round(adcBits)
+  if (referenceVoltage !== null) capabilities.referenceVoltage = referenceVoltage
+  if (fields.inputs) capabilities.channels = parseChannelList(fields.inputs)
+  return capabilities
+}
+
+/**
+ * Capabilities described by a "#" header line (null if it describes none)
+ */
+export function parseHeaderLine(line: string): Partial<DeviceCapabilities> | null {
+  const text = line.replace(/^#\s*/, '')
+
+  const hello = /^HELLO\b\s*(.*)$/i.exec(text)
+  if (hello) {
+    const fields: Record<string, string> = {}
+    for (const token of hello[1].split(/\s+/).filter(Boolean)) {
+      const separator = token.indexOf('=')
+      if (separator > 0) fields[token.slice(0, separator).toLowerCase()] = token.slice(separator + 1)
+    }
+    return capabilitiesFromFields(fields, 'hello')
+  }
+
+  const rate = /^Sample Rate:\s*([\d.]+)\s*Hz/i.exec(text)
+  if (rate) return { sampleRate: positive(rate[1]), source: 'header' }
+
+  const format = /^Format:\s*(.+)$/i.exec(text)
+  if (format) {
+    // "binary frames, channels maternal,combined,fetal" lists the frame's channels in order
+    const frameChannels = /channels\s+(.+)$/i.exec(format[1])
+    const channels = parseChannelList(frameChannels ? frameChannels[1] : format[1])
+    return channels.some(channel => channel.role !== 'none') ? { channels, source: 'header' } : null
+  }
+
+  const adc = /^ADC:\s*(\d+)\s*-?\s*bits?(?:\s*,\s*([\d.]+)\s*V)?/i.exec(text)
+  if (adc) {
+    const capabilities: Partial<DeviceCapabilities> = { adcBits: Number(adc[1]), source: 'header' }
+    if (adc[2]) capabilities.referenceVoltage = positive(adc[2])
+    return capabilities
+  }
+
+  return null
+}
+
+/**
+ * Combine what is known with newly reported capabilities; a less structured
+ * source (header lines after a hello) only fills in what is still missing
+ */
+export function mergeCapabilities(current: DeviceCapabilities | null, update: Partial<DeviceCapabilities>): DeviceCapabilities {
+  const base: DeviceCapabilities = current ?? { sampleRate: null, channels: [], adcBits: null, referenceVoltage: null, source: 'header' }
+  const rank = SOURCE_RANK[update.source ?? base.source]
+  const pick = <T>(reported: T | null | undefined, known: T | null): T | null =>
+    rank < SOURCE_RANK[base.source] ? known ?? reported ?? null : reported ?? known
+  const channels = update.channels && update.channels.length > 0 ? update.channels : null
+  return {
+    sampleRate: pick(update.sampleRate, base.sampleRate),
+    channels: pick(channels, base.channels.length > 0 ? base.channels : null) ?? [],
+    adcBits: pick(update.adcBits, base.adcBits),
+    referenceVoltage: pick(update.referenceVoltage, base.referenceVoltage),
+    source: rank > SOURCE_RANK[base.source] ? update.source ?? base.source : base.source
+  }
+}
+
+/**
+ * Channel mapping the device describes (null if it names no known signal)
+ */
+export function signalMappingFromCapabilities(capabilities: DeviceCapabilities): SignalMapping | null {
+  if (!capabilities.channels.some(channel => channel.role !== 'none')) return null
+  const roleOf = (index: number): SignalType =>
+    capabilities.channels.find(channel => channel.index === index)?.role ?? 'none'
+  return { channel1: roleOf(0), channel2: roleOf(1), channel3: roleOf(2) }
+}
+
+/**
+ * ADC resolution and reference the device reports, with defaults for the rest
+ */
+export function adcFromCapabilities(capabilities: DeviceCapabilities | null): ADCSpec {
+  return {
+    bits: capabilities?.adcBits ?? DEFAULT_ADC.bits,
+    referenceVoltage: capabilities?.referenceVoltage ?? DEFAULT_ADC.referenceVoltage
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * Device Commands
+ *
+ * Request/response channel to the Arduino over the serial port's write side.
+ * Commands are text lines, each tagged with an id the reply echoes:
+ *
+ *   host:   !<id> <COMMAND> [args...]\n
+ *   device: @<id> OK [key=value ...]\n   or   @<id> ERR <message>\n
+ *
+ * - Replies arrive as text lines between data lines or binary frames
+ * - Each command times out on its own; a late reply is ignored
+ * - Devices that never answer (text-only firmware) still stream normally
+ *
+ * Commands: INFO, RATE <hz>, CHANNELS <mask>, START, STOP, LEADOFF, CALIBRATE
+ *
+ * The channel also runs the connection handshake: "#" header lines, a hello
+ * line and the INFO reply describe the device's capabilities, and data is held
+ * back until the handshake completes.
+ */
+
+import { DeviceCapabilities, capabilitiesFromFields, mergeCapabilities, parseHeaderLine } from './deviceCapabilities'
+
+export type DeviceCommandName = 'INFO' | 'RATE' | 'CHANNELS' | 'START' | 'STOP' | 'LEADOFF' | 'CALIBRATE'
+
+export type DeviceReply = Record<string, string>
+
+export interface DeviceInfo {
+  firmware: string
+  board: string
+  sampleRate: number            // Hz
+  channelCount: number          // Analog inputs the board can stream
+  channelMask: number           // Bit i set = channel i+1 is streamed
+  streaming: boolean
+}
+
+export interface LeadOffResult {
+  leads: Array<boolean | null>  // Per channel: true = attached, false = off, null = not streamed
+  checkedAt: number             // Date.now()
+}
+
+export interface CalibrationResult {
+  baselines: Array<number | null>  // Per channel resting level in ADC counts (null = not streamed)
+  calibratedAt: number
+}
+
+export interface DeviceState {
+  attached: boolean             // A port is open for writing
+  handshakeComplete: boolean    // Capabilities are settled and data may be used
+  capabilities: DeviceCapabilities | null  // null = the device described nothing
+  info: DeviceInfo | null
+  unresponsive: boolean         // The device never answered INFO
+  leadOff: LeadOffResult | null
+  calibration: CalibrationResult | null
+  pendingCommand: DeviceCommandName | null  // Last command still awaiting its reply
+  lastError: string | null
+}
+
+export const DEFAULT_COMMAND_TIMEOUT_MS = 1000
+// Calibration averages a second of samples on the device
+const CALIBRATE_TIMEOUT_MS = 3000
+
+const INITIAL_STATE: DeviceState = {
+  attached: false,
+  handshakeComplete: false,
+  capabilities: null,
+  info: null,
+  unresponsive: false,
+  leadOff: null,
+  calibration: null,
+  pendingCommand: null,
+  lastError: null
+}
+
+interface PendingCommand {
+  command: DeviceCommandName
+  resolve: (reply: DeviceReply) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+function parseReply(text: string): DeviceReply {
+  const reply: DeviceReply = {}
+  for (const token of text.split(/\s+/).filter(Boolean)) {
+    const separator = token.indexOf('=')
+    if (separator > 0) reply[token.slice(0, separator)] = token.slice(separator + 1)
+  }
+  return reply
+}
+
+function parseList<T>(value: string | undefined, parse: (item: string) => T | null): Array<T | null> {
+  return value ? value.split(',').map(item => item === '-' ? null : parse(item)) : []
+}
+
+function parseInfo(reply: DeviceReply): DeviceInfo {
+  const channelCount = Number(reply.channels) || 3
+  return {
+    firmware: reply.fw ?? 'unknown',
+    board: reply.board ?? 'unknown',
+    sampleRate: Number(reply.rate) || 250,
+    channelCount,
+    channelMask: reply.mask !== undefined ? Number(reply.mask) : (1 << channelCount) - 1,
+    streaming: reply.streaming !== '0'
+  }
+}
+
+export class DeviceCommandChannel {
+  private writer: WritableStreamDefaultWriter<Uint8Array> | null = null
+  private encoder = new TextEncoder()
+  private nextId = 1
+  private pending = new Map<number, PendingCommand>()
+  private state: DeviceState = INITIAL_STATE
+  private listeners = new Set<() => void>()
+
+  /**
+   * Current device state (same object until it changes)
+   */
+  getState = (): DeviceState => this.state
+
+  /**
+   * Register a change listener; returns the unsubscribe function
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Start writing commands to a newly opened port
+   */
+  attach(writable: WritableStream<Uint8Array>): void {
+    this.detach()
+    this.writer = writable.getWriter()
+    this.update({ ...INITIAL_STATE, attached: true })
+  }
+
+  /**
+   * Fail pending commands and release the port's write side (call before closing it)
+   */
+  detach(): void {
+    for (const [id, command] of this.pending) {
+      clearTimeout(command.timer)
+      command.reject(new Error(`${command.command} cancelled: device disconnected`))
+      this.pending.delete(id)
+    }
+    if (this.writer) {
+      this.writer.releaseLock()
+      this.writer = null
+    }
+    if (this.state !== INITIAL_STATE) this.update(INITIAL_STATE)
+  }
+
+  /**
+   * Route a received text line; returns true if it was a command reply
+   */
+  handleLine(line: string): boolean {
+    const match = /^@(\d+)\s+(OK|ERR)\b\s*(.*)$/.exec(line)
+    if (!match) return false
+
+    const command = this.pending.get(Number(match[1]))
+    if (!command) return true // Late reply to a command that already timed out
+    this.pending.delete(Number(match[1]))
+    clearTimeout(command.timer)
+    if (match[2] === 'OK') {
+      command.resolve(parseReply(match[3]))
+    } else {
+      command.reject(new Error(`${command.command} failed: ${match[3] || 'device error'}`))
+    }
+    return true
+  }
+
+  /**
+   * Take in a "#" header line; returns true if it was a hello, which completes the handshake
+   */
+  handleHeaderLine(line: string): boolean {
+    const update = parseHeaderLine(line)
+    if (!update) return false
+    this.update({ capabilities: mergeCapabilities(this.state.capabilities, update) })
+    if (update.source !== 'hello') return false
+    this.completeHandshake()
+    return true
+  }
+
+  /**
+   * Settle on the capabilities known so far (hello, INFO reply, end of the header or timeout)
+   */
+  completeHandshake(): void {
+    if (this.writer && !this.state.handshakeComplete) this.update({ handshakeComplete: true })
+  }
+
+  /**
+   * Send a command and wait for its reply
+   */
+  async send(command: DeviceCommandName, args: Array<string | number> = [], timeoutMs: number = DEFAULT_COMMAND_TIMEOUT_MS): Promise<DeviceReply> {
+    const writer = this.writer
+    if (!writer) throw new Error('No device connected')
+
+    const id = this.nextId
+    this.nextId = this.nextId >= 0xffff ? 1 : this.nextId + 1
+    const reply = new Promise<DeviceReply>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id)
+        reject(new Error(`${command} timed out after ${timeoutMs} ms`))
+      }, timeoutMs)
+      this.pending.set(id, { command, resolve, reject, timer })
+    })
+
+    this.update({ pendingCommand: command })
+    try {
+      await writer.write(this.encoder.encode(`!${id} ${[command, ...args].join(' ')}\n`))
+      const result = await reply
+      this.update({ pendingCommand: this.latestPending(), lastError: null })
+      return result
+    } catch (error) {
+      const pending = this.pending.get(id)
+      if (pending) {
+        clearTimeout(pending.timer)
+        this.pending.delete(id)
+      }
+      const message = error instanceof Error ? error.message : String(error)
+      if (this.writer === writer) this.update({ pendingCommand: this.latestPending(), lastError: message })
+      throw error instanceof Error ? error : new Error(message)
+    }
+  }
+
+  /**
+   * Query firmware, board and streaming settings
+   */
+  async getInfo(timeoutMs: number = DEFAULT_COMMAND_TIMEOUT_MS): Promise<DeviceInfo> {
+    try {
+      const reply = await this.send('INFO', [], timeoutMs)
+      const info = parseInfo(reply)
+      const capabilities = mergeCapabilities(this.state.capabilities, capabilitiesFromFields(reply, 'info'))
+      this.update({ info, capabilities, unresponsive: false })
+      return info
+    } catch (error) {
+      if (this.writer && !this.state.info) this.update({ unresponsive: true })
+      throw error
+    }
+  }
+
+  async setSampleRate(hz: number): Promise<DeviceInfo> {
+    const reply = await this.send('RATE', [Math.round(hz)])
+    const sampleRate = Number(reply.rate) || Math.round(hz)
+    this.update({ capabilities: mergeCapabilities(this.state.capabilities, { sampleRate }) })
+    return this.updateInfo({ sampleRate })
+  }
+
+  /**
+   * Choose the streamed channels (bit i = channel i+1)
+   */
+  async setChannels(mask: number): Promise<DeviceInfo> {
+    const reply = await this.send('CHANNELS', [mask])
+    return this.updateInfo({ channelMask: reply.mask !== undefined ? Number(reply.mask) : mask })
+  }
+
+  async setStreaming(streaming: boolean): Promise<DeviceInfo> {
+    await this.send(streaming ? 'START' : 'STOP')
+    return this.updateInfo({ streaming })
+  }
+
+  async checkLeadOff(): Promise<LeadOffResult> {
+    const reply = await this.send('LEADOFF')
+    const leadOff: LeadOffResult = {
+      leads: parseList(reply.leads, item => item === 'ok' ? true : item === 'off' ? false : null),
+      checkedAt: Date.now()
+    }
+    this.update({ leadOff })
+    return leadOff
+  }
+
+  async calibrate(): Promise<CalibrationResult> {
+    const reply = await this.send('CALIBRATE', [], CALIBRATE_TIMEOUT_MS)
+    const calibration: CalibrationResult = {
+      baselines: parseList(reply.baseline, item => Number.isFinite(Number(item)) ? Number(item) : null),
+      calibratedAt: Date.now()
+    }
+    this.update({ calibration })
+    return calibration
+  }
+
+  private updateInfo(changes: Partial<DeviceInfo>): DeviceInfo {
+    const info = { ...(this.state.info ?? parseInfo({})), ...changes }
+    this.update({ info })
+    return info
+  }
+
+  private latestPending(): DeviceCommandName | null {
+    let latest: DeviceCommandName | null = null
+    for (const command of this.pending.values()) latest = command.command
+    return latest
+  }
+
+  private update(changes: Partial<DeviceState>): void {
+    this.state = { ...this.state, ...changes }
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+/**
+ * Factory function to create a device command channel
+ */
+export function createDeviceCommandChannel(): DeviceCommandChannel {
+  return new DeviceCommandChannel()
+}
+
+// Shared channel for the Arduino connection (one port at a time)
+export const deviceCommands = createDeviceCommandChannel()
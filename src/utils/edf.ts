@@ -0,0 +1,423 @@
+/**
+ * EDF+ / BDF+ Format
+ *
+ * Writes and reads European Data Format files (EDF+, 16-bit samples) and the
+ * BioSemi 24-bit variant (BDF+), so recordings open in EDFbrowser, MNE, etc.
+ * - Fixed 256-byte header plus 256 bytes per signal, ASCII fields padded with spaces
+ * - Samples stored as little-endian integers, scaled linearly between each
+ *   signal's digital and physical ranges
+ * - Annotations as time-stamped annotation lists (TALs) in an "EDF Annotations"
+ *   signal; every data record starts with its time-keeping TAL
+ *
+ * Spec: https://www.edfplus.info/specs/edfplus.html
+ */
+
+export type EDFFormat = 'edf' | 'bdf'
+
+export interface EDFSignal {
+  label: string                 // e.g. 'Maternal ECG'
+  transducer: string
+  physicalDimension: string     // e.g. 'uV'
+  physicalMin: number
+  physicalMax: number
+  digitalMin: number
+  digitalMax: number
+  prefiltering: string
+  sampleRate: number            // Hz
+  samples: Float32Array         // Physical values
+}
+
+export interface EDFAnnotation {
+  onset: number                 // Seconds from the start of the recording
+  duration: number | null
+  text: string
+}
+
+export interface EDFRecording {
+  format: EDFFormat
+  patient: string               // EDF+ local patient identification
+  recording: string             // EDF+ local recording identification
+  startTime: Date
+  signals: EDFSignal[]
+  annotations: EDFAnnotation[]
+}
+
+// Physical range and resolution for a signal written by writeEDF
+export type EDFSignalInput = Omit<EDFSignal, 'physicalMin' | 'physicalMax' | 'digitalMin' | 'digitalMax'> & {
+  physicalMin?: number          // Defaults to the data range
+  physicalMax?: number
+}
+
+const HEADER_BYTES = 256
+const SIGNAL_HEADER_BYTES = 256
+const RECORD_DURATION = 1       // Seconds per data record
+
+const DIGITAL_RANGE: Record<EDFFormat, { min: number, max: number, bytes: number }> = {
+  edf: { min: -32768, max: 32767, bytes: 2 },
+  bdf: { min: -8388608, max: 8388607, bytes: 3 }
+}
+
+const ANNOTATION_LABEL: Record<EDFFormat, string> = {
+  edf: 'EDF Annotations',
+  bdf: 'BDF Annotations'
+}
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+
+/**
+ * EDF+ patient field: "code sex birthdate name", unknown subfields as X
+ */
+export function edfPatientField(code: string, name: string = ''): string {
+  return [code, 'X', 'X', name].map(edfSubfield).join(' ')
+}
+
+/**
+ * EDF+ recording field: "Startdate dd-MMM-yyyy admincode technician equipment"
+ */
+export function edfRecordingField(start: Date, technician: string, equipment: string): string {
+  const date = `${pad2(start.getDate())}-${MONTHS[start.getMonth()]}-${start.getFullYear()}`
+  return `Startdate ${date} X ${edfSubfield(technician)} ${edfSubfield(equipment)}`
+}
+
+/**
+ * Encode a recording. Every signal must have a sample rate that fills whole
+ * 1 s data records; the last record is padded with the final sample.
+ */
+export function writeEDF(
+  format: EDFFormat,
+  header: Pick<EDFRecording, 'patient' | 'recording' | 'startTime'>,
+  inputs: EDFSignalInput[],
+  annotations: EDFAnnotation[] = []
+): Uint8Array<ArrayBuffer> {
+  const digital = DIGITAL_RANGE[format]
+  const signals = inputs.map(input => {
+    if (!Number.isInteger(input.sampleRate * RECORD_DURATION) || input.sampleRate <= 0) {
+      throw new Error(`Sample rate of ${input.label} must be a whole number of samples per second`)
+    }
+    return { ...input, ...physicalRange(input), digitalMin: digital.min, digitalMax: digital.max }
+  })
+
+  const recordCount = Math.max(1, ...signals.map(signal => Math.ceil(signal.samples.length / (signal.sampleRate * RECORD_DURATION))))
+
+  // Annotations go in the record covering their onset, after its time-keeping TAL
+  const tals: string[] = Array.from({ length: recordCount }, (_, record) => `${formatOnset(record * RECORD_DURATION)}\x14\x14\x00`)
+  for (const annotation of annotations) {
+    const record = Math.min(recordCount - 1, Math.max(0, Math.floor(annotation.onset / RECORD_DURATION)))
+    const duration = annotation.duration !== null ? `\x15${formatSeconds(annotation.duration)}` : ''
+    tals[record] += `${formatOnset(annotation.onset)}${duration}\x14${sanitizeAnnotation(annotation.text)}\x14\x00`
+  }
+  const talBytes = tals.map(encodeASCII)
+  const annotationSamples = Math.ceil(Math.max(...talBytes.map(bytes => bytes.length)) / digital.bytes)
+
+  const allSignals: Array<EDFSignal> = [
+    ...signals,
+    {
+      label: ANNOTATION_LABEL[format],
+      transducer: '',
+      physicalDimension: '',
+      physicalMin: -1,
+      physicalMax: 1,
+      digitalMin: digital.min,
+      digitalMax: digital.max,
+      prefiltering: '',
+      sampleRate: annotationSamples / RECORD_DURATION,
+      samples: new Float32Array(0)
+    }
+  ]
+  const samplesPerRecord = allSignals.map(signal => signal.sampleRate * RECORD_DURATION)
+  const recordBytes = samplesPerRecord.reduce((sum, n) => sum + n, 0) * digital.bytes
+  const headerBytes = HEADER_BYTES + SIGNAL_HEADER_BYTES * allSignals.length
+
+  const out = new Uint8Array(headerBytes + recordBytes * recordCount)
+  writeHeader(out, format, header, allSignals, samplesPerRecord, recordCount, headerBytes)
+
+  let offset = headerBytes
+  for (let record = 0; record < recordCount; record++) {
+    signals.forEach((signal, s) => {
+      const n = samplesPerRecord[s]
+      const scale = (signal.digitalMax - signal.digitalMin) / (signal.physicalMax - signal.physicalMin)
+      for (let i = 0; i < n; i++) {
+        const index = Math.min(record * n + i, signal.samples.length - 1)
+        const value = index >= 0 ? signal.samples[index] : 0
+        const raw = Math.round((value - signal.physicalMin) * scale + signal.digitalMin)
+        writeInt(out, offset, Math.max(signal.digitalMin, Math.min(signal.digitalMax, raw)), digital.bytes)
+        offset += digital.bytes
+      }
+    })
+    // Annotation bytes, zero padded to the signal's size
+    out.set(talBytes[record], offset)
+    offset += annotationSamples * digital.bytes
+  }
+
+  return out
+}
+
+/**
+ * Decode an EDF(+) or BDF(+) file into physical values and annotations
+ */
+export function readEDF(buffer: ArrayBuffer): EDFRecording {
+  const bytes = new Uint8Array(buffer)
+  if (bytes.length < HEADER_BYTES) {
+    throw new Error('File is too short to be EDF/BDF')
+  }
+
+  const format: EDFFormat = bytes[0] === 0xff ? 'bdf' : 'edf'
+  const field = (offset: number, length: number) => decodeASCII(bytes.subarray(offset, offset + length)).trim()
+  const numberField = (offset: number, length: number, name: string) => {
+    const value = Number(field(offset, length))
+    if (!Number.isFinite(value)) throw new Error(`Invalid ${name} in EDF header`)
+    return value
+  }
+
+  const patient = field(8, 80)
+  const recording = field(88, 80)
+  const startTime = parseStart(field(168, 8), field(176, 8))
+  const headerBytes = numberField(184, 8, 'header size')
+  let recordCount = numberField(236, 8, 'number of data records')
+  const recordDuration = numberField(244, 8, 'data record duration')
+  const signalCount = numberField(252, 4, 'number of signals')
+  if (bytes.length < HEADER_BYTES + SIGNAL_HEADER_BYTES * signalCount) {
+    throw new Error('EDF signal headers are truncated')
+  }
+
+  // Signal header fields are stored field by field across all signals
+  let cursor = HEADER_BYTES
+  const column = (length: number) => {
+    const values = Array.from({ length: signalCount }, (_, s) => field(cursor + s * length, length))
+    cursor += length * signalCount
+    return values
+  }
+  const labels = column(16)
+  const transducers = column(80)
+  const dimensions = column(8)
+  const physicalMins = column(8).map(Number)
+  const physicalMaxs = column(8).map(Number)
+  const digitalMins = column(8).map(Number)
+  const digitalMaxs = column(8).map(Number)
+  const prefilterings = column(80)
+  const samplesPerRecord = column(8).map(Number)
+
+  const sampleBytes = DIGITAL_RANGE[format].bytes
+  const recordBytes = samplesPerRecord.reduce((sum, n) => sum + n, 0) * sampleBytes
+  if (recordCount < 0) {
+    // -1 = unknown (recording was not closed); use what the file holds
+    recordCount = Math.floor((bytes.length - headerBytes) / recordBytes)
+  }
+  recordCount = Math.min(recordCount, Math.floor((bytes.length - headerBytes) / recordBytes))
+
+  const isAnnotation = labels.map(label => label === ANNOTATION_LABEL.edf || label === ANNOTATION_LABEL.bdf)
+  const samples = samplesPerRecord.map((n, s) => isAnnotation[s] ? new Float32Array(0) : new Float32Array(n * recordCount))
+  const annotations: EDFAnnotation[] = []
+
+  let offset = headerBytes
+  for (let record = 0; record < recordCount; record++) {
+    for (let s = 0; s < signalCount; s++) {
+      const n = samplesPerRecord[s]
+      if (isAnnotation[s]) {
+        annotations.push(...parseTALs(bytes.subarray(offset, offset + n * sampleBytes)))
+      } else {
+        const scale = (physicalMaxs[s] - physicalMins[s]) / (digitalMaxs[s] - digitalMins[s])
+        const target = samples[s]
+        for (let i = 0; i < n; i++) {
+          target[record * n + i] = (readInt(bytes, offset + i * sampleBytes, sampleBytes) - digitalMins[s]) * scale + physicalMins[s]
+        }
+      }
+      offset += n * sampleBytes
+    }
+  }
+
+  const signals: EDFSignal[] = []
+  for (let s = 0; s < signalCount; s++) {
+    if (isAnnotation[s]) continue
+    signals.push({
+      label: labels[s],
+      transducer: transducers[s],
+      physicalDimension: dimensions[s],
+      physicalMin: physicalMins[s],
+      physicalMax: physicalMaxs[s],
+      digitalMin: digitalMins[s],
+      digitalMax: digitalMaxs[s],
+      prefiltering: prefilterings[s],
+      sampleRate: samplesPerRecord[s] / recordDuration,
+      samples: samples[s]
+    })
+  }
+
+  return { format, patient, recording, startTime, signals, annotations: annotations.sort((a, b) => a.onset - b.onset) }
+}
+
+function writeHeader(
+  out: Uint8Array,
+  format: EDFFormat,
+  header: Pick<EDFRecording, 'patient' | 'recording' | 'startTime'>,
+  signals: EDFSignal[],
+  samplesPerRecord: number[],
+  recordCount: number,
+  headerBytes: number
+): void {
+  const start = header.startTime
+  let cursor = 0
+  const put = (value: string, length: number) => {
+    out.set(encodeASCII(value.slice(0, length).padEnd(length, ' ')), cursor)
+    cursor += length
+  }
+
+  if (format === 'bdf') {
+    out[0] = 0xff
+    cursor = 1
+    put('BIOSEMI', 7)
+  } else {
+    put('0', 8)
+  }
+  put(header.patient, 80)
+  put(header.recording, 80)
+  put(`${pad2(start.getDate())}.${pad2(start.getMonth() + 1)}.${pad2(start.getFullYear() % 100)}`, 8)
+  put(`${pad2(start.getHours())}.${pad2(start.getMinutes())}.${pad2(start.getSeconds())}`, 8)
+  put(String(headerBytes), 8)
+  put(format === 'bdf' ? 'BDF+C' : 'EDF+C', 44)
+  put(String(recordCount), 8)
+  put(String(RECORD_DURATION), 8)
+  put(String(signals.length), 4)
+
+  const columns: Array<[number, (signal: EDFSignal, s: number) => string]> = [
+    [16, signal => signal.label],
+    [80, signal => signal.transducer],
+    [8, signal => signal.physicalDimension],
+    [8, signal => formatNumberField(signal.physicalMin)],
+    [8, signal => formatNumberField(signal.physicalMax)],
+    [8, signal => String(signal.digitalMin)],
+    [8, signal => String(signal.digitalMax)],
+    [80, signal => signal.prefiltering],
+    [8, (_, s) => String(samplesPerRecord[s])],
+    [32, () => '']
+  ]
+  for (const [length, value] of columns) {
+    signals.forEach((signal, s) => put(sanitizeHeader(value(signal, s)), length))
+  }
+}
+
+/**
+ * Physical range as it will read back from the 8-character header fields
+ */
+function physicalRange(input: EDFSignalInput): { physicalMin: number, physicalMax: number } {
+  let min = input.physicalMin
+  let max = input.physicalMax
+  if (min === undefined || max === undefined) {
+    let dataMin = Infinity
+    let dataMax = -Infinity
+    for (const value of input.samples) {
+      if (value < dataMin) dataMin = value
+      if (value > dataMax) dataMax = value
+    }
+    if (!Number.isFinite(dataMin)) {
+      dataMin = -1
+      dataMax = 1
+    }
+    // A little headroom so rounding the header fields doesn't clip the extremes
+    const margin = Math.max((dataMax - dataMin) * 0.01, Math.abs(dataMax) * 1e-3, 1e-6)
+    min = min ?? dataMin - margin
+    max = max ?? dataMax + margin
+  }
+  const physicalMin = Number(formatNumberField(min))
+  const physicalMax = Number(formatNumberField(max))
+  if (!(physicalMax > physicalMin)) {
+    throw new Error(`Physical range of ${input.label} is empty`)
+  }
+  return { physicalMin, physicalMax }
+}
+
+/**
+ * Shortest representation of a number that fits an 8-character header field
+ */
+function formatNumberField(value: number): string {
+  for (let precision = 8; precision >= 1; precision--) {
+    const text = String(Number(value.toPrecision(precision)))
+    if (text.length <= 8) return text
+  }
+  throw new Error(`Value ${value} does not fit an EDF header field`)
+}
+
+function parseTALs(bytes: Uint8Array): EDFAnnotation[] {
+  const annotations: EDFAnnotation[] = []
+  const text = decodeASCII(bytes)
+  for (const tal of text.split('\x00')) {
+    if (!tal) continue
+    const [timing, ...texts] = tal.split('\x14')
+    const [onset, duration] = timing.split('\x15')
+    for (const entry of texts) {
+      // The empty entry is the record's time-keeping annotation
+      if (!entry) continue
+      annotations.push({
+        onset: Number(onset),
+        duration: duration ? Number(duration) : null,
+        text: entry
+      })
+    }
+  }
+  return annotations
+}
+
+function parseStart(date: string, time: string): Date {
+  const [day, month, year] = date.split('.').map(Number)
+  const [hours, minutes, seconds] = time.split('.').map(Number)
+  // EDF years are two digits: 85-99 = 1985-1999, otherwise 20xx
+  const fullYear = year >= 85 ? 1900 + year : 2000 + year
+  return new Date(fullYear, (month || 1) - 1, day || 1, hours || 0, minutes || 0, seconds || 0)
+}
+
+function writeInt(out: Uint8Array, offset: number, value: number, bytes: number): void {
+  for (let b = 0; b < bytes; b++) {
+    out[offset + b] = (value >> (8 * b)) & 0xff
+  }
+}
+
+function readInt(bytes: Uint8Array, offset: number, length: number): number {
+  let value = 0
+  for (let b = 0; b < length; b++) {
+    value |= bytes[offset + b] << (8 * b)
+  }
+  // Sign-extend from the sample width
+  const shift = 32 - 8 * length
+  return (value << shift) >> shift
+}
+
+function formatOnset(seconds: number): string {
+  return seconds < 0 ? formatSeconds(seconds) : `+${formatSeconds(seconds)}`
+}
+
+function formatSeconds(seconds: number): string {
+  return String(Number(seconds.toFixed(3)))
+}
+
+function edfSubfield(value: string): string {
+  const cleaned = value.trim().replace(/\s+/g, '_')
+  return cleaned ? sanitizeHeader(cleaned) : 'X'
+}
+
+function sanitizeHeader(value: string): string {
+  return value.replace(/[^\x20-\x7e]/g, '?')
+}
+
+function sanitizeAnnotation(value: string): string {
+  // TAL separators (0x00, 0x14, 0x15) and other control characters must not appear in the text
+  return value.replace(/[\x00-\x1f\x7f]/g, ' ')
+}
+
+function encodeASCII(value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length)
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i)
+    bytes[i] = code < 0x80 ? code : 0x3f // '?'
+  }
+  return bytes
+}
+
+function decodeASCII(bytes: Uint8Array): string {
+  let text = ''
+  for (const byte of bytes) text += String.fromCharCode(byte)
+  return text
+}
+
+function pad2(value: number): string {
+  return String(value).padStart(2, '0')
+}
@@ -0,0 +1,127 @@
+/**
+ * EDF+ / BDF+ Session Export
+ *
+ * Writes a stored session as EDF+ (16-bit) or BDF+ (24-bit) with maternal,
+ * combined and fetal channels, and its alarm events and annotations as EDF+
+ * annotations. Channels hold the displayed traces (signal units), with the
+ * physical range taken from the data.
+ */
+
+import { writeEDF, edfPatientField, edfRecordingField, EDFAnnotation, EDFFormat, EDFSignalInput } from './edf'
+import { getSession, getSessionSamples, getSessionEvents, getSessionAnnotations, MonitoringSession, SessionSample } from './dataStorage'
+import { AlarmEvent, summarizeAlarmEvents } from './alarmEventLog'
+import { DEFAULT_ADC } from './deviceCapabilities'
+
+// Labels chosen so the replay reader's channel patterns map them back (see useSessionReplay)
+export const EDF_CHANNEL_LABELS = {
+  mother: 'Maternal ECG',
+  combined: 'Abdominal ECG',
+  fetus: 'Fetal ECG'
+} as const
+
+const EQUIPMENT = 'FetalEKGMonitor'
+
+const STATUS_LABELS = { normal: 'normal', warning: 'caution', critical: 'alert' }
+
+export function describeAlarmEvent(event: AlarmEvent): string {
+  switch (event.kind) {
+    case 'status': {
+      const bpm = event.bpm !== null && event.bpm > 0 ? ` (${event.bpm} BPM)` : ''
+      return `${event.source} ${event.status ? STATUS_LABELS[event.status] : ''}${bpm}`
+    }
+    case 'technical':
+      return event.priority ? `Technical alarm ${event.priority}: ${event.message}` : 'Technical alarm cleared'
+    default: {
+      const operator = event.operator ? ` by ${event.operator}` : ''
+      return `Alarm ${event.kind}${operator}${event.message ? `: ${event.message}` : ''}`
+    }
+  }
+}
+
+function describeSource(session: MonitoringSession): string {
+  if (session.dataSource === 'arduino') return `Arduino ADC, fraction of ${(session.adc ?? DEFAULT_ADC).referenceVoltage} V full scale`
+  if (session.dataSource === 'raw') return `Signal pair ${session.signalPair ?? ''}`.trim()
+  return session.dataSource ?? 'unknown source'
+}
+
+/**
+ * Place samples by index; a missing sample repeats the one before it
+ */
+export function channelSamples(samples: SessionSample[], key: keyof typeof EDF_CHANNEL_LABELS, length: number): Float32Array {
+  const values = new Float32Array(length).fill(NaN)
+  for (const sample of samples) {
+    const value = sample[key]
+    if (value !== null && sample.index < length) values[sample.index] = value
+  }
+  let previous = 0
+  for (let i = 0; i < length; i++) {
+    if (Number.isNaN(values[i])) values[i] = previous
+    else previous = values[i]
+  }
+  return values
+}
+
+/**
+ * Encode a stored session; resolves with the file contents
+ */
+export async function sessionToEDF(sessionId: number, format: EDFFormat): Promise<Uint8Array<ArrayBuffer>> {
+  const [session, samples, events, annotations] = await Promise.all([
+    getSession(sessionId),
+    getSessionSamples(sessionId),
+    getSessionEvents(sessionId),
+    getSessionAnnotations(sessionId)
+  ])
+  if (!session) {
+    throw new Error(`Session ${sessionId} not found`)
+  }
+
+  const traced = samples.filter(sample => sample.mother !== null && sample.combined !== null && sample.fetus !== null)
+  if (traced.length === 0) {
+    throw new Error('This session has no stored waveform to export')
+  }
+
+  const length = traced[traced.length - 1].index + 1
+  const transducer = describeSource(session)
+  const prefiltering = session.fetalExtraction ? `Fetal extraction: ${session.fetalExtraction}` : ''
+  const signals: EDFSignalInput[] = (Object.keys(EDF_CHANNEL_LABELS) as Array<keyof typeof EDF_CHANNEL_LABELS>).map(key => ({
+    label: EDF_CHANNEL_LABELS[key],
+    transducer,
+    physicalDimension: 'a.u.',
+    prefiltering: key === 'fetus' ? prefiltering : '',
+    sampleRate: session.sampleRate,
+    samples: channelSamples(traced, key, length)
+  }))
+
+  const endTime = length / session.sampleRate
+  const edfAnnotations: EDFAnnotation[] = [
+    ...summarizeAlarmEvents(events, endTime).map(({ event, duration }) => ({
+      onset: event.time,
+      duration,
+      text: describeAlarmEvent(event)
+    })),
+    ...annotations.map(annotation => ({ onset: annotation.time, duration: null, text: annotation.text }))
+  ].sort((a, b) => a.onset - b.onset)
+
+  const startTime = new Date(session.startedAt)
+  return writeEDF(format, {
+    patient: edfPatientField(session.patientId),
+    recording: edfRecordingField(startTime, session.operator, EQUIPMENT),
+    startTime
+  }, signals, edfAnnotations)
+}
+
+/**
+ * Export a stored session and download it as .edf / .bdf
+ */
+export async function exportSessionToEDF(sessionId: number, format: EDFFormat): Promise<void> {
+  const bytes = await sessionToEDF(sessionId, format)
+  const blob = new Blob([bytes], { type: 'application/octet-stream' })
+  const url = window.URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `Fetal_EKG_Session_${sessionId}_${new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5)}.${format}`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  window.URL.revokeObjectURL(url)
+}
@@ -0,0 +1,350 @@
+/**
+ * Heart Rate Variability Analysis
+ *
+ * Keeps every detected beat's RR interval for the whole session and derives
+ * standard HRV metrics from it:
+ * - Time domain: SDNN, RMSSD, pNN50
+ * - Frequency domain: LF and HF power and LF/HF ratio from a Welch spectrum
+ *   of the RR tachogram resampled at 4 Hz
+ *
+ * Intervals outside the plausible rate range, or differing by more than 20%
+ * from the median of their neighbours (ectopic beats, missed detections), are
+ * excluded before any metric is calculated. The median follows the rhythm, so a
+ * bad first beat or a change in rate doesn't reject everything after it.
+ */
+
+import { createQRSDetector, PanTompkinsDetector, QRSBeat, QRSProfileName, QRS_PROFILES } from './qrsDetector'
+
+export interface RRInterval {
+  time: number               // Time of the beat ending the interval (seconds from session start)
+  interval: number           // Seconds since the previous beat
+}
+
+export interface HRVMetrics {
+  intervalCount: number      // Intervals used after artifact rejection
+  rejectedCount: number      // Intervals excluded as artifacts or ectopic beats
+  durationSeconds: number    // Time span covered by the analysed intervals
+  meanRR: number             // ms
+  meanHR: number             // BPM
+  sdnn: number               // Standard deviation of NN intervals (ms)
+  rmssd: number              // Root mean square of successive differences (ms)
+  pnn50: number              // Successive differences > 50 ms (%)
+  lfPower: number | null     // ms², null until enough data for the spectrum
+  hfPower: number | null     // ms²
+  lfHfRatio: number | null
+}
+
+export interface HRVSummary {
+  shortTerm: HRVMetrics | null // Most recent SHORT_TERM_SECONDS
+  session: HRVMetrics | null   // Whole session
+}
+
+export interface HRVBands {
+  lf: [number, number]       // Hz
+  hf: [number, number]       // Hz
+}
+
+// Adult bands per the 1996 Task Force. The fetal HF band is widened to cover
+// fetal breathing movements, which run faster than maternal respiration.
+export const HRV_BANDS: Record<QRSProfileName, HRVBands> = {
+  maternal: { lf: [0.04, 0.15], hf: [0.15, 0.4] },
+  fetal: { lf: [0.04, 0.15], hf: [0.15, 1.0] }
+}
+
+// Standard short-term recording length
+export const SHORT_TERM_SECONDS = 300
+
+// Tachogram resampling rate and Welch segment length (64 s at 4 Hz)
+const RESAMPLE_RATE = 4
+const SEGMENT_LENGTH = 256
+// Beat-to-beat change above this fraction is treated as ectopic or a missed beat
+const MAX_SUCCESSIVE_CHANGE = 0.2
+// Intervals on each side that form the local reference
+const REFERENCE_NEIGHBOURS = 2
+
+/**
+ * Calculate HRV metrics from an RR interval series
+ * @param windowSeconds - Only analyse the most recent window (whole series if omitted)
+ * @returns null when fewer than 3 usable intervals are available
+ */
+export function calculateHRV(
+  intervals: RRInterval[],
+  profile: QRSProfileName,
+  windowSeconds?: number
+): HRVMetrics | null {
+  if (intervals.length === 0) return null
+
+  const end = intervals[intervals.length - 1].time
+  const windowed = windowSeconds !== undefined
+    ? intervals.filter(rr => rr.time >= end - windowSeconds)
+    : intervals
+
+  // Artifact rejection
+  const { minRate, maxRate } = QRS_PROFILES[profile]
+  const plausible = windowed.filter(rr => rr.interval >= 60 / maxRate && rr.interval <= 60 / minRate)
+  const accepted = plausible.filter((rr, i) => {
+    const reference = median(plausible
+      .slice(Math.max(0, i - REFERENCE_NEIGHBOURS), i + REFERENCE_NEIGHBOURS + 1)
+      .map(neighbour => neighbour.interval))
+    return Math.abs(rr.interval - reference) <= MAX_SUCCESSIVE_CHANGE * reference
+  })
+
+  if (accepted.length < 3) return null
+
+  const rrMs = accepted.map(rr => rr.interval * 1000)
+  const meanRR = rrMs.reduce((a, b) => a + b, 0) / rrMs.length
+  const sdnn = Math.sqrt(rrMs.reduce((sum, value) => sum + (value - meanRR) ** 2, 0) / (rrMs.length - 1))
+
+  // Successive differences only between intervals that were adjacent in the recording
+  let squaredDiffSum = 0
+  let diffCount = 0
+  let over50 = 0
+  for (let i = 1; i < accepted.length; i++) {
+    const gap = accepted[i].time - accepted[i - 1].time
+    if (Math.abs(gap - accepted[i].interval) > 1e-6) continue
+    const diff = rrMs[i] - rrMs[i - 1]
+    squaredDiffSum += diff * diff
+    diffCount++
+    if (Math.abs(diff) > 50) over50++
+  }
+
+  const spectrum = calculateBandPowers(accepted, HRV_BANDS[profile])
+
+  return {
+    intervalCount: accepted.length,
+    rejectedCount: windowed.length - accepted.length,
+    durationSeconds: accepted[accepted.length - 1].time - accepted[0].time + accepted[0].interval,
+    meanRR,
+    meanHR: 60000 / meanRR,
+    sdnn,
+    rmssd: diffCount > 0 ? Math.sqrt(squaredDiffSum / diffCount) : 0,
+    pnn50: diffCount > 0 ? (over50 / diffCount) * 100 : 0,
+    lfPower: spectrum?.lf ?? null,
+    hfPower: spectrum?.hf ?? null,
+    lfHfRatio: spectrum && spectrum.hf > 0 ? spectrum.lf / spectrum.hf : null
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * Short-term and whole-session metrics for one trace
+ */
+export function summarizeHRV(intervals: RRInterval[], profile: QRSProfileName): HRVSummary {
+  return {
+    shortTerm: calculateHRV(intervals, profile, SHORT_TERM_SECONDS),
+    session: calculateHRV(intervals, profile)
+  }
+}
+
+/**
+ * LF and HF power (ms²) from a Welch periodogram of the resampled tachogram
+ * Returns null when the series is shorter than one Welch segment
+ */
+function calculateBandPowers(accepted: RRInterval[], bands: HRVBands): { lf: number, hf: number } | null {
+  const start = accepted[0].time
+  const duration = accepted[accepted.length - 1].time - start
+  const sampleCount = Math.floor(duration * RESAMPLE_RATE) + 1
+  if (sampleCount < SEGMENT_LENGTH) return null
+
+  // Linear interpolation of the tachogram onto an even 4 Hz grid
+  const tachogram = new Float64Array(sampleCount)
+  let j = 0
+  for (let i = 0; i < sampleCount; i++) {
+    const t = start + i / RESAMPLE_RATE
+    while (j < accepted.length - 2 && accepted[j + 1].time < t) j++
+    const a = accepted[j]
+    const b = accepted[j + 1]
+    const fraction = b.time > a.time ? (t - a.time) / (b.time - a.time) : 0
+    tachogram[i] = (a.interval + fraction * (b.interval - a.interval)) * 1000
+  }
+
+  // Welch: 50% overlapping Hann-windowed segments, each linearly detrended
+  const window = new Float64Array(SEGMENT_LENGTH)
+  let windowPower = 0
+  for (let i = 0; i < SEGMENT_LENGTH; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (SEGMENT_LENGTH - 1))
+    windowPower += window[i] * window[i]
+  }
+
+  const psd = new Float64Array(SEGMENT_LENGTH / 2 + 1)
+  let segments = 0
+  for (let offset = 0; offset + SEGMENT_LENGTH <= sampleCount; offset += SEGMENT_LENGTH / 2) {
+    const re = detrend(tachogram.subarray(offset, offset + SEGMENT_LENGTH))
+    const im = new Float64Array(SEGMENT_LENGTH)
+    for (let i = 0; i < SEGMENT_LENGTH; i++) re[i] *= window[i]
+    fft(re, im)
+    for (let k = 0; k < psd.length; k++) {
+      // One-sided density: double everything except DC and Nyquist
+      const scale = k === 0 || k === SEGMENT_LENGTH / 2 ? 1 : 2
+      psd[k] += scale * (re[k] * re[k] + im[k] * im[k]) / (RESAMPLE_RATE * windowPower)
+    }
+    segments++
+  }
+
+  const df = RESAMPLE_RATE / SEGMENT_LENGTH
+  const bandPower = ([low, high]: [number, number]) => {
+    let power = 0
+    for (let k = 0; k < psd.length; k++) {
+      const f = k * df
+      if (f >= low && f < high) power += psd[k] / segments
+    }
+    return power * df
+  }
+
+  return { lf: bandPower(bands.lf), hf: bandPower(bands.hf) }
+}
+
+/**
+ * Remove the least-squares line from a segment (returns a new array)
+ */
+function detrend(segment: Float64Array): Float64Array {
+  const n = segment.length
+  const meanX = (n - 1) / 2
+  let meanY = 0
+  for (let i = 0; i < n; i++) meanY += segment[i] / n
+  let covariance = 0
+  let variance = 0
+  for (let i = 0; i < n; i++) {
+    covariance += (i - meanX) * (segment[i] - meanY)
+    variance += (i - meanX) * (i - meanX)
+  }
+  const slope = covariance / variance
+  const result = new Float64Array(n)
+  for (let i = 0; i < n; i++) result[i] = segment[i] - meanY - slope * (i - meanX)
+  return result
+}
+
+/**
+ * In-place iterative radix-2 FFT (length must be a power of two)
+ */
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]]
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k)
+        const sin = Math.sin(angle * k)
+        const a = start + k
+        const b = a + size / 2
+        const tRe = re[b] * cos - im[b] * sin
+        const tIm = re[b] * sin + im[b] * cos
+        re[b] = re[a] - tRe
+        im[b] = im[a] - tIm
+        re[a] += tRe
+        im[a] += tIm
+      }
+    }
+  }
+}
+
+// Beats are reported well within this of their sample, so older gaps are folded into one offset
+const GAP_HISTORY_SECONDS = 10
+
+/**
+ * Session-long beat-to-beat interval recorder
+ * Runs a streaming QRS detector on each trace and keeps every RR interval.
+ * Samples given their recording time may skip ahead (lost frames, reconnection
+ * outages): beats after the gap are timed on the recording's clock and the
+ * interval spanning it, which the detectors measure without the missing samples, is dropped.
+ */
+export class RRIntervalRecorder {
+  private sampleRate: number
+  private detectors: Record<QRSProfileName, PanTompkinsDetector>
+  private intervals: Record<QRSProfileName, RRInterval[]> = { maternal: [], fetal: [] }
+  private startTime = 0 // Recording time (s) of the first sample after reset
+  private processed = 0 // Samples fed since reset (the detectors' sample index)
+  private gaps: Array<{ index: number, samples: number }> = [] // Recent gaps, at the detector index after each
+  private foldedGapSamples = 0 // Samples missing in gaps older than `gaps`
+  private totalGapSamples = 0
+  private lastBeatIndex: Record<QRSProfileName, number | null> = { maternal: null, fetal: null }
+
+  constructor(sampleRate: number = 250) {
+    this.sampleRate = sampleRate
+    this.detectors = {
+      maternal: createQRSDetector('maternal', sampleRate),
+      fetal: createQRSDetector('fetal', sampleRate)
+    }
+  }
+
+  /**
+   * Feed one sample of each trace, with its recording time (s) if samples may be missing before it
+   */
+  processSample(mother: number, fetus: number, time?: number): void {
+    if (time !== undefined) {
+      const missing = Math.round((time - this.startTime) * this.sampleRate) - this.processed - this.totalGapSamples
+      if (missing > 0) {
+        this.gaps.push({ index: this.processed, samples: missing })
+        this.totalGapSamples += missing
+      }
+    }
+
+    this.record('maternal', this.detectors.maternal.processSample(mother))
+    this.record('fetal', this.detectors.fetal.processSample(fetus))
+    this.processed++
+
+    const horizon = this.processed - GAP_HISTORY_SECONDS * this.sampleRate
+    while (this.gaps.length > 0 && this.gaps[0].index < horizon) {
+      this.foldedGapSamples += this.gaps.shift()!.samples
+    }
+  }
+
+  private record(profile: QRSProfileName, beats: QRSBeat[]): void {
+    for (const beat of beats) {
+      const previous = this.lastBeatIndex[profile]
+      this.lastBeatIndex[profile] = beat.index
+      if (beat.rrInterval === null) continue
+      if (previous !== null && this.gaps.some(gap => gap.index > previous && gap.index <= beat.index)) continue
+
+      let missing = this.foldedGapSamples
+      for (const gap of this.gaps) {
+        if (gap.index <= beat.index) missing += gap.samples
+      }
+      this.intervals[profile].push({ time: this.startTime + (beat.index + missing) / this.sampleRate, interval: beat.rrInterval })
+    }
+  }
+
+  /**
+   * All RR intervals recorded this session (oldest first)
+   */
+  getIntervals(profile: QRSProfileName): RRInterval[] {
+    return this.intervals[profile]
+  }
+
+  /**
+   * Clear intervals and detector state (call when starting a new recording,
+   * or with the start time when a replay jumps to a new position)
+   */
+  reset(startTime: number = 0): void {
+    this.detectors.maternal.reset()
+    this.detectors.fetal.reset()
+    this.intervals = { maternal: [], fetal: [] }
+    this.startTime = startTime
+    this.processed = 0
+    this.gaps = []
+    this.foldedGapSamples = 0
+    this.totalGapSamples = 0
+    this.lastBeatIndex = { maternal: null, fetal: null }
+  }
+}
+
+/**
+ * Create a recorder for maternal and fetal RR intervals
+ */
+export function createRRIntervalRecorder(sampleRate: number = 250): RRIntervalRecorder {
+  return new RRIntervalRecorder(sampleRate)
+}
@@ -0,0 +1,258 @@
+/**
+ * Monitoring Configuration Store
+ *
+ * Single source of truth for the settings the live alarm logic runs on:
+ * - Heart rate thresholds per patient (maternal / fetal)
+ * - Alarm sound volume, tones and per-priority repeat intervals
+ * - Sustained-duration delays before a warning or critical status is raised
+ * - How long an audio pause or alarm acknowledgement lasts before re-arming
+ * - BPM detection window
+ *
+ * Named presets (ACOG, RANZCOG) provide guideline-based starting points; any
+ * edit turns the configuration into "custom". The active configuration is
+ * persisted to localStorage so it survives reloads.
+ */
+
+import { AlarmPriority } from './alarmManager'
+
+export type PatientType = 'maternal' | 'fetal'
+
+export type MonitoringPresetName = 'acog' | 'ranzcog' | 'custom'
+
+export interface ThresholdConfig {
+  criticalLow: number
+  warningLow: number
+  normalLow: number
+  normalHigh: number
+  warningHigh: number
+  criticalHigh: number
+}
+
+export interface AlarmSoundConfig {
+  volume: number       // Gain, 0-1
+  frequency1: number   // Base pitch of patient (fetal/maternal) alarm melodies (Hz)
+  frequency2: number   // Pitch of technical alarm bursts (Hz)
+  burstIntervalMs: Record<AlarmPriority, number> // Silence between repeated bursts
+}
+
+export interface SustainedDurationConfig {
+  warningMs: number    // Warning/critical readings needed before CAUTION
+  criticalMs: number   // Critical readings needed before ALERT
+}
+
+export interface AlarmPauseConfig {
+  audioPauseMs: number     // Audio pause countdown before alarms re-arm
+  acknowledgeMs: number    // How long an acknowledged alarm stays quiet
+}
+
+export interface MonitoringConfig {
+  preset: MonitoringPresetName
+  thresholds: Record<PatientType, ThresholdConfig>
+  alarm: AlarmSoundConfig
+  sustained: SustainedDurationConfig
+  alarmPause: AlarmPauseConfig
+  detectionWindowSeconds: number
+}
+
+export interface MonitoringPreset {
+  label: string
+  description: string
+  config: MonitoringConfig
+}
+
+// The HR monitors only see the chart buffer (5 seconds at 250 Hz)
+export const MAX_DETECTION_WINDOW_SECONDS = 5
+
+const STORAGE_KEY = 'fetal-ekg-monitor.monitoring-config'
+
+const DEFAULT_ALARM: AlarmSoundConfig = {
+  volume: 0.8,
+  frequency1: 880,
+  frequency2: 1108,
+  // IEC 60601-1-8 interburst ranges: high 2.5-15 s, medium 2.5-30 s, low > 15 s
+  burstIntervalMs: {
+    high: 3000,
+    medium: 6000,
+    low: 16000
+  }
+}
+
+const DEFAULT_SUSTAINED: SustainedDurationConfig = {
+  warningMs: 3000,
+  criticalMs: 5000
+}
+
+const DEFAULT_ALARM_PAUSE: AlarmPauseConfig = {
+  audioPauseMs: 120000,
+  acknowledgeMs: 300000
+}
+
+export const MONITORING_PRESETS: Record<Exclude<MonitoringPresetName, 'custom'>, MonitoringPreset> = {
+  acog: {
+    label: 'ACOG',
+    description: 'NICHD/ACOG fetal baseline 110-160 BPM; maternal early warning limits 50/120 BPM',
+    config: {
+      preset: 'acog',
+      thresholds: {
+        maternal: { criticalLow: 50, warningLow: 60, normalLow: 60, normalHigh: 100, warningHigh: 110, criticalHigh: 120 },
+        fetal: { criticalLow: 100, warningLow: 110, normalLow: 110, normalHigh: 160, warningHigh: 160, criticalHigh: 180 }
+      },
+      alarm: DEFAULT_ALARM,
+      sustained: DEFAULT_SUSTAINED,
+      alarmPause: DEFAULT_ALARM_PAUSE,
+      detectionWindowSeconds: 5
+    }
+  },
+  ranzcog: {
+    label: 'RANZCOG',
+    description: 'RANZCOG fetal baseline 110-160 BPM, <100 or >170 abnormal; maternal observation chart limits 50/120 BPM',
+    config: {
+      preset: 'ranzcog',
+      thresholds: {
+        maternal: { criticalLow: 50, warningLow: 60, normalLow: 60, normalHigh: 100, warningHigh: 100, criticalHigh: 120 },
+        fetal: { criticalLow: 100, warningLow: 110, normalLow: 110, normalHigh: 160, warningHigh: 160, criticalHigh: 170 }
+      },
+      alarm: DEFAULT_ALARM,
+      sustained: DEFAULT_SUSTAINED,
+      alarmPause: DEFAULT_ALARM_PAUSE,
+      detectionWindowSeconds: 5
+    }
+  }
+}
+
+export const DEFAULT_MONITORING_CONFIG: MonitoringConfig = MONITORING_PRESETS.acog.config
+
+/**
+ * Check that thresholds are ordered from critical low up to critical high
+ * Returns an error message, or null when valid
+ */
+export function validateThresholds(thresholds: ThresholdConfig): string | null {
+  const order: Array<keyof ThresholdConfig> = ['criticalLow', 'warningLow', 'normalLow', 'normalHigh', 'warningHigh', 'criticalHigh']
+  for (const key of order) {
+    if (!Number.isFinite(thresholds[key])) return `${key} must be a number`
+  }
+  for (let i = 1; i < order.length; i++) {
+    if (thresholds[order[i]] < thresholds[order[i - 1]]) {
+      return `${order[i]} must not be below ${order[i - 1]}`
+    }
+  }
+  if (thresholds.criticalHigh === thresholds.criticalLow) return 'Critical limits must differ'
+  return null
+}
+
+/**
+ * Merge a possibly partial or outdated stored value onto the defaults
+ */
+function sanitize(value: unknown): MonitoringConfig {
+  if (!value || typeof value !== 'object') return DEFAULT_MONITORING_CONFIG
+  const stored = value as Partial<MonitoringConfig>
+  const base = DEFAULT_MONITORING_CONFIG
+
+  const thresholds = { ...base.thresholds }
+  for (const type of ['maternal', 'fetal'] as PatientType[]) {
+    const candidate = { ...base.thresholds[type], ...stored.thresholds?.[type] }
+    if (validateThresholds(candidate) === null) thresholds[type] = candidate
+  }
+
+  const preset: MonitoringPresetName = stored.preset === 'acog' || stored.preset === 'ranzcog' || stored.preset === 'custom'
+    ? stored.preset
+    : 'custom'
+  const detectionWindowSeconds = Number(stored.detectionWindowSeconds)
+
+  return {
+    preset,
+    thresholds,
+    alarm: {
+      volume: stored.alarm?.volume ?? base.alarm.volume,
+      frequency1: stored.alarm?.frequency1 ?? base.alarm.frequency1,
+      frequency2: stored.alarm?.frequency2 ?? base.alarm.frequency2,
+      burstIntervalMs: { ...base.alarm.burstIntervalMs, ...stored.alarm?.burstIntervalMs }
+    },
+    sustained: { ...base.sustained, ...stored.sustained },
+    alarmPause: { ...base.alarmPause, ...stored.alarmPause },
+    detectionWindowSeconds: detectionWindowSeconds >= 1 && detectionWindowSeconds <= MAX_DETECTION_WINDOW_SECONDS
+      ? detectionWindowSeconds
+      : base.detectionWindowSeconds
+  }
+}
+
+export class MonitoringConfigStore {
+  private config: MonitoringConfig
+  private listeners = new Set<() => void>()
+  private storage: Storage | null
+
+  constructor(storage: Storage | null) {
+    this.storage = storage
+    this.config = this.load()
+  }
+
+  /**
+   * Current configuration (same object until the next change)
+   */
+  getConfig = (): MonitoringConfig => this.config
+
+  /**
+   * Register a change listener; returns the unsubscribe function
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Replace the whole configuration and persist it
+   */
+  setConfig(config: MonitoringConfig): void {
+    this.config = sanitize(config)
+    this.save()
+    this.listeners.forEach(listener => listener())
+  }
+
+  /**
+   * Switch to a named preset
+   */
+  applyPreset(name: Exclude<MonitoringPresetName, 'custom'>): void {
+    this.setConfig(MONITORING_PRESETS[name].config)
+  }
+
+  /**
+   * Back to the default preset
+   */
+  reset(): void {
+    this.setConfig(DEFAULT_MONITORING_CONFIG)
+  }
+
+  private load(): MonitoringConfig {
+    if (!this.storage) return DEFAULT_MONITORING_CONFIG
+    try {
+      const raw = this.storage.getItem(STORAGE_KEY)
+      return raw ? sanitize(JSON.parse(raw)) : DEFAULT_MONITORING_CONFIG
+    } catch (error) {
+      console.warn('Ignoring unreadable monitoring configuration:', error)
+      return DEFAULT_MONITORING_CONFIG
+    }
+  }
+
+  private save(): void {
+    if (!this.storage) return
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify(this.config))
+    } catch (error) {
+      console.error('Failed to persist monitoring configuration:', error)
+    }
+  }
+}
+
+/**
+ * Factory function to create a configuration store
+ */
+export function createMonitoringConfigStore(storage: Storage | null): MonitoringConfigStore {
+  return new MonitoringConfigStore(storage)
+}
+
+// Shared store used by the whole app
+export const monitoringConfigStore = createMonitoringConfigStore(
+  typeof window !== 'undefined' ? window.localStorage : null
+)
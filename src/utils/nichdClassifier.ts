@@ -0,0 +1,210 @@
+/**
+ * NICHD Three-Tier FHR Classification
+ *
+ * Combines the CTG interpretation over a rolling 20 minute window into
+ * NICHD (2008) Category I, II or III:
+ * - Category I: baseline 110-160 BPM, moderate variability, no late or
+ *   variable decelerations (early decelerations and accelerations allowed)
+ * - Category III: absent variability with recurrent late decelerations,
+ *   recurrent variable decelerations or bradycardia; or a sinusoidal pattern
+ * - Category II: everything else
+ *
+ * Every criterion is reported with its finding so the UI can show which ones
+ * drove the category.
+ */
+
+import { CTGAnalysis, FHR_SAMPLE_RATE } from './ctgAnalysis'
+
+export type NICHDCategory = 'I' | 'II' | 'III'
+
+export interface NICHDCriterion {
+  label: string              // e.g. "Baseline"
+  value: string              // Human-readable finding, e.g. "150 BPM"
+  category: NICHDCategory    // The most severe category this finding alone points to
+}
+
+export interface NICHDClassification {
+  category: NICHDCategory | null // null until baseline and variability are determinate
+  drivers: string[]          // Why this category, most severe first
+  criteria: NICHDCriterion[]
+  windowSeconds: number
+  recurrentLate: boolean
+  recurrentVariable: boolean
+  sinusoidal: boolean
+}
+
+export const NICHD_WINDOW_SECONDS = 1200
+
+// Decelerations with at least half of the contractions in the window are recurrent
+const RECURRENT_FRACTION = 0.5
+// Without marked contractions, this many variable decelerations in the window count as recurrent
+const RECURRENT_WITHOUT_CONTRACTIONS = 3
+// Sinusoidal: 3-5 cycles/min carrying most of the trace's variance for the whole window
+const SINUSOIDAL_BAND: [number, number] = [3 / 60, 5 / 60]
+const SINUSOIDAL_POWER_FRACTION = 0.6
+
+/**
+ * Classify the most recent window of a CTG analysis
+ */
+export function classifyNICHD(analysis: CTGAnalysis, contractionTimes: number[] = []): NICHDClassification {
+  const windowStart = Math.max(0, analysis.duration - NICHD_WINDOW_SECONDS)
+  const inWindow = (end: number) => end >= windowStart
+
+  const baseline = analysis.currentBaseline
+  const variability = analysis.currentVariability
+  const accelerations = analysis.accelerations.filter(a => inWindow(a.end))
+  const decelerations = analysis.decelerations.filter(d => inWindow(d.end))
+  const contractions = contractionTimes.filter(time => time >= windowStart)
+
+  const late = decelerations.filter(d => d.type === 'late')
+  const variable = decelerations.filter(d => d.type === 'variable')
+  const prolonged = decelerations.filter(d => d.type === 'prolonged')
+  const early = decelerations.filter(d => d.type === 'early')
+
+  const recurrentLate = contractions.length > 0 && late.length >= RECURRENT_FRACTION * contractions.length
+  const recurrentVariable = contractions.length > 0
+    ? variable.length >= RECURRENT_FRACTION * contractions.length
+    : variable.length >= RECURRENT_WITHOUT_CONTRACTIONS
+  const sinusoidal = detectSinusoidal(analysis, windowStart)
+
+  const criteria: NICHDCriterion[] = []
+
+  // Baseline rate
+  if (baseline === null) {
+    criteria.push({ label: 'Baseline', value: 'Indeterminate', category: 'II' })
+  } else if (baseline < 110) {
+    criteria.push({ label: 'Baseline', value: `${baseline} BPM (bradycardia)`, category: 'II' })
+  } else if (baseline > 160) {
+    criteria.push({ label: 'Baseline', value: `${baseline} BPM (tachycardia)`, category: 'II' })
+  } else {
+    criteria.push({ label: 'Baseline', value: `${baseline} BPM`, category: 'I' })
+  }
+
+  // Variability
+  if (variability) {
+    const amplitude = `${variability.amplitude.toFixed(0)} BPM`
+    criteria.push({
+      label: 'Variability',
+      value: `${variability.band} (${amplitude})`,
+      category: variability.band === 'moderate' ? 'I' : 'II'
+    })
+  } else {
+    criteria.push({ label: 'Variability', value: 'Not yet measurable', category: 'II' })
+  }
+
+  criteria.push({
+    label: 'Accelerations',
+    value: accelerations.length > 0 ? `${accelerations.length} present` : 'Absent',
+    category: 'I'
+  })
+
+  // Decelerations
+  criteria.push({
+    label: 'Late decels',
+    value: late.length === 0 ? 'Absent' : `${late.length}${recurrentLate ? ' (recurrent)' : ''}`,
+    category: late.length === 0 ? 'I' : 'II'
+  })
+  criteria.push({
+    label: 'Variable decels',
+    value: variable.length === 0 ? 'Absent' : `${variable.length}${recurrentVariable ? ' (recurrent)' : ''}`,
+    category: variable.length === 0 ? 'I' : 'II'
+  })
+  criteria.push({
+    label: 'Prolonged decels',
+    value: prolonged.length === 0 ? 'Absent' : `${prolonged.length}`,
+    category: prolonged.length === 0 ? 'I' : 'II'
+  })
+  if (early.length > 0) {
+    criteria.push({ label: 'Early decels', value: `${early.length}`, category: 'I' })
+  }
+  if (sinusoidal) {
+    criteria.push({ label: 'Pattern', value: 'Sinusoidal', category: 'III' })
+  }
+
+  // Category III combinations
+  const drivers: string[] = []
+  const absentVariability = variability?.band === 'absent'
+  if (absentVariability && recurrentLate) drivers.push('Absent variability with recurrent late decelerations')
+  if (absentVariability && recurrentVariable) drivers.push('Absent variability with recurrent variable decelerations')
+  if (absentVariability && baseline !== null && baseline < 110) drivers.push('Absent variability with bradycardia')
+  if (sinusoidal) drivers.push('Sinusoidal pattern')
+
+  let category: NICHDCategory | null
+  if (drivers.length > 0) {
+    category = 'III'
+  } else if (baseline === null || !variability) {
+    // Category I must be positively established, so an incomplete picture stays unclassified
+    category = null
+    drivers.push(baseline === null ? 'Baseline indeterminate (needs 2 minutes of stable trace)' : 'Variability not yet measurable')
+  } else {
+    const categoryII = criteria.filter(c => c.category === 'II')
+    if (categoryII.length > 0) {
+      category = 'II'
+      drivers.push(...categoryII.map(c => `${c.label}: ${c.value}`))
+    } else {
+      category = 'I'
+      drivers.push('Normal baseline, moderate variability, no late or variable decelerations')
+    }
+  }
+
+  return {
+    category,
+    drivers,
+    criteria,
+    windowSeconds: Math.min(NICHD_WINDOW_SECONDS, analysis.duration),
+    recurrentLate,
+    recurrentVariable,
+    sinusoidal
+  }
+}
+
+/**
+ * Sinusoidal pattern: the full window's FHR (1 s resolution, detrended)
+ * has most of its variance at 3-5 cycles/min with a 5-15 BPM amplitude and
+ * no accelerations
+ */
+function detectSinusoidal(analysis: CTGAnalysis, windowStart: number): boolean {
+  if (analysis.duration - windowStart < NICHD_WINDOW_SECONDS) return false
+  if (analysis.accelerations.some(a => a.end >= windowStart)) return false
+
+  const values: number[] = []
+  for (let i = Math.ceil(windowStart * FHR_SAMPLE_RATE); i < analysis.fhr.length; i += FHR_SAMPLE_RATE) {
+    const fhr = analysis.fhr[i].fhr
+    if (fhr === null) return false
+    values.push(fhr)
+  }
+
+  const mean = values.reduce((a, b) => a + b, 0) / values.length
+  const centered = values.map(value => value - mean)
+  const variance = centered.reduce((sum, value) => sum + value * value, 0) / centered.length
+  if (variance === 0) return false
+
+  // Power in the band from a direct DFT over just the band's bins (1 Hz sampling)
+  const n = centered.length
+  let bandPower = 0
+  for (let k = Math.ceil(SINUSOIDAL_BAND[0] * n); k <= Math.floor(SINUSOIDAL_BAND[1] * n); k++) {
+    let re = 0
+    let im = 0
+    for (let t = 0; t < n; t++) {
+      const angle = (2 * Math.PI * k * t) / n
+      re += centered[t] * Math.cos(angle)
+      im -= centered[t] * Math.sin(angle)
+    }
+    bandPower += (2 * (re * re + im * im)) / (n * n)
+  }
+
+  // Peak-to-trough amplitude of a sine is 2*sqrt(2)*RMS
+  const amplitude = 2 * Math.SQRT2 * Math.sqrt(variance)
+  return bandPower / variance >= SINUSOIDAL_POWER_FRACTION && amplitude >= 5 && amplitude <= 15
+}
+
+/**
+ * Alarm status implied by a category (for alarms that follow the category)
+ */
+export function getCategoryStatus(category: NICHDCategory | null): 'normal' | 'warning' | 'critical' {
+  switch (category) {
+    case 'III': return 'critical'
+    case 'II': return 'warning'
+    default: return 'normal'
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * PDF Writer
+ *
+ * Minimal PDF 1.4 document builder for printable reports:
+ * - Pages in points (1/72 inch) with the origin at the top left
+ * - Text in the standard Helvetica / Helvetica-Bold fonts (WinAnsi encoding,
+ *   no embedding), with width measurement for layout
+ * - Lines, rectangles and JPEG images (embedded as-is with DCTDecode)
+ *
+ * Spec: ISO 32000-1 (PDF 1.7), using only features from PDF 1.4
+ */
+
+export type PDFColor = [number, number, number]   // RGB, 0-1
+
+export interface PDFTextOptions {
+  size?: number                 // Points (default 10)
+  bold?: boolean
+  color?: PDFColor
+  align?: 'left' | 'center' | 'right'
+}
+
+export interface PDFShapeOptions {
+  stroke?: PDFColor | null      // null = no outline
+  fill?: PDFColor | null        // null = no fill
+  lineWidth?: number
+}
+
+export interface PDFImage {
+  data: Uint8Array              // JPEG file contents
+  width: number                 // Pixels
+  height: number
+}
+
+// A4 portrait
+export const PDF_PAGE_WIDTH = 595.28
+export const PDF_PAGE_HEIGHT = 841.89
+
+// Advance widths (1/1000 em) of characters 32-126 from the standard font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+]
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+]
+const DEFAULT_WIDTH = 556
+
+// Characters outside Latin-1 that WinAnsi places in 0x80-0x9F
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, '‰': 0x89,
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+}
+
+function encodeChar(char: string): number {
+  const mapped = WIN_ANSI[char]
+  if (mapped !== undefined) return mapped
+  const code = char.charCodeAt(0)
+  return code < 256 && (code < 0x80 || code > 0x9f) ? code : 0x3f // '?'
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(3).replace(/\.?0+$/, '')
+}
+
+function colorOp(color: PDFColor, stroke: boolean): string {
+  return `${color.map(formatNumber).join(' ')} ${stroke ? 'RG' : 'rg'}`
+}
+
+function latin1Bytes(text: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(text.length)
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff
+  return bytes
+}
+
+/**
+ * Multi-page PDF document drawn with absolute coordinates
+ */
+export class PDFDocument {
+  private pages: string[][] = []
+  private pageImages: Set<number>[] = []
+  private images: PDFImage[] = []
+  private current = -1
+
+  get pageCount(): number {
+    return this.pages.length
+  }
+
+  get pageIndex(): number {
+    return this.current
+  }
+
+  /**
+   * Start a new page and draw on it
+   */
+  addPage(): void {
+    this.pages.push([])
+    this.pageImages.push(new Set())
+    this.current = this.pages.length - 1
+  }
+
+  /**
+   * Draw on an existing page (e.g. footers once the page count is known)
+   */
+  setPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) {
+      throw new Error(`Page ${index + 1} does not exist`)
+    }
+    this.current = index
+  }
+
+  /**
+   * Width of a single line of text in points
+   */
+  textWidth(text: string, size: number = 10, bold: boolean = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+    let total = 0
+    for (const char of text) {
+      const code = char.charCodeAt(0)
+      total += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH
+    }
+    return total * size / 1000
+  }
+
+  /**
+   * Break text into lines no wider than maxWidth
+   */
+  wrapText(text: string, maxWidth: number, size: number = 10, bold: boolean = false): string[] {
+    const lines: string[] = []
+    let line = ''
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (line && this.textWidth(candidate, size, bold) > maxWidth) {
+        lines.push(line)
+        line = word
+      } else {
+        line = candidate
+      }
+    }
+    if (line) lines.push(line)
+    return lines
+  }
+
+  /**
+   * Draw a line of text; y is the baseline
+   */
+  text(text: string, x: number, y: number, options: PDFTextOptions = {}): void {
+    const size = options.size ?? 10
+    const bold = options.bold ?? false
+    const width = this.textWidth(text, size, bold)
+    const left = options.align === 'center' ? x - width / 2 : options.align === 'right' ? x - width : x
+
+    let encoded = ''
+    for (const char of text) {
+      const code = encodeChar(char)
+      const literal = String.fromCharCode(code)
+      encoded += literal === '(' || literal === ')' || literal === '\\' ? `\\${literal}` : literal
+    }
+    this.ops().push(
+      'BT',
+      `/${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf`,
+      colorOp(options.color ?? [0, 0, 0], false),
+      `${formatNumber(left)} ${formatNumber(PDF_PAGE_HEIGHT - y)} Td`,
+      `(${encoded}) Tj`,
+      'ET'
+    )
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: PDFShapeOptions = {}): void {
+    this.ops().push(
+      colorOp(options.stroke ?? [0, 0, 0], true),
+      `${formatNumber(options.lineWidth ?? 0.5)} w`,
+      `${formatNumber(x1)} ${formatNumber(PDF_PAGE_HEIGHT - y1)} m`,
+      `${formatNumber(x2)} ${formatNumber(PDF_PAGE_HEIGHT - y2)} l`,
+      'S'
+    )
+  }
+
+  /**
+   * Rectangle from its top left corner
+   */
+  rect(x: number, y: number, width: number, height: number, options: PDFShapeOptions = {}): void {
+    const stroke = options.stroke === undefined ? [0, 0, 0] as PDFColor : options.stroke
+    const fill = options.fill ?? null
+    if (!stroke && !fill) return
+
+    const ops = this.ops()
+    if (fill) ops.push(colorOp(fill, false))
+    if (stroke) ops.push(colorOp(stroke, true), `${formatNumber(options.lineWidth ?? 0.5)} w`)
+    ops.push(
+      `${formatNumber(x)} ${formatNumber(PDF_PAGE_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re`,
+      fill && stroke ? 'B' : fill ? 'f' : 'S'
+    )
+  }
+
+  /**
+   * Place a JPEG image with its top left corner at (x, y)
+   */
+  image(image: PDFImage, x: number, y: number, width: number, height: number): void {
+    const index = this.images.indexOf(image) >= 0 ? this.images.indexOf(image) : this.images.push(image) - 1
+    this.pageImages[this.current].add(index)
+    this.ops().push(
+      'q',
+      `${formatNumber(width)} 0 0 ${formatNumber(height)} ${formatNumber(x)} ${formatNumber(PDF_PAGE_HEIGHT - y - height)} cm`,
+      `/Im${index} Do`,
+      'Q'
+    )
+  }
+
+  /**
+   * Serialize the document
+   */
+  toBytes(): Uint8Array<ArrayBuffer> {
+    if (this.pages.length === 0) {
+      throw new Error('The document has no pages')
+    }
+
+    // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, then images, then a content stream and page per page
+    const chunks: Uint8Array[] = []
+    const offsets: number[] = []
+    let length = 0
+    const write = (chunk: string | Uint8Array) => {
+      const bytes = typeof chunk === 'string' ? latin1Bytes(chunk) : chunk
+      chunks.push(bytes)
+      length += bytes.length
+    }
+    const beginObject = (id: number) => {
+      offsets[id] = length
+      write(`${id} 0 obj\n`)
+    }
+
+    const firstImage = 5
+    const firstPage = firstImage + this.images.length
+    const pageIds = this.pages.map((_, i) => firstPage + i * 2 + 1)
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')
+
+    beginObject(1)
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n')
+    beginObject(2)
+    write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>\nendobj\n`)
+    beginObject(3)
+    write('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>\nendobj\n')
+    beginObject(4)
+    write('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>\nendobj\n')
+
+    this.images.forEach((image, i) => {
+      beginObject(firstImage + i)
+      write(`<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`)
+      write(image.data)
+      write('\nendstream\nendobj\n')
+    })
+
+    this.pages.forEach((ops, i) => {
+      const contentId = firstPage + i * 2
+      const content = ops.join('\n')
+      beginObject(contentId)
+      write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`)
+
+      const xObjects = [...this.pageImages[i]].map(index => `/Im${index} ${firstImage + index} 0 R`).join(' ')
+      beginObject(pageIds[i])
+      write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >> ` +
+        `/Contents ${contentId} 0 R >>\nendobj\n`)
+    })
+
+    const objectCount = firstPage + this.pages.length * 2
+    const xrefOffset = length
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`)
+    for (let id = 1; id < objectCount; id++) {
+      write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`)
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+    const output = new Uint8Array(length)
+    let position = 0
+    for (const chunk of chunks) {
+      output.set(chunk, position)
+      position += chunk.length
+    }
+    return output
+  }
+
+  private ops(): string[] {
+    if (this.current < 0) this.addPage()
+    return this.pages[this.current]
+  }
+}
+
+/**
+ * Factory function to create an empty document
+ */
+export function createPDFDocument(): PDFDocument {
+  return new PDFDocument()
+}
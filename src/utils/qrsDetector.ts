@@ -0,0 +1,448 @@
+/**
+ * Pan-Tompkins QRS Detector
+ *
+ * Streaming QRS detection shared by the heart rate display and stored BPM:
+ * - Bandpass (cascaded high-pass + low-pass biquads) isolates QRS energy and
+ *   removes baseline wander and most of the T wave
+ * - Five-point derivative, squaring and moving-window integration
+ * - Dual adaptive thresholds (signal/noise peak levels) learned from the signal
+ * - Refractory period and T-wave discrimination by slope
+ * - Search-back for missed beats when no beat is found within 166% of the RR average
+ *
+ * Maternal and fetal complexes differ in width and rate, so each has its own
+ * tuning profile (see QRS_PROFILES).
+ */
+
+export type QRSProfileName = 'maternal' | 'fetal'
+
+export interface QRSProfile {
+  bandpassLow: number        // High-pass corner (Hz)
+  bandpassHigh: number       // Low-pass corner (Hz)
+  integrationSeconds: number // Moving-window integration length (~QRS width)
+  refractorySeconds: number  // No beat can follow another sooner than this
+  tWaveSeconds: number       // Peaks within this of the last beat are checked for being T waves
+  minRate: number            // Plausible heart rate range (BPM) for rate averaging
+  maxRate: number
+  defaultRR: number          // Assumed RR interval (s) until enough beats are seen
+}
+
+export const QRS_PROFILES: Record<QRSProfileName, QRSProfile> = {
+  maternal: {
+    bandpassLow: 5,
+    bandpassHigh: 15,
+    integrationSeconds: 0.15,
+    refractorySeconds: 0.2,
+    tWaveSeconds: 0.36,
+    minRate: 30,
+    maxRate: 220,
+    defaultRR: 0.8
+  },
+  fetal: {
+    // Fetal QRS complexes are narrower, so their energy sits higher in frequency
+    bandpassLow: 10,
+    bandpassHigh: 40,
+    integrationSeconds: 0.08,
+    refractorySeconds: 0.15,
+    tWaveSeconds: 0.2,
+    minRate: 50,
+    maxRate: 240,
+    defaultRR: 0.43
+  }
+}
+
+export interface QRSBeat {
+  index: number              // Sample index of the R peak
+  time: number               // R peak time in seconds from the first sample
+  rrInterval: number | null  // Seconds since the previous beat (null for the first beat)
+  searchBack: boolean        // Found by search-back with the lower threshold
+}
+
+export interface QRSDetectorOptions {
+  sampleRate?: number
+  profile?: QRSProfileName
+}
+
+// Threshold learning period at the start of a recording
+const LEARNING_SECONDS = 2
+// RR intervals averaged for the search-back and regularity limits
+const RR_HISTORY = 8
+
+interface BiquadState {
+  b0: number, b1: number, b2: number, a1: number, a2: number
+  x1: number, x2: number, y1: number, y2: number
+}
+
+interface IntegratedPeak {
+  index: number              // Sample index of the integrated-signal maximum
+  value: number
+}
+
+export class PanTompkinsDetector {
+  private sampleRate: number
+  private profile: QRSProfile
+  private highPass: BiquadState
+  private lowPass: BiquadState
+  private integrationLength: number
+  private refractory: number
+  private tWaveWindow: number
+
+  // Ring buffers indexed by absolute sample number modulo bufferSize
+  private bufferSize: number
+  private raw: Float64Array
+  private filtered: Float64Array
+  private integrated: Float64Array
+
+  private sampleIndex = 0
+  private derivativeHistory = [0, 0, 0, 0]
+  private integrationSum = 0
+  private squared: number[] = []
+
+  // Learning phase: integrated values are held until thresholds are initialised
+  private learning = true
+  private learningLength: number
+
+  // Peak tracking on the integrated signal
+  private candidate: IntegratedPeak | null = null
+  private signalLevel = 0
+  private noiseLevel = 0
+  private searchBackCandidate: IntegratedPeak | null = null
+
+  private lastBeatIndex = -1
+  private lastQRSSlope = 0
+  private rrRecent: number[] = []
+  private rrRegular: number[] = []
+  private pendingBeats: QRSBeat[] = []
+
+  constructor(options: QRSDetectorOptions = {}) {
+    this.sampleRate = options.sampleRate ?? 250
+    this.profile = QRS_PROFILES[options.profile ?? 'maternal']
+
+    const nyquist = this.sampleRate / 2
+    this.highPass = createBiquad('highpass', this.profile.bandpassLow, this.sampleRate)
+    this.lowPass = createBiquad('lowpass', Math.min(this.profile.bandpassHigh, nyquist * 0.9), this.sampleRate)
+
+    this.integrationLength = Math.max(1, Math.round(this.profile.integrationSeconds * this.sampleRate))
+    this.refractory = Math.round(this.profile.refractorySeconds * this.sampleRate)
+    this.tWaveWindow = Math.round(this.profile.tWaveSeconds * this.sampleRate)
+    this.learningLength = Math.round(LEARNING_SECONDS * this.sampleRate)
+
+    // Must hold the learning period plus a full missed-beat search-back span
+    this.bufferSize = this.learningLength + Math.round(2 * this.sampleRate * this.profile.defaultRR * 1.66) + this.integrationLength
+    this.raw = new Float64Array(this.bufferSize)
+    this.filtered = new Float64Array(this.bufferSize)
+    this.integrated = new Float64Array(this.bufferSize)
+  }
+
+  /**
+   * Process one sample and return any beats confirmed by it (usually none).
+   * Beats are reported after a short decision delay, in time order.
+   */
+  processSample(x: number): QRSBeat[] {
+    const n = this.sampleIndex
+    const bandpassed = applyBiquad(this.lowPass, applyBiquad(this.highPass, x))
+    this.raw[n % this.bufferSize] = x
+    this.filtered[n % this.bufferSize] = bandpassed
+
+    // Five-point derivative: (2x[n] + x[n-1] - x[n-3] - 2x[n-4]) / 8
+    const [d1, d2, d3, d4] = this.derivativeHistory
+    const derivative = (2 * bandpassed + d1 - d3 - 2 * d4) / 8
+    this.derivativeHistory = [bandpassed, d1, d2, d3]
+
+    const energy = derivative * derivative
+    this.squared.push(energy)
+    this.integrationSum += energy
+    if (this.squared.length > this.integrationLength) {
+      this.integrationSum -= this.squared.shift()!
+    }
+    this.integrated[n % this.bufferSize] = Math.max(0, this.integrationSum / this.integrationLength)
+
+    this.sampleIndex++
+
+    if (this.learning) {
+      return this.sampleIndex >= this.learningLength ? this.finishLearning() : []
+    }
+    this.updatePeaks(n)
+
+    const beats = this.pendingBeats
+    this.pendingBeats = []
+    return beats
+  }
+
+  /**
+   * End the learning phase early using whatever has been seen so far
+   * (for batch detection on windows shorter than the learning period)
+   */
+  finishLearning(): QRSBeat[] {
+    if (!this.learning || this.sampleIndex === 0) return []
+    this.learning = false
+
+    let max = 0
+    let sum = 0
+    for (let i = 0; i < this.sampleIndex; i++) {
+      const value = this.integrated[i % this.bufferSize]
+      if (value > max) max = value
+      sum += value
+    }
+    this.signalLevel = max / 3
+    this.noiseLevel = sum / this.sampleIndex / 2
+
+    // Replay the held samples through peak detection so early beats are not lost
+    for (let i = 0; i < this.sampleIndex; i++) {
+      this.updatePeaks(i)
+    }
+
+    const beats = this.pendingBeats
+    this.pendingBeats = []
+    return beats
+  }
+
+  /**
+   * Peak picking on the integrated signal: a peak is the maximum of a hump,
+   * confirmed once the signal has fallen to half its height. The next hump
+   * starts when the signal rises again.
+   */
+  private updatePeaks(n: number): void {
+    const value = this.integrated[n % this.bufferSize]
+    const previous = n > 0 ? this.integrated[(n - 1) % this.bufferSize] : 0
+
+    if (this.candidate) {
+      if (value > this.candidate.value) {
+        this.candidate = { index: n, value }
+      } else if (value < this.candidate.value / 2) {
+        this.classifyPeak(this.candidate)
+        this.candidate = null
+      }
+    } else if (value > previous) {
+      this.candidate = { index: n, value }
+    }
+
+    // Search-back: no beat for 166% of the average RR interval
+    if (this.lastBeatIndex >= 0 && this.searchBackCandidate) {
+      const missedLimit = Math.round(1.66 * this.getRRAverage() * this.sampleRate)
+      if (n - this.lastBeatIndex > missedLimit) {
+        const peak = this.searchBackCandidate
+        this.searchBackCandidate = null
+        if (peak.value > this.getThreshold() / 2) {
+          this.signalLevel = 0.25 * peak.value + 0.75 * this.signalLevel
+          this.acceptBeat(peak, true)
+        }
+      }
+    }
+  }
+
+  private classifyPeak(peak: IntegratedPeak): void {
+    const threshold = this.getThreshold()
+    const sinceLastBeat = this.lastBeatIndex >= 0 ? peak.index - this.lastBeatIndex : Infinity
+
+    // Peaks inside the refractory period belong to the last QRS complex
+    if (sinceLastBeat <= this.refractory) return
+
+    if (peak.value > threshold) {
+      // A peak shortly after a beat with less than half its slope is a T wave
+      const slope = this.getMaxSlope(peak.index)
+      if (sinceLastBeat < this.tWaveWindow && slope < this.lastQRSSlope / 2) {
+        this.updateNoise(peak.value)
+        return
+      }
+      this.signalLevel = 0.125 * peak.value + 0.875 * this.signalLevel
+      this.acceptBeat(peak, false)
+    } else {
+      this.updateNoise(peak.value)
+      // Remember the best sub-threshold peak since the last beat for search-back
+      if (peak.value > threshold / 2 && (!this.searchBackCandidate || peak.value > this.searchBackCandidate.value)) {
+        this.searchBackCandidate = peak
+      }
+    }
+  }
+
+  private updateNoise(value: number): void {
+    this.noiseLevel = 0.125 * value + 0.875 * this.noiseLevel
+  }
+
+  /**
+   * Primary threshold, halved while the rhythm is irregular
+   */
+  private getThreshold(): number {
+    const threshold = this.noiseLevel + 0.25 * (this.signalLevel - this.noiseLevel)
+    return this.isRegular() ? threshold : threshold / 2
+  }
+
+  private getRRAverage(): number {
+    const source = this.rrRegular.length > 0 ? this.rrRegular : this.rrRecent
+    if (source.length === 0) return this.profile.defaultRR
+    return source.reduce((a, b) => a + b, 0) / source.length
+  }
+
+  private isRegular(): boolean {
+    if (this.rrRecent.length < RR_HISTORY || this.rrRegular.length === 0) return true
+    const recent = this.rrRecent.reduce((a, b) => a + b, 0) / this.rrRecent.length
+    const regular = this.getRRAverage()
+    return recent >= 0.92 * regular && recent <= 1.16 * regular
+  }
+
+  private acceptBeat(peak: IntegratedPeak, searchBack: boolean): void {
+    const rPeak = this.locateRPeak(peak.index)
+    if (rPeak <= this.lastBeatIndex) return
+
+    const rrInterval = this.lastBeatIndex >= 0 ? (rPeak - this.lastBeatIndex) / this.sampleRate : null
+    if (rrInterval !== null) {
+      const average = this.getRRAverage()
+      this.rrRecent.push(rrInterval)
+      if (this.rrRecent.length > RR_HISTORY) this.rrRecent.shift()
+      // Only near-average intervals update the regular-rhythm average
+      if (this.rrRegular.length === 0 || (rrInterval >= 0.92 * average && rrInterval <= 1.16 * average)) {
+        this.rrRegular.push(rrInterval)
+        if (this.rrRegular.length > RR_HISTORY) this.rrRegular.shift()
+      }
+    }
+
+    this.lastBeatIndex = rPeak
+    this.lastQRSSlope = this.getMaxSlope(peak.index)
+    this.searchBackCandidate = null
+    this.pendingBeats.push({
+      index: rPeak,
+      time: rPeak / this.sampleRate,
+      rrInterval,
+      searchBack
+    })
+  }
+
+  /**
+   * The R peak is the largest deflection of the unfiltered signal from its
+   * local mean, searched over the integration window ending at the integrated
+   * peak (widened to cover the bandpass delay). The bandpassed signal has
+   * near-equal positive and negative lobes, so it jitters between them.
+   */
+  private locateRPeak(integratedIndex: number): number {
+    const end = integratedIndex
+    const start = Math.max(0, end - Math.round(1.5 * this.integrationLength), this.sampleIndex - this.bufferSize + 1)
+    if (end <= start) return end
+
+    let mean = 0
+    for (let i = start; i <= end; i++) mean += this.raw[i % this.bufferSize]
+    mean /= end - start + 1
+
+    let best = end
+    let bestValue = -Infinity
+    for (let i = start; i <= end; i++) {
+      const value = Math.abs(this.raw[i % this.bufferSize] - mean)
+      if (value > bestValue) {
+        bestValue = value
+        best = i
+      }
+    }
+    return best
+  }
+
+  private getMaxSlope(integratedIndex: number): number {
+    const start = Math.max(1, integratedIndex - this.integrationLength, this.sampleIndex - this.bufferSize + 1)
+    let max = 0
+    for (let i = start; i <= integratedIndex; i++) {
+      const slope = Math.abs(this.filtered[i % this.bufferSize] - this.filtered[(i - 1) % this.bufferSize])
+      if (slope > max) max = slope
+    }
+    return max
+  }
+
+  /**
+   * Reset filters, thresholds and RR history (call when starting a new recording)
+   */
+  reset(): void {
+    resetBiquad(this.highPass)
+    resetBiquad(this.lowPass)
+    this.raw.fill(0)
+    this.filtered.fill(0)
+    this.integrated.fill(0)
+    this.sampleIndex = 0
+    this.derivativeHistory = [0, 0, 0, 0]
+    this.integrationSum = 0
+    this.squared = []
+    this.learning = true
+    this.candidate = null
+    this.signalLevel = 0
+    this.noiseLevel = 0
+    this.searchBackCandidate = null
+    this.lastBeatIndex = -1
+    this.lastQRSSlope = 0
+    this.rrRecent = []
+    this.rrRegular = []
+    this.pendingBeats = []
+  }
+}
+
+/**
+ * RBJ biquad design (Butterworth Q)
+ */
+function createBiquad(type: 'highpass' | 'lowpass', cutoff: number, sampleRate: number): BiquadState {
+  const w0 = 2 * Math.PI * cutoff / sampleRate
+  const alpha = Math.sin(w0) / (2 * Math.SQRT1_2)
+  const cos = Math.cos(w0)
+  const a0 = 1 + alpha
+  const b1 = type === 'lowpass' ? 1 - cos : -(1 + cos)
+  const b0 = type === 'lowpass' ? (1 - cos) / 2 : (1 + cos) / 2
+
+  return {
+    b0: b0 / a0,
+    b1: b1 / a0,
+    b2: b0 / a0,
+    a1: -2 * cos / a0,
+    a2: (1 - alpha) / a0,
+    x1: 0, x2: 0, y1: 0, y2: 0
+  }
+}
+
+function applyBiquad(state: BiquadState, x: number): number {
+  const y = state.b0 * x + state.b1 * state.x1 + state.b2 * state.x2 - state.a1 * state.y1 - state.a2 * state.y2
+  state.x2 = state.x1
+  state.x1 = x
+  state.y2 = state.y1
+  state.y1 = y
+  return y
+}
+
+function resetBiquad(state: BiquadState): void {
+  state.x1 = 0
+  state.x2 = 0
+  state.y1 = 0
+  state.y2 = 0
+}
+
+/**
+ * Detect all beats in a finished signal window
+ */
+export function detectQRS(signal: number[], profile: QRSProfileName = 'maternal', sampleRate: number = 250): QRSBeat[] {
+  const detector = new PanTompkinsDetector({ sampleRate, profile })
+  const beats: QRSBeat[] = []
+  for (const value of signal) {
+    beats.push(...detector.processSample(value))
+  }
+  beats.push(...detector.finishLearning())
+  return beats
+}
+
+/**
+ * Average heart rate (BPM) from beat intervals within the profile's plausible range
+ * Returns 0 when fewer than two usable beats are available
+ */
+export function calculateHeartRate(beats: QRSBeat[], profile: QRSProfileName = 'maternal', sampleRate: number = 250): number {
+  const { minRate, maxRate } = QRS_PROFILES[profile]
+  const intervals: number[] = []
+  for (let i = 1; i < beats.length; i++) {
+    const interval = (beats[i].index - beats[i - 1].index) / sampleRate
+    if (interval >= 60 / maxRate && interval <= 60 / minRate) {
+      intervals.push(interval)
+    }
+  }
+
+  if (intervals.length === 0) return 0
+
+  const avgInterval = intervals.reduce((a, b) => a + b, 0) / intervals.length
+  return Math.round(60 / avgInterval)
+}
+
+/**
+ * Create a pre-configured streaming QRS detector
+ */
+export function createQRSDetector(profile: QRSProfileName = 'maternal', sampleRate: number = 250): PanTompkinsDetector {
+  return new PanTompkinsDetector({ sampleRate, profile })
+}
@@ -0,0 +1,230 @@
+/**
+ * Raw Sample Export
+ *
+ * Exports the samples of a stored session for analysis in MATLAB / Python:
+ * - CSV (one row per sample) or JSON Lines (one object per sample), or the
+ *   existing Excel workbook
+ * - Channel groups: raw inputs, normalized inputs, filtered combined signal,
+ *   extracted maternal / fetal traces and heart rates
+ * - Optional time range and decimation (every Nth sample)
+ * - Metadata sidecar (.json) with units, filter settings and sample rate
+ */
+
+import { getSession, getSessionSamples, MonitoringSession, SessionSample } from './dataStorage'
+import { exportToExcel } from './excelExport'
+import { normalizeArduinoSignal } from './signalNormalization'
+import { DEFAULT_ADC, adcMax } from './deviceCapabilities'
+import { NOISE_FILTER_SETTINGS } from './signalProcessor'
+import { sampleWriter } from './sampleWriter'
+
+export type SampleExportFormat = 'csv' | 'jsonl' | 'excel'
+
+export type SampleChannelGroup = 'raw' | 'normalized' | 'filtered' | 'extracted' | 'bpm'
+
+export interface SampleExportOptions {
+  format: SampleExportFormat
+  channels: SampleChannelGroup[]  // Ignored for Excel, which has its own layout
+  startTime: number | null        // Seconds from the start of the session (null = from the start)
+  endTime: number | null          // null = to the end
+  decimation: number              // Keep every Nth sample
+  includeMetadata: boolean        // Also download a .json sidecar
+}
+
+export interface SampleExportResult {
+  rows: number
+  files: string[]
+}
+
+interface ColumnSpec {
+  name: string
+  units: string
+  description: string
+  value: (sample: SessionSample) => number | null
+}
+
+export const SAMPLE_CHANNEL_GROUPS: Record<SampleChannelGroup, { label: string, description: string }> = {
+  raw: { label: 'Raw input', description: 'Maternal, abdominal and fetal leads as received (ADC counts from the Arduino)' },
+  normalized: { label: 'Normalized', description: 'Raw leads scaled to the 0-1 display range' },
+  filtered: { label: 'Filtered', description: 'Abdominal lead after noise removal' },
+  extracted: { label: 'Extracted', description: 'Maternal and fetal traces after fetal extraction' },
+  bpm: { label: 'Heart rates', description: 'Maternal and fetal BPM (updated once per second)' }
+}
+
+const DEFAULT_SAMPLE_RATE = 250
+
+function rawUnits(session: MonitoringSession): string {
+  const adc = session.adc ?? DEFAULT_ADC
+  return session.dataSource === 'arduino' ? `ADC counts (0-${adcMax(adc)}, ${adc.referenceVoltage} V reference)` : 'signal units'
+}
+
+function normalize(session: MonitoringSession, value: number | null | undefined): number | null {
+  if (value === null || value === undefined) return null
+  // Only Arduino inputs need scaling; the other sources already deliver display units
+  return session.dataSource === 'arduino' ? normalizeArduinoSignal(value, adcMax(session.adc ?? DEFAULT_ADC)) : value
+}
+
+function columnsFor(session: MonitoringSession, groups: SampleChannelGroup[]): ColumnSpec[] {
+  const columns: ColumnSpec[] = [
+    { name: 'index', units: 'samples', description: 'Sample number within the session', value: sample => sample.index },
+    { name: 'time_s', units: 's', description: 'Time from the start of the session', value: sample => sample.time }
+  ]
+  const units = rawUnits(session)
+  const normalizedUnits = session.dataSource === 'arduino' ? 'fraction of full scale' : 'signal units'
+
+  if (groups.includes('raw')) {
+    columns.push(
+      { name: 'raw_maternal', units, description: 'Maternal lead as received', value: sample => sample.rawMother ?? null },
+      { name: 'raw_combined', units, description: 'Abdominal lead as received', value: sample => sample.rawCombined ?? null },
+      { name: 'raw_fetal', units, description: 'Fetal lead as received', value: sample => sample.rawFetus ?? null }
+    )
+  }
+  if (groups.includes('normalized')) {
+    columns.push(
+      { name: 'normalized_maternal', units: normalizedUnits, description: 'Maternal lead scaled to the display range', value: sample => normalize(session, sample.rawMother) },
+      { name: 'normalized_combined', units: normalizedUnits, description: 'Abdominal lead scaled to the display range', value: sample => normalize(session, sample.rawCombined) },
+      { name: 'normalized_fetal', units: normalizedUnits, description: 'Fetal lead scaled to the display range', value: sample => normalize(session, sample.rawFetus) }
+    )
+  }
+  if (groups.includes('filtered')) {
+    columns.push(
+      { name: 'filtered_combined', units: 'signal units', description: 'Abdominal lead after noise removal', value: sample => sample.combined }
+    )
+  }
+  if (groups.includes('extracted')) {
+    columns.push(
+      { name: 'extracted_maternal', units: 'signal units', description: 'Displayed maternal trace', value: sample => sample.mother },
+      { name: 'extracted_fetal', units: 'signal units', description: `Fetal trace (${session.fetalExtraction ?? 'unknown'} extraction)`, value: sample => sample.fetus }
+    )
+  }
+  if (groups.includes('bpm')) {
+    columns.push(
+      { name: 'maternal_bpm', units: 'beats/min', description: 'Maternal heart rate (0 = not detected)', value: sample => sample.maternalBPM },
+      { name: 'fetal_bpm', units: 'beats/min', description: 'Fetal heart rate (0 = not detected)', value: sample => sample.fetalBPM }
+    )
+  }
+  return columns
+}
+
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = window.URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  window.URL.revokeObjectURL(url)
+}
+
+function formatValue(value: number | null): string {
+  return value === null ? '' : String(value)
+}
+
+function buildMetadata(
+  session: MonitoringSession,
+  options: SampleExportOptions,
+  columns: ColumnSpec[],
+  samples: SessionSample[],
+  dataFile: string | null
+) {
+  const sampleRate = session.sampleRate || DEFAULT_SAMPLE_RATE
+  return {
+    file: dataFile,
+    format: options.format,
+    exportedAt: new Date().toISOString(),
+    session: {
+      id: session.id ?? null,
+      patientId: session.patientId,
+      operator: session.operator,
+      startedAt: new Date(session.startedAt).toISOString(),
+      endedAt: session.endedAt !== null ? new Date(session.endedAt).toISOString() : null,
+      dataSource: session.dataSource,
+      signalPair: session.signalPair,
+      signalMapping: session.signalMapping
+    },
+    sampleRate: sampleRate / options.decimation,
+    sourceSampleRate: sampleRate,
+    decimation: {
+      factor: options.decimation,
+      method: options.decimation > 1 ? 'every Nth sample kept, no anti-aliasing filter' : 'none'
+    },
+    range: {
+      startTime: samples.length > 0 ? samples[0].time : null,
+      endTime: samples.length > 0 ? samples[samples.length - 1].time : null,
+      rows: samples.length
+    },
+    columns: columns.map(({ name, units, description }) => ({ name, units, description })),
+    processing: {
+      combinedFilters: {
+        notchHz: NOISE_FILTER_SETTINGS.notchHz,
+        lowpassHz: NOISE_FILTER_SETTINGS.lowpassHz,
+        highpassHz: NOISE_FILTER_SETTINGS.highpassHz,
+        medianSamples: NOISE_FILTER_SETTINGS.medianSamples
+      },
+      fetalExtraction: session.fetalExtraction,
+      normalization: session.dataSource === 'arduino' ? `ADC counts / ${adcMax(session.adc ?? DEFAULT_ADC)}` : 'none (source already in signal units)'
+    },
+    monitoringConfig: session.monitoringConfig
+  }
+}
+
+/**
+ * Export the samples of a stored session; resolves with the rows written and the files downloaded
+ */
+export async function exportSessionSamples(sessionId: number, options: SampleExportOptions): Promise<SampleExportResult> {
+  // Samples of a session still recording may be waiting in the writer queue
+  await sampleWriter.flush().catch(() => undefined)
+
+  const session = await getSession(sessionId)
+  if (!session) {
+    throw new Error(`Session ${sessionId} not found`)
+  }
+
+  const sampleRate = session.sampleRate || DEFAULT_SAMPLE_RATE
+  const startIndex = options.startTime !== null ? Math.max(0, Math.ceil(options.startTime * sampleRate)) : undefined
+  const endIndex = options.endTime !== null ? Math.floor(options.endTime * sampleRate) : undefined
+  if (startIndex !== undefined && endIndex !== undefined && endIndex < startIndex) {
+    throw new Error('The end of the range is before its start')
+  }
+
+  const decimation = Math.max(1, Math.round(options.decimation))
+  const samples = (await getSessionSamples(sessionId, startIndex, endIndex))
+    .filter(sample => sample.index % decimation === 0)
+  if (samples.length === 0) {
+    throw new Error('No samples in the selected range')
+  }
+
+  const base = `Fetal_EKG_Session_${sessionId}_${new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5)}`
+  const files: string[] = []
+  const columns = columnsFor(session, options.channels)
+
+  if (options.format === 'excel') {
+    await exportToExcel(samples)
+  } else if (options.format === 'csv') {
+    const lines = [columns.map(column => column.name).join(',')]
+    for (const sample of samples) {
+      lines.push(columns.map(column => formatValue(column.value(sample))).join(','))
+    }
+    files.push(`${base}.csv`)
+    downloadBlob(new Blob([lines.join('\n')], { type: 'text/csv' }), `${base}.csv`)
+  } else {
+    const lines = samples.map(sample => {
+      const row: Record<string, number | null> = {}
+      for (const column of columns) row[column.name] = column.value(sample)
+      return JSON.stringify(row)
+    })
+    files.push(`${base}.jsonl`)
+    downloadBlob(new Blob([lines.join('\n')], { type: 'application/x-ndjson' }), `${base}.jsonl`)
+  }
+
+  if (options.includeMetadata) {
+    // The workbook names itself and has its own sheet layout, so only the CSV / JSON columns are described
+    const metadata = options.format === 'excel'
+      ? buildMetadata(session, { ...options, decimation }, [], samples, null)
+      : buildMetadata(session, { ...options, decimation }, columns, samples, files[0])
+    files.push(`${base}.meta.json`)
+    downloadBlob(new Blob([JSON.stringify(metadata, null, 2)], { type: 'application/json' }), `${base}.meta.json`)
+  }
+
+  return { rows: samples.length, files }
+}
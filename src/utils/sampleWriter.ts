@@ -0,0 +1,411 @@
+/**
+ * Sample Writer
+ *
+ * Buffers session samples and commits them to IndexedDB in batches instead of
+ * one transaction per sample.
+ * - Flushes every 500 ms, one transaction at a time; samples arriving while a
+ *   batch is being written wait for the next one (back-pressure)
+ * - If IndexedDB falls more than a minute behind, the oldest queued samples are
+ *   dropped and counted rather than growing memory without bound
+ * - Uncommitted samples are appended to a write-ahead log in localStorage on every
+ *   flush, so a browser crash loses at most the last flush interval; the log is
+ *   replayed into IndexedDB on the next start. Each flush writes only the new
+ *   samples as a chunk of its own, and chunks are removed once committed. The log
+ *   is capped below the localStorage quota; samples that don't fit are reported
+ *   in lastError as not crash-safe
+ * - A page writing the log keeps a heartbeat next to it; only the logs of pages
+ *   whose heartbeat has stopped are recovered, so other open tabs keep theirs
+ * - Tracks write latency and storage quota for the insights panel
+ */
+
+import { SessionSample, storeSamples } from './dataStorage'
+
+export interface SampleWriterStats {
+  queuedSamples: number          // Not yet in IndexedDB (including the batch being written)
+  committedSamples: number
+  droppedSamples: number         // Discarded because the queue overflowed
+  batches: number
+  lastBatchSize: number
+  lastWriteMs: number | null     // Duration of the last transaction
+  avgWriteMs: number | null
+  maxWriteMs: number | null
+  backPressure: boolean          // Queue above one flush worth of samples
+  storageUsage: number | null    // Bytes used by the origin (null if the browser can't tell)
+  storageQuota: number | null
+  walBytes: number               // Size of the write-ahead log
+  lastError: string | null
+}
+
+// Compact write-ahead log row
+type LogRow = [
+  sessionId: number, index: number, time: number, timestamp: number,
+  maternalBPM: number, fetalBPM: number, mother: number | null, combined: number | null, fetus: number | null,
+  rawMother: number | null, rawCombined: number | null, rawFetus: number | null,
+  maternalVoltage: number, fetalVoltage: number, combinedVoltage: number
+]
+
+// Log chunk written by one flush; removed once none of its samples is queued any more
+interface LogChunk {
+  key: string
+  end: number                    // Sequence number after its last sample
+  chars: number
+}
+
+const FLUSH_INTERVAL_MS = 500
+const MAX_BATCH_SAMPLES = 2500           // 10 s at 250 Hz per transaction when catching up
+const BACK_PRESSURE_SAMPLES = 250        // More than ~1 s waiting means IndexedDB is behind
+const MAX_QUEUED_SAMPLES = 250 * 60      // Drop beyond one minute of backlog
+const QUOTA_CHECK_INTERVAL_MS = 10000
+const STORAGE_KEY = 'fetal-ekg-monitor.sample-wal'     // Chunks are stored as <key>.<page>.<first sequence>
+const HEARTBEAT_KEY = 'fetal-ekg-monitor.sample-wal-heartbeat'  // <key>.<page>: last time the page was alive
+// Longer than background tabs' timers may be throttled to (once a minute in Chrome)
+const HEARTBEAT_STALE_MS = 90000
+// Well below the usual 5 M character localStorage quota, which other data shares
+const MAX_LOG_CHARS = 2_000_000
+
+const EMPTY_STATS: SampleWriterStats = {
+  queuedSamples: 0,
+  committedSamples: 0,
+  droppedSamples: 0,
+  batches: 0,
+  lastBatchSize: 0,
+  lastWriteMs: null,
+  avgWriteMs: null,
+  maxWriteMs: null,
+  backPressure: false,
+  storageUsage: null,
+  storageQuota: null,
+  walBytes: 0,
+  lastError: null
+}
+
+export class SampleWriter {
+  private storage: Storage | null
+  private pending: SessionSample[] = []
+  private inFlight: SessionSample[] = []
+  // Write-ahead log: samples are numbered as they are queued, so the log knows what it holds
+  private page = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
+  private sequences = new WeakMap<SessionSample, number>()
+  private nextSequence = 0
+  private loggedThrough = 0      // Samples numbered below this have been offered to the log
+  private logChunks: LogChunk[] = []
+  private logChars = 0
+  private logError: string | null = null     // Samples queued now may not be in the log
+  private writeError: string | null = null   // Last IndexedDB batch failed
+  private inFlightPromise: Promise<boolean> | null = null
+  private timer: ReturnType<typeof setInterval> | null = null
+  private lastQuotaCheck = -Infinity
+  private totalWriteMs = 0
+  private stats: SampleWriterStats = EMPTY_STATS
+  private listeners = new Set<() => void>()
+
+  constructor(storage: Storage | null) {
+    this.storage = storage
+    if (typeof window !== 'undefined') {
+      // Last chance to log what is still queued when the page goes away; unless it
+      // may come back from the back/forward cache, the next page can recover it straight away
+      window.addEventListener('pagehide', event => {
+        this.writeLog()
+        if (!event.persisted) this.storage?.removeItem(`${HEARTBEAT_KEY}.${this.page}`)
+      })
+    }
+  }
+
+  /**
+   * Current statistics (same object until the next change)
+   */
+  getStats = (): SampleWriterStats => this.stats
+
+  /**
+   * Register a change listener; returns the unsubscribe function
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Queue samples for the next batch
+   */
+  append(samples: SessionSample[]): void {
+    if (samples.length === 0) return
+    for (const sample of samples) this.sequences.set(sample, this.nextSequence++)
+    this.pending.push(...samples)
+
+    const overflow = this.pending.length + this.inFlight.length - MAX_QUEUED_SAMPLES
+    if (overflow > 0) {
+      this.pending.splice(0, overflow)
+      if (this.stats.droppedSamples === 0) {
+        console.warn('Sample writer queue overflowed; dropping the oldest samples')
+      }
+      this.updateStats({ droppedSamples: this.stats.droppedSamples + overflow })
+    }
+
+    if (this.timer === null) {
+      this.timer = setInterval(() => this.tick(), FLUSH_INTERVAL_MS)
+    }
+  }
+
+  /**
+   * Commit everything queued; rejects if a batch can't be written
+   */
+  async flush(): Promise<void> {
+    while (this.inFlightPromise || this.pending.length > 0) {
+      const ok = await (this.inFlightPromise ?? this.commit())
+      if (!ok) throw new Error(this.writeError ?? 'Failed to write samples')
+    }
+  }
+
+  /**
+   * Write samples left in the write-ahead log by pages that are gone (e.g. after
+   * a crash) into IndexedDB; resolves with the number of samples recovered
+   */
+  async recoverLog(): Promise<number> {
+    const storage = this.storage
+    if (!storage) return 0
+
+    // Chunks and heartbeats of other pages whose heartbeat has stopped
+    const isGone = (page: string) => page !== this.page &&
+      !(Date.now() - Number(storage.getItem(`${HEARTBEAT_KEY}.${page}`) ?? 0) < HEARTBEAT_STALE_MS)
+    const keys: string[] = []
+    const heartbeats: string[] = []
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i)
+      if (key?.startsWith(`${STORAGE_KEY}.`) && isGone(key.slice(STORAGE_KEY.length + 1).split('.')[0])) keys.push(key)
+      if (key?.startsWith(`${HEARTBEAT_KEY}.`) && isGone(key.slice(HEARTBEAT_KEY.length + 1))) heartbeats.push(key)
+    }
+
+    const rows: LogRow[] = []
+    for (const key of keys) {
+      try {
+        rows.push(...JSON.parse(storage.getItem(key) ?? '[]'))
+      } catch (error) {
+        console.warn('Ignoring unreadable sample write-ahead log chunk:', error)
+      }
+    }
+    if (rows.length > 0) await storeSamples(rows.map(fromLogRow))
+    keys.forEach(key => storage.removeItem(key))
+    heartbeats.forEach(key => storage.removeItem(key))
+    return rows.length
+  }
+
+  /**
+   * Flush timer: refresh the log, start a batch if none is running, check the quota
+   */
+  private tick(): void {
+    this.beat()
+    this.writeLog()
+    if (!this.inFlightPromise && this.pending.length > 0) {
+      this.commit()
+    }
+
+    const now = performance.now()
+    if (now - this.lastQuotaCheck >= QUOTA_CHECK_INTERVAL_MS) {
+      this.lastQuotaCheck = now
+      this.checkQuota()
+    }
+
+    if (!this.inFlightPromise && this.pending.length === 0 && this.timer !== null) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    this.updateStats({})
+  }
+
+  private commit(): Promise<boolean> {
+    const batch = this.pending.splice(0, MAX_BATCH_SAMPLES)
+    this.inFlight = batch
+    const startedAt = performance.now()
+
+    this.inFlightPromise = storeSamples(batch)
+      .then(() => {
+        const writeMs = performance.now() - startedAt
+        const batches = this.stats.batches + 1
+        this.totalWriteMs += writeMs
+        this.inFlight = []
+        this.inFlightPromise = null
+        this.writeError = null
+        this.writeLog()
+        this.updateStats({
+          committedSamples: this.stats.committedSamples + batch.length,
+          batches,
+          lastBatchSize: batch.length,
+          lastWriteMs: writeMs,
+          avgWriteMs: this.totalWriteMs / batches,
+          maxWriteMs: Math.max(this.stats.maxWriteMs ?? 0, writeMs)
+        })
+        // Catch up straight away rather than one batch per flush interval
+        if (this.pending.length >= MAX_BATCH_SAMPLES) {
+          this.commit()
+        }
+        return true
+      })
+      .catch(error => {
+        // Put the batch back in front; the next flush retries it
+        this.pending.unshift(...batch)
+        this.inFlight = []
+        this.inFlightPromise = null
+        this.writeLog()
+        const message = error instanceof DOMException && error.name === 'QuotaExceededError'
+          ? 'Storage quota exceeded - samples are queued in memory'
+          : `Failed to write samples: ${error instanceof Error ? error.message : String(error)}`
+        console.error(message, error)
+        this.writeError = message
+        this.updateStats({})
+        if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+          this.checkQuota()
+        }
+        return false
+      })
+
+    return this.inFlightPromise
+  }
+
+  /**
+   * Append samples queued since the last call to the log and remove chunks that
+   * are fully committed (synchronous, so it survives the page being killed right after)
+   */
+  private writeLog(): void {
+    const storage = this.storage
+    if (!storage) return
+
+    // Nothing below the oldest queued sample is still needed
+    const oldest = this.inFlight[0] ?? this.pending[0]
+    const queuedFrom = oldest ? this.sequences.get(oldest) ?? this.nextSequence : this.nextSequence
+    while (this.logChunks.length > 0 && this.logChunks[0].end <= queuedFrom) {
+      const chunk = this.logChunks.shift()!
+      storage.removeItem(chunk.key)
+      this.logChars -= chunk.chars
+    }
+
+    // New samples are at the end of the queue
+    let first = this.pending.length
+    while (first > 0 && (this.sequences.get(this.pending[first - 1]) ?? 0) >= this.loggedThrough) first--
+    const fresh = this.pending.slice(first)
+    this.loggedThrough = this.nextSequence
+
+    let logError: string | null = null
+    if (fresh.length > 0) {
+      const serialized = JSON.stringify(fresh.map(toLogRow))
+      const key = `${STORAGE_KEY}.${this.page}.${this.sequences.get(fresh[0])}`
+      if (this.logChars + serialized.length > MAX_LOG_CHARS) {
+        logError = 'Write-ahead log full - the newest samples are not crash-safe until storage catches up'
+      } else {
+        try {
+          storage.setItem(key, serialized)
+          this.logChunks.push({ key, end: this.nextSequence, chars: serialized.length })
+          this.logChars += serialized.length
+        } catch (error) {
+          logError = `Write-ahead log failed - samples are not crash-safe: ${error instanceof Error ? error.message : String(error)}`
+        }
+      }
+    }
+
+    if (logError !== null && logError !== this.logError) console.error(logError)
+    // A log problem stays reported until the log is written again or nothing is left to lose
+    if (fresh.length > 0) this.logError = logError
+    else if (!oldest) this.logError = null
+
+    const walBytes = this.logChars * 2 // UTF-16
+    if (walBytes !== this.stats.walBytes || this.stats.lastError !== (this.logError ?? this.writeError)) {
+      this.updateStats({ walBytes })
+    }
+  }
+
+  // Tell other pages this one is alive and still owns its log chunks
+  private beat(): void {
+    try {
+      this.storage?.setItem(`${HEARTBEAT_KEY}.${this.page}`, String(Date.now()))
+    } catch (error) {
+      console.warn('Sample write-ahead log heartbeat failed:', error)
+    }
+  }
+
+  private checkQuota(): void {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return
+
+    navigator.storage.estimate()
+      .then(({ usage, quota }) => this.updateStats({ storageUsage: usage ?? null, storageQuota: quota ?? null }))
+      .catch(error => console.warn('Storage estimate unavailable:', error))
+  }
+
+  private updateStats(changes: Partial<SampleWriterStats>): void {
+    const queuedSamples = this.pending.length + this.inFlight.length
+    this.stats = {
+      ...this.stats,
+      ...changes,
+      lastError: this.logError ?? this.writeError,
+      queuedSamples,
+      backPressure: queuedSamples > BACK_PRESSURE_SAMPLES
+    }
+    this.listeners.forEach(listener => listener())
+  }
+
+  /**
+   * Stop the flush timer and forget queued samples and statistics (the log is kept)
+   */
+  reset(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    this.pending = []
+    this.inFlight = []
+    this.inFlightPromise = null
+    this.totalWriteMs = 0
+    // Logged chunks stay in storage for the next page to recover
+    this.loggedThrough = this.nextSequence
+    this.logChunks = []
+    this.logChars = 0
+    this.logError = null
+    this.writeError = null
+    this.stats = EMPTY_STATS
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+function toLogRow(sample: SessionSample): LogRow {
+  return [
+    sample.sessionId, sample.index, sample.time, sample.timestamp,
+    sample.maternalBPM, sample.fetalBPM, sample.mother, sample.combined, sample.fetus,
+    sample.rawMother ?? null, sample.rawCombined ?? null, sample.rawFetus ?? null,
+    sample.maternalVoltage, sample.fetalVoltage, sample.combinedVoltage
+  ]
+}
+
+function fromLogRow([
+  sessionId, index, time, timestamp, maternalBPM, fetalBPM, mother, combined, fetus, rawMother, rawCombined, rawFetus,
+  maternalVoltage, fetalVoltage, combinedVoltage
+]: LogRow): SessionSample {
+  return {
+    sessionId,
+    index,
+    time,
+    timestamp,
+    maternalVoltage,
+    fetalVoltage,
+    combinedVoltage,
+    maternalBPM,
+    fetalBPM,
+    mother,
+    combined,
+    fetus,
+    rawMother,
+    rawCombined,
+    rawFetus
+  }
+}
+
+/**
+ * Factory function to create a sample writer
+ */
+export function createSampleWriter(storage: Storage | null): SampleWriter {
+  return new SampleWriter(storage)
+}
+
+// Shared writer used by the whole app
+export const sampleWriter = createSampleWriter(
+  typeof window !== 'undefined' ? window.localStorage : null
+)
@@ -0,0 +1,345 @@
+/**
+ * Serial Pipeline
+ *
+ * Everything between the bytes read from the Arduino and the samples the
+ * monitor plots, run in the serial worker so chart rendering can't hold it up:
+ * - Splits the byte stream into text lines and binary frames (serialProtocol)
+ * - Parses the line formats and maps channels to signals
+ * - Ignores samples until the connection handshake completes (counted in the
+ *   link statistics), as their format and channels aren't known yet
+ * - Filters the combined lead (signalProcessor) at the monitor's sample rate
+ * - Collects samples in a ring buffer, handed over in batches of typed arrays
+ *   whose buffers are transferred rather than copied
+ *
+ * Header lines and command replies go back to the main thread, which owns the
+ * port's write side and the device command channel.
+ */
+
+import { SignalMapping } from '../hooks/useArduinoSerial'
+import { parseHeaderLine } from './deviceCapabilities'
+import { SerialFrame, SerialLinkStats, createSerialDecoder } from './serialProtocol'
+import { createEKGSignalProcessor } from './signalProcessor'
+import { normalizeArduinoSignal } from './signalNormalization'
+
+export interface SerialPipelineConfig {
+  signalMapping: SignalMapping
+  singleValueSignal: 'fetal' | 'combined'  // Which slot a single-value line fills
+  channelMask: number | null    // Streamed channels from the device's INFO reply (null = unknown)
+  sampleRate: number            // Rate (Hz) the noise filters are designed for
+  adcMax: number                // Largest ADC reading, for normalization before filtering
+}
+
+export interface ArduinoBatch {
+  count: number
+  mother: Float64Array          // As received (ADC counts, or volts from text devices)
+  combined: Float64Array
+  fetus: Float64Array
+  filteredCombined: Float64Array  // Combined lead normalized to the ADC range and noise filtered
+  missed: Uint32Array           // Samples lost just before each one
+  reconnected: boolean          // Starts with the first sample after an automatic reconnection (set on the main thread)
+}
+
+// Main thread to worker
+export type SerialWorkerRequest =
+  | { type: 'open', generation: number, config: SerialPipelineConfig }  // New port: forget all state
+  | { type: 'configure', config: Partial<SerialPipelineConfig> }
+  | { type: 'chunk', bytes: Uint8Array }
+  | { type: 'handshake' }                     // The main thread settled the handshake
+  | { type: 'reset-filters' }
+
+// Worker to main thread, tagged with the generation of the port the data came from
+export type SerialWorkerMessage =
+  | { type: 'batch', generation: number, batch: ArduinoBatch }
+  | { type: 'lines', generation: number, lines: string[] }  // Header lines and command replies
+  | { type: 'handshake', generation: number }                // Data after the header lines ended the handshake
+  | { type: 'stats', generation: number, stats: SerialLinkStats }
+
+interface ArduinoData {
+  mother: number
+  combined: number
+  fetus: number
+  missed?: number
+}
+
+interface RawArduinoData {
+  channel1?: number
+  channel2?: number
+  channel3?: number
+}
+
+// 16 s at 250 Hz; only reached if the worker itself is held up
+const RING_CAPACITY = 4096
+// Batches of about 5 samples at 250 Hz
+const FLUSH_INTERVAL_MS = 20
+
+export const DEFAULT_PIPELINE_CONFIG: SerialPipelineConfig = {
+  signalMapping: { channel1: 'maternal', channel2: 'combined', channel3: 'fetal' },
+  singleValueSignal: 'fetal',
+  channelMask: null,
+  sampleRate: 250,
+  adcMax: 1023
+}
+
+export class SerialPipeline {
+  private post: (message: SerialWorkerMessage, transfer: Transferable[]) => void
+  private config: SerialPipelineConfig = DEFAULT_PIPELINE_CONFIG
+  private generation = 0
+  private decoder = createSerialDecoder()
+  private filter = createEKGSignalProcessor(DEFAULT_PIPELINE_CONFIG.sampleRate)
+  private headerSeen = false
+  private handshakeComplete = false
+
+  // Ring buffer of samples not yet handed over
+  private mother = new Float64Array(RING_CAPACITY)
+  private combined = new Float64Array(RING_CAPACITY)
+  private fetus = new Float64Array(RING_CAPACITY)
+  private filteredCombined = new Float64Array(RING_CAPACITY)
+  private missed = new Uint32Array(RING_CAPACITY)
+  private start = 0
+  private size = 0
+
+  constructor(post: (message: SerialWorkerMessage, transfer: Transferable[]) => void) {
+    this.post = post
+    this.decoder.subscribe(() => {
+      this.post({ type: 'stats', generation: this.generation, stats: this.decoder.getStats() }, [])
+    })
+    setInterval(() => this.flush(), FLUSH_INTERVAL_MS)
+  }
+
+  handle(request: SerialWorkerRequest): void {
+    switch (request.type) {
+      case 'open':
+        this.generation = request.generation
+        this.configure(request.config)
+        this.filter.reset()
+        this.headerSeen = false
+        this.handshakeComplete = false
+        this.start = 0
+        this.size = 0
+        this.decoder.reset()
+        break
+      case 'configure':
+        this.configure(request.config)
+        break
+      case 'chunk':
+        this.push(request.bytes)
+        break
+      case 'handshake':
+        this.handshakeComplete = true
+        break
+      case 'reset-filters':
+        this.filter.reset()
+        break
+    }
+  }
+
+  private configure(changes: Partial<SerialPipelineConfig>): void {
+    if (changes.sampleRate !== undefined && changes.sampleRate !== this.config.sampleRate) {
+      this.filter = createEKGSignalProcessor(changes.sampleRate)
+    }
+    this.config = { ...this.config, ...changes }
+  }
+
+  private push(bytes: Uint8Array): void {
+    const lines: string[] = []
+    for (const packet of this.decoder.push(bytes)) {
+      if (packet.kind === 'frame') {
+        this.handleFrame(packet.frame)
+        continue
+      }
+      const trimmed = packet.text.trim()
+      if (!trimmed) continue // Skip empty lines
+      if (trimmed.startsWith('#')) {
+        // Header lines describe the device; a hello line ends the handshake
+        const capabilities = parseHeaderLine(trimmed)
+        if (capabilities) this.headerSeen = true
+        if (capabilities?.source === 'hello') this.handshakeComplete = true
+        lines.push(trimmed)
+      } else if (trimmed.startsWith('@')) {
+        lines.push(trimmed) // Command reply
+      } else {
+        this.handleLine(trimmed)
+      }
+    }
+    if (lines.length > 0) this.post({ type: 'lines', generation: this.generation, lines }, [])
+  }
+
+  // Helper function to map raw Arduino data to signal types
+  private mapRawDataToSignals(raw: RawArduinoData): ArduinoData {
+    const mapping = this.config.signalMapping
+
+    const result: ArduinoData = {
+      mother: 0,
+      combined: 0,
+      fetus: 0
+    }
+
+    // Map channel1
+    if (raw.channel1 !== undefined) {
+      if (mapping.channel1 === 'maternal') result.mother = raw.channel1
+      else if (mapping.channel1 === 'fetal') result.fetus = raw.channel1
+      else if (mapping.channel1 === 'combined') result.combined = raw.channel1
+    }
+
+    // Map channel2
+    if (raw.channel2 !== undefined) {
+      if (mapping.channel2 === 'maternal') result.mother = raw.channel2
+      else if (mapping.channel2 === 'fetal') result.fetus = raw.channel2
+      else if (mapping.channel2 === 'combined') result.combined = raw.channel2
+    }
+
+    // Map channel3
+    if (raw.channel3 !== undefined) {
+      if (mapping.channel3 === 'maternal') result.mother = raw.channel3
+      else if (mapping.channel3 === 'fetal') result.fetus = raw.channel3
+      else if (mapping.channel3 === 'combined') result.combined = raw.channel3
+    }
+
+    return result
+  }
+
+  private handleLine(trimmed: string): void {
+    try {
+      // Support three formats:
+      // 1. Simple single value: "2.45" (just a voltage number)
+      // 2. Legacy: "M:1.23,C:1.45,F:0.34" (direct mapping)
+      // 3. Channel-based: "A0:1.23,A1:1.45,A2:0.34" (flexible mapping)
+
+      // Check if it's a simple single number (no colons or commas)
+      if (!trimmed.includes(':') && !trimmed.includes(',')) {
+        const numValue = parseFloat(trimmed)
+        if (!isNaN(numValue)) {
+          // Single value format - fetal signal from A2 by default, or the
+          // abdominal lead when the fetus is extracted from it in software
+          this.deliver(this.config.singleValueSignal === 'combined'
+            ? { mother: 0, combined: numValue, fetus: 0 }
+            : { mother: 0, combined: 0, fetus: numValue })
+          return
+        }
+      }
+
+      const parts = trimmed.split(',')
+      const raw: RawArduinoData = {}
+      let isLegacyFormat = false
+
+      for (const part of parts) {
+        const [key, value] = part.split(':')
+        const numValue = parseFloat(value)
+
+        // Check for legacy format
+        if (key === 'M' || key === 'C' || key === 'F') {
+          isLegacyFormat = true
+          break
+        }
+
+        // Parse channel-based format
+        if (key === 'A0' || key === 'CH1' || key === '1') raw.channel1 = numValue
+        else if (key === 'A1' || key === 'CH2' || key === '2') raw.channel2 = numValue
+        else if (key === 'A2' || key === 'CH3' || key === '3') raw.channel3 = numValue
+      }
+
+      if (isLegacyFormat) {
+        // Use legacy parsing
+        const data: Partial<ArduinoData> = {}
+        for (const part of parts) {
+          const [key, value] = part.split(':')
+          const numValue = parseFloat(value)
+
+          if (key === 'M') data.mother = numValue
+          else if (key === 'C') data.combined = numValue
+          else if (key === 'F') data.fetus = numValue
+        }
+
+        if (data.mother !== undefined &&
+            data.combined !== undefined &&
+            data.fetus !== undefined) {
+          this.deliver(data as ArduinoData)
+        }
+      } else {
+        // Use new channel-based mapping
+        this.deliver(this.mapRawDataToSignals(raw))
+      }
+    } catch (e) {
+      console.warn('Failed to parse Arduino data:', trimmed)
+    }
+  }
+
+  // Binary frames carry ADC counts for the streamed channels in order
+  private handleFrame(frame: SerialFrame): void {
+    const mask = this.config.channelMask
+    if (mask === null && frame.channels.length === 1) {
+      const value = frame.channels[0]
+      this.deliver(this.config.singleValueSignal === 'combined'
+        ? { mother: 0, combined: value, fetus: 0, missed: frame.missed }
+        : { mother: 0, combined: 0, fetus: value, missed: frame.missed })
+      return
+    }
+    // Without device info, the frame starts at channel 1
+    const values: Array<number | undefined> = []
+    let next = 0
+    for (let channel = 0; channel < 3; channel++) {
+      if (mask === null || mask & (1 << channel)) values[channel] = frame.channels[next++]
+    }
+    const raw: RawArduinoData = { channel1: values[0], channel2: values[1], channel3: values[2] }
+    this.deliver({ ...this.mapRawDataToSignals(raw), missed: frame.missed })
+  }
+
+  private deliver(data: ArduinoData): void {
+    if (!this.handshakeComplete) {
+      // Data after the header lines ends the handshake; data before any is ignored
+      if (!this.headerSeen) {
+        this.decoder.countIgnoredSamples(1)
+        return
+      }
+      this.handshakeComplete = true
+      this.post({ type: 'handshake', generation: this.generation }, [])
+    }
+
+    if (this.size === RING_CAPACITY) {
+      // Full: the oldest sample is overwritten and counts as lost before the next one
+      const next = (this.start + 1) % RING_CAPACITY
+      this.missed[next] += this.missed[this.start] + 1
+      this.start = next
+      this.size--
+    }
+    const index = (this.start + this.size) % RING_CAPACITY
+    this.mother[index] = data.mother
+    this.combined[index] = data.combined
+    this.fetus[index] = data.fetus
+    this.filteredCombined[index] = this.filter.processSample(normalizeArduinoSignal(data.combined, this.config.adcMax))
+    this.missed[index] = data.missed ?? 0
+    this.size++
+  }
+
+  // Hand the buffered samples over; the copies' buffers are transferred
+  private flush(): void {
+    if (this.size === 0) return
+    const take = <T extends Float64Array | Uint32Array>(ring: T, copy: T): T => {
+      const end = this.start + this.size
+      copy.set(ring.subarray(this.start, Math.min(end, RING_CAPACITY)))
+      if (end > RING_CAPACITY) copy.set(ring.subarray(0, end - RING_CAPACITY), RING_CAPACITY - this.start)
+      return copy
+    }
+    const batch: ArduinoBatch = {
+      count: this.size,
+      mother: take(this.mother, new Float64Array(this.size)),
+      combined: take(this.combined, new Float64Array(this.size)),
+      fetus: take(this.fetus, new Float64Array(this.size)),
+      filteredCombined: take(this.filteredCombined, new Float64Array(this.size)),
+      missed: take(this.missed, new Uint32Array(this.size)),
+      reconnected: false
+    }
+    this.start = (this.start + this.size) % RING_CAPACITY
+    this.size = 0
+    this.post({ type: 'batch', generation: this.generation, batch }, [
+      batch.mother.buffer, batch.combined.buffer, batch.fetus.buffer, batch.filteredCombined.buffer, batch.missed.buffer
+    ])
+  }
+}
+
+/**
+ * Factory function to create a serial pipeline posting its output through `post`
+ */
+export function createSerialPipeline(post: (message: SerialWorkerMessage, transfer: Transferable[]) => void): SerialPipeline {
+  return new SerialPipeline(post)
+}
@@ -0,0 +1,348 @@
+/**
+ * Serial Protocol
+ *
+ * Splits the Arduino byte stream into text lines (the "A0:..,A1:..,A2:.." formats
+ * and "#" comments) and binary frames, which carry what text lines can't:
+ *
+ *   offset  size  field
+ *   0       2     sync bytes 0xA5 0x5A
+ *   2       1     channel count N (1-8)
+ *   3       2     sequence number (uint16 LE, wraps)
+ *   5       4     device timestamp in µs (uint32 LE, wraps after ~71.6 min)
+ *   9       2N    samples (int16 LE, ADC counts)
+ *   9+2N    2     CRC-16/CCITT-FALSE of bytes 2 to 8+2N (uint16 LE)
+ *
+ * - A 0xA5 byte starts a frame only when 0x5A and a channel count of 1-8 (never
+ *   text) follow; otherwise it is part of a text line (e.g. UTF-8 "¥")
+ * - A frame failing its CRC is dropped and decoding resumes one byte later; text
+ *   is skipped up to the next newline, as it may be the rest of that frame
+ * - Sequence gaps count the frames lost in between; a board that resets starts
+ *   again at a small timestamp, which is a restart rather than lost frames
+ * - Recording time counts the samples received plus the frames lost; the device
+ *   timestamp is only used to tell a restart from a clock wrap
+ * - Link statistics are published at most twice a second for the insights panel
+ *   (counts held back by that limit follow on a timer, so the last ones always
+ *   arrive); the decoder runs in the serial worker, which reports them to serialLinkStats
+ */
+
+export interface SerialFrame {
+  sequence: number
+  channels: number[]
+  missed: number                 // Frames lost just before this one
+}
+
+export type SerialPacket =
+  | { kind: 'line', text: string }
+  | { kind: 'frame', frame: SerialFrame }
+
+export interface SerialLinkStats {
+  protocol: 'text' | 'binary' | null  // Binary once any frame arrived (null = nothing yet)
+  framesReceived: number
+  linesReceived: number
+  crcErrors: number
+  sequenceGaps: number           // Gaps seen (each may span several frames)
+  framesLost: number             // Frames missing from the sequence
+  bytesDiscarded: number         // Skipped while looking for the next frame or line
+  samplesIgnored: number         // Decoded before the connection handshake finished, so not used
+}
+
+export const FRAME_SYNC = [0xa5, 0x5a] as const
+export const MAX_FRAME_CHANNELS = 8
+
+const HEADER_BYTES = 9
+const CRC_BYTES = 2
+const MAX_LINE_BYTES = 256
+const PUBLISH_INTERVAL_MS = 500
+// A sequence jump of half the range or more is a device restart, not lost frames
+const RESTART_JUMP = 0x8000
+// The device clock only runs backwards when it wraps, a moment after the last frame (µs);
+// a drop leaving longer than this since that frame is a restart
+const MAX_WRAP_ELAPSED_US = 10_000_000
+
+const EMPTY_STATS: SerialLinkStats = {
+  protocol: null,
+  framesReceived: 0,
+  linesReceived: 0,
+  crcErrors: 0,
+  sequenceGaps: 0,
+  framesLost: 0,
+  bytesDiscarded: 0,
+  samplesIgnored: 0
+}
+
+/**
+ * CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF), as computed by the sketch
+ */
+export function crc16(bytes: Uint8Array, start: number = 0, end: number = bytes.length): number {
+  let crc = 0xffff
+  for (let i = start; i < end; i++) {
+    crc ^= bytes[i] << 8
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff
+    }
+  }
+  return crc
+}
+
+function frameSize(channelCount: number): number {
+  return HEADER_BYTES + channelCount * 2 + CRC_BYTES
+}
+
+type FrameCheck = 'frame' | 'corrupt' | 'text' | 'incomplete'
+
+/**
+ * What the bytes at `position` (a 0xA5 byte) are: a frame, a frame header failing
+ * its CRC, text, or not yet known
+ */
+function checkFrame(data: Uint8Array, position: number): FrameCheck {
+  const available = data.length - position
+  if (available < 2) return 'incomplete'
+  if (data[position + 1] !== FRAME_SYNC[1]) return 'text'
+  if (available < 3) return 'incomplete'
+  const channelCount = data[position + 2]
+  if (channelCount === 0 || channelCount > MAX_FRAME_CHANNELS) return 'text'
+  const size = frameSize(channelCount)
+  if (available < size) return 'incomplete'
+  const expected = data[position + size - 2] | (data[position + size - 1] << 8)
+  return crc16(data, position + 2, position + size - CRC_BYTES) === expected ? 'frame' : 'corrupt'
+}
+
+/**
+ * Encode one frame (the byte layout the sketch sends)
+ */
+export function encodeSerialFrame(sequence: number, timestampMicros: number, channels: number[]): Uint8Array<ArrayBuffer> {
+  if (channels.length === 0 || channels.length > MAX_FRAME_CHANNELS) {
+    throw new Error(`A frame carries 1-${MAX_FRAME_CHANNELS} channels`)
+  }
+  const bytes = new Uint8Array(frameSize(channels.length))
+  const view = new DataView(bytes.buffer)
+  bytes[0] = FRAME_SYNC[0]
+  bytes[1] = FRAME_SYNC[1]
+  bytes[2] = channels.length
+  view.setUint16(3, sequence & 0xffff, true)
+  view.setUint32(5, timestampMicros >>> 0, true)
+  channels.forEach((value, i) => view.setInt16(HEADER_BYTES + i * 2, value, true))
+  view.setUint16(bytes.length - CRC_BYTES, crc16(bytes, 2, bytes.length - CRC_BYTES), true)
+  return bytes
+}
+
+export class SerialDecoder {
+  private pending = new Uint8Array(0)
+  private textDecoder = new TextDecoder()
+  private lastSequence: number | null = null
+  private lastTimestamp: number | null = null
+  private resyncing = false      // After a corrupt frame, text is only trusted again from the next newline
+  private counted: SerialLinkStats = EMPTY_STATS   // Up to date
+  private stats: SerialLinkStats = EMPTY_STATS     // Last published
+  private lastPublish = -Infinity
+  private publishTimer: ReturnType<typeof setTimeout> | null = null
+  private listeners = new Set<() => void>()
+
+  /**
+   * Current statistics (same object until the next published change)
+   */
+  getStats = (): SerialLinkStats => this.stats
+
+  /**
+   * Register a change listener; returns the unsubscribe function
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Decode a chunk read from the port; incomplete data waits for the next chunk
+   */
+  push(chunk: Uint8Array): SerialPacket[] {
+    const data = new Uint8Array(this.pending.length + chunk.length)
+    data.set(this.pending)
+    data.set(chunk, this.pending.length)
+
+    const packets: SerialPacket[] = []
+    const counts = { frames: 0, lines: 0, crcErrors: 0, gaps: 0, lost: 0, discarded: 0, ignored: 0 }
+    let position = 0
+
+    while (position < data.length) {
+      const check = data[position] === FRAME_SYNC[0] ? checkFrame(data, position) : 'text'
+      if (check === 'incomplete') break
+      if (check === 'corrupt') {
+        counts.crcErrors++
+        position++
+        this.resyncing = true
+        continue
+      }
+      if (check === 'frame') {
+        const channelCount = data[position + 2]
+        const size = frameSize(channelCount)
+        const frame = this.decodeFrame(new DataView(data.buffer, data.byteOffset + position, size), channelCount)
+        if (frame.missed > 0) {
+          counts.gaps++
+          counts.lost += frame.missed
+        }
+        counts.frames++
+        packets.push({ kind: 'frame', frame })
+        position += size
+        this.resyncing = false
+        continue
+      }
+
+      // Text runs to the next newline; a frame first means the line was cut off
+      let end = position
+      let frameStart: FrameCheck = 'text'
+      while (end < data.length && data[end] !== 0x0a) {
+        if (data[end] === FRAME_SYNC[0] && end > position) {
+          frameStart = checkFrame(data, end)
+          if (frameStart !== 'text') break
+        }
+        end++
+      }
+      if ((end === data.length || frameStart === 'incomplete') && end - position <= MAX_LINE_BYTES) break
+
+      if (end < data.length && data[end] === 0x0a && !this.resyncing) {
+        packets.push({ kind: 'line', text: this.textDecoder.decode(data.subarray(position, end)) })
+        counts.lines++
+      } else {
+        counts.discarded += end - position
+      }
+      if (end < data.length && data[end] === 0x0a) {
+        this.resyncing = false
+        end++
+      }
+      position = end
+    }
+
+    this.pending = data.slice(position)
+    this.record(counts)
+    return packets
+  }
+
+  /**
+   * Count samples the pipeline decoded but didn't use (received before the handshake)
+   */
+  countIgnoredSamples(count: number): void {
+    this.record({ frames: 0, lines: 0, crcErrors: 0, gaps: 0, lost: 0, discarded: 0, ignored: count })
+  }
+
+  /**
+   * Forget buffered bytes, sequence state and statistics (call for each new connection)
+   */
+  reset(): void {
+    this.pending = new Uint8Array(0)
+    this.lastSequence = null
+    this.lastTimestamp = null
+    this.resyncing = false
+    this.counted = EMPTY_STATS
+    this.stats = EMPTY_STATS
+    this.lastPublish = -Infinity
+    if (this.publishTimer !== null) {
+      clearTimeout(this.publishTimer)
+      this.publishTimer = null
+    }
+    this.listeners.forEach(listener => listener())
+  }
+
+  private decodeFrame(view: DataView, channelCount: number): SerialFrame {
+    const sequence = view.getUint16(3, true)
+    const timestamp = view.getUint32(5, true)
+    const channels: number[] = []
+    for (let i = 0; i < channelCount; i++) {
+      channels.push(view.getInt16(HEADER_BYTES + i * 2, true))
+    }
+
+    let missed = 0
+    if (this.lastSequence !== null && this.lastTimestamp !== null) {
+      const jump = (sequence - this.lastSequence - 1) & 0xffff
+      const elapsed = (timestamp - this.lastTimestamp) >>> 0
+      // A device restart loses nothing
+      const restarted = jump >= RESTART_JUMP || (timestamp < this.lastTimestamp && elapsed > MAX_WRAP_ELAPSED_US)
+      if (!restarted) missed = jump
+    }
+    this.lastSequence = sequence
+    this.lastTimestamp = timestamp
+
+    return { sequence, channels, missed }
+  }
+
+  private record(counts: { frames: number, lines: number, crcErrors: number, gaps: number, lost: number, discarded: number, ignored: number }): void {
+    if (counts.frames + counts.lines + counts.crcErrors + counts.discarded + counts.ignored > 0) {
+      const stats = this.counted
+      this.counted = {
+        // Binary devices still send text (comments, command replies), so one frame settles it
+        protocol: counts.frames > 0 || stats.protocol === 'binary' ? 'binary' : counts.lines > 0 ? 'text' : stats.protocol,
+        framesReceived: stats.framesReceived + counts.frames,
+        linesReceived: stats.linesReceived + counts.lines,
+        crcErrors: stats.crcErrors + counts.crcErrors,
+        sequenceGaps: stats.sequenceGaps + counts.gaps,
+        framesLost: stats.framesLost + counts.lost,
+        bytesDiscarded: stats.bytesDiscarded + counts.discarded,
+        samplesIgnored: stats.samplesIgnored + counts.ignored
+      }
+    }
+
+    if (this.counted === this.stats || this.publishTimer !== null) return
+    const wait = this.lastPublish + PUBLISH_INTERVAL_MS - performance.now()
+    if (wait <= 0) {
+      this.publish()
+    } else {
+      this.publishTimer = setTimeout(() => {
+        this.publishTimer = null
+        this.publish()
+      }, wait)
+    }
+  }
+
+  private publish(): void {
+    this.stats = this.counted
+    this.lastPublish = performance.now()
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+/**
+ * Factory function to create a serial stream decoder
+ */
+export function createSerialDecoder(): SerialDecoder {
+  return new SerialDecoder()
+}
+
+/**
+ * Link statistics on the main thread, as last reported by the decoder in the serial worker
+ */
+export class SerialLinkStatsStore {
+  private stats: SerialLinkStats = EMPTY_STATS
+  private listeners = new Set<() => void>()
+
+  /**
+   * Current statistics (same object until the next report)
+   */
+  getStats = (): SerialLinkStats => this.stats
+
+  /**
+   * Register a change listener; returns the unsubscribe function
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  publish(stats: SerialLinkStats): void {
+    if (stats === this.stats) return
+    this.stats = stats
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+/**
+ * Factory function to create a link statistics store
+ */
+export function createSerialLinkStatsStore(): SerialLinkStatsStore {
+  return new SerialLinkStatsStore()
+}
+
+// Statistics of the Arduino connection (one port at a time)
+export const serialLinkStats = createSerialLinkStatsStore()
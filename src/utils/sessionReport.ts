@@ -0,0 +1,727 @@
+/**
+ * Session Report
+ *
+ * Printable PDF report of a stored session for clinical handover:
+ * - Patient / session header and CTG summary (NICHD category, baseline,
+ *   variability, accelerations and decelerations)
+ * - FHR and maternal heart rate trends on CTG-style grids
+ * - Alarm summary table and waveform strips around each alarm
+ * - HRV statistics and signal quality summary
+ * Beats are detected again from the stored traces, so the report does not
+ * depend on what was on screen when the session was recorded.
+ */
+
+import { Chart, ChartConfiguration, Plugin } from 'chart.js/auto'
+import { createPDFDocument, PDFColor, PDFDocument, PDFImage, PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH } from './pdf'
+import {
+  getSession,
+  getSessionSamples,
+  getSessionEvents,
+  getSessionAnnotations,
+  MonitoringSession,
+  SessionAnnotation
+} from './dataStorage'
+import { AlarmEvent, AlarmEventRow, summarizeAlarmEvents } from './alarmEventLog'
+import { analyzeCTG, buildFHRSeries, CTGAnalysis, FHRSample } from './ctgAnalysis'
+import { classifyNICHD, NICHDClassification } from './nichdClassifier'
+import { createRRIntervalRecorder, summarizeHRV, HRVMetrics } from './hrvAnalysis'
+import { MONITORING_PRESETS } from './monitoringConfig'
+import { channelSamples, describeAlarmEvent } from './edfExport'
+
+const MARGIN = 40
+const CONTENT_WIDTH = PDF_PAGE_WIDTH - MARGIN * 2
+const CONTENT_BOTTOM = PDF_PAGE_HEIGHT - 48   // Leaves room for the footer
+const CHART_SCALE = 2                         // Canvas pixels per point
+const STRIP_SECONDS = 10                      // Waveform shown around each alarm (half before onset)
+const MAX_STRIPS = 12
+
+const TEXT: PDFColor = [0, 0, 0]
+const MUTED: PDFColor = [0.4, 0.4, 0.4]
+const RULE: PDFColor = [0.75, 0.75, 0.75]
+const HEADER_FILL: PDFColor = [0.92, 0.92, 0.92]
+const STATUS_COLORS: Record<'normal' | 'warning' | 'critical', PDFColor> = {
+  normal: TEXT,
+  warning: [0.75, 0.45, 0],
+  critical: [0.8, 0, 0]
+}
+
+// Trace colors darkened from the on-screen ones so they hold up on paper
+const FETAL_COLOR = 'rgb(120, 60, 220)'
+const MATERNAL_COLOR = 'rgb(20, 140, 130)'
+
+interface ReportData {
+  session: MonitoringSession
+  sessionId: number
+  duration: number                            // Seconds of stored waveform
+  storedSamples: number
+  expectedSamples: number
+  mother: Float32Array
+  fetus: Float32Array
+  events: AlarmEvent[]
+  alarmRows: AlarmEventRow[]
+  annotations: SessionAnnotation[]
+  ctg: CTGAnalysis
+  maternalTrend: FHRSample[]
+  nichd: NICHDClassification
+  hrv: { maternal: HRVMetrics | null, fetal: HRVMetrics | null }
+}
+
+interface TableColumn {
+  label: string
+  width: number                               // Fraction of the content width
+  align?: 'left' | 'right'
+}
+
+interface TableRow {
+  cells: string[]
+  color?: PDFColor
+}
+
+function formatElapsed(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds))
+  const h = Math.floor(whole / 3600)
+  const m = Math.floor((whole % 3600) / 60)
+  const s = whole % 60
+  return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)} s`
+  const minutes = Math.floor(seconds / 60)
+  return minutes < 60
+    ? `${minutes} min ${Math.round(seconds % 60)} s`
+    : `${Math.floor(minutes / 60)} h ${minutes % 60} min`
+}
+
+function formatMetric(value: number | null | undefined, digits: number = 0, unit: string = ''): string {
+  if (value === null || value === undefined || !Number.isFinite(value)) return '–'
+  return `${value.toFixed(digits)}${unit ? ` ${unit}` : ''}`
+}
+
+function percent(part: number, total: number): string {
+  return total > 0 ? `${(part / total * 100).toFixed(1)}%` : '–'
+}
+
+function rateRange(series: FHRSample[]): { min: number, max: number, mean: number } | null {
+  const rates = series.map(sample => sample.fhr).filter((fhr): fhr is number => fhr !== null)
+  if (rates.length === 0) return null
+  return {
+    min: Math.min(...rates),
+    max: Math.max(...rates),
+    mean: rates.reduce((sum, fhr) => sum + fhr, 0) / rates.length
+  }
+}
+
+// Alarm onsets worth a waveform strip: patient alarms and technical alarms
+function isAlarmOnset(event: AlarmEvent): boolean {
+  return (event.kind === 'status' && event.status !== 'normal') || (event.kind === 'technical' && event.priority !== null)
+}
+
+function eventColor(event: AlarmEvent): PDFColor {
+  if (event.kind === 'status' && event.status) return STATUS_COLORS[event.status]
+  if (event.kind === 'technical' && event.priority === 'high') return STATUS_COLORS.critical
+  return TEXT
+}
+
+async function loadReportData(sessionId: number): Promise<ReportData> {
+  const [session, samples, events, annotations] = await Promise.all([
+    getSession(sessionId),
+    getSessionSamples(sessionId),
+    getSessionEvents(sessionId),
+    getSessionAnnotations(sessionId)
+  ])
+  if (!session) {
+    throw new Error(`Session ${sessionId} not found`)
+  }
+
+  const traced = samples.filter(sample => sample.mother !== null && sample.fetus !== null)
+  if (traced.length === 0) {
+    throw new Error('This session has no stored waveform to report on')
+  }
+
+  const length = traced[traced.length - 1].index + 1
+  const mother = channelSamples(traced, 'mother', length)
+  const fetus = channelSamples(traced, 'fetus', length)
+
+  const recorder = createRRIntervalRecorder(session.sampleRate)
+  for (let i = 0; i < length; i++) {
+    recorder.processSample(mother[i], fetus[i])
+  }
+
+  const duration = length / session.sampleRate
+  const contractions = annotations.filter(annotation => annotation.kind === 'contraction').map(annotation => ({ time: annotation.time }))
+  const ctg = analyzeCTG(recorder.getIntervals('fetal'), contractions)
+
+  return {
+    session,
+    sessionId,
+    duration,
+    storedSamples: traced.length,
+    expectedSamples: length,
+    mother,
+    fetus,
+    events,
+    alarmRows: summarizeAlarmEvents(events, duration),
+    annotations,
+    ctg,
+    // The FHR trend builder's beat acceptance (50-240 BPM) covers maternal rates too
+    maternalTrend: buildFHRSeries(recorder.getIntervals('maternal')),
+    nichd: classifyNICHD(ctg, contractions.map(contraction => contraction.time)),
+    hrv: {
+      maternal: summarizeHRV(recorder.getIntervals('maternal'), 'maternal').session,
+      fetal: summarizeHRV(recorder.getIntervals('fetal'), 'fetal').session
+    }
+  }
+}
+
+// Chart.js draws on a transparent canvas, which JPEG would turn black
+const whiteBackground: Plugin<'line'> = {
+  id: 'reportBackground',
+  beforeDraw: chart => {
+    const { ctx, width, height } = chart
+    ctx.save()
+    ctx.fillStyle = '#ffffff'
+    ctx.fillRect(0, 0, width, height)
+    ctx.restore()
+  }
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+/**
+ * Render a Chart.js line chart to a JPEG sized for the given area (points)
+ */
+function renderChart(config: ChartConfiguration<'line'>, width: number, height: number): PDFImage {
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(width * CHART_SCALE)
+  canvas.height = Math.round(height * CHART_SCALE)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Could not get canvas context')
+  }
+
+  const chart = new Chart(ctx, {
+    ...config,
+    options: { ...config.options, responsive: false, animation: false, devicePixelRatio: 1 },
+    plugins: [whiteBackground]
+  })
+  const dataUrl = canvas.toDataURL('image/jpeg', 0.92)
+  chart.destroy()
+  return {
+    data: base64ToBytes(dataUrl.replace(/^data:image\/jpeg;base64,/, '')),
+    width: canvas.width,
+    height: canvas.height
+  }
+}
+
+const AXIS_FONT = { size: 16 }
+const GRID_COLOR = 'rgba(0, 0, 0, 0.15)'
+
+/**
+ * Heart rate trend against minutes, with the normal band as dashed lines
+ */
+function trendChart(
+  series: FHRSample[],
+  label: string,
+  color: string,
+  yRange: [number, number],
+  normal: [number, number] | null,
+  duration: number,
+  baseline: Array<{ x: number, y: number | null }> = []
+): ChartConfiguration<'line'> {
+  // One point per second is plenty at print resolution
+  const step = Math.max(1, Math.round(series.length / Math.max(1, duration)))
+  const points = series
+    .filter((_, i) => i % step === 0)
+    .map(sample => ({ x: sample.time / 60, y: sample.fhr }))
+  const minutes = Math.max(duration / 60, 1)
+  const limitLine = (value: number) => ({
+    label: '',
+    data: [{ x: 0, y: value }, { x: minutes, y: value }],
+    borderColor: 'rgba(0, 0, 0, 0.45)',
+    borderDash: [8, 6],
+    borderWidth: 1.5,
+    pointRadius: 0
+  })
+
+  return {
+    type: 'line',
+    data: {
+      datasets: [
+        { label, data: points, borderColor: color, borderWidth: 2, pointRadius: 0, spanGaps: false },
+        ...(baseline.length > 0
+          ? [{ label: 'Baseline', data: baseline, borderColor: 'rgba(0, 0, 0, 0.7)', borderWidth: 2, pointRadius: 0, spanGaps: false }]
+          : []),
+        ...(normal ? [limitLine(normal[0]), limitLine(normal[1])] : [])
+      ]
+    },
+    options: {
+      plugins: {
+        legend: { display: true, position: 'top', labels: { font: AXIS_FONT, filter: item => item.text !== '' } },
+        tooltip: { enabled: false }
+      },
+      scales: {
+        x: {
+          type: 'linear',
+          min: 0,
+          max: minutes,
+          title: { display: true, text: 'Time (min)', font: AXIS_FONT },
+          grid: { color: GRID_COLOR },
+          ticks: { font: AXIS_FONT }
+        },
+        y: {
+          min: yRange[0],
+          max: yRange[1],
+          title: { display: true, text: 'BPM', font: AXIS_FONT },
+          grid: { color: GRID_COLOR },
+          ticks: { stepSize: 10, font: AXIS_FONT, callback: value => Number(value) % 30 === 0 ? String(value) : '' }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Maternal and fetal traces stacked on one time axis
+ */
+function stripChart(data: ReportData, start: number, end: number, onset: number): ChartConfiguration<'line'> {
+  const rate = data.session.sampleRate
+  const from = Math.max(0, Math.floor(start * rate))
+  const to = Math.min(data.expectedSamples, Math.ceil(end * rate))
+  const trace = (values: Float32Array) => {
+    const points: Array<{ x: number, y: number }> = []
+    for (let i = from; i < to; i++) points.push({ x: i / rate, y: values[i] })
+    return points
+  }
+  const marker = (axis: string) => ({
+    label: '',
+    data: [{ x: onset, y: -1e6 }, { x: onset, y: 1e6 }],
+    borderColor: 'rgba(200, 0, 0, 0.6)',
+    borderWidth: 2,
+    pointRadius: 0,
+    yAxisID: axis
+  })
+  const traceAxis = (label: string) => ({
+    stack: 'strip',
+    stackWeight: 1,
+    title: { display: true, text: label, font: AXIS_FONT },
+    grid: { color: GRID_COLOR },
+    ticks: { display: false }
+  })
+
+  const mother = trace(data.mother)
+  const fetus = trace(data.fetus)
+  // Fixed per-strip bounds with some headroom, so the marker lines don't stretch the axes
+  const bounds = (points: Array<{ y: number }>) => {
+    const min = Math.min(...points.map(point => point.y))
+    const max = Math.max(...points.map(point => point.y))
+    const pad = (max - min) * 0.1 || 0.1
+    return { min: min - pad, max: max + pad }
+  }
+
+  return {
+    type: 'line',
+    data: {
+      datasets: [
+        { label: 'Maternal', data: mother, borderColor: MATERNAL_COLOR, borderWidth: 1.5, pointRadius: 0, yAxisID: 'maternal' },
+        { label: 'Fetal', data: fetus, borderColor: FETAL_COLOR, borderWidth: 1.5, pointRadius: 0, yAxisID: 'fetal' },
+        marker('maternal'),
+        marker('fetal')
+      ]
+    },
+    options: {
+      plugins: { legend: { display: false }, tooltip: { enabled: false } },
+      scales: {
+        x: {
+          type: 'linear',
+          min: start,
+          max: end,
+          title: { display: true, text: 'Time (s)', font: AXIS_FONT },
+          grid: { color: GRID_COLOR },
+          ticks: { stepSize: 1, font: AXIS_FONT }
+        },
+        fetal: { ...traceAxis('Fetal'), ...(fetus.length > 0 ? bounds(fetus) : {}) },
+        maternal: { ...traceAxis('Maternal'), ...(mother.length > 0 ? bounds(mother) : {}) }
+      }
+    }
+  }
+}
+
+/**
+ * Top-to-bottom layout over the document, adding pages as content fills them
+ */
+class ReportLayout {
+  y = MARGIN
+
+  constructor(private doc: PDFDocument) {
+    doc.addPage()
+  }
+
+  newPage(): void {
+    this.doc.addPage()
+    this.y = MARGIN
+  }
+
+  ensureSpace(height: number): void {
+    if (this.y + height > CONTENT_BOTTOM) this.newPage()
+  }
+
+  heading(text: string): void {
+    this.ensureSpace(40)
+    this.y += 14
+    this.doc.text(text.toUpperCase(), MARGIN, this.y, { size: 11, bold: true })
+    this.y += 5
+    this.doc.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, { stroke: TEXT, lineWidth: 1 })
+    this.y += 12
+  }
+
+  paragraph(text: string, color: PDFColor = TEXT, size: number = 9): void {
+    for (const line of this.doc.wrapText(text, CONTENT_WIDTH, size)) {
+      this.ensureSpace(size + 3)
+      this.doc.text(line, MARGIN, this.y + size, { size, color })
+      this.y += size + 3
+    }
+    this.y += 4
+  }
+
+  /**
+   * Label / value pairs in two columns
+   */
+  fields(pairs: Array<[string, string]>): void {
+    const columnWidth = CONTENT_WIDTH / 2
+    const labelWidth = 105
+    for (let i = 0; i < pairs.length; i += 2) {
+      const row = pairs.slice(i, i + 2)
+      const lines = row.map(([, value]) => this.doc.wrapText(value, columnWidth - labelWidth - 8, 9))
+      const height = Math.max(...lines.map(l => Math.max(1, l.length))) * 12 + 3
+      this.ensureSpace(height)
+      row.forEach(([label], column) => {
+        const x = MARGIN + column * columnWidth
+        this.doc.text(label, x, this.y + 9, { size: 9, bold: true, color: MUTED })
+        lines[column].forEach((line, n) => this.doc.text(line, x + labelWidth, this.y + 9 + n * 12, { size: 9 }))
+      })
+      this.y += height
+    }
+    this.y += 4
+  }
+
+  /**
+   * Table with a shaded header row, repeated after page breaks
+   */
+  table(columns: TableColumn[], rows: TableRow[]): void {
+    const widths = columns.map(column => column.width * CONTENT_WIDTH)
+    const drawHeader = () => {
+      this.doc.rect(MARGIN, this.y, CONTENT_WIDTH, 16, { fill: HEADER_FILL, stroke: null })
+      let x = MARGIN
+      columns.forEach((column, i) => {
+        const right = column.align === 'right'
+        this.doc.text(column.label, right ? x + widths[i] - 4 : x + 4, this.y + 11, { size: 8, bold: true, align: right ? 'right' : 'left' })
+        x += widths[i]
+      })
+      this.y += 16
+    }
+
+    this.ensureSpace(34)
+    drawHeader()
+    for (const row of rows) {
+      const lines = row.cells.map((cell, i) => this.doc.wrapText(cell, widths[i] - 8, 8))
+      const height = Math.max(...lines.map(l => Math.max(1, l.length))) * 10 + 6
+      if (this.y + height > CONTENT_BOTTOM) {
+        this.newPage()
+        drawHeader()
+      }
+      let x = MARGIN
+      columns.forEach((column, i) => {
+        const right = column.align === 'right'
+        lines[i].forEach((line, n) => this.doc.text(line, right ? x + widths[i] - 4 : x + 4, this.y + 11 + n * 10, {
+          size: 8,
+          color: row.color ?? TEXT,
+          align: right ? 'right' : 'left'
+        }))
+        x += widths[i]
+      })
+      this.y += height
+      this.doc.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, { stroke: RULE, lineWidth: 0.5 })
+    }
+    this.y += 8
+  }
+
+  image(image: PDFImage, height: number, caption: string | null = null): void {
+    this.ensureSpace(height + (caption ? 14 : 0) + 6)
+    if (caption) {
+      this.doc.text(caption, MARGIN, this.y + 9, { size: 9, bold: true })
+      this.y += 14
+    }
+    this.doc.image(image, MARGIN, this.y, CONTENT_WIDTH, height)
+    this.doc.rect(MARGIN, this.y, CONTENT_WIDTH, height, { stroke: RULE, lineWidth: 0.5 })
+    this.y += height + 8
+  }
+}
+
+function drawTitle(layout: ReportLayout, doc: PDFDocument, data: ReportData): void {
+  doc.text('FETAL MONITORING REPORT', MARGIN, layout.y + 16, { size: 18, bold: true })
+  doc.text(`Generated ${new Date().toLocaleString()}`, MARGIN + CONTENT_WIDTH, layout.y + 16, { size: 9, color: MUTED, align: 'right' })
+  layout.y += 26
+  doc.text(`Session #${data.sessionId}`, MARGIN, layout.y + 10, { size: 10, color: MUTED })
+  layout.y += 20
+}
+
+function drawSessionDetails(layout: ReportLayout, data: ReportData): void {
+  const { session } = data
+  const preset = session.monitoringConfig?.preset
+  layout.heading('Patient and Session')
+  layout.fields([
+    ['Patient ID', session.patientId || 'Not recorded'],
+    ['Operator', session.operator || 'Not recorded'],
+    ['Started', new Date(session.startedAt).toLocaleString()],
+    ['Ended', session.endedAt !== null ? new Date(session.endedAt).toLocaleString() : 'Not stopped (interrupted)'],
+    ['Recorded', formatDuration(data.duration)],
+    ['Data source', `${session.dataSource ?? 'unknown'}${session.signalPair ? ` (${session.signalPair})` : ''}`],
+    ['Fetal extraction', session.fetalExtraction ?? 'unknown'],
+    ['Threshold profile', preset ? (preset === 'custom' ? 'Custom' : MONITORING_PRESETS[preset].label) : 'unknown']
+  ])
+}
+
+function drawCTGSummary(layout: ReportLayout, data: ReportData): void {
+  const { ctg, nichd } = data
+  const fhr = rateRange(ctg.fhr)
+  const maternal = rateRange(data.maternalTrend)
+  const decelerationTypes = new Map<string, number>()
+  ctg.decelerations.forEach(d => decelerationTypes.set(d.type, (decelerationTypes.get(d.type) ?? 0) + 1))
+  const decelerations = ctg.decelerations.length === 0
+    ? 'None'
+    : `${ctg.decelerations.length} (${[...decelerationTypes].map(([type, count]) => `${count} ${type}`).join(', ')})`
+  const alarmCount = data.events.filter(isAlarmOnset).length
+
+  layout.heading('CTG Summary')
+  layout.fields([
+    ['NICHD category', nichd.category ? `Category ${nichd.category} (last ${Math.round(Math.min(nichd.windowSeconds, data.duration) / 60)} min)` : 'Indeterminate'],
+    ['Baseline FHR', formatMetric(ctg.currentBaseline, 0, 'BPM')],
+    ['Variability', ctg.currentVariability ? `${ctg.currentVariability.band} (${ctg.currentVariability.amplitude.toFixed(0)} BPM)` : '–'],
+    ['Accelerations', String(ctg.accelerations.length)],
+    ['Decelerations', decelerations],
+    ['Contractions', `${data.annotations.filter(a => a.kind === 'contraction').length} marked`],
+    ['FHR range', fhr ? `${fhr.min.toFixed(0)}–${fhr.max.toFixed(0)} BPM (mean ${fhr.mean.toFixed(0)})` : 'No fetal beats detected'],
+    ['Maternal HR', maternal ? `${maternal.min.toFixed(0)}–${maternal.max.toFixed(0)} BPM (mean ${maternal.mean.toFixed(0)})` : 'No maternal beats detected'],
+    ['Alarms', String(alarmCount)]
+  ])
+  if (nichd.drivers.length > 0) {
+    layout.paragraph(`Category drivers: ${nichd.drivers.join('; ')}`, MUTED)
+  }
+}
+
+function drawTrends(layout: ReportLayout, data: ReportData): void {
+  const thresholds = data.session.monitoringConfig?.thresholds
+  const baseline: Array<{ x: number, y: number | null }> = []
+  for (const segment of data.ctg.baseline) {
+    if (segment.baseline === null) continue
+    baseline.push({ x: segment.start / 60, y: segment.baseline }, { x: segment.end / 60, y: segment.baseline }, { x: segment.end / 60, y: null })
+  }
+
+  layout.heading('Heart Rate Trends')
+  layout.image(renderChart(trendChart(
+    data.ctg.fhr,
+    'Fetal heart rate',
+    FETAL_COLOR,
+    [50, 210],
+    thresholds ? [thresholds.fetal.normalLow, thresholds.fetal.normalHigh] : null,
+    data.duration,
+    baseline
+  ), CONTENT_WIDTH, 190), 190)
+  layout.image(renderChart(trendChart(
+    data.maternalTrend,
+    'Maternal heart rate',
+    MATERNAL_COLOR,
+    [30, 150],
+    thresholds ? [thresholds.maternal.normalLow, thresholds.maternal.normalHigh] : null,
+    data.duration
+  ), CONTENT_WIDTH, 140), 140)
+}
+
+function drawAlarmTable(layout: ReportLayout, data: ReportData): void {
+  layout.heading('Alarm Summary')
+  if (data.alarmRows.length === 0) {
+    layout.paragraph('No alarm events were recorded in this session.')
+    return
+  }
+  layout.table(
+    [
+      { label: 'Time', width: 0.12 },
+      { label: 'Clock', width: 0.14 },
+      { label: 'Event', width: 0.56 },
+      { label: 'Duration', width: 0.18, align: 'right' }
+    ],
+    data.alarmRows.map(({ event, duration, ongoing }) => ({
+      cells: [
+        formatElapsed(event.time),
+        new Date(event.timestamp).toLocaleTimeString(),
+        describeAlarmEvent(event),
+        duration === null ? '' : `${formatDuration(duration)}${ongoing ? ' (to end)' : ''}`
+      ],
+      color: eventColor(event)
+    }))
+  )
+}
+
+function drawHRV(layout: ReportLayout, data: ReportData): void {
+  const { maternal, fetal } = data.hrv
+  const row = (label: string, value: (metrics: HRVMetrics) => string) => ({
+    cells: [label, maternal ? value(maternal) : '–', fetal ? value(fetal) : '–']
+  })
+  layout.heading('HRV Statistics (whole session)')
+  layout.table(
+    [
+      { label: 'Metric', width: 0.4 },
+      { label: 'Maternal', width: 0.3, align: 'right' },
+      { label: 'Fetal', width: 0.3, align: 'right' }
+    ],
+    [
+      row('Intervals analysed (rejected)', m => `${m.intervalCount} (${m.rejectedCount})`),
+      row('Mean RR', m => formatMetric(m.meanRR, 0, 'ms')),
+      row('Mean HR', m => formatMetric(m.meanHR, 1, 'BPM')),
+      row('SDNN', m => formatMetric(m.sdnn, 1, 'ms')),
+      row('RMSSD', m => formatMetric(m.rmssd, 1, 'ms')),
+      row('pNN50', m => formatMetric(m.pnn50, 1, '%')),
+      row('LF power', m => formatMetric(m.lfPower, 1, 'ms²')),
+      row('HF power', m => formatMetric(m.hfPower, 1, 'ms²')),
+      row('LF/HF', m => formatMetric(m.lfHfRatio, 2))
+    ]
+  )
+}
+
+function drawSignalQuality(layout: ReportLayout, data: ReportData): void {
+  const missing = data.expectedSamples - data.storedSamples
+  const fetalLoss = data.ctg.fhr.filter(sample => sample.fhr === null).length
+  const maternalLoss = data.maternalTrend.filter(sample => sample.fhr === null).length
+  const technical = data.alarmRows.filter(({ event }) => event.kind === 'technical' && event.priority !== null)
+  const technicalSeconds = technical.reduce((sum, row) => sum + (row.duration ?? 0), 0)
+
+  layout.heading('Signal Quality')
+  layout.fields([
+    ['Samples stored', `${data.storedSamples.toLocaleString()} of ${data.expectedSamples.toLocaleString()}`],
+    ['Samples missing', missing > 0 ? `${missing.toLocaleString()} (${percent(missing, data.expectedSamples)})` : 'None'],
+    ['FHR signal loss', percent(fetalLoss, data.ctg.fhr.length)],
+    ['Maternal signal loss', percent(maternalLoss, data.maternalTrend.length)],
+    ['Technical alarms', String(technical.length)],
+    ['Time in technical alarm', `${formatDuration(technicalSeconds)} (${percent(technicalSeconds, data.duration)})`]
+  ])
+
+  if (technical.length > 0) {
+    const byMessage = new Map<string, { count: number, seconds: number }>()
+    for (const { event, duration } of technical) {
+      const entry = byMessage.get(event.message) ?? { count: 0, seconds: 0 }
+      entry.count++
+      entry.seconds += duration ?? 0
+      byMessage.set(event.message, entry)
+    }
+    layout.table(
+      [
+        { label: 'Technical condition', width: 0.6 },
+        { label: 'Occurrences', width: 0.2, align: 'right' },
+        { label: 'Total time', width: 0.2, align: 'right' }
+      ],
+      [...byMessage].map(([message, { count, seconds }]) => ({ cells: [message, String(count), formatDuration(seconds)] }))
+    )
+  }
+}
+
+function drawNotes(layout: ReportLayout, data: ReportData): void {
+  const notes = data.annotations.filter(annotation => annotation.kind === 'note')
+  if (notes.length === 0) return
+  layout.heading('Notes')
+  layout.table(
+    [
+      { label: 'Time', width: 0.12 },
+      { label: 'Note', width: 0.88 }
+    ],
+    notes.map(note => ({ cells: [formatElapsed(note.time), note.text] }))
+  )
+}
+
+function drawStrips(layout: ReportLayout, data: ReportData): void {
+  const onsets = data.events.filter(isAlarmOnset)
+  if (onsets.length === 0) return
+
+  layout.heading('Waveform Strips Around Alarms')
+  layout.paragraph(`${STRIP_SECONDS} s of maternal and fetal trace around each alarm onset, marked in red.`, MUTED)
+  for (const event of onsets.slice(0, MAX_STRIPS)) {
+    const start = Math.max(0, event.time - STRIP_SECONDS / 2)
+    const end = Math.min(data.duration, start + STRIP_SECONDS)
+    layout.image(
+      renderChart(stripChart(data, start, end, event.time), CONTENT_WIDTH, 120),
+      120,
+      `${formatElapsed(event.time)}  ${describeAlarmEvent(event)}`
+    )
+  }
+  if (onsets.length > MAX_STRIPS) {
+    layout.paragraph(`${onsets.length - MAX_STRIPS} further alarms are listed in the alarm summary without strips.`, MUTED)
+  }
+}
+
+function drawSignOff(layout: ReportLayout, doc: PDFDocument): void {
+  layout.ensureSpace(70)
+  layout.y += 24
+  const fields = ['Reviewed by', 'Signature', 'Date / time']
+  const width = CONTENT_WIDTH / fields.length
+  fields.forEach((label, i) => {
+    const x = MARGIN + i * width
+    doc.line(x, layout.y + 20, x + width - 16, layout.y + 20, { stroke: TEXT, lineWidth: 0.5 })
+    doc.text(label, x, layout.y + 32, { size: 8, color: MUTED })
+  })
+  layout.y += 40
+}
+
+function drawFooters(doc: PDFDocument, data: ReportData): void {
+  const patient = data.session.patientId ? `Patient ${data.session.patientId}` : 'Patient not recorded'
+  for (let page = 0; page < doc.pageCount; page++) {
+    doc.setPage(page)
+    const y = PDF_PAGE_HEIGHT - 24
+    doc.line(MARGIN, y - 10, MARGIN + CONTENT_WIDTH, y - 10, { stroke: RULE, lineWidth: 0.5 })
+    doc.text(`${patient} · Session #${data.sessionId} · ${new Date(data.session.startedAt).toLocaleDateString()}`, MARGIN, y, { size: 8, color: MUTED })
+    doc.text(`Page ${page + 1} of ${doc.pageCount}`, MARGIN + CONTENT_WIDTH, y, { size: 8, color: MUTED, align: 'right' })
+  }
+}
+
+/**
+ * Build the PDF report of a stored session; resolves with the file contents
+ */
+export async function sessionToReport(sessionId: number): Promise<Uint8Array<ArrayBuffer>> {
+  const data = await loadReportData(sessionId)
+  const doc = createPDFDocument()
+  const layout = new ReportLayout(doc)
+
+  drawTitle(layout, doc, data)
+  drawSessionDetails(layout, data)
+  drawCTGSummary(layout, data)
+  drawTrends(layout, data)
+  drawAlarmTable(layout, data)
+  drawHRV(layout, data)
+  drawSignalQuality(layout, data)
+  drawNotes(layout, data)
+  drawStrips(layout, data)
+  drawSignOff(layout, doc)
+  drawFooters(doc, data)
+
+  return doc.toBytes()
+}
+
+/**
+ * Build a stored session's report and download it as .pdf
+ */
+export async function exportSessionReport(sessionId: number): Promise<void> {
+  const bytes = await sessionToReport(sessionId)
+  const blob = new Blob([bytes], { type: 'application/pdf' })
+  const url = window.URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `Fetal_EKG_Report_Session_${sessionId}_${new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5)}.pdf`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  window.URL.revokeObjectURL(url)
+}
@@ -8,6 +8,14 @@
  * - Random noise
  */
 
+// Filter chain applied to the combined signal (also written to export metadata)
+export const NOISE_FILTER_SETTINGS = {
+  notchHz: 60,          // Powerline interference
+  lowpassHz: 40,        // Muscle artifacts, EMG
+  highpassHz: 0.5,      // Baseline wander
+  medianSamples: 5      // Remaining spikes
+} as const
+
 export class SignalProcessor {
   private sampleRate: number
   private buffer: number[] = []
@@ -18,9 +26,9 @@ export class SignalProcessor {
 
   constructor(sampleRate: number = 250) {
     this.sampleRate = sampleRate
-    this.notchFilterState = this.initNotchFilter(60) // 60 Hz powerline noise
-    this.lowpassFilterState = this.initLowpassFilter(40) // Remove high-freq noise
-    this.highpassFilterState = this.initHighpassFilter(0.5) // Remove baseline wander
+    this.notchFilterState = this.initNotchFilter(NOISE_FILTER_SETTINGS.notchHz) // 60 Hz powerline noise
+    this.lowpassFilterState = this.initLowpassFilter(NOISE_FILTER_SETTINGS.lowpassHz) // Remove high-freq noise
+    this.highpassFilterState = this.initHighpassFilter(NOISE_FILTER_SETTINGS.highpassHz) // Remove baseline wander
   }
 
   /**
@@ -184,12 +192,12 @@ export class SignalProcessor {
     this.buffer.push(sample)
 
     // Keep buffer size at 5 samples
-    if (this.buffer.length > 5) {
+    if (this.buffer.length > NOISE_FILTER_SETTINGS.medianSamples) {
       this.buffer.shift()
     }
 
     // Need at least 5 samples for median filter
-    if (this.buffer.length < 5) {
+    if (this.buffer.length < NOISE_FILTER_SETTINGS.medianSamples) {
       return sample
     }
 
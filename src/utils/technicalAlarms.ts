@@ -0,0 +1,296 @@
+/**
+ * Technical Alarm Monitor
+ *
+ * Watches the raw sample stream (before extraction and filtering) for faults
+ * that make the displayed heart rates untrustworthy:
+ * - Data gap: the device has stopped sending
+ * - Implausible sample rate: samples arrive much faster or slower than expected
+ * - ADC clipping: a channel pegged at 0 or full scale (lead off / saturation)
+ * - Flat line: a channel that carried a signal has gone flat (lead off)
+ * - Excessive noise: broadband / mains energy swamps the ECG
+ *
+ * Statistics are gathered in 0.5 s blocks and judged over a 2 s window, so the
+ * per-sample cost is a handful of additions. Channels that have never carried a
+ * signal (unmapped inputs) are ignored rather than reported as flat.
+ */
+
+import { AlarmCondition, AlarmPriority, ALARM_PRIORITY_RANK } from './alarmManager'
+
+export type TechnicalFaultType = 'data-gap' | 'sample-rate' | 'adc-clipping' | 'flatline' | 'noise'
+
+export type MonitoredChannel = 'maternal' | 'combined' | 'fetal'
+
+export interface TechnicalFault {
+  type: TechnicalFaultType
+  channel: MonitoredChannel | null // null = affects the whole stream
+  message: string
+}
+
+export interface TechnicalMonitorOptions {
+  adcMax: number | null     // Full-scale ADC value for clipping checks (null = not an ADC source)
+  checkTiming: boolean      // Check gaps and sample rate (live devices only)
+}
+
+// Lost or meaningless data is medium priority; a degraded but present signal is low
+export const TECHNICAL_FAULT_PRIORITY: Record<TechnicalFaultType, AlarmPriority> = {
+  'data-gap': 'medium',
+  'sample-rate': 'medium',
+  'flatline': 'medium',
+  'adc-clipping': 'low',
+  'noise': 'low'
+}
+
+// Faults that leave no usable signal; clipping and noise degrade it but a rate can still be read
+const SIGNAL_LOSS_FAULTS: TechnicalFaultType[] = ['data-gap', 'sample-rate', 'flatline']
+
+const CHANNELS: MonitoredChannel[] = ['maternal', 'combined', 'fetal']
+const CHANNEL_LABELS: Record<MonitoredChannel, string> = {
+  maternal: 'Maternal',
+  combined: 'Abdominal',
+  fetal: 'Fetal'
+}
+
+const BLOCK_SECONDS = 0.5
+const WINDOW_BLOCKS = 4                 // 2 s judgement window
+const GAP_MS = 1000                     // No samples for this long is a data gap
+const RATE_WINDOW_MS = 5000             // Sample rate measured over this long
+const RATE_TOLERANCE = 0.2              // Allowed deviation from the nominal rate
+const CLIP_FRACTION = 0.1               // Share of samples at a rail that counts as clipping
+const FLAT_RELATIVE = 0.03              // Flat: peak-to-peak below 3% of the channel's usual amplitude
+const FLAT_ADC_COUNTS = 2               // ... or within ADC quantisation noise
+const NO_SIGNAL_MS = 5000               // All channels silent this long after start
+const NOISE_RATIO = 0.5                 // Residual above ~25 Hz relative to the whole signal (RMS)
+const NOISE_BLOCKS = 3                  // Consecutive noisy judgements before reporting (ignores steps)
+
+interface BlockStats {
+  min: number
+  max: number
+  clipped: number
+  count: number
+  sum: number
+  sumSquares: number
+  residualSquares: number
+}
+
+interface ChannelState {
+  blocks: BlockStats[]                  // Completed blocks, oldest first
+  current: BlockStats
+  recent: number[]                      // Last 5 samples for the residual filter
+  referenceAmplitude: number            // Typical peak-to-peak while healthy (0 = never active)
+  noisyStreak: number
+  faults: TechnicalFault[]
+}
+
+function emptyBlock(): BlockStats {
+  return { min: Infinity, max: -Infinity, clipped: 0, count: 0, sum: 0, sumSquares: 0, residualSquares: 0 }
+}
+
+function createChannelState(): ChannelState {
+  return { blocks: [], current: emptyBlock(), recent: [], referenceAmplitude: 0, noisyStreak: 0, faults: [] }
+}
+
+export class TechnicalAlarmMonitor {
+  private sampleRate: number
+  private blockLength: number
+  private options: TechnicalMonitorOptions = { adcMax: null, checkTiming: false }
+  private channels: Record<MonitoredChannel, ChannelState>
+  private startedAt: number | null = null
+  private lastSampleAt: number | null = null
+  private sampleCount = 0
+  private rateHistory: Array<{ time: number, count: number }> = []
+
+  constructor(sampleRate: number) {
+    this.sampleRate = sampleRate
+    this.blockLength = Math.round(sampleRate * BLOCK_SECONDS)
+    this.channels = { maternal: createChannelState(), combined: createChannelState(), fetal: createChannelState() }
+  }
+
+  /**
+   * Set which checks apply to the current data source
+   */
+  configure(options: TechnicalMonitorOptions): void {
+    this.options = options
+  }
+
+  /**
+   * Begin watching a new stream (timing checks start from here)
+   */
+  start(now: number = Date.now()): void {
+    this.reset()
+    this.startedAt = now
+    this.rateHistory = [{ time: now, count: 0 }]
+  }
+
+  /**
+   * Feed one raw sample (source units, before normalization)
+   */
+  processSample(sample: Record<MonitoredChannel, number>, now: number = Date.now()): void {
+    this.lastSampleAt = now
+    this.sampleCount++
+    for (const channel of CHANNELS) {
+      this.addToChannel(channel, sample[channel])
+    }
+  }
+
+  /**
+   * Current faults; call periodically (about once a second)
+   */
+  evaluate(now: number = Date.now()): TechnicalFault[] {
+    if (this.startedAt === null) return []
+    const faults: TechnicalFault[] = []
+
+    if (this.options.checkTiming) {
+      const silentFor = now - (this.lastSampleAt ?? this.startedAt)
+      if (silentFor > GAP_MS) {
+        faults.push({ type: 'data-gap', channel: null, message: `No data from device for ${Math.floor(silentFor / 1000)}s` })
+      } else {
+        const rate = this.measureRate(now)
+        if (rate !== null && Math.abs(rate - this.sampleRate) > RATE_TOLERANCE * this.sampleRate) {
+          faults.push({
+            type: 'sample-rate',
+            channel: null,
+            message: `Implausible sample rate: ${Math.round(rate)} Hz (expected ${this.sampleRate} Hz)`
+          })
+        }
+      }
+    }
+
+    const active = CHANNELS.filter(channel => this.channels[channel].referenceAmplitude > 0)
+    if (active.length === 0 && now - this.startedAt > NO_SIGNAL_MS && this.sampleCount > 0) {
+      faults.push({ type: 'flatline', channel: null, message: 'No signal on any channel - check leads' })
+    }
+    for (const channel of active) {
+      faults.push(...this.channels[channel].faults)
+    }
+    return faults
+  }
+
+  /**
+   * Forget all state (e.g. when the data source changes)
+   */
+  reset(): void {
+    this.channels = { maternal: createChannelState(), combined: createChannelState(), fetal: createChannelState() }
+    this.startedAt = null
+    this.lastSampleAt = null
+    this.sampleCount = 0
+    this.rateHistory = []
+  }
+
+  private measureRate(now: number): number | null {
+    this.rateHistory.push({ time: now, count: this.sampleCount })
+    while (this.rateHistory.length > 1 && now - this.rateHistory[1].time >= RATE_WINDOW_MS) {
+      this.rateHistory.shift()
+    }
+    const oldest = this.rateHistory[0]
+    const elapsed = now - oldest.time
+    if (elapsed < RATE_WINDOW_MS) return null
+    return ((this.sampleCount - oldest.count) * 1000) / elapsed
+  }
+
+  private addToChannel(channel: MonitoredChannel, value: number): void {
+    const state = this.channels[channel]
+    const block = state.current
+    const adcMax = this.options.adcMax
+    block.min = Math.min(block.min, value)
+    block.max = Math.max(block.max, value)
+    block.count++
+    block.sum += value
+    block.sumSquares += value * value
+    if (adcMax !== null && (value <= 0 || value >= adcMax)) block.clipped++
+
+    // Residual after a 5-point moving average: the average nulls 50 Hz at 250 Hz and
+    // smooths broadband noise, so mains and EMG end up in the residual, most of the ECG does not
+    state.recent.push(value)
+    if (state.recent.length > 5) state.recent.shift()
+    if (state.recent.length === 5) {
+      const mean = (state.recent[0] + state.recent[1] + state.recent[2] + state.recent[3] + state.recent[4]) / 5
+      const residual = state.recent[2] - mean
+      block.residualSquares += residual * residual
+    }
+
+    if (block.count >= this.blockLength) {
+      state.blocks.push(block)
+      if (state.blocks.length > WINDOW_BLOCKS) state.blocks.shift()
+      state.current = emptyBlock()
+      this.judgeChannel(channel)
+    }
+  }
+
+  private judgeChannel(channel: MonitoredChannel): void {
+    const state = this.channels[channel]
+    const label = CHANNEL_LABELS[channel]
+    const adcMax = this.options.adcMax
+    const latest = state.blocks[state.blocks.length - 1]
+    const latestRange = latest.max - latest.min
+    const latestClipped = latest.clipped / latest.count >= CLIP_FRACTION
+    const flatLimit = Math.max(FLAT_RELATIVE * state.referenceAmplitude, adcMax !== null ? FLAT_ADC_COUNTS : 0)
+
+    // Learn the channel's healthy amplitude from blocks that are neither flat nor clipped
+    if (!latestClipped && latestRange > flatLimit) {
+      state.referenceAmplitude = state.referenceAmplitude === 0
+        ? latestRange
+        : 0.9 * state.referenceAmplitude + 0.1 * latestRange
+    }
+
+    state.faults = []
+    if (state.blocks.length < WINDOW_BLOCKS || state.referenceAmplitude === 0) return
+
+    let count = 0
+    let clipped = 0
+    let sum = 0
+    let sumSquares = 0
+    let residualSquares = 0
+    let flatBlocks = 0
+    for (const block of state.blocks) {
+      count += block.count
+      clipped += block.clipped
+      sum += block.sum
+      sumSquares += block.sumSquares
+      residualSquares += block.residualSquares
+      if (block.max - block.min <= flatLimit) flatBlocks++
+    }
+
+    if (adcMax !== null && clipped / count >= CLIP_FRACTION) {
+      state.faults.push({ type: 'adc-clipping', channel, message: `${label} lead saturated (ADC at 0 or ${adcMax})` })
+    } else if (flatBlocks === state.blocks.length) {
+      state.faults.push({ type: 'flatline', channel, message: `${label} signal flat - lead off?` })
+    } else {
+      const variance = sumSquares / count - (sum / count) ** 2
+      const noisy = variance > 0 && Math.sqrt(residualSquares / count / variance) > NOISE_RATIO
+      state.noisyStreak = noisy ? state.noisyStreak + 1 : 0
+      if (state.noisyStreak >= NOISE_BLOCKS) {
+        state.faults.push({ type: 'noise', channel, message: `${label} signal too noisy` })
+      }
+      return
+    }
+    state.noisyStreak = 0
+  }
+}
+
+/**
+ * Factory function to create a technical alarm monitor
+ */
+export function createTechnicalAlarmMonitor(sampleRate: number = 250): TechnicalAlarmMonitor {
+  return new TechnicalAlarmMonitor(sampleRate)
+}
+
+/**
+ * Technical alarm condition for a set of faults: the most serious fault sets
+ * the priority and every fault is listed in the message
+ */
+export function faultsToAlarmCondition(faults: TechnicalFault[]): AlarmCondition | null {
+  if (faults.length === 0) return null
+  const priority = faults
+    .map(fault => TECHNICAL_FAULT_PRIORITY[fault.type])
+    .reduce((a, b) => ALARM_PRIORITY_RANK[b] > ALARM_PRIORITY_RANK[a] ? b : a)
+  return { priority, message: faults.map(fault => fault.message).join('; ') }
+}
+
+/**
+ * Whether a fault leaves one of the given channels without a usable signal
+ * (stream-wide faults affect all)
+ */
+export function signalLostOnChannels(faults: TechnicalFault[], channels: MonitoredChannel[]): boolean {
+  return faults.some(fault =>
+    SIGNAL_LOSS_FAULTS.includes(fault.type) && (fault.channel === null || channels.includes(fault.channel)))
+}
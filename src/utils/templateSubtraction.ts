@@ -0,0 +1,293 @@
+/**
+ * Maternal Template Subtraction
+ *
+ * Extracts the fetal ECG from a single abdominal (combined) lead, without a
+ * separate maternal reference:
+ * - Detects maternal QRS complexes in the combined signal (maternal beats dominate)
+ * - Builds a running averaged maternal PQRST template from aligned beats
+ * - Aligns and scales the template to each beat and subtracts it
+ * - The residual is the fetal ECG plus noise
+ *
+ * A beat can only be subtracted once its whole PQRST window has been seen, so
+ * the output lags the input by a fixed latency (see getLatencySamples()).
+ */
+
+export interface TemplateExtractorStatus {
+  beatsDetected: number
+  templateBeats: number      // Beats averaged into the template so far (capped at averaging length)
+  maternalRate: number       // BPM estimated from detected maternal beats (0 if unknown)
+  isTemplateReady: boolean
+  latencySeconds: number
+}
+
+export interface TemplateExtractorOptions {
+  sampleRate?: number
+  preWindowSeconds?: number  // Template span before the R peak (P wave)
+  postWindowSeconds?: number // Template span after the R peak (T wave)
+  averagingBeats?: number    // Effective length of the running average
+}
+
+// Beats needed before the template is trusted for subtraction
+const MIN_TEMPLATE_BEATS = 5
+// Maternal heart cannot beat faster than ~200 BPM
+const REFRACTORY_SECONDS = 0.3
+// Fine alignment search range around the detected peak (samples)
+const ALIGNMENT_SEARCH = 3
+
+export class MaternalTemplateSubtractor {
+  private sampleRate: number
+  private preSamples: number
+  private postSamples: number
+  private averagingBeats: number
+  private latency: number
+  private bufferSize: number
+
+  // Ring buffers indexed by absolute sample number modulo bufferSize
+  private input: Float64Array
+  private residual: Float64Array
+  private template: Float64Array
+  private templateBeats = 0
+
+  private sampleIndex = 0
+  private dcState = { x1: 0, y1: 0 }
+
+  // QRS detector state (derivative energy with adaptive threshold)
+  private energyWindow: number[] = []
+  private energySum = 0
+  private peakLevel = 0
+  private candidatePeak: { index: number, energy: number } | null = null
+  private lastBeatIndex = -Infinity
+  private pendingBeats: number[] = []
+  private beatsDetected = 0
+  private recentIntervals: number[] = []
+
+  constructor(options: TemplateExtractorOptions = {}) {
+    this.sampleRate = options.sampleRate ?? 250
+    this.preSamples = Math.round((options.preWindowSeconds ?? 0.25) * this.sampleRate)
+    this.postSamples = Math.round((options.postWindowSeconds ?? 0.45) * this.sampleRate)
+    this.averagingBeats = options.averagingBeats ?? 20
+
+    // Output must wait for every beat overlapping it to be detected and subtracted:
+    // pre + post window plus the detector's decision delay (one refractory period)
+    this.latency = this.preSamples + this.postSamples + Math.round(REFRACTORY_SECONDS * this.sampleRate)
+    this.bufferSize = this.latency + this.preSamples + this.postSamples + 1
+    this.input = new Float64Array(this.bufferSize)
+    this.residual = new Float64Array(this.bufferSize)
+    this.template = new Float64Array(this.preSamples + this.postSamples + 1)
+  }
+
+  /**
+   * Process one combined-lead sample and return the fetal residual for the
+   * sample `getLatencySamples()` earlier (0 until the pipeline has filled)
+   */
+  processSample(combined: number): number {
+    const n = this.sampleIndex
+    const x = this.applyDCBlocker(combined)
+    this.input[n % this.bufferSize] = x
+    this.residual[n % this.bufferSize] = x
+
+    this.detectQRS(x, n)
+
+    // Subtract any beat whose full window is now available
+    while (this.pendingBeats.length > 0 && this.pendingBeats[0] + this.postSamples <= n) {
+      const beat = this.pendingBeats.shift()!
+      this.subtractBeat(beat)
+    }
+
+    this.sampleIndex++
+
+    const outputIndex = n - this.latency
+    if (outputIndex < 0) return 0
+    return this.residual[outputIndex % this.bufferSize]
+  }
+
+  /**
+   * Streaming maternal QRS detector on the combined lead
+   * Squared first difference, integrated over ~40ms, against an adaptive
+   * threshold at 40% of the running peak energy
+   */
+  private detectQRS(x: number, n: number): void {
+    const previous = n >= 2 ? this.input[(n - 2) % this.bufferSize] : 0
+    const slope = x - previous
+    const energy = slope * slope
+
+    const windowLength = Math.round(0.04 * this.sampleRate)
+    this.energyWindow.push(energy)
+    this.energySum += energy
+    if (this.energyWindow.length > windowLength) {
+      this.energySum -= this.energyWindow.shift()!
+    }
+    const integrated = this.energySum / this.energyWindow.length
+
+    // Slowly decaying peak tracker (~3 s time constant) so amplitude changes are followed
+    this.peakLevel *= 1 - 1 / (3 * this.sampleRate)
+    if (integrated > this.peakLevel) this.peakLevel = integrated
+
+    const refractory = Math.round(REFRACTORY_SECONDS * this.sampleRate)
+    const threshold = this.peakLevel * 0.4
+
+    if (integrated > threshold && n - this.lastBeatIndex > refractory) {
+      if (!this.candidatePeak || integrated > this.candidatePeak.energy) {
+        this.candidatePeak = { index: n, energy: integrated }
+      }
+    } else if (this.candidatePeak && integrated < threshold) {
+      // Energy fell below threshold: the candidate is a beat. Locate the R peak
+      // (largest absolute deflection) in the integration window preceding it.
+      const rPeak = this.findRPeak(this.candidatePeak.index - windowLength, this.candidatePeak.index)
+      this.registerBeat(rPeak)
+      this.candidatePeak = null
+    }
+  }
+
+  private findRPeak(start: number, end: number): number {
+    let best = end
+    let bestValue = -Infinity
+    for (let i = Math.max(0, start); i <= end; i++) {
+      const value = Math.abs(this.input[i % this.bufferSize])
+      if (value > bestValue) {
+        bestValue = value
+        best = i
+      }
+    }
+    return best
+  }
+
+  private registerBeat(rPeak: number): void {
+    if (this.lastBeatIndex > -Infinity) {
+      const interval = (rPeak - this.lastBeatIndex) / this.sampleRate
+      this.recentIntervals.push(interval)
+      if (this.recentIntervals.length > 8) this.recentIntervals.shift()
+    }
+    this.lastBeatIndex = rPeak
+    this.beatsDetected++
+
+    // Beats too close to the start cannot have a full pre-window
+    if (rPeak - this.preSamples >= 0) {
+      this.pendingBeats.push(rPeak)
+    }
+  }
+
+  /**
+   * Align the template to the beat, subtract the scaled template from the
+   * residual, then fold the beat into the running average
+   */
+  private subtractBeat(rPeak: number): void {
+    const aligned = this.templateBeats >= MIN_TEMPLATE_BEATS ? this.alignToTemplate(rPeak) : rPeak
+    const start = aligned - this.preSamples
+    const length = this.template.length
+
+    // A beat confirmed very late (sustained noise) may have left the ring buffer
+    if (this.sampleIndex - start >= this.bufferSize) return
+
+    if (this.templateBeats >= MIN_TEMPLATE_BEATS) {
+      // Least-squares gain tracks respiration-induced amplitude modulation
+      let dot = 0
+      let norm = 0
+      for (let k = 0; k < length; k++) {
+        const segment = this.input[(start + k) % this.bufferSize]
+        dot += segment * this.template[k]
+        norm += this.template[k] * this.template[k]
+      }
+      const gain = norm > 0 ? Math.max(0.5, Math.min(1.5, dot / norm)) : 1
+
+      // Subtract the template relative to a straight line between its edges, so
+      // the residual baseline stays continuous between beat windows
+      const edge = Math.min(5, Math.floor(length / 4))
+      let head = 0
+      let tail = 0
+      for (let k = 0; k < edge; k++) {
+        head += this.template[k] / edge
+        tail += this.template[length - 1 - k] / edge
+      }
+      for (let k = 0; k < length; k++) {
+        const baseline = head + (tail - head) * (k / (length - 1))
+        this.residual[(start + k) % this.bufferSize] -= gain * (this.template[k] - baseline)
+      }
+    }
+
+    // Running average: plain mean until averagingBeats, exponential afterwards
+    const weight = 1 / Math.min(this.templateBeats + 1, this.averagingBeats)
+    for (let k = 0; k < length; k++) {
+      const segment = this.input[(start + k) % this.bufferSize]
+      this.template[k] += weight * (segment - this.template[k])
+    }
+    this.templateBeats++
+  }
+
+  /**
+   * Shift the beat by up to ±ALIGNMENT_SEARCH samples to maximise correlation
+   * with the current template
+   */
+  private alignToTemplate(rPeak: number): number {
+    let bestShift = 0
+    let bestCorrelation = -Infinity
+    for (let shift = -ALIGNMENT_SEARCH; shift <= ALIGNMENT_SEARCH; shift++) {
+      const start = rPeak + shift - this.preSamples
+      if (start < 0 || rPeak + shift + this.postSamples >= this.sampleIndex + 1) continue
+      let correlation = 0
+      for (let k = 0; k < this.template.length; k++) {
+        correlation += this.input[(start + k) % this.bufferSize] * this.template[k]
+      }
+      if (correlation > bestCorrelation) {
+        bestCorrelation = correlation
+        bestShift = shift
+      }
+    }
+    return rPeak + bestShift
+  }
+
+  private applyDCBlocker(x: number): number {
+    const y = x - this.dcState.x1 + 0.99 * this.dcState.y1
+    this.dcState.x1 = x
+    this.dcState.y1 = y
+    return y
+  }
+
+  /**
+   * Number of samples between an input sample and its fetal residual output
+   */
+  getLatencySamples(): number {
+    return this.latency
+  }
+
+  getStatus(): TemplateExtractorStatus {
+    const avgInterval = this.recentIntervals.length > 0
+      ? this.recentIntervals.reduce((a, b) => a + b, 0) / this.recentIntervals.length
+      : 0
+
+    return {
+      beatsDetected: this.beatsDetected,
+      templateBeats: Math.min(this.templateBeats, this.averagingBeats),
+      maternalRate: avgInterval > 0 ? Math.round(60 / avgInterval) : 0,
+      isTemplateReady: this.templateBeats >= MIN_TEMPLATE_BEATS,
+      latencySeconds: this.latency / this.sampleRate
+    }
+  }
+
+  /**
+   * Reset template and detector (call when starting a new recording)
+   */
+  reset(): void {
+    this.input.fill(0)
+    this.residual.fill(0)
+    this.template.fill(0)
+    this.templateBeats = 0
+    this.sampleIndex = 0
+    this.dcState = { x1: 0, y1: 0 }
+    this.energyWindow = []
+    this.energySum = 0
+    this.peakLevel = 0
+    this.candidatePeak = null
+    this.lastBeatIndex = -Infinity
+    this.pendingBeats = []
+    this.beatsDetected = 0
+    this.recentIntervals = []
+  }
+}
+
+/**
+ * Create a pre-configured template subtractor for single-lead fetal extraction
+ */
+export function createMaternalTemplateSubtractor(sampleRate: number = 250): MaternalTemplateSubtractor {
+  return new MaternalTemplateSubtractor({ sampleRate })
+}
@@ -0,0 +1,369 @@
+/**
+ * WFDB Format
+ *
+ * Reads and writes PhysioNet WFDB records in the browser:
+ * - Header (.hea): record line plus one line per signal (file, format, gain,
+ *   baseline, units, ADC settings, description)
+ * - Signal files in format 16 (little-endian 16-bit) and 212 (two 12-bit
+ *   samples packed in three bytes), interleaved frame by frame
+ * - MIT annotation files (.atr, .qrs, ...): 16-bit words of a 6-bit code and a
+ *   10-bit sample interval, with SKIP/NUM/SUB/CHN/AUX pseudo-annotations
+ *
+ * Spec: https://physionet.org/physiotools/wag/header-5.htm, signal-5.htm, annot-5.htm
+ */
+
+export type WFDBFormat = 16 | 212
+
+export interface WFDBSignalSpec {
+  fileName: string
+  format: WFDBFormat
+  byteOffset: number            // Bytes to skip at the start of the file
+  gain: number                  // ADC units per physical unit
+  baseline: number              // ADC value of physical zero
+  units: string
+  adcResolution: number         // Bits
+  adcZero: number
+  initialValue: number
+  checksum: number
+  description: string
+}
+
+export interface WFDBHeader {
+  recordName: string
+  sampleRate: number            // Hz
+  sampleCount: number           // Samples per signal (0 = unknown)
+  baseTime: string | null       // hh:mm:ss as written in the header
+  baseDate: string | null       // dd/mm/yyyy
+  signals: WFDBSignalSpec[]
+  comments: string[]
+}
+
+export interface WFDBSignal {
+  label: string                 // Signal description
+  units: string
+  sampleRate: number
+  samples: Float32Array         // Physical values
+}
+
+export interface WFDBAnnotation {
+  sample: number                // Sample number of the annotation
+  code: number                  // Annotation type (see ANNOTATION_SYMBOLS)
+  subtype: number
+  chan: number
+  num: number
+  aux: string                   // Auxiliary text ('' if none)
+}
+
+// Annotation type codes written by this app
+export const WFDB_NORMAL = 1
+export const WFDB_NOTE = 22
+
+// Mnemonics of the common annotation codes (ecgcodes.h)
+export const ANNOTATION_SYMBOLS: Record<number, string> = {
+  1: 'N', 2: 'L', 3: 'R', 4: 'a', 5: 'V', 6: 'F', 7: 'J', 8: 'A', 9: 'S', 10: 'E',
+  11: 'j', 12: '/', 13: 'Q', 14: '~', 16: '|', 18: 's', 19: 'T', 20: '*', 21: 'D',
+  22: '"', 23: '=', 24: 'p', 25: 'B', 26: '^', 27: 't', 28: '+', 29: 'u', 30: '?',
+  31: '!', 32: '[', 33: ']', 34: 'e', 35: 'n', 36: '@', 37: 'x', 38: 'f', 39: '(', 40: ')', 41: 'r'
+}
+
+// Pseudo-annotation codes of the MIT format
+const SKIP = 59
+const NUM = 60
+const SUB = 61
+const CHN = 62
+const AUX = 63
+
+const DEFAULT_GAIN = 200
+const DEFAULT_SAMPLE_RATE = 250
+
+/**
+ * Parse a .hea header (single-segment records only)
+ */
+export function parseWFDBHeader(text: string): WFDBHeader {
+  const lines = text.split(/\r?\n/)
+  const comments = lines.filter(line => line.startsWith('#')).map(line => line.slice(1).trim())
+  const fields = lines.filter(line => line.trim() && !line.startsWith('#')).map(line => line.trim().split(/\s+/))
+  if (fields.length === 0) {
+    throw new Error('Empty WFDB header')
+  }
+
+  const [recordField, signalCountField, rateField, sampleCountField, baseTime, baseDate] = fields[0]
+  if (recordField.includes('/')) {
+    throw new Error('Multi-segment WFDB records are not supported')
+  }
+  const signalCount = Number(signalCountField)
+  if (!Number.isInteger(signalCount) || signalCount < 1) {
+    throw new Error('WFDB header has no signals')
+  }
+  if (fields.length < signalCount + 1) {
+    throw new Error(`WFDB header lists ${signalCount} signals but describes ${fields.length - 1}`)
+  }
+
+  // Sampling frequency may carry a counter frequency and base counter: "360/2(0)"
+  const sampleRate = rateField ? parseFloat(rateField.split('/')[0]) : DEFAULT_SAMPLE_RATE
+
+  const signals = fields.slice(1, signalCount + 1).map(parts => parseSignalLine(parts))
+  return {
+    recordName: recordField,
+    sampleRate: sampleRate > 0 ? sampleRate : DEFAULT_SAMPLE_RATE,
+    sampleCount: sampleCountField ? Number(sampleCountField) : 0,
+    baseTime: baseTime ?? null,
+    baseDate: baseDate ?? null,
+    signals,
+    comments
+  }
+}
+
+function parseSignalLine(parts: string[]): WFDBSignalSpec {
+  const [fileName, formatField, gainField, resolutionField, zeroField, initialField, checksumField, , ...description] = parts
+
+  const formatMatch = /^(\d+)(?:x(\d+))?(?::(-?\d+))?(?:\+(\d+))?$/.exec(formatField ?? '')
+  if (!formatMatch) {
+    throw new Error(`Invalid WFDB signal format "${formatField}"`)
+  }
+  const format = Number(formatMatch[1])
+  if (format !== 16 && format !== 212) {
+    throw new Error(`WFDB signal format ${format} is not supported (only 16 and 212)`)
+  }
+  if (formatMatch[2] && Number(formatMatch[2]) !== 1) {
+    throw new Error('WFDB signals with several samples per frame are not supported')
+  }
+
+  const adcZero = zeroField !== undefined ? Number(zeroField) : 0
+  // "gain(baseline)/units", each part optional
+  const gainMatch = /^([-\d.e+]+)?(?:\((-?\d+)\))?(?:\/(\S+))?$/.exec(gainField ?? '')
+  const gain = gainMatch?.[1] ? Number(gainMatch[1]) : 0
+
+  return {
+    fileName,
+    format: format as WFDBFormat,
+    byteOffset: formatMatch[4] ? Number(formatMatch[4]) : 0,
+    gain: gain > 0 ? gain : DEFAULT_GAIN,
+    baseline: gainMatch?.[2] !== undefined ? Number(gainMatch[2]) : adcZero,
+    units: gainMatch?.[3] ?? 'mV',
+    adcResolution: resolutionField !== undefined ? Number(resolutionField) : (format === 212 ? 12 : 16),
+    adcZero,
+    initialValue: initialField !== undefined ? Number(initialField) : 0,
+    checksum: checksumField !== undefined ? Number(checksumField) : 0,
+    description: description.join(' ')
+  }
+}
+
+/**
+ * Decode a record's signals; `files` maps signal file names to their contents
+ */
+export function readWFDBSignals(header: WFDBHeader, files: Map<string, ArrayBuffer>): WFDBSignal[] {
+  const result: Float32Array[] = new Array(header.signals.length)
+
+  // Signals sharing a file are interleaved in it, in header order
+  const byFile = new Map<string, number[]>()
+  header.signals.forEach((spec, s) => byFile.set(spec.fileName, [...(byFile.get(spec.fileName) ?? []), s]))
+
+  for (const [fileName, indices] of byFile) {
+    const buffer = files.get(fileName)
+    if (!buffer) {
+      throw new Error(`Signal file ${fileName} is missing`)
+    }
+    const first = header.signals[indices[0]]
+    if (indices.some(s => header.signals[s].format !== first.format)) {
+      throw new Error(`Signals in ${fileName} use different formats`)
+    }
+
+    const bytes = new Uint8Array(buffer, first.byteOffset)
+    const values = first.format === 16 ? decodeFormat16(bytes) : decodeFormat212(bytes)
+    const frames = Math.floor(values.length / indices.length)
+    const length = header.sampleCount > 0 ? Math.min(header.sampleCount, frames) : frames
+
+    indices.forEach((s, column) => {
+      const { gain, baseline } = header.signals[s]
+      const samples = new Float32Array(length)
+      for (let i = 0; i < length; i++) {
+        samples[i] = (values[i * indices.length + column] - baseline) / gain
+      }
+      result[s] = samples
+    })
+  }
+
+  return header.signals.map((spec, s) => ({
+    label: spec.description || `Signal ${s}`,
+    units: spec.units,
+    sampleRate: header.sampleRate,
+    samples: result[s]
+  }))
+}
+
+function decodeFormat16(bytes: Uint8Array): Int16Array {
+  const values = new Int16Array(Math.floor(bytes.length / 2))
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  for (let i = 0; i < values.length; i++) {
+    values[i] = view.getInt16(i * 2, true)
+  }
+  return values
+}
+
+function decodeFormat212(bytes: Uint8Array): Int16Array {
+  const values = new Int16Array(Math.floor(bytes.length / 3) * 2)
+  for (let i = 0, j = 0; j < values.length; i += 3, j += 2) {
+    const first = bytes[i] | ((bytes[i + 1] & 0x0f) << 8)
+    const second = bytes[i + 2] | ((bytes[i + 1] & 0xf0) << 4)
+    // Sign-extend the 12-bit values
+    values[j] = (first << 20) >> 20
+    values[j + 1] = (second << 20) >> 20
+  }
+  return values
+}
+
+/**
+ * Decode an MIT-format annotation file
+ */
+export function readWFDBAnnotations(buffer: ArrayBuffer): WFDBAnnotation[] {
+  const bytes = new Uint8Array(buffer)
+  const annotations: WFDBAnnotation[] = []
+  let sample = 0
+  let chan = 0
+  let num = 0
+  let offset = 0
+
+  const word = (at: number) => bytes[at] | (bytes[at + 1] << 8)
+
+  while (offset + 1 < bytes.length) {
+    const value = word(offset)
+    offset += 2
+    const code = value >> 10
+    const data = value & 0x3ff
+    const last = annotations[annotations.length - 1]
+
+    if (code === 0 && data === 0) break
+    switch (code) {
+      case SKIP:
+        // 32-bit interval, high 16 bits first ("PDP-11" order)
+        sample += ((word(offset) << 16) | word(offset + 2))
+        offset += 4
+        break
+      case NUM:
+        num = data
+        if (last) last.num = data
+        break
+      case SUB:
+        if (last) last.subtype = data
+        break
+      case CHN:
+        chan = data
+        if (last) last.chan = data
+        break
+      case AUX: {
+        const text = String.fromCharCode(...bytes.subarray(offset, offset + data)).replace(/\0+$/, '')
+        if (last) last.aux = text
+        offset += data + (data % 2) // Padded to an even length
+        break
+      }
+      default:
+        sample += data
+        annotations.push({ sample, code, subtype: 0, chan, num, aux: '' })
+    }
+  }
+
+  return annotations
+}
+
+/**
+ * Encode annotations (sorted by sample) as an MIT-format annotation file
+ */
+export function writeWFDBAnnotations(annotations: WFDBAnnotation[]): Uint8Array<ArrayBuffer> {
+  const out: number[] = []
+  const pushWord = (value: number) => out.push(value & 0xff, (value >> 8) & 0xff)
+  let previous = 0
+  let chan = 0
+  let num = 0
+
+  for (const annotation of annotations) {
+    const interval = annotation.sample - previous
+    if (interval < 0 || interval > 0x3ff) {
+      pushWord(SKIP << 10)
+      pushWord((interval >> 16) & 0xffff)
+      pushWord(interval & 0xffff)
+      pushWord(annotation.code << 10)
+    } else {
+      pushWord((annotation.code << 10) | interval)
+    }
+    previous = annotation.sample
+
+    if (annotation.subtype !== 0) pushWord((SUB << 10) | (annotation.subtype & 0x3ff))
+    if (annotation.chan !== chan) {
+      pushWord((CHN << 10) | (annotation.chan & 0x3ff))
+      chan = annotation.chan
+    }
+    if (annotation.num !== num) {
+      pushWord((NUM << 10) | (annotation.num & 0x3ff))
+      num = annotation.num
+    }
+    if (annotation.aux) {
+      // Plain ASCII, at most 255 bytes
+      const aux = Array.from(annotation.aux.slice(0, 255), char => char.charCodeAt(0) < 0x80 ? char.charCodeAt(0) : 0x3f)
+      pushWord((AUX << 10) | aux.length)
+      out.push(...aux)
+      if (aux.length % 2) out.push(0)
+    }
+  }
+  pushWord(0)
+
+  return Uint8Array.from(out)
+}
+
+/**
+ * Encode signals (physical values) as one format-16 file; returns the header
+ * text and the signal file contents. Gains are chosen per signal so
+ * each signal's range uses most of the 16-bit range.
+ */
+export function writeWFDBRecord(
+  recordName: string,
+  sampleRate: number,
+  signals: Array<{ label: string, units: string, samples: Float32Array }>,
+  startTime: Date | null = null,
+  comments: string[] = []
+): { header: string, data: Uint8Array<ArrayBuffer> } {
+  const length = Math.min(...signals.map(signal => signal.samples.length))
+  const fileName = `${recordName}.dat`
+
+  const scaled = signals.map(signal => {
+    let peak = 0
+    for (let i = 0; i < length; i++) peak = Math.max(peak, Math.abs(signal.samples[i]))
+    // Leave headroom below the largest 16-bit value; -32768 is WFDB's invalid-sample marker
+    const gain = Number((peak > 0 ? 32000 / peak : DEFAULT_GAIN).toPrecision(6))
+    const digital = new Int16Array(length)
+    let checksum = 0
+    for (let i = 0; i < length; i++) {
+      digital[i] = Math.max(-32767, Math.min(32767, Math.round(signal.samples[i] * gain)))
+      checksum += digital[i]
+    }
+    return { ...signal, gain, digital, checksum: ((checksum % 65536) + 65536 + 32768) % 65536 - 32768 }
+  })
+
+  const data = new Uint8Array(length * signals.length * 2)
+  const view = new DataView(data.buffer)
+  for (let i = 0; i < length; i++) {
+    scaled.forEach((signal, s) => view.setInt16((i * signals.length + s) * 2, signal.digital[i], true))
+  }
+
+  const pad = (value: number) => String(value).padStart(2, '0')
+  const start = startTime
+    ? ` ${pad(startTime.getHours())}:${pad(startTime.getMinutes())}:${pad(startTime.getSeconds())} ${pad(startTime.getDate())}/${pad(startTime.getMonth() + 1)}/${startTime.getFullYear()}`
+    : ''
+  const lines = [
+    `${recordName} ${signals.length} ${sampleRate} ${length}${start}`,
+    ...scaled.map(signal => [
+      fileName,
+      '16',
+      `${signal.gain}(0)/${signal.units.replace(/\s+/g, '_') || 'mV'}`,
+      '16',
+      '0',
+      String(signal.digital[0] ?? 0),
+      String(signal.checksum),
+      '0',
+      signal.label
+    ].join(' ')),
+    ...comments.map(comment => `# ${comment}`)
+  ]
+
+  return { header: lines.join('\n') + '\n', data }
+}
@@ -0,0 +1,108 @@
+/**
+ * WFDB Session Export
+ *
+ * Writes a stored session as a WFDB record that PhysioNet tools (WAVE, wfdb-python,
+ * LightWAVE) can open:
+ * - <record>.hea / <record>.dat: maternal, abdominal and fetal traces, format 16
+ * - <record>.mqrs / <record>.fqrs: maternal and fetal beats found by the QRS detector
+ * - <record>.atr: contraction marks and alarm events as NOTE annotations
+ */
+
+import { writeWFDBRecord, writeWFDBAnnotations, WFDBAnnotation, WFDB_NORMAL, WFDB_NOTE } from './wfdb'
+import { getSession, getSessionSamples, getSessionEvents, getSessionAnnotations } from './dataStorage'
+import { detectQRS, QRSProfileName } from './qrsDetector'
+import { EDF_CHANNEL_LABELS, channelSamples } from './edfExport'
+
+export interface WFDBFile {
+  name: string
+  data: BlobPart
+}
+
+function beatAnnotations(samples: Float32Array, profile: QRSProfileName, sampleRate: number): WFDBAnnotation[] {
+  return detectQRS(Array.from(samples), profile, sampleRate).map(beat => ({
+    sample: beat.index,
+    code: WFDB_NORMAL,
+    subtype: 0,
+    chan: 0,
+    num: 0,
+    aux: ''
+  }))
+}
+
+/**
+ * Encode a stored session; resolves with the record's files
+ */
+export async function sessionToWFDB(sessionId: number): Promise<WFDBFile[]> {
+  const [session, samples, events, annotations] = await Promise.all([
+    getSession(sessionId),
+    getSessionSamples(sessionId),
+    getSessionEvents(sessionId),
+    getSessionAnnotations(sessionId)
+  ])
+  if (!session) {
+    throw new Error(`Session ${sessionId} not found`)
+  }
+
+  const traced = samples.filter(sample => sample.mother !== null && sample.combined !== null && sample.fetus !== null)
+  if (traced.length === 0) {
+    throw new Error('This session has no stored waveform to export')
+  }
+
+  const length = traced[traced.length - 1].index + 1
+  const mother = channelSamples(traced, 'mother', length)
+  const combined = channelSamples(traced, 'combined', length)
+  const fetus = channelSamples(traced, 'fetus', length)
+
+  const recordName = `session${sessionId}`
+  const comments = [
+    `Patient: ${session.patientId || 'unknown'}`,
+    `Operator: ${session.operator || 'unknown'}`,
+    `Source: ${session.dataSource ?? 'unknown'}${session.signalPair ? ` (${session.signalPair})` : ''}`,
+    `Fetal extraction: ${session.fetalExtraction ?? 'unknown'}`,
+    'Recorded with FetalEKGMonitor'
+  ]
+  const { header, data } = writeWFDBRecord(recordName, session.sampleRate, [
+    { label: EDF_CHANNEL_LABELS.mother, units: 'a.u.', samples: mother },
+    { label: EDF_CHANNEL_LABELS.combined, units: 'a.u.', samples: combined },
+    { label: EDF_CHANNEL_LABELS.fetus, units: 'a.u.', samples: fetus }
+  ], new Date(session.startedAt), comments)
+
+  const notes: WFDBAnnotation[] = [
+    ...annotations.map(annotation => ({ time: annotation.time, text: annotation.text })),
+    ...events.map(event => ({ time: event.time, text: `${event.kind}${event.source ? ` ${event.source}` : ''}: ${event.status ?? event.priority ?? ''} ${event.message}`.trim() }))
+  ]
+    .sort((a, b) => a.time - b.time)
+    .map(note => ({
+      sample: Math.min(length - 1, Math.max(0, Math.round(note.time * session.sampleRate))),
+      code: WFDB_NOTE,
+      subtype: 0,
+      chan: 0,
+      num: 0,
+      aux: note.text
+    }))
+
+  return [
+    { name: `${recordName}.hea`, data: header },
+    { name: `${recordName}.dat`, data },
+    { name: `${recordName}.mqrs`, data: writeWFDBAnnotations(beatAnnotations(mother, 'maternal', session.sampleRate)) },
+    { name: `${recordName}.fqrs`, data: writeWFDBAnnotations(beatAnnotations(fetus, 'fetal', session.sampleRate)) },
+    { name: `${recordName}.atr`, data: writeWFDBAnnotations(notes) }
+  ]
+}
+
+/**
+ * Export a stored session and download each file of the WFDB record
+ */
+export async function exportSessionToWFDB(sessionId: number): Promise<void> {
+  const files = await sessionToWFDB(sessionId)
+  for (const file of files) {
+    const url = window.URL.createObjectURL(new Blob([file.data], { type: 'application/octet-stream' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = file.name
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    window.URL.revokeObjectURL(url)
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Serial Worker
+ *
+ * Runs the serial pipeline (parsing, ring buffer, noise filter) in its own
+ * thread: the main thread forwards the bytes it reads and receives sample
+ * batches, so a slow render can't stall the stream.
+ */
+
+import { SerialWorkerRequest, createSerialPipeline } from '../utils/serialPipeline'
+
+const pipeline = createSerialPipeline((message, transfer) => self.postMessage(message, { transfer }))
+
+self.onmessage = (event: MessageEvent<SerialWorkerRequest>) => pipeline.handle(event.data)